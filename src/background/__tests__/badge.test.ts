@@ -0,0 +1,65 @@
+import { describe, it, expect } from "vitest";
+import { formatBadgeTime, badgeFor } from "../badge";
+
+// ─── formatBadgeTime ──────────────────────────────────────────────────────────
+
+describe("formatBadgeTime", () => {
+  it("shows <1m under a minute", () => {
+    expect(formatBadgeTime(0)).toBe("<1m");
+    expect(formatBadgeTime(59)).toBe("<1m");
+  });
+
+  it("shows whole minutes under an hour", () => {
+    expect(formatBadgeTime(60)).toBe("1m");
+    expect(formatBadgeTime(12 * 60 + 59)).toBe("12m");
+    expect(formatBadgeTime(59 * 60 + 59)).toBe("59m");
+  });
+
+  it("shows whole hours from an hour up", () => {
+    expect(formatBadgeTime(3600)).toBe("1h");
+    expect(formatBadgeTime(2 * 3600 + 59 * 60)).toBe("2h");
+  });
+});
+
+// ─── badgeFor ─────────────────────────────────────────────────────────────────
+
+describe("badgeFor", () => {
+  it("marks a blocked site", () => {
+    expect(badgeFor({ blocked: true, mode: "block" }, false).text).toBe("✕");
+  });
+
+  it("marks a site blocked by Locked In Mode as LOCK", () => {
+    expect(badgeFor({ blocked: true, lockedIn: true }, true).text).toBe("LOCK");
+  });
+
+  it("prefers the blocked marker over time left", () => {
+    expect(badgeFor({ blocked: true, remainingSeconds: 0 }, false).text).toBe("✕");
+  });
+
+  it("shows time left on a limited site", () => {
+    expect(badgeFor({ blocked: false, remainingSeconds: 12 * 60 }, false).text).toBe("12m");
+  });
+
+  it("shows time left over LOCK when an allowed site is also limited", () => {
+    expect(badgeFor({ blocked: false, remainingSeconds: 90 }, true).text).toBe("1m");
+  });
+
+  it("shows LOCK on an allowed site during a Locked In session", () => {
+    expect(badgeFor({ blocked: false }, true).text).toBe("LOCK");
+    expect(badgeFor(null, true).text).toBe("LOCK");
+  });
+
+  it("hides the badge otherwise", () => {
+    expect(badgeFor({ blocked: false }, false).text).toBe("");
+    expect(badgeFor(null, false).text).toBe("");
+  });
+
+  it("uses a distinct color for each state", () => {
+    const colors = new Set([
+      badgeFor({ blocked: true }, false).color,
+      badgeFor({ blocked: false, remainingSeconds: 600 }, false).color,
+      badgeFor(null, true).color,
+    ]);
+    expect(colors.size).toBe(3);
+  });
+});
@@ -0,0 +1,139 @@
+import { describe, it, expect, vi } from "vitest";
+import { idleAction, applyIdleState, pollIdleState, watchIdle } from "../idle";
+import type { IdleHandlers, IdleSource, IdleState } from "../idle";
+import type { IdleDetectionSettings } from "../../core/types";
+import { DEFAULT_IDLE_DETECTION } from "../../core/types";
+
+// ─── Fakes ────────────────────────────────────────────────────────────────────
+
+function makeHandlers(
+  settings: Partial<IdleDetectionSettings> = {},
+  audible = false,
+): IdleHandlers & { pause: ReturnType<typeof vi.fn>; resume: ReturnType<typeof vi.fn> } {
+  return {
+    getSettings: async () => ({ ...DEFAULT_IDLE_DETECTION, enabled: true, ...settings }),
+    isTrackedTabAudible: async () => audible,
+    pause: vi.fn(async () => {}),
+    resume: vi.fn(async () => {}),
+  };
+}
+
+function makeSource(initial: IdleState = "active") {
+  let listener: ((state: IdleState) => void) | null = null;
+  let state = initial;
+  const source: IdleSource & { setDetectionInterval: ReturnType<typeof vi.fn> } = {
+    setDetectionInterval: vi.fn(),
+    queryState: async () => state,
+    onStateChanged: (l) => {
+      listener = l;
+    },
+  };
+  return {
+    source,
+    /** Change the state and fire the change event, like chrome.idle does. */
+    emit(next: IdleState) {
+      state = next;
+      listener?.(next);
+    },
+  };
+}
+
+/** Let queued promise callbacks run. */
+const settle = () => new Promise((r) => setTimeout(r, 0));
+
+const NOW = 1_700_000_000_000;
+
+/** Idle detection turned on (it is off by default). */
+const ON: IdleDetectionSettings = { ...DEFAULT_IDLE_DETECTION, enabled: true };
+
+// ─── idleAction ───────────────────────────────────────────────────────────────
+
+describe("idleAction", () => {
+  it("pauses on idle and lock, resumes on activity", () => {
+    expect(idleAction("idle", ON, false)).toBe("pause");
+    expect(idleAction("locked", ON, false)).toBe("pause");
+    expect(idleAction("active", ON, false)).toBe("resume");
+  });
+
+  it("keeps counting an idle user whose tab plays media", () => {
+    expect(idleAction("idle", ON, true)).toBe("none");
+  });
+
+  it("pauses idle media tabs when the media option is off", () => {
+    expect(idleAction("idle", { ...ON, countWhilePlayingMedia: false }, true)).toBe("pause");
+  });
+
+  it("always pauses on lock, even with media playing", () => {
+    expect(idleAction("locked", ON, true)).toBe("pause");
+  });
+
+  it("never pauses when detection is disabled", () => {
+    const off = { ...DEFAULT_IDLE_DETECTION, enabled: false };
+    expect(idleAction("idle", off, false)).toBe("resume");
+    expect(idleAction("locked", off, false)).toBe("resume");
+  });
+
+  it("is off by default, so upgrading does not change what is counted", () => {
+    expect(idleAction("idle", DEFAULT_IDLE_DETECTION, false)).toBe("resume");
+  });
+});
+
+// ─── applyIdleState ───────────────────────────────────────────────────────────
+
+describe("applyIdleState", () => {
+  it("backdates an idle pause by the threshold", async () => {
+    const handlers = makeHandlers({ thresholdSeconds: 120 });
+    await applyIdleState("idle", handlers, NOW);
+    expect(handlers.pause).toHaveBeenCalledWith(NOW - 120_000);
+  });
+
+  it("pauses a lock at the current time", async () => {
+    const handlers = makeHandlers();
+    await applyIdleState("locked", handlers, NOW);
+    expect(handlers.pause).toHaveBeenCalledWith(NOW);
+  });
+
+  it("does nothing for an idle user with audible media", async () => {
+    const handlers = makeHandlers({}, true);
+    expect(await applyIdleState("idle", handlers, NOW)).toBe("none");
+    expect(handlers.pause).not.toHaveBeenCalled();
+    expect(handlers.resume).not.toHaveBeenCalled();
+  });
+});
+
+// ─── watchIdle / pollIdleState ────────────────────────────────────────────────
+
+describe("watchIdle", () => {
+  it("applies the configured threshold and follows state changes", async () => {
+    const { source, emit } = makeSource();
+    const handlers = makeHandlers({ thresholdSeconds: 300 });
+    watchIdle(source, handlers, () => {});
+    await settle();
+    expect(source.setDetectionInterval).toHaveBeenCalledWith(300);
+
+    emit("locked");
+    await settle();
+    expect(handlers.pause).toHaveBeenCalledTimes(1);
+
+    emit("active");
+    await settle();
+    expect(handlers.resume).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe("pollIdleState", () => {
+  it("pauses once media stops while the user is still idle", async () => {
+    const { source } = makeSource("idle");
+    let audible = true;
+    const handlers: IdleHandlers = {
+      ...makeHandlers(),
+      isTrackedTabAudible: async () => audible,
+    };
+    handlers.pause = vi.fn(async () => {});
+
+    expect(await pollIdleState(source, handlers, NOW)).toBe("none");
+    audible = false;
+    expect(await pollIdleState(source, handlers, NOW)).toBe("pause");
+    expect(handlers.pause).toHaveBeenCalledTimes(1);
+  });
+});
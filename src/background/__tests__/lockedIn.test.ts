@@ -0,0 +1,136 @@
+import { describe, it, expect } from "vitest";
+import { resolveLockedInSession, nextLockedInTransition } from "../lockedIn";
+import { DEFAULT_SETTINGS } from "../../core/types";
+import type { LockedInSession, RecurringLockedIn, Settings } from "../../core/types";
+
+// ─── Helpers ──────────────────────────────────────────────────────────────────
+
+/** 2024-01-08 is a Monday; `day` counts from it. */
+function at(day: number, hour: number, minute = 0): number {
+  return new Date(2024, 0, 8 + day, hour, minute).getTime();
+}
+
+const MORNING: RecurringLockedIn = {
+  id: "morning",
+  name: "Deep work",
+  enabled: true,
+  schedule: { enabled: true, days: [1, 2, 3, 4, 5], startMinutes: 540, endMinutes: 690 },
+  sourceGroupId: "work",
+  allowedDomains: [],
+};
+
+function makeSettings(session?: LockedInSession, recurring = [MORNING]): Settings {
+  return {
+    ...DEFAULT_SETTINGS,
+    groups: [{ id: "work", name: "Work", domains: ["notion.so"], mode: "block", enabled: true }],
+    lockedInSession: session,
+    recurringLockedIn: recurring,
+  };
+}
+
+function manual(startTs: number, endTs: number, active = true): LockedInSession {
+  return { active, startTs, endTs, allowedDomains: ["docs.com"] };
+}
+
+// ─── resolveLockedInSession ───────────────────────────────────────────────────
+
+describe("resolveLockedInSession", () => {
+  it("starts a recurring session with the group domains when its window opens", () => {
+    const { session } = resolveLockedInSession(makeSettings(), at(0, 9));
+    expect(session).toEqual({
+      active: true,
+      startTs: at(0, 9),
+      endTs: at(0, 11, 30),
+      allowedDomains: ["notion.so"],
+      sourceGroupId: "work",
+      recurringId: "morning",
+    });
+  });
+
+  it("does nothing outside the window", () => {
+    const settings = makeSettings();
+    expect(resolveLockedInSession(settings, at(0, 12)).session).toBe(settings.lockedInSession);
+  });
+
+  it("never replaces a running manual session", () => {
+    const running = manual(at(0, 8, 30), at(0, 10));
+    const { session } = resolveLockedInSession(makeSettings(running), at(0, 9));
+    expect(session).toBe(running);
+  });
+
+  it("starts the recurring session for the rest of the window once the manual one ends", () => {
+    const ended = manual(at(0, 8, 30), at(0, 10));
+    const { session, completed } = resolveLockedInSession(makeSettings(ended), at(0, 10));
+    expect(completed).toBe(ended);
+    expect(session?.recurringId).toBe("morning");
+    expect(session?.startTs).toBe(at(0, 10));
+    expect(session?.endTs).toBe(at(0, 11, 30));
+  });
+
+  it("ends a recurring session at the end of its window", () => {
+    const first = resolveLockedInSession(makeSettings(), at(0, 9)).session;
+    const { session, completed } = resolveLockedInSession(makeSettings(first), at(0, 11, 30));
+    expect(completed).toBe(first);
+    expect(session?.active).toBe(false);
+  });
+
+  it("does not restart a recurring session ended early in the same window", () => {
+    const started = resolveLockedInSession(makeSettings(), at(0, 9)).session!;
+    const endedEarly = { ...started, active: false };
+    const { session } = resolveLockedInSession(makeSettings(endedEarly), at(0, 10));
+    expect(session).toBe(endedEarly);
+  });
+});
+
+// ─── nextLockedInTransition ───────────────────────────────────────────────────
+
+describe("nextLockedInTransition", () => {
+  it("returns the next recurring start", () => {
+    expect(nextLockedInTransition(makeSettings(), at(0, 12))).toBe(at(1, 9));
+  });
+
+  it("returns the active session end when it comes first", () => {
+    expect(nextLockedInTransition(makeSettings(manual(at(0, 7), at(0, 8))), at(0, 7, 30))).toBe(at(0, 8));
+  });
+
+  it("returns null when nothing is scheduled", () => {
+    expect(nextLockedInTransition(makeSettings(undefined, []), at(0, 12))).toBeNull();
+  });
+});
+
+// ─── Pomodoro sessions ────────────────────────────────────────────────────────
+
+describe("Pomodoro sessions", () => {
+  const pomodoro = {
+    cycles: 2,
+    focusMinutes: 25,
+    shortBreakMinutes: 5,
+    longBreakMinutes: 15,
+    longBreakEvery: 4,
+    breakAllowedDomains: [],
+  };
+  const running: LockedInSession = { ...manual(at(0, 13), at(0, 13, 55)), pomodoro };
+
+  it("credits each focus interval once as it finishes", () => {
+    const first = resolveLockedInSession(makeSettings(running, []), at(0, 13, 26));
+    expect(first.newCycles).toBe(1);
+    expect(first.session?.creditedCycles).toBe(1);
+
+    const again = resolveLockedInSession(makeSettings(first.session, []), at(0, 13, 28));
+    expect(again.newCycles).toBeUndefined();
+    expect(again.session).toBe(first.session);
+  });
+
+  it("credits the final interval together with completion", () => {
+    const credited = { ...running, creditedCycles: 1 };
+    const { session, completed, newCycles } = resolveLockedInSession(makeSettings(credited, []), at(0, 14));
+    expect(newCycles).toBe(1);
+    expect(completed?.creditedCycles).toBe(2);
+    expect(session?.active).toBe(false);
+  });
+
+  it("re-arms the alarm at the next phase boundary", () => {
+    expect(nextLockedInTransition(makeSettings(running, []), at(0, 13, 10))).toBe(at(0, 13, 25));
+    expect(nextLockedInTransition(makeSettings(running, []), at(0, 13, 26))).toBe(at(0, 13, 30));
+  });
+});
@@ -0,0 +1,76 @@
+import { describe, it, expect } from "vitest";
+import { urlStatus } from "../messages";
+import { DEFAULT_SETTINGS, DEFAULT_EMERGENCY_UNLOCK_DATA } from "../../core/types";
+import type { EmergencyUnlockData, Settings, UsageMap } from "../../core/types";
+
+// ─── Helpers ──────────────────────────────────────────────────────────────────
+
+const NOW = Date.now();
+
+const settings: Settings = {
+  ...DEFAULT_SETTINGS,
+  siteRules: [
+    { domain: "reddit.com", mode: "block", enabled: true },
+    { domain: "twitter.com", mode: "limit", limitMinutes: 30, enabled: true },
+  ],
+};
+
+const usage: UsageMap = {
+  "twitter.com": { activeSeconds: 600, lastUpdated: NOW, windowStartTs: NOW },
+};
+
+const noUnlocks: EmergencyUnlockData = DEFAULT_EMERGENCY_UNLOCK_DATA;
+
+// ─── urlStatus ────────────────────────────────────────────────────────────────
+
+describe("urlStatus", () => {
+  it("reports blocked sites", () => {
+    expect(urlStatus({ hostname: "www.reddit.com" }, settings, usage, noUnlocks, NOW)).toEqual({
+      status: "blocked",
+    });
+  });
+
+  it("reports the time left on limited sites", () => {
+    expect(urlStatus({ hostname: "twitter.com" }, settings, usage, noUnlocks, NOW)).toEqual({
+      status: "limited",
+      remainingSeconds: 20 * 60,
+    });
+  });
+
+  it("reports sites without a rule as open", () => {
+    expect(urlStatus({ hostname: "example.com", path: "/" }, settings, usage, noUnlocks, NOW)).toEqual({
+      status: "open",
+    });
+  });
+
+  it("reports an emergency-unlocked site as open", () => {
+    const unlocks: EmergencyUnlockData = {
+      windowStartTs: NOW,
+      unlocks: [{ domain: "reddit.com", startTs: NOW - 1_000, endTs: NOW + 60_000 }],
+    };
+    expect(urlStatus({ hostname: "reddit.com" }, settings, usage, unlocks, NOW)).toEqual({
+      status: "open",
+    });
+  });
+
+  it("does not let an unlock open a site during a hard-locked session", () => {
+    const unlocks: EmergencyUnlockData = {
+      windowStartTs: NOW,
+      unlocks: [{ domain: "reddit.com", startTs: NOW - 1_000, endTs: NOW + 60_000 }],
+    };
+    const locked: Settings = {
+      ...settings,
+      lockedInSession: { active: true, startTs: NOW - 1_000, endTs: NOW + 3_600_000, allowedDomains: [], hardLock: true },
+    };
+    expect(urlStatus({ hostname: "reddit.com" }, locked, usage, unlocks, NOW)).toEqual({
+      status: "blocked",
+    });
+  });
+
+  it("reports everything as open while JustDetox is disabled", () => {
+    const off = { ...settings, disabled: true };
+    expect(urlStatus({ hostname: "reddit.com" }, off, usage, noUnlocks, NOW)).toEqual({
+      status: "open",
+    });
+  });
+});
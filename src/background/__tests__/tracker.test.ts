@@ -1,5 +1,5 @@
 import { describe, it, expect } from "vitest";
-import { computeElapsedSeconds } from "../tracker";
+import { computeElapsedSeconds, selectSecondaryTabs } from "../tracker";
 
 // ─── computeElapsedSeconds ────────────────────────────────────────────────────
 
@@ -70,3 +70,50 @@ describe("computeElapsedSeconds", () => {
     expect(computeElapsedSeconds(0, 60_000, 0)).toBe(0);
   });
 });
+
+describe("selectSecondaryTabs", () => {
+  it("keeps one tab per hostname", () => {
+    const picked = selectSecondaryTabs(
+      [
+        { tabId: 1, url: "https://music.com/a" },
+        { tabId: 2, url: "https://music.com/b" },
+        { tabId: 3, url: "https://radio.org/" },
+      ],
+      null,
+    );
+    expect(picked).toEqual([
+      { tabId: 1, domain: "music.com", path: "/a" },
+      { tabId: 3, domain: "radio.org", path: "/" },
+    ]);
+  });
+
+  it("skips the hostname already tracked in the focused tab", () => {
+    const picked = selectSecondaryTabs([{ tabId: 1, url: "https://x.com/feed" }], "x.com");
+    expect(picked).toEqual([]);
+  });
+
+  it("counts a site visible in several windows once", () => {
+    // Active tabs of three visible windows; the focused one already shows x.com.
+    const picked = selectSecondaryTabs(
+      [
+        { tabId: 10, url: "https://x.com/home" },
+        { tabId: 20, url: "https://news.com/" },
+        { tabId: 30, url: "https://news.com/world" },
+      ],
+      "x.com",
+    );
+    expect(picked.map((t) => t.tabId)).toEqual([20]);
+  });
+
+  it("skips untrackable URLs", () => {
+    const picked = selectSecondaryTabs(
+      [
+        { tabId: 1, url: "chrome://settings" },
+        { tabId: 2, url: undefined },
+        { tabId: 3, url: "not a url" },
+      ],
+      null,
+    );
+    expect(picked).toEqual([]);
+  });
+});
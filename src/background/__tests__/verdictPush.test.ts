@@ -0,0 +1,65 @@
+import { describe, it, expect } from "vitest";
+import { recheckTabIds, nextTabsTransition } from "../verdictPush";
+import { DEFAULT_SETTINGS } from "../../core/types";
+import type { Settings } from "../../core/types";
+
+function tab(overrides: Partial<chrome.tabs.Tab>): chrome.tabs.Tab {
+  return { id: 1, url: "https://example.com/", discarded: false, ...overrides } as chrome.tabs.Tab;
+}
+
+// ─── recheckTabIds ────────────────────────────────────────────────────────────
+
+describe("recheckTabIds", () => {
+  it("includes loaded http and https tabs", () => {
+    expect(
+      recheckTabIds([tab({ id: 1 }), tab({ id: 2, url: "http://example.org/a" })]),
+    ).toEqual([1, 2]);
+  });
+
+  it("skips pages without the overlay", () => {
+    expect(
+      recheckTabIds([
+        tab({ id: 1, url: "chrome://extensions/" }),
+        tab({ id: 2, url: "chrome-extension://abc/src/ui/options/options.html" }),
+        tab({ id: 3, url: undefined }),
+      ]),
+    ).toEqual([]);
+  });
+
+  it("skips discarded tabs and tabs without an id", () => {
+    expect(recheckTabIds([tab({ id: 1, discarded: true }), tab({ id: undefined })])).toEqual([]);
+  });
+});
+
+// ─── nextTabsTransition ───────────────────────────────────────────────────────
+
+describe("nextTabsTransition", () => {
+  const now = new Date(2024, 0, 8, 8, 0).getTime();
+  const settings: Settings = {
+    ...DEFAULT_SETTINGS,
+    siteRules: [
+      {
+        domain: "twitter.com",
+        mode: "block",
+        enabled: true,
+        schedule: [{ enabled: true, days: [1], startMinutes: 9 * 60, endMinutes: 10 * 60 }],
+      },
+      {
+        domain: "reddit.com",
+        mode: "block",
+        enabled: true,
+        schedule: [{ enabled: true, days: [1], startMinutes: 8 * 60 + 30, endMinutes: 10 * 60 }],
+      },
+    ],
+  };
+
+  it("returns the earliest boundary of any open page", () => {
+    const urls = ["https://twitter.com/home", "https://www.reddit.com/r/all", "chrome://newtab/", undefined];
+    expect(nextTabsTransition(urls, settings, {}, now)).toBe(new Date(2024, 0, 8, 8, 30).getTime());
+  });
+
+  it("returns null when no page has a boundary or JustDetox is off", () => {
+    expect(nextTabsTransition(["https://example.com/"], settings, {}, now)).toBeNull();
+    expect(nextTabsTransition(["https://twitter.com/"], { ...settings, disabled: true }, {}, now)).toBeNull();
+  });
+});
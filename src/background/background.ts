@@ -4,18 +4,40 @@
  * Kept intentionally minimal: all logic lives in focused modules.
  *   tracker.ts   — time accumulation via tab/window events + chrome.alarms
  *   messages.ts  — content-script message handling (CHECK_URL)
+ *   lockedIn.ts  — Locked In expiry and recurring sessions
+ *   heartbeat.ts — heartbeat and tamper detection
+ *   verdictPush.ts — re-check open tabs on settings changes and schedule boundaries
+ *   badge.ts     — toolbar badge with the tracked site's time left
  */
 
-import { initTracker, recoverState } from "./tracker";
+import { initTracker, recoverState, getTrackedPage } from "./tracker";
 import { registerMessages } from "./messages";
+import { initLockedInSchedule } from "./lockedIn";
+import { initHeartbeat, noteRestartCause } from "./heartbeat";
+import { initVerdictPush } from "./verdictPush";
+import { initBadge } from "./badge";
+import { cacheSettings } from "../core/storage";
 
+// First, so the lifecycle listeners below see this context's session record.
+initHeartbeat();
+// Every CHECK_URL reads settings — keep them in memory until they change.
+cacheSettings();
 initTracker();
 registerMessages();
+initLockedInSchedule();
+initVerdictPush();
+initBadge(getTrackedPage);
 
 // ─── Lifecycle hooks ──────────────────────────────────────────────────────────
 
 // Recover state on browser startup (session storage was cleared).
 chrome.runtime.onStartup.addListener(() => {
+  // A browser start is not a tamper gap.
+  noteRestartCause("browser-start").catch((err) => {
+    // eslint-disable-next-line no-console
+    console.error("[JustDetox] onStartup noteRestartCause:", err);
+  });
+
   recoverState().catch((err) => {
     // eslint-disable-next-line no-console
     console.error("[JustDetox] onStartup recoverState:", err);
@@ -24,6 +46,13 @@ chrome.runtime.onStartup.addListener(() => {
 
 // Recover state on install/update (SW context may be fresh).
 chrome.runtime.onInstalled.addListener(({ reason }) => {
+  noteRestartCause(reason === chrome.runtime.OnInstalledReason.INSTALL ? "install" : "update").catch(
+    (err) => {
+      // eslint-disable-next-line no-console
+      console.error("[JustDetox] onInstalled noteRestartCause:", err);
+    },
+  );
+
   recoverState().catch((err) => {
     // eslint-disable-next-line no-console
     console.error("[JustDetox] onInstalled recoverState:", err);
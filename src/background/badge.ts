@@ -0,0 +1,107 @@
+/**
+ * JustDetox — Toolbar badge for the tracked site.
+ *
+ * Shows the state of the site the tracker is counting (the active tab of
+ * the focused window) on the extension's action icon:
+ *
+ *   "12m" / "2h" / "<1m"  — time left on a time-limited site
+ *   "✕"                   — the site is blocked
+ *   "LOCK"                — a Locked In session is running
+ *
+ * The tracker calls `refreshBadge` after every domain switch and on every
+ * "jd-tick" alarm, so the minutes count down while the site is in use.
+ * Settings changes refresh it too. The badge is cleared when nothing is
+ * tracked (browser unfocused, idle, non-web page) or JustDetox is disabled.
+ */
+
+import { getSettings, getUsage, getEmergencyUnlocks } from "../core/storage";
+import { computeBlockedState } from "../core/policy";
+import type { BlockedState } from "../core/policy";
+import { effectiveUnlockFor } from "../core/emergencyUnlock";
+
+const KEY_SETTINGS = "jd_settings";
+
+const COLOR_TIME = "#374151";
+const COLOR_BLOCKED = "#b91c1c";
+const COLOR_LOCKED_IN = "#111111";
+
+// ─── Pure helpers ─────────────────────────────────────────────────────────────
+
+export interface Badge {
+  /** Badge text; "" hides the badge. */
+  text: string;
+  color: string;
+}
+
+const NO_BADGE: Badge = { text: "", color: COLOR_TIME };
+
+/** "<1m", "12m", or whole hours ("2h") — the badge fits about four characters. */
+export function formatBadgeTime(seconds: number): string {
+  if (seconds < 60) return "<1m";
+  const minutes = Math.floor(seconds / 60);
+  return minutes < 60 ? `${minutes}m` : `${Math.floor(minutes / 60)}h`;
+}
+
+/**
+ * The badge for the tracked site.
+ *
+ * @param state     The site's verdict, or null when nothing is tracked.
+ * @param lockedIn  True while a Locked In session is running.
+ */
+export function badgeFor(state: BlockedState | null, lockedIn: boolean): Badge {
+  if (state?.blocked) {
+    return state.lockedIn ? { text: "LOCK", color: COLOR_LOCKED_IN } : { text: "✕", color: COLOR_BLOCKED };
+  }
+  if (state?.remainingSeconds !== undefined) {
+    return { text: formatBadgeTime(state.remainingSeconds), color: COLOR_TIME };
+  }
+  return lockedIn ? { text: "LOCK", color: COLOR_LOCKED_IN } : NO_BADGE;
+}
+
+// ─── Chrome wiring ────────────────────────────────────────────────────────────
+
+/** The page the tracker is counting; `domain` is null when nothing is tracked. */
+export interface TrackedPage {
+  domain: string | null;
+  path: string | null;
+}
+
+/** Recompute the badge for the tracked page. */
+export async function refreshBadge({ domain, path }: TrackedPage): Promise<void> {
+  const now = Date.now();
+  const settings = await getSettings();
+
+  let badge = NO_BADGE;
+  if (!settings.disabled) {
+    const session = settings.lockedInSession;
+    const lockedIn = session?.active === true && now < session.endTs;
+
+    let state: BlockedState | null = null;
+    if (domain) {
+      const unlock = effectiveUnlockFor(domain, await getEmergencyUnlocks(), settings, now);
+      // An emergency unlock counts down like a limit.
+      state = unlock
+        ? { blocked: false, remainingSeconds: Math.ceil((unlock.endTs - now) / 1_000) }
+        : computeBlockedState(domain, await getUsage(), settings, path ?? undefined, now);
+    }
+    badge = badgeFor(state, lockedIn);
+  }
+
+  await chrome.action.setBadgeText({ text: badge.text });
+  await chrome.action.setBadgeBackgroundColor({ color: badge.color });
+}
+
+/**
+ * Refresh the badge whenever settings change. `getTrackedPage` reads the
+ * tracker's session — module state does not survive the worker sleeping.
+ * Call once at service-worker startup.
+ */
+export function initBadge(getTrackedPage: () => Promise<TrackedPage>): void {
+  chrome.storage.onChanged.addListener((changes, areaName) => {
+    if (areaName !== "local" || !(KEY_SETTINGS in changes)) return;
+    getTrackedPage().then(refreshBadge).catch((err) => {
+      // eslint-disable-next-line no-console
+      console.error("[JustDetox] refreshBadge failed:", err);
+    });
+  });
+}
@@ -0,0 +1,154 @@
+/**
+ * JustDetox — Heartbeat and tamper detection (MV3 service worker).
+ *
+ * `beat` runs on every `jd-tick` alarm and stamps `jd_heartbeat` in
+ * chrome.storage.local, mirrored to chrome.storage.sync when available.
+ *
+ * # Fresh contexts
+ * chrome.storage.session is cleared whenever the extension context ends:
+ * browser closed, extension disabled, reloaded or updated. `initHeartbeat`
+ * opens a session record when there is none. Browser starts and installs
+ * announce themselves through `chrome.runtime.onStartup` / `onInstalled`
+ * (background.ts calls `noteRestartCause`); a fresh context that sees
+ * neither was switched off and on again.
+ *
+ * Those events are dispatched after the worker script runs, so the first
+ * tick waits LIFECYCLE_GRACE_MS before classifying the restart (see
+ * core/tamper.ts). The heartbeat is only advanced afterwards, so the stored
+ * `lastBeatTs` still marks the start of the gap when it is measured.
+ *
+ * Sleep is not a gap: the browser keeps running, the session survives and
+ * the next tick simply beats again.
+ */
+
+import { getHeartbeat, setHeartbeat } from "../core/storage";
+import { classifyRestart, recordTamperEvent } from "../core/tamper";
+import type { RestartCause } from "../core/tamper";
+import type { Heartbeat } from "../core/types";
+import { heartbeatSchema } from "../core/validation";
+
+// ─── Constants ────────────────────────────────────────────────────────────────
+
+const SESSION_KEY = "jd_lifecycle";
+const MIRROR_KEY = "jd_heartbeat";
+
+/** How long a fresh context waits for its onStartup / onInstalled event. */
+const LIFECYCLE_GRACE_MS = 5_000;
+
+// ─── Session state ────────────────────────────────────────────────────────────
+
+/** Persisted in chrome.storage.session — one per extension context. */
+interface LifecycleSession {
+  /** Unix ms when this context first ran. */
+  startedTs: number;
+  /** Lifecycle event seen for this context; null while none has arrived. */
+  cause: RestartCause | null;
+  /** True once the restart has been classified. */
+  resolved: boolean;
+}
+
+function sessionGet(): Promise<LifecycleSession | undefined> {
+  return new Promise((resolve) => {
+    chrome.storage.session.get(SESSION_KEY, (result) => {
+      resolve(result[SESSION_KEY] as LifecycleSession | undefined);
+    });
+  });
+}
+
+function sessionSet(session: LifecycleSession): Promise<void> {
+  return new Promise((resolve) => {
+    chrome.storage.session.set({ [SESSION_KEY]: session }, () => resolve());
+  });
+}
+
+/** Resolves once this worker instance has opened (or found) its session. */
+let ready: Promise<void> = Promise.resolve();
+
+// ─── Optional APIs ────────────────────────────────────────────────────────────
+
+/** The sync mirror, or null when chrome.storage.sync is unavailable. */
+async function mirrorGet(): Promise<Heartbeat | null> {
+  if (!chrome.storage.sync) return null;
+  try {
+    const result = await chrome.storage.sync.get(MIRROR_KEY);
+    const parsed = heartbeatSchema.safeParse(result[MIRROR_KEY]);
+    return parsed.success ? parsed.data : null;
+  } catch {
+    return null;
+  }
+}
+
+async function mirrorSet(beat: Heartbeat): Promise<void> {
+  if (!chrome.storage.sync) return;
+  try {
+    await chrome.storage.sync.set({ [MIRROR_KEY]: beat });
+  } catch {
+    // Sync quota or sign-in issues only cost reinstall detection.
+  }
+}
+
+/** e.g. "normal" or "development" (unpacked), when chrome.management exists. */
+async function installType(): Promise<string | undefined> {
+  if (!chrome.management?.getSelf) return undefined;
+  try {
+    return (await chrome.management.getSelf()).installType;
+  } catch {
+    return undefined;
+  }
+}
+
+// ─── Public API ───────────────────────────────────────────────────────────────
+
+/**
+ * Record the lifecycle event that started this context.
+ * Called from the onStartup / onInstalled listeners in background.ts.
+ */
+export async function noteRestartCause(cause: RestartCause): Promise<void> {
+  await ready;
+  const session = await sessionGet();
+  if (session && !session.resolved && session.cause === null) {
+    await sessionSet({ ...session, cause });
+  }
+}
+
+/**
+ * Classify the restart once it is old enough, then advance the heartbeat.
+ * Called from the `jd-tick` alarm handler in tracker.ts.
+ */
+export async function beat(now: number = Date.now()): Promise<void> {
+  await ready;
+  const session = await sessionGet();
+
+  if (session && !session.resolved) {
+    // The lifecycle event may still be on its way — try again next tick.
+    if (now - session.startedTs < LIFECYCLE_GRACE_MS) return;
+
+    const [local, mirror, type] = await Promise.all([getHeartbeat(), mirrorGet(), installType()]);
+    const event = classifyRestart({
+      cause: session.cause ?? "unknown",
+      local,
+      mirror,
+      now,
+      installType: type,
+    });
+    if (event) await recordTamperEvent(event);
+    await sessionSet({ ...session, resolved: true });
+  }
+
+  const local = await getHeartbeat();
+  const next: Heartbeat = { installId: local?.installId ?? crypto.randomUUID(), lastBeatTs: now };
+  setHeartbeat(next);
+  await mirrorSet(next);
+}
+
+/**
+ * Open this context's session record if it has none yet.
+ * Call once at service-worker startup, before any listener can fire.
+ */
+export function initHeartbeat(): void {
+  ready = (async () => {
+    if (!(await sessionGet())) {
+      await sessionSet({ startedTs: Date.now(), cause: null, resolved: false });
+    }
+  })();
+}
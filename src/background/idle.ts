@@ -0,0 +1,139 @@
+/**
+ * JustDetox — Idle detection for the time tracker.
+ *
+ * Time should only count while someone is actually at the computer. The
+ * browser reports three states through `chrome.idle`:
+ *
+ *   active — input within the detection threshold
+ *   idle   — no keyboard/mouse input for `thresholdSeconds`
+ *   locked — the screen is locked
+ *
+ * `idleAction` maps a state to what the tracker should do. `applyIdleState`
+ * runs that action through the tracker's handlers, and `watchIdle` wires a
+ * source's state-change events to it. The source is an interface so the
+ * transitions can be driven by a fake in tests; production uses
+ * `chromeIdleSource`.
+ *
+ * Playing media: with `countWhilePlayingMedia` on, an idle user whose tracked
+ * tab is playing audio keeps counting (watching a video is not being away).
+ * The tracker re-polls on every alarm tick, so tracking pauses once the
+ * audio stops.
+ */
+
+import type { IdleDetectionSettings } from "../core/types";
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+export type IdleState = "active" | "idle" | "locked";
+
+/** What the tracker should do after an idle-state change. */
+export type IdleAction = "pause" | "resume" | "none";
+
+/** Abstraction over `chrome.idle` — swap in a fake for tests. */
+export interface IdleSource {
+  setDetectionInterval(seconds: number): void;
+  queryState(thresholdSeconds: number): Promise<IdleState>;
+  onStateChanged(listener: (state: IdleState) => void): void;
+}
+
+/** Tracker callbacks invoked by `applyIdleState`. */
+export interface IdleHandlers {
+  getSettings(): Promise<IdleDetectionSettings>;
+  /** True when the tab currently being tracked is playing audio. */
+  isTrackedTabAudible(): Promise<boolean>;
+  /** Stop counting; time after `idleSinceTs` must not be counted. */
+  pause(idleSinceTs: number): Promise<void>;
+  /** Resume counting the active tab. No-op when not paused. */
+  resume(): Promise<void>;
+}
+
+// ─── Production source ────────────────────────────────────────────────────────
+
+export const chromeIdleSource: IdleSource = {
+  setDetectionInterval(seconds) {
+    chrome.idle.setDetectionInterval(seconds);
+  },
+  queryState(thresholdSeconds) {
+    return new Promise((resolve) => {
+      chrome.idle.queryState(thresholdSeconds, (state) => resolve(state));
+    });
+  },
+  onStateChanged(listener) {
+    chrome.idle.onStateChanged.addListener(listener);
+  },
+};
+
+// ─── Pure transition ──────────────────────────────────────────────────────────
+
+/**
+ * Decide how the tracker reacts to `state`.
+ *
+ * Disabled detection always resumes, so turning the option off while away
+ * never leaves the tracker stuck in a paused state.
+ */
+export function idleAction(
+  state: IdleState,
+  settings: IdleDetectionSettings,
+  tabAudible: boolean,
+): IdleAction {
+  if (!settings.enabled || state === "active") return "resume";
+  if (state === "idle" && settings.countWhilePlayingMedia && tabAudible) return "none";
+  return "pause";
+}
+
+// ─── Wiring ───────────────────────────────────────────────────────────────────
+
+/**
+ * Apply `state` through `handlers` and return the action taken.
+ *
+ * For "idle" the pause is backdated by the threshold — the user has already
+ * been away that long when the browser reports it.
+ */
+export async function applyIdleState(
+  state: IdleState,
+  handlers: IdleHandlers,
+  now: number = Date.now(),
+): Promise<IdleAction> {
+  const settings = await handlers.getSettings();
+  const audible = state === "idle" ? await handlers.isTrackedTabAudible() : false;
+  const action = idleAction(state, settings, audible);
+
+  if (action === "pause") {
+    const idleSinceTs = state === "idle" ? now - settings.thresholdSeconds * 1_000 : now;
+    await handlers.pause(idleSinceTs);
+  } else if (action === "resume") {
+    await handlers.resume();
+  }
+  return action;
+}
+
+/**
+ * Query the current state and apply it. Called from the alarm tick as a
+ * backstop for missed events and media that stopped playing.
+ */
+export async function pollIdleState(
+  source: IdleSource,
+  handlers: IdleHandlers,
+  now: number = Date.now(),
+): Promise<IdleAction> {
+  const settings = await handlers.getSettings();
+  source.setDetectionInterval(settings.thresholdSeconds);
+  const state = await source.queryState(settings.thresholdSeconds);
+  return applyIdleState(state, handlers, now);
+}
+
+/** Subscribe to `source` state changes and apply each one through `handlers`. */
+export function watchIdle(
+  source: IdleSource,
+  handlers: IdleHandlers,
+  onError: (err: unknown) => void,
+): void {
+  handlers
+    .getSettings()
+    .then((s) => source.setDetectionInterval(s.thresholdSeconds))
+    .catch(onError);
+
+  source.onStateChanged((state) => {
+    applyIdleState(state, handlers).catch(onError);
+  });
+}
@@ -1,33 +1,183 @@
 /**
  * JustDetox — Locked In Mode background helpers.
  *
- * `checkLockedInExpiry` is called from the tracker's alarm tick (every ~1 min).
- * When the session's endTs has passed it deactivates the session in storage,
- * which causes subsequent CHECK_URL calls to resume normal rule evaluation.
+ * `checkLockedInExpiry` is called from the tracker's alarm tick (every ~1 min)
+ * and from the dedicated "jd-locked-in" alarm, which fires exactly when the
+ * next session starts or ends. It:
+ *
+ *   1. Deactivates the active session once its endTs has passed, which causes
+ *      subsequent CHECK_URL calls to resume normal rule evaluation.
+ *   2. Starts a recurring session (`settings.recurringLockedIn`) when its
+ *      schedule window is open and no session is running.
+ *   3. Credits Pomodoro focus intervals to the Dopamine Score as each one
+ *      finishes. The alarm also fires on every phase boundary.
+ *
+ * # Conflicts
+ * A running session — manual or recurring — is never cut short or replaced.
+ * A recurring window that opens during a manual session starts when the
+ * manual one ends, for whatever remains of the window. A recurring session
+ * ended early by the user is not restarted within the same window. When two
+ * recurring windows are open at once, the one ending last wins.
  */
 
 import { getSettings, setSettings } from "../core/storage";
-import { onLockedInSessionCompleted } from "../core/dopamine";
+import { onLockedInSessionCompleted, onPomodoroCyclesCompleted } from "../core/dopamine";
+import { scheduleOccurrenceAt, nextScheduleStart } from "../core/schedule";
+import { completedCycles, focusMinutesOf, pomodoroPhases } from "../core/pomodoro";
+import type { LockedInSession, RecurringLockedIn, Settings } from "../core/types";
+
+const LOCKED_IN_ALARM = "jd-locked-in";
+
+// ─── Pure transition ──────────────────────────────────────────────────────────
+
+export interface LockedInTransition {
+  /** The session to store — the current one (same reference) when unchanged. */
+  session: LockedInSession | undefined;
+  /** The session that just ran to its end, for the Dopamine Score bonus. */
+  completed?: LockedInSession;
+  /** Pomodoro focus intervals finished since they were last credited. */
+  newCycles?: number;
+}
+
+/**
+ * Work out the Locked In session that should be stored at `now`.
+ * Pure — see the module doc for the conflict rules.
+ */
+export function resolveLockedInSession(settings: Settings, now: number): LockedInTransition {
+  const { session: current, newCycles } = creditCycles(settings.lockedInSession, now);
+
+  if (current?.active && now < current.endTs) return { session: current, newCycles };
+
+  let session = current;
+  let completed: LockedInSession | undefined;
+  if (current?.active) {
+    completed = current;
+    session = { ...current, active: false };
+  }
+
+  const started = startDueRecurring(settings, session, now);
+  return { session: started ?? session, completed, newCycles };
+}
+
+/** Mark the Pomodoro cycles finished by `now` as credited. */
+function creditCycles(
+  session: LockedInSession | undefined,
+  now: number,
+): { session: LockedInSession | undefined; newCycles?: number } {
+  if (!session?.active || !session.pomodoro) return { session };
+
+  const done = completedCycles(session.pomodoro, session.startTs, Math.min(now, session.endTs));
+  const credited = session.creditedCycles ?? 0;
+  if (done <= credited) return { session };
+
+  return { session: { ...session, creditedCycles: done }, newCycles: done - credited };
+}
+
+/** A new session for the recurring window open at `now`, if any is due. */
+function startDueRecurring(
+  settings: Settings,
+  last: LockedInSession | undefined,
+  now: number,
+): LockedInSession | null {
+  let best: { entry: RecurringLockedIn; endTs: number } | null = null;
+
+  for (const entry of settings.recurringLockedIn) {
+    if (!entry.enabled) continue;
+    const occurrence = scheduleOccurrenceAt(entry.schedule, new Date(now));
+    if (!occurrence) continue;
+
+    // Already ran (or was ended early) during this occurrence.
+    if (last?.recurringId === entry.id && last.startTs >= occurrence.startTs) continue;
+
+    if (!best || occurrence.endTs > best.endTs) best = { entry, endTs: occurrence.endTs };
+  }
+  if (!best) return null;
+
+  const { entry, endTs } = best;
+  const group = entry.sourceGroupId
+    ? settings.groups.find((g) => g.id === entry.sourceGroupId)
+    : undefined;
+
+  return {
+    active: true,
+    startTs: now,
+    endTs,
+    allowedDomains: group ? [...group.domains] : [...entry.allowedDomains],
+    sourceGroupId: group?.id,
+    recurringId: entry.id,
+  };
+}
 
 /**
- * Check whether the active Locked In session has expired and, if so,
- * mark it as inactive in storage.
+ * Unix ms of the next moment a session starts or ends — or, for a Pomodoro
+ * session, changes phase — or null when nothing is scheduled. Pure.
+ */
+export function nextLockedInTransition(settings: Settings, now: number): number | null {
+  const candidates: number[] = [];
+
+  const session = settings.lockedInSession;
+  if (session?.active && session.endTs > now) {
+    const phaseEnd = session.pomodoro
+      ? pomodoroPhases(session.pomodoro, session.startTs).find((p) => p.endTs > now)?.endTs
+      : undefined;
+    candidates.push(phaseEnd ?? session.endTs);
+  }
+
+  for (const entry of settings.recurringLockedIn) {
+    if (!entry.enabled) continue;
+    const start = nextScheduleStart(entry.schedule, new Date(now));
+    if (start !== null) candidates.push(start);
+  }
+
+  return candidates.length > 0 ? Math.min(...candidates) : null;
+}
+
+// ─── Storage-backed entry point ───────────────────────────────────────────────
+
+/**
+ * Apply `resolveLockedInSession` to storage, credit finished Pomodoro cycles
+ * and a completed session, and re-arm the "jd-locked-in" alarm for the next transition.
  *
- * Called from the `jd-tick` alarm handler in tracker.ts.
- * No-op when no session is active.
+ * Called from the `jd-tick` alarm handler in tracker.ts and from the
+ * "jd-locked-in" alarm.
  */
-export async function checkLockedInExpiry(): Promise<void> {
+export async function checkLockedInExpiry(now: number = Date.now()): Promise<void> {
   const settings = await getSettings();
-  const session = settings.lockedInSession;
+  const { session, completed, newCycles } = resolveLockedInSession(settings, now);
 
-  if (!session?.active) return;
-  if (Date.now() < session.endTs) return;
+  let next: Settings = { ...settings, lockedInSession: session };
+  let stored = true;
+  if (session !== settings.lockedInSession) {
+    const result = await setSettings(next);
+    if (!result.ok) {
+      // Nothing was written: time the alarm off the stored session, and
+      // credit nothing so the next check does not credit the same cycles twice.
+      // eslint-disable-next-line no-console
+      console.error("[JustDetox] Locked In session update refused:", result.error);
+      next = settings;
+      stored = false;
+    }
+  }
 
-  await setSettings({
-    ...settings,
-    lockedInSession: { ...session, active: false },
-  });
+  // Credit the Locked In bonus for finished cycles and the completed session.
+  if (stored && newCycles) await onPomodoroCyclesCompleted(newCycles);
+  if (stored && completed) await onLockedInSessionCompleted(focusMinutesOf(completed));
+
+  const when = nextLockedInTransition(next, now);
+  if (when === null) {
+    await chrome.alarms.clear(LOCKED_IN_ALARM);
+  } else {
+    await chrome.alarms.create(LOCKED_IN_ALARM, { when });
+  }
+}
 
-  // Credit the Locked In bonus for the completed session.
-  await onLockedInSessionCompleted(session.startTs, session.endTs);
+/** Start and end sessions exactly on time. Call once at service-worker startup. */
+export function initLockedInSchedule(): void {
+  chrome.alarms.onAlarm.addListener((alarm) => {
+    if (alarm.name !== LOCKED_IN_ALARM) return;
+    checkLockedInExpiry().catch((err: unknown) => {
+      // eslint-disable-next-line no-console
+      console.error("[JustDetox] Locked In schedule check failed:", err);
+    });
+  });
 }
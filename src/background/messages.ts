@@ -1,17 +1,30 @@
 /**
  * JustDetox — Background message handler.
  *
- * Handles chrome.runtime.onMessage from content scripts.
+ * Handles chrome.runtime.onMessage from content scripts and the options page.
  * Extracted from background.ts so the service-worker boot file
  * stays minimal and this logic is independently testable.
  */
 
-import { getSettings, getUsage } from "../core/storage";
-import { computeBlockedState } from "../core/policy";
-import { incrementAttempt } from "../core/temptation";
+import { getSettings, getUsage, getEmergencyUnlocks, getTemptations } from "../core/storage";
+import { computeBlockedState, resolveEffectivePolicy, nextPolicyTransition, blockLiftsAt } from "../core/policy";
+import { incrementAttempt, currentAttempts } from "../core/temptation";
 import { onDelayCompleted } from "../core/dopamine";
 import { recordEvent } from "../core/selfControl";
-import type { ExtensionMessage, CheckUrlResponse } from "../shared/messages";
+import { effectiveUnlockFor, requestEmergencyUnlock, describeRefusal } from "../core/emergencyUnlock";
+import { warningThresholds, warningText } from "../core/limitWarning";
+import type { EmergencyUnlockData, Settings, UsageMap } from "../core/types";
+import type {
+  ExtensionMessage,
+  CheckUrlResponse,
+  CheckUrlsResponse,
+  EmergencyUnlockResponse,
+  UrlStatus,
+  UrlTarget,
+} from "../shared/messages";
+
+/** Most URLs answered per CHECK_URLS message; the rest are dropped. */
+const CHECK_URLS_MAX = 200;
 
 /**
  * Register all content-script message handlers.
@@ -22,13 +35,25 @@ export function registerMessages(): void {
     (
       message: ExtensionMessage,
       _sender: chrome.runtime.MessageSender,
-      sendResponse: (response: CheckUrlResponse | null) => void,
+      sendResponse: (
+        response: CheckUrlResponse | CheckUrlsResponse | EmergencyUnlockResponse | null,
+      ) => void,
     ) => {
       if (message.type === "CHECK_URL") {
-        handleCheckUrl(message.hostname).then(sendResponse);
+        handleCheckUrl(
+          message.hostname,
+          message.path,
+          message.recheck ?? false,
+          message.skipDelay ?? false,
+        ).then(sendResponse);
         return true; // keep port open for async response
       }
 
+      if (message.type === "CHECK_URLS") {
+        handleCheckUrls(message.urls).then(sendResponse);
+        return true;
+      }
+
       // RECORD_TIME: time tracking is handled by tracker.ts via browser tab
       // events. This handler is a no-op kept for backward compatibility with
       // the old content script and will be removed in a future cleanup.
@@ -44,6 +69,19 @@ export function registerMessages(): void {
         return false;
       }
 
+      if (message.type === "EMERGENCY_UNLOCK") {
+        handleEmergencyUnlock(message.domain).then(sendResponse);
+        return true;
+      }
+
+      if (message.type === "LIMIT_WARNING") {
+        handleLimitWarning(message.hostname, message.remainingSeconds).catch((err: unknown) => {
+          // eslint-disable-next-line no-console
+          console.error("[JustDetox] LIMIT_WARNING handler failed:", err);
+        });
+        return false;
+      }
+
       return false;
     },
   );
@@ -51,19 +89,55 @@ export function registerMessages(): void {
 
 // ─── CHECK_URL ────────────────────────────────────────────────────────────────
 
-async function handleCheckUrl(hostname: string): Promise<CheckUrlResponse> {
+async function handleCheckUrl(
+  hostname: string,
+  path: string | undefined,
+  recheck: boolean,
+  skipDelay: boolean,
+): Promise<CheckUrlResponse> {
   const [settings, usage] = await Promise.all([getSettings(), getUsage()]);
 
   // Master kill-switch: extension disabled → never block anything.
   if (settings.disabled) return { blocked: false };
 
-  const state = computeBlockedState(hostname, usage, settings);
+  // Emergency unlock: lifts every rule until it lapses (never a hard-locked
+  // session). Reported as a time limit so the overlay re-checks exactly when
+  // the unlock ends.
+  const now = Date.now();
+  const unlock = effectiveUnlockFor(hostname, await getEmergencyUnlocks(), settings, now);
+  if (unlock) {
+    return {
+      blocked: false,
+      mode: "time-limit",
+      remainingSeconds: Math.ceil((unlock.endTs - now) / 1_000),
+    };
+  }
+
+  const state = computeBlockedState(hostname, usage, settings, path, now);
+  const nextCheckTs = nextPolicyTransition(hostname, settings, usage, now, path) ?? undefined;
 
-  // Record a temptation attempt whenever an overlay will be shown.
+  // The overlay says when the block lifts and how often the user tried.
+  let liftsAtTs: number | undefined;
+  let attemptsToday: number | undefined;
   if (state.blocked) {
-    // Fire-and-forget: do not delay the CHECK_URL response on storage writes.
-    void incrementAttempt(hostname, state.lockedIn ?? false);
+    liftsAtTs = blockLiftsAt(hostname, settings, usage, now, path) ?? undefined;
+    // Record a temptation attempt whenever an overlay will be shown — unless
+    // the background pushed this check and the user did nothing. Awaited for
+    // the count only; the write itself is queued (storageQueue).
+    attemptsToday = recheck
+      ? currentAttempts((await getTemptations())[hostname], settings.resetWindow, now)
+      : await incrementAttempt(hostname, state.lockedIn ?? false);
+  }
 
+  // Low-time warnings for an allowed limited site; the overlay times them
+  // off the same remainingSeconds it re-checks at.
+  let warningSeconds: number[] | undefined;
+  if (!state.blocked && state.mode === "limit") {
+    const policy = resolveEffectivePolicy(hostname, settings, path, now);
+    warningSeconds = warningThresholds(policy?.warningMinutes, settings.limitWarnings);
+  }
+
+  if (state.blocked && !recheck) {
     // Record self-control event for the graph.
     // Allowlist-mode blocks (state.allowlist === true) are recorded as "blocked"
     // — visiting a site outside the focus environment is a temptation event,
@@ -77,7 +151,7 @@ async function handleCheckUrl(hostname: string): Promise<CheckUrlResponse> {
   }
 
   // Record delay_triggered event when a Delay Mode countdown is shown.
-  if (state.delayed) {
+  if (state.delayed && !recheck && !skipDelay) {
     void recordEvent({ domain: hostname, type: "delay_triggered" });
   }
 
@@ -90,5 +164,79 @@ async function handleCheckUrl(hostname: string): Promise<CheckUrlResponse> {
     subtitle: state.subtitle,
     delayed: state.delayed,
     delaySeconds: state.delaySeconds,
+    nextCheckTs,
+    liftsAtTs,
+    attemptsToday,
+    warningSeconds,
+    notifyWarnings: warningSeconds?.length ? settings.limitWarnings.notify : undefined,
+  };
+}
+
+// ─── CHECK_URLS ───────────────────────────────────────────────────────────────
+
+/**
+ * Status of one link target. Pure — shared settings, usage and unlocks are
+ * read once per batch. An emergency unlock or Delay Mode counts as open:
+ * the page can be reached.
+ */
+export function urlStatus(
+  target: UrlTarget,
+  settings: Settings,
+  usage: UsageMap,
+  unlocks: EmergencyUnlockData,
+  now: number,
+): UrlStatus {
+  if (settings.disabled) return { status: "open" };
+  if (effectiveUnlockFor(target.hostname, unlocks, settings, now)) return { status: "open" };
+
+  const state = computeBlockedState(target.hostname, usage, settings, target.path, now);
+  if (state.blocked) return { status: "blocked" };
+  if (state.mode === "limit" && state.remainingSeconds !== undefined) {
+    return state.delayed
+      ? { status: "limited", remainingSeconds: state.remainingSeconds, delayed: true }
+      : { status: "limited", remainingSeconds: state.remainingSeconds };
+  }
+  return { status: "open" };
+}
+
+async function handleCheckUrls(urls: UrlTarget[]): Promise<CheckUrlsResponse> {
+  const [settings, usage, unlocks] = await Promise.all([getSettings(), getUsage(), getEmergencyUnlocks()]);
+  const now = Date.now();
+  return {
+    results: urls.slice(0, CHECK_URLS_MAX).map((t) => urlStatus(t, settings, usage, unlocks, now)),
+    annotations: settings.linkAnnotations,
   };
 }
+
+// ─── LIMIT_WARNING ────────────────────────────────────────────────────────────
+
+/**
+ * Show a system notification for a low-time warning. One notification per
+ * hostname — a later threshold replaces the earlier one.
+ */
+async function handleLimitWarning(hostname: string, remainingSeconds: number): Promise<void> {
+  const settings = await getSettings();
+  if (settings.disabled || !settings.limitWarnings.enabled || !settings.limitWarnings.notify) return;
+
+  await chrome.notifications.create(`jd-limit-warning:${hostname}`, {
+    type: "basic",
+    iconUrl: chrome.runtime.getURL("icons/icon128.png"),
+    title: "JustDetox",
+    message: warningText(hostname, remainingSeconds),
+  });
+}
+
+// ─── EMERGENCY_UNLOCK ─────────────────────────────────────────────────────────
+
+async function handleEmergencyUnlock(domain: string): Promise<EmergencyUnlockResponse> {
+  try {
+    const result = await requestEmergencyUnlock(domain);
+    return result.ok
+      ? { ok: true, unlock: result.unlock }
+      : { ok: false, error: describeRefusal(result.reason) };
+  } catch (err) {
+    // eslint-disable-next-line no-console
+    console.error("[JustDetox] EMERGENCY_UNLOCK handler failed:", err);
+    return { ok: false, error: "Could not grant the unlock. Try again." };
+  }
+}
@@ -0,0 +1,74 @@
+/**
+ * JustDetox — Proactive reset-window rollover.
+ *
+ * `rollOverExpiredWindows` is called from the tracker's alarm tick (every
+ * ~1 min). Usage and temptation records are otherwise reset lazily, on the
+ * next write for the same domain — fine for rolling windows, but an anchored
+ * window ("reset at 04:00") should clear every counter at 04:00 even for
+ * domains nobody visits. Only writes the stores that actually changed.
+ */
+
+import {
+  getSettings,
+  getUsage,
+  setUsage,
+  getTemptations,
+  setTemptations,
+  getDopamineScore,
+  setDopamineScore,
+  getSelfControlData,
+  setSelfControlData,
+  getEmergencyUnlocks,
+  setEmergencyUnlocks,
+} from "../core/storage";
+import { pruneExpired } from "../core/resetWindow";
+import { rollDopamineWindow, triggerRecalculation } from "../core/dopamine";
+import { rollSelfControlWindow } from "../core/selfControl";
+import { archiveUsage } from "../core/history";
+import { rollEmergencyWindow } from "../core/emergencyUnlock";
+
+/**
+ * Drop expired usage and temptation records and start fresh Dopamine Score,
+ * self-control and emergency-unlock windows when theirs have ended. Expired usage is archived
+ * to the usage history before it is dropped.
+ *
+ * Called from the `jd-tick` alarm handler in tracker.ts.
+ */
+export async function rollOverExpiredWindows(now: number = Date.now()): Promise<void> {
+  const [settings, temptations, score, selfControl, unlocks] = await Promise.all([
+    getSettings(),
+    getTemptations(),
+    getDopamineScore(),
+    getSelfControlData(),
+    getEmergencyUnlocks(),
+  ]);
+  const { resetWindow } = settings;
+
+  // Read usage last and write the pruned map before any other await, so a
+  // tracker write landing meanwhile is not overwritten; archive afterwards.
+  const usage = await getUsage();
+  const nextUsage = pruneExpired(usage, resetWindow, now);
+  if (nextUsage) {
+    setUsage(nextUsage);
+    const expired = Object.fromEntries(Object.entries(usage).filter(([key]) => !(key in nextUsage)));
+    await archiveUsage(expired, now);
+  }
+
+  const nextTemptations = pruneExpired(temptations, resetWindow, now);
+  if (nextTemptations) setTemptations(nextTemptations);
+
+  const nextSelfControl = rollSelfControlWindow(selfControl, resetWindow, now);
+  if (nextSelfControl !== selfControl) setSelfControlData(nextSelfControl);
+
+  // Only roll a log that has been used; an untouched one starts on first unlock.
+  if (unlocks.windowStartTs > 0) {
+    const nextUnlocks = rollEmergencyWindow(unlocks, resetWindow, now);
+    if (nextUnlocks !== unlocks) setEmergencyUnlocks(nextUnlocks);
+  }
+
+  const nextScore = rollDopamineWindow(score, resetWindow, now);
+  if (nextScore !== score) setDopamineScore(nextScore);
+
+  // Recompute the score against the cleared counters.
+  if (nextUsage || nextTemptations || nextScore !== score) triggerRecalculation();
+}
@@ -15,11 +15,45 @@
  * # Counting rule
  * Time is counted only when the domain is in the *active tab* of the
  * *focused browser window*. Any other state sets activeDomain = null.
+ * The opt-in tracking modes below add more tabs on top of that one.
+ *
+ * # Path rules
+ * Time is always recorded under the page hostname. When the page also
+ * matches a site rule with a `path` (e.g. youtube.com/shorts), the same
+ * elapsed time is added under that rule's usage key so its limit only
+ * counts matching pages.
  *
  * # Reset-window
- * Before each accumulation we check whether the domain's `windowStartTs`
- * is older than `settings.resetWindow.intervalHours`. If so, the counter
- * is zeroed and a new window starts — no separate alarm needed.
+ * Before each accumulation we check whether the domain's window has ended
+ * (rolling `intervalHours`, or the last calendar anchor). If so, the counter
+ * is zeroed and a new window starts. Each alarm tick also rolls over every
+ * expired window proactively (see reset.ts), so anchored resets happen at
+ * the configured time even for domains that are not being visited.
+ * Either way the expired total is archived to the usage history first.
+ *
+ * # Background tabs
+ * With `tracking.audibleTabs` on, tabs playing audio are counted too. With
+ * `tracking.allWindows` on, so is the active tab of every visible window,
+ * even while the browser is unfocused. These extra tabs are kept in
+ * `secondaryTabs`, each with its own flush timestamp. A hostname is counted
+ * at most once per flush — see `selectSecondaryTabs`.
+ *
+ * # Idle
+ * When the user goes idle (no input for `idleDetection.thresholdSeconds`)
+ * or locks the screen, tracking pauses and the time since they went away is
+ * not counted. It resumes on the next activity. See idle.ts.
+ *
+ * # Timeline
+ * Every flush is also recorded as a (domain, start, end) span in the
+ * timeline ring buffer, so the Dashboard can show when time was spent.
+ *
+ * # Heartbeat
+ * Each tick also stamps the heartbeat used to detect the extension being
+ * turned off or reinstalled (see heartbeat.ts).
+ *
+ * # Badge
+ * Every domain switch and tick refreshes the toolbar badge with the tracked
+ * site's time left or block state (see badge.ts).
  *
  * # Flush cap
  * Each flush is capped at FLUSH_CAP_MS to prevent counting sleep time
@@ -28,9 +62,20 @@
 
 import { getSettings, getUsage, setUsage, isWindowExpired } from "../core/storage";
 import { forceFlushStorageQueue } from "../core/storageQueue";
-import type { DomainUsage, UsageMap } from "../core/types";
+import { resolveEffectivePolicy } from "../core/policy";
+import { ruleUsageKey } from "../core/urlPattern";
+import { windowStartAt } from "../core/resetWindow";
+import type { DomainUsage, UsageMap, ResetWindowConfig } from "../core/types";
 import { checkLockedInExpiry } from "./lockedIn";
+import { beat } from "./heartbeat";
+import { refreshBadge } from "./badge";
+import type { TrackedPage } from "./badge";
+import { rollOverExpiredWindows } from "./reset";
 import { triggerRecalculation } from "../core/dopamine";
+import { archiveUsage } from "../core/history";
+import { recordSpan } from "../core/timeline";
+import { chromeIdleSource, pollIdleState, watchIdle } from "./idle";
+import type { IdleHandlers, IdleSource } from "./idle";
 
 // ─── Constants ────────────────────────────────────────────────────────────────
 
@@ -44,12 +89,17 @@ const ALARM_PERIOD_MINUTES = 1;
  */
 const FLUSH_CAP_MS = 90_000;
 
+/** Idle-state source; replaced by `initTracker` (a fake in tests). */
+let idleSource: IdleSource = chromeIdleSource;
+
 // ─── Session state ────────────────────────────────────────────────────────────
 
 /** Persisted in chrome.storage.session — survives SW sleep. */
 interface TrackerSession {
   /** Currently tracked hostname, or null when the browser is not focused. */
   activeDomain: string | null;
+  /** Path of the tracked page (null when not tracking). Used for path rules. */
+  activePath: string | null;
   /**
    * Unix-ms timestamp of the last flush to chrome.storage.local.
    * 0 means no domain is being tracked.
@@ -59,21 +109,42 @@ interface TrackerSession {
   tabId: number | null;
   /** Window ID of the tracked tab's window (null when not tracking). */
   windowId: number | null;
+  /** True while the user is idle or the screen is locked — nothing is tracked. */
+  paused: boolean;
+  /**
+   * Tabs counted alongside the focused one (audible background tabs), each
+   * with its own flush timestamp. Never shares a hostname with
+   * `activeDomain` or with another entry — see `selectSecondaryTabs`.
+   */
+  secondaryTabs: SecondaryTab[];
+}
+
+/** A tab counted in addition to the active tab of the focused window. */
+interface SecondaryTab {
+  tabId: number;
+  domain: string;
+  path: string | null;
+  /** Unix-ms timestamp of this tab's last flush. */
+  lastFlushTs: number;
 }
 
 const SESSION_KEY = "jd_tracker";
 const SESSION_DEFAULTS: TrackerSession = {
   activeDomain: null,
+  activePath: null,
   lastFlushTs: 0,
   tabId: null,
   windowId: null,
+  paused: false,
+  secondaryTabs: [],
 };
 
 function sessionGet(): Promise<TrackerSession> {
   return new Promise((resolve) => {
     chrome.storage.session.get(SESSION_KEY, (result) => {
-      const stored = result[SESSION_KEY] as TrackerSession | undefined;
-      resolve(stored ?? { ...SESSION_DEFAULTS });
+      const stored = result[SESSION_KEY] as Partial<TrackerSession> | undefined;
+      // Merge over defaults so sessions saved by older versions gain new fields.
+      resolve({ ...SESSION_DEFAULTS, ...stored });
     });
   });
 }
@@ -118,41 +189,98 @@ export function computeElapsedSeconds(
   return Math.min(raw, capMs) / 1_000;
 }
 
+/** A tab that may be counted besides the focused one. */
+export interface TabCandidate {
+  tabId: number;
+  url: string | undefined;
+}
+
+/**
+ * Pick the tabs to count alongside the focused tab: trackable URLs only,
+ * at most one tab per hostname, and never the hostname already tracked as
+ * `primaryDomain`. Guarantees a hostname is counted once per flush however
+ * many tabs show it. Pure function — safe to unit-test without browser APIs.
+ */
+export function selectSecondaryTabs(
+  candidates: TabCandidate[],
+  primaryDomain: string | null,
+): { tabId: number; domain: string; path: string | null }[] {
+  const seen = new Set<string>(primaryDomain ? [primaryDomain] : []);
+  const selected: { tabId: number; domain: string; path: string | null }[] = [];
+  for (const { tabId, url } of candidates) {
+    const domain = isTrackable(url) ? hostnameFrom(url) : null;
+    if (!domain || seen.has(domain)) continue;
+    seen.add(domain);
+    selected.push({ tabId, domain, path: pathFrom(url) });
+  }
+  return selected;
+}
+
 // ─── Core: accumulate ─────────────────────────────────────────────────────────
 
 /**
- * Add `elapsedSeconds` to `domain`'s usage record.
+ * Return a copy of `usage` with `elapsedSeconds` added to the record at `key`.
  *
- * Performs a lazy window-expiry check: if `now - windowStartTs >= intervalHours`
+ * Performs a lazy window-expiry check: if the record's window has ended
  * the record is reset before adding, starting a fresh window.
- *
- * Note: concurrent calls from rapid events share this function but the SW
- * processes messages serially, so races are extremely unlikely in practice.
  */
-async function accumulateTime(domain: string, elapsedSeconds: number): Promise<void> {
-  if (elapsedSeconds <= 0) return;
-
-  const [settings, usage] = await Promise.all([getSettings(), getUsage()]);
-  const intervalHours = settings.resetWindow.intervalHours;
-  const now = Date.now();
-
-  const existing = usage[domain];
-  const windowExpired = existing !== undefined && isWindowExpired(usage, domain, intervalHours);
+function addToRecord(
+  usage: UsageMap,
+  key: string,
+  elapsedSeconds: number,
+  resetWindow: ResetWindowConfig,
+  now: number,
+): UsageMap {
+  const existing = usage[key];
+  const windowExpired = existing !== undefined && isWindowExpired(usage, key, resetWindow, now);
 
   // Start fresh if no record yet, or if the window has expired.
   const base: DomainUsage =
     !existing || windowExpired
-      ? { activeSeconds: 0, lastUpdated: now, windowStartTs: now }
+      ? { activeSeconds: 0, lastUpdated: now, windowStartTs: windowStartAt(resetWindow, now) }
       : existing;
 
-  const updated: UsageMap = {
+  return {
     ...usage,
-    [domain]: {
+    [key]: {
       ...base,
       activeSeconds: base.activeSeconds + elapsedSeconds,
       lastUpdated: now,
     },
   };
+}
+
+/**
+ * Add `elapsedSeconds` to `domain`'s usage record, and to the usage key of
+ * the path rule matching `path` (if any).
+ *
+ * Note: concurrent calls from rapid events share this function but the SW
+ * processes messages serially, so races are extremely unlikely in practice.
+ */
+async function accumulateTime(
+  domain: string,
+  path: string | null,
+  elapsedSeconds: number,
+): Promise<void> {
+  if (elapsedSeconds <= 0) return;
+
+  const [settings, usage] = await Promise.all([getSettings(), getUsage()]);
+  const now = Date.now();
+
+  // Keep the hostname's previous window in history before it is zeroed.
+  if (isWindowExpired(usage, domain, settings.resetWindow, now)) {
+    await archiveUsage({ [domain]: usage[domain] }, now);
+  }
+
+  let updated = addToRecord(usage, domain, elapsedSeconds, settings.resetWindow, now);
+
+  if (path !== null) {
+    const policy = resolveEffectivePolicy(domain, settings, path);
+    if (policy?.configuredDomain && policy.configuredPath) {
+      const key = ruleUsageKey(policy.configuredDomain, policy.configuredPath);
+      updated = addToRecord(updated, key, elapsedSeconds, settings.resetWindow, now);
+    }
+  }
 
   await setUsage(updated);
   triggerRecalculation();
@@ -169,31 +297,101 @@ async function flushCurrent(now: number): Promise<void> {
 
   if (!session.activeDomain || session.lastFlushTs === 0) return;
 
-  const elapsedSeconds = computeElapsedSeconds(session.lastFlushTs, now);
+  await flushTracked(session.activeDomain, session.activePath, session.lastFlushTs, now);
+}
+
+/** Flush one tracked stretch: usage counter plus timeline span. */
+async function flushTracked(
+  domain: string,
+  path: string | null,
+  lastFlushTs: number,
+  now: number,
+): Promise<void> {
+  const elapsedSeconds = computeElapsedSeconds(lastFlushTs, now);
   if (elapsedSeconds <= 0) return;
 
-  await accumulateTime(session.activeDomain, elapsedSeconds);
+  await accumulateTime(domain, path, elapsedSeconds);
+  await recordSpan({ domain, start: now - elapsedSeconds * 1_000, end: now });
+}
+
+// ─── Core: secondary tabs ────────────────────────────────────────────────────
+
+/** Tabs that qualify for counting besides the focused one, per settings. */
+async function querySecondaryCandidates(): Promise<TabCandidate[]> {
+  const { tracking } = await getSettings();
+  const tabs: chrome.tabs.Tab[] = [];
+
+  if (tracking.allWindows) {
+    const windows = await chrome.windows.getAll({ populate: true, windowTypes: ["normal"] });
+    for (const win of windows) {
+      if (win.state === "minimized") continue;
+      const active = win.tabs?.find((t) => t.active);
+      if (active) tabs.push(active);
+    }
+  }
+  if (tracking.audibleTabs) {
+    tabs.push(...(await chrome.tabs.query({ audible: true })));
+  }
+
+  return tabs
+    .filter((t) => t.id !== undefined)
+    .map((t) => ({ tabId: t.id as number, url: t.url }));
+}
+
+/**
+ * Flush every secondary tab up to `now`, then rebuild the list from the
+ * tabs that currently qualify, each starting a fresh stretch at `now`.
+ *
+ * Called on every alarm tick, after every focused-tab switch, whenever a
+ * tab starts or stops playing audio and whenever a background window's
+ * active tab changes. Minimizing a window fires no event; the next tick
+ * drops it.
+ */
+async function syncSecondaryTabs(now: number): Promise<void> {
+  const session = await sessionGet();
+  for (const tab of session.secondaryTabs) {
+    await flushTracked(tab.domain, tab.path, tab.lastFlushTs, now);
+  }
+
+  const candidates = session.paused
+    ? []
+    : (await querySecondaryCandidates()).filter((c) => c.tabId !== session.tabId);
+  const secondaryTabs = selectSecondaryTabs(candidates, session.activeDomain).map((t) => ({
+    ...t,
+    lastFlushTs: now,
+  }));
+  await sessionSet({ secondaryTabs });
 }
 
 // ─── Core: domain switch ─────────────────────────────────────────────────────
 
 /**
  * Flush elapsed time for the current domain, then switch to `newDomain`.
- * Pass `null` for newDomain when the browser is idle / unfocused.
+ * Pass `null` for newDomain when the browser is unfocused. While the
+ * tracker is paused for idle, every switch is treated as `null`.
  */
 async function switchActiveDomain(
-  newDomain: string | null,
+  domain: string | null,
   tabId: number | null = null,
   windowId: number | null = null,
+  path: string | null = null,
 ): Promise<void> {
   const now = Date.now();
   await flushCurrent(now);
+  const { paused } = await sessionGet();
+  const newDomain = paused ? null : domain;
   await sessionSet({
     activeDomain: newDomain,
+    activePath: newDomain !== null ? path : null,
     lastFlushTs: newDomain !== null ? now : 0,
     tabId: newDomain !== null ? tabId : null,
     windowId: newDomain !== null ? windowId : null,
   });
+
+  // The new focused hostname must not also be counted as a secondary tab.
+  await syncSecondaryTabs(now);
+
+  await refreshBadge(await getTrackedPage());
 }
 
 // ─── URL helpers ─────────────────────────────────────────────────────────────
@@ -221,6 +419,15 @@ function hostnameFrom(url: string | undefined): string | null {
   }
 }
 
+function pathFrom(url: string | undefined): string | null {
+  if (!url) return null;
+  try {
+    return new URL(url).pathname;
+  } catch {
+    return null;
+  }
+}
+
 // ─── Tab helpers ─────────────────────────────────────────────────────────────
 
 /** Return the single active tab in the last-focused window, or null. */
@@ -232,10 +439,14 @@ async function queryActiveFocusedTab(): Promise<chrome.tabs.Tab | null> {
 // ─── Event handlers ──────────────────────────────────────────────────────────
 
 async function handleTabActivated(info: chrome.tabs.TabActiveInfo): Promise<void> {
-  // Only track if the tab's window is currently focused.
+  // Only the focused window's tab becomes the primary; a switch in another
+  // window may still change the secondary tabs (multi-window mode).
   try {
     const win = await chrome.windows.get(info.windowId);
-    if (!win.focused) return;
+    if (!win.focused) {
+      await syncSecondaryTabs(Date.now());
+      return;
+    }
   } catch {
     // Window may already be closed.
     return;
@@ -244,7 +455,7 @@ async function handleTabActivated(info: chrome.tabs.TabActiveInfo): Promise<void
   try {
     const tab = await chrome.tabs.get(info.tabId);
     const domain = isTrackable(tab.url) ? hostnameFrom(tab.url) : null;
-    await switchActiveDomain(domain, info.tabId, info.windowId);
+    await switchActiveDomain(domain, info.tabId, info.windowId, pathFrom(tab.url));
   } catch {
     await switchActiveDomain(null);
   }
@@ -261,7 +472,7 @@ async function handleWindowFocusChanged(windowId: number): Promise<void> {
     const [tab] = await chrome.tabs.query({ active: true, windowId });
     const domain = tab && isTrackable(tab.url) ? hostnameFrom(tab.url) : null;
     const tabId = tab?.id ?? null;
-    await switchActiveDomain(domain, tabId, windowId);
+    await switchActiveDomain(domain, tabId, windowId, pathFrom(tab?.url));
   } catch {
     await switchActiveDomain(null);
   }
@@ -271,6 +482,16 @@ async function handleTabUpdated(
   tabId: number,
   changeInfo: chrome.tabs.TabChangeInfo,
 ): Promise<void> {
+  // Audio starting/stopping, or a secondary tab navigating, changes which
+  // background tabs are counted.
+  const { secondaryTabs } = await sessionGet();
+  if (
+    changeInfo.audible !== undefined ||
+    (changeInfo.url && secondaryTabs.some((t) => t.tabId === tabId))
+  ) {
+    await syncSecondaryTabs(Date.now());
+  }
+
   // We only care about actual URL navigation, not loading/title changes.
   if (!changeInfo.url) return;
 
@@ -279,11 +500,14 @@ async function handleTabUpdated(
   if (!active || active.id !== tabId) return;
 
   const domain = isTrackable(changeInfo.url) ? hostnameFrom(changeInfo.url) : null;
-  await switchActiveDomain(domain, tabId, active.windowId);
+  await switchActiveDomain(domain, tabId, active.windowId, pathFrom(changeInfo.url));
 }
 
 async function handleTabRemoved(tabId: number): Promise<void> {
   const session = await sessionGet();
+  if (session.secondaryTabs.some((t) => t.tabId === tabId)) {
+    await syncSecondaryTabs(Date.now());
+  }
   // Only stop tracking if the removed tab is the one we're tracking.
   if (session.tabId !== tabId) return;
   await switchActiveDomain(null);
@@ -292,12 +516,62 @@ async function handleTabRemoved(tabId: number): Promise<void> {
 async function handleWindowRemoved(windowId: number): Promise<void> {
   const session = await sessionGet();
   // Only stop tracking if the removed window contains our tracked tab.
-  if (session.windowId !== windowId) return;
+  if (session.windowId !== windowId) {
+    // Its active tab may have been a secondary one.
+    if (session.secondaryTabs.length > 0) await syncSecondaryTabs(Date.now());
+    return;
+  }
   await switchActiveDomain(null);
 }
 
+// ─── Idle handling ───────────────────────────────────────────────────────────
+
+/** Tracker side of idle detection — see idle.ts for the transitions. */
+const idleHandlers: IdleHandlers = {
+  async getSettings() {
+    return (await getSettings()).idleDetection;
+  },
+
+  async isTrackedTabAudible() {
+    const { tabId, secondaryTabs } = await sessionGet();
+    const tabIds = [tabId, ...secondaryTabs.map((t) => t.tabId)];
+    for (const id of tabIds) {
+      if (id === null) continue;
+      try {
+        if ((await chrome.tabs.get(id)).audible === true) return true;
+      } catch {
+        // Tab closed since the last sync.
+      }
+    }
+    return false;
+  },
+
+  async pause(idleSinceTs) {
+    const session = await sessionGet();
+    if (session.paused) return;
+    // Count up to the moment the user went away, not up to now.
+    await flushCurrent(Math.max(session.lastFlushTs, idleSinceTs));
+    for (const tab of session.secondaryTabs) {
+      const until = Math.max(tab.lastFlushTs, idleSinceTs);
+      await flushTracked(tab.domain, tab.path, tab.lastFlushTs, until);
+    }
+    await sessionSet({ ...SESSION_DEFAULTS, paused: true });
+  },
+
+  async resume() {
+    const { paused } = await sessionGet();
+    if (!paused) return;
+    await sessionSet({ paused: false });
+    await recoverState();
+  },
+};
+
 async function handleAlarmTick(): Promise<void> {
   const now = Date.now();
+
+  // Backstop for missed idle events and media that has stopped playing.
+  await pollIdleState(idleSource, idleHandlers, now);
+
   await flushCurrent(now);
 
   // Advance lastFlushTs so the next tick measures from now.
@@ -306,8 +580,20 @@ async function handleAlarmTick(): Promise<void> {
     await sessionSet({ lastFlushTs: now });
   }
 
+  // Flush background tabs and pick up any that started playing audio.
+  await syncSecondaryTabs(now);
+
   // Expire Locked In Mode session if its endTs has passed.
   await checkLockedInExpiry();
+
+  // Roll over usage, temptations, score and self-control windows that ended.
+  await rollOverExpiredWindows(now);
+
+  // Prove we were running; the first tick of a fresh context checks for a gap.
+  await beat(now);
+
+  // Count the badge's minutes down.
+  await refreshBadge(await getTrackedPage());
 }
 
 // ─── Startup helpers ─────────────────────────────────────────────────────────
@@ -323,6 +609,12 @@ function ensureAlarm(): void {
 
 // ─── Public API ───────────────────────────────────────────────────────────────
 
+/** The page being counted (the active tab of the focused window), for the badge. */
+export async function getTrackedPage(): Promise<TrackedPage> {
+  const { activeDomain, activePath } = await sessionGet();
+  return { domain: activeDomain, path: activePath };
+}
+
 /**
  * Flush any pending time from a previous SW instance, then detect and begin
  * tracking the currently active tab (only if a browser window is focused).
@@ -339,9 +631,13 @@ export async function recoverState(): Promise<void> {
   // FLUSH_CAP_MS ensures sleep gaps don't inflate counts.
   await flushCurrent(now);
 
+  // Stay stopped while paused for idle — resume() calls back in here.
+  if ((await sessionGet()).paused) return;
+
   // Only start tracking if a browser window is currently focused.
   const tab = await queryActiveFocusedTab();
   let domain: string | null = null;
+  let path: string | null = null;
   let tabId: number | null = null;
   let windowId: number | null = null;
 
@@ -350,6 +646,7 @@ export async function recoverState(): Promise<void> {
       const win = await chrome.windows.get(tab.windowId);
       if (win.focused && isTrackable(tab.url)) {
         domain = hostnameFrom(tab.url);
+        path = pathFrom(tab.url);
         tabId = tab.id ?? null;
         windowId = tab.windowId;
       }
@@ -360,6 +657,7 @@ export async function recoverState(): Promise<void> {
 
   await sessionSet({
     activeDomain: domain,
+    activePath: domain !== null ? path : null,
     lastFlushTs: domain !== null ? now : 0,
     tabId: domain !== null ? tabId : null,
     windowId: domain !== null ? windowId : null,
@@ -379,11 +677,14 @@ export async function recoverState(): Promise<void> {
  *  - chrome.tabs.onRemoved      (flush + stop when tracked tab closes)
  *  - chrome.windows.onRemoved   (flush + stop when tracked window closes)
  *  - chrome.alarms.onAlarm      (jd-tick)
+ *  - idle state changes         (pause on idle/lock, resume on activity)
  *  - chrome.runtime.onSuspend   (final flush + advance lastFlushTs before SW sleeps)
  */
-export function initTracker(): void {
+export function initTracker(source: IdleSource = chromeIdleSource): void {
+  idleSource = source;
   ensureAlarm();
   recoverState().catch(logErr("recoverState"));
+  watchIdle(source, idleHandlers, logErr("idle"));
 
   chrome.tabs.onActivated.addListener((info) => {
     handleTabActivated(info).catch(logErr("onActivated"));
@@ -417,6 +718,7 @@ export function initTracker(): void {
   chrome.runtime.onSuspend.addListener(() => {
     const now = Date.now();
     flushCurrent(now)
+      .then(() => syncSecondaryTabs(now))
       .then(() => forceFlushStorageQueue())
       .then(() => sessionSet({ lastFlushTs: now }))
       .catch(logErr("onSuspend flush"));
@@ -0,0 +1,154 @@
+/**
+ * JustDetox — Push re-evaluation to open tabs.
+ *
+ * The overlay checks its page on load, on SPA navigation and when a time
+ * limit runs out. Without a push, a settings write — a new block rule,
+ * Allowlist Mode, a Locked In session starting or ending (the session lives
+ * in settings) — would leave already-open tabs usable until reloaded.
+ *
+ * On every `jd_settings` change (from any context) the background sends
+ * RECHECK to each web tab. The overlay answers with a side-effect-free
+ * CHECK_URL and mounts or unmounts right away.
+ *
+ * Every web tab is asked: which ones changed cannot be told from the settings
+ * diff alone — a session past its endTs evaluates the same before and after
+ * its end is written, yet its tabs still show the overlay.
+ *
+ * # Boundaries
+ * Schedules open and close without a write. The overlay sets its own timer
+ * for the next boundary (`nextCheckTs`), but Chrome throttles timers in
+ * background tabs. The "jd-policy-transition" alarm fires at the earliest
+ * boundary of any open tab (`nextTabsTransition`) and pushes RECHECK too.
+ * It is re-armed after every push and whenever a tab navigates.
+ */
+
+import { getSettings, getUsage } from "../core/storage";
+import { nextPolicyTransition } from "../core/policy";
+import type { Settings, UsageMap } from "../core/types";
+import type { RecheckMessage } from "../shared/messages";
+
+const KEY_SETTINGS = "jd_settings";
+const TRANSITION_ALARM = "jd-policy-transition";
+
+/** Quiet period before a push — settings writes come in bursts while editing. */
+const PUSH_DEBOUNCE_MS = 300;
+
+/** Fire the alarm just after the boundary so the verdict has flipped. */
+const TRANSITION_BUFFER_MS = 1_000;
+
+let pushTimer: ReturnType<typeof setTimeout> | null = null;
+
+// ─── Pure helpers ─────────────────────────────────────────────────────────────
+
+/**
+ * Ids of the tabs that run the overlay: http(s) pages that are loaded.
+ * Discarded tabs re-check on their own when they reload.
+ */
+export function recheckTabIds(tabs: chrome.tabs.Tab[]): number[] {
+  return tabs
+    .filter((t) => t.id !== undefined && !t.discarded && /^https?:/.test(t.url ?? ""))
+    .map((t) => t.id as number);
+}
+
+/**
+ * The earliest policy boundary across the pages at `urls`, or null. Pages
+ * that are not http(s) are ignored.
+ */
+export function nextTabsTransition(
+  urls: (string | undefined)[],
+  settings: Settings,
+  usage: UsageMap,
+  now: number,
+): number | null {
+  if (settings.disabled) return null;
+
+  let earliest: number | null = null;
+  for (const href of urls) {
+    let url: URL;
+    try {
+      url = new URL(href ?? "");
+    } catch {
+      continue;
+    }
+    if (url.protocol !== "http:" && url.protocol !== "https:") continue;
+
+    const next = nextPolicyTransition(url.hostname, settings, usage, now, url.pathname);
+    if (next !== null && (earliest === null || next < earliest)) earliest = next;
+  }
+  return earliest;
+}
+
+// ─── Push ─────────────────────────────────────────────────────────────────────
+
+/** Ask every open web tab to re-check its page now. */
+export async function pushRecheck(): Promise<void> {
+  const msg: RecheckMessage = { type: "RECHECK" };
+  const tabs = await chrome.tabs.query({});
+  await Promise.all(
+    recheckTabIds(tabs).map((id) =>
+      chrome.tabs.sendMessage(id, msg).catch(() => {
+        // No content script in this tab (still loading, or injected before install).
+      }),
+    ),
+  );
+}
+
+/** Arm the "jd-policy-transition" alarm for the earliest boundary of any open tab. */
+export async function scheduleTransitionAlarm(now: number = Date.now()): Promise<void> {
+  const [settings, usage, tabs] = await Promise.all([getSettings(), getUsage(), chrome.tabs.query({})]);
+  const next = nextTabsTransition(
+    tabs.filter((t) => !t.discarded).map((t) => t.url),
+    settings,
+    usage,
+    now,
+  );
+
+  if (next === null) {
+    await chrome.alarms.clear(TRANSITION_ALARM);
+  } else {
+    await chrome.alarms.create(TRANSITION_ALARM, { when: next + TRANSITION_BUFFER_MS });
+  }
+}
+
+function logFailure(label: string): (err: unknown) => void {
+  return (err) => {
+    // eslint-disable-next-line no-console
+    console.error(`[JustDetox] ${label} failed:`, err);
+  };
+}
+
+/** Push a re-check now, then re-arm the boundary alarm. */
+function pushAndRearm(): void {
+  pushRecheck()
+    .then(() => scheduleTransitionAlarm())
+    .catch(logFailure("pushRecheck"));
+}
+
+function schedulePush(): void {
+  if (pushTimer !== null) clearTimeout(pushTimer);
+  pushTimer = setTimeout(() => {
+    pushTimer = null;
+    pushAndRearm();
+  }, PUSH_DEBOUNCE_MS);
+}
+
+/**
+ * Push a re-check to open tabs whenever settings change or a policy
+ * boundary passes. Call once at service-worker startup.
+ */
+export function initVerdictPush(): void {
+  chrome.storage.onChanged.addListener((changes, areaName) => {
+    if (areaName === "local" && KEY_SETTINGS in changes) schedulePush();
+  });
+
+  chrome.alarms.onAlarm.addListener((alarm) => {
+    if (alarm.name === TRANSITION_ALARM) pushAndRearm();
+  });
+
+  // A tab on a new site may have an earlier boundary.
+  chrome.tabs.onUpdated.addListener((_tabId, changeInfo) => {
+    if (changeInfo.url) scheduleTransitionAlarm().catch(logFailure("scheduleTransitionAlarm"));
+  });
+
+  scheduleTransitionAlarm().catch(logFailure("scheduleTransitionAlarm"));
+}
@@ -10,10 +10,11 @@
  *  1. extractIframeDomain — iframe src → hostname extraction
  *  2. Domain matching — confirming existing domainMatches() covers
  *     the iframe-specific cases (subdomain embed URLs, etc.)
+ *  3. blocksEmbed — which lookup statuses replace an iframe
  */
 
 import { describe, it, expect } from "vitest";
-import { extractIframeDomain } from "../iframeBlocker";
+import { extractIframeDomain, blocksEmbed } from "../iframeBlocker";
 import { domainMatches } from "../../core/domain";
 
 // ─── extractIframeDomain ──────────────────────────────────────────────────────
@@ -145,3 +146,20 @@ describe("domainMatches — iframe embed URL scenarios", () => {
     expect(domainMatches("example.com", "example.com")).toBe(true);
   });
 });
+
+// ─── blocksEmbed ──────────────────────────────────────────────────────────────
+
+describe("blocksEmbed", () => {
+  it("blocks blocked sites", () => {
+    expect(blocksEmbed({ status: "blocked" })).toBe(true);
+  });
+
+  it("blocks Delay Mode sites instead of showing a countdown", () => {
+    expect(blocksEmbed({ status: "limited", remainingSeconds: 600, delayed: true })).toBe(true);
+  });
+
+  it("leaves open and plain limited sites alone", () => {
+    expect(blocksEmbed({ status: "open" })).toBe(false);
+    expect(blocksEmbed({ status: "limited", remainingSeconds: 600 })).toBe(false);
+  });
+});
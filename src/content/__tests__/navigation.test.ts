@@ -0,0 +1,71 @@
+/**
+ * Unit tests for navigation.ts — how the overlay re-checks after a navigation.
+ */
+
+import { describe, it, expect } from "vitest";
+import { navigationCheck, mergeCheck, skipsDelay } from "../navigation";
+
+const home = { hostname: "youtube.com", path: "/" };
+const video = { hostname: "youtube.com", path: "/watch" };
+
+// ─── navigationCheck ──────────────────────────────────────────────────────────
+
+describe("navigationCheck", () => {
+  it("checks a same-host path change as a path change", () => {
+    expect(navigationCheck(home, video, false)).toBe("path");
+  });
+
+  it("checks a new hostname as a visit", () => {
+    expect(navigationCheck(home, { hostname: "m.youtube.com", path: "/" }, false)).toBe("visit");
+  });
+
+  it("checks any navigation away from an overlay as a visit", () => {
+    expect(navigationCheck(home, video, true)).toBe("visit");
+    expect(navigationCheck(home, home, true)).toBe("visit");
+  });
+
+  it("skips the check when nothing changed", () => {
+    expect(navigationCheck(home, home, false)).toBeNull();
+  });
+});
+
+// ─── mergeCheck ───────────────────────────────────────────────────────────────
+
+describe("mergeCheck", () => {
+  it("queues a path change that arrives mid-flight", () => {
+    expect(mergeCheck(null, "path")).toBe("path");
+  });
+
+  it("keeps the stronger of the queued and the new check", () => {
+    expect(mergeCheck("recheck", "path")).toBe("path");
+    expect(mergeCheck("path", "recheck")).toBe("path");
+    expect(mergeCheck("visit", "path")).toBe("visit");
+  });
+});
+
+// ─── Delay Mode on same-host navigation ───────────────────────────────────────
+
+describe("skipsDelay", () => {
+  it("lets a delayed site through on a same-host path change", () => {
+    // Every new video on a delayed YouTube must not restart the countdown.
+    const kind = navigationCheck(home, video, false);
+    expect(kind).not.toBeNull();
+    expect(skipsDelay(kind!, false, false)).toBe(true);
+  });
+
+  it("starts the countdown on a visit", () => {
+    expect(skipsDelay("visit", false, false)).toBe(false);
+  });
+
+  it("lets a re-check through without a countdown on an open page", () => {
+    expect(skipsDelay("recheck", false, false)).toBe(true);
+  });
+
+  it("starts the countdown when a block overlay gives way to a delayed site", () => {
+    expect(skipsDelay("recheck", true, false)).toBe(false);
+  });
+
+  it("lets the page through right after a countdown", () => {
+    expect(skipsDelay("visit", false, true)).toBe(true);
+  });
+});
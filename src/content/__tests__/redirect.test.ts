@@ -0,0 +1,100 @@
+/**
+ * Unit tests for redirect.ts — redirector decoding and shortener hints.
+ */
+
+import { describe, it, expect } from "vitest";
+import { decodeRedirect, resolveDestination, isShortener } from "../redirect";
+
+const enc = encodeURIComponent;
+
+// ─── decodeRedirect ───────────────────────────────────────────────────────────
+
+describe("decodeRedirect", () => {
+  it("decodes Facebook's l.php?u=", () => {
+    expect(decodeRedirect(`https://l.facebook.com/l.php?u=${enc("https://reddit.com/r/all")}&h=AT0`)).toBe(
+      "https://reddit.com/r/all",
+    );
+  });
+
+  it("decodes google.com/url?q= on any Google domain, and ?url=", () => {
+    expect(decodeRedirect(`https://www.google.com/url?q=${enc("https://youtube.com/")}&sa=D`)).toBe(
+      "https://youtube.com/",
+    );
+    expect(decodeRedirect(`https://www.google.co.uk/url?url=${enc("https://x.com/home")}`)).toBe(
+      "https://x.com/home",
+    );
+  });
+
+  it("decodes out.reddit.com and youtube.com/redirect", () => {
+    expect(decodeRedirect(`https://out.reddit.com/t3_abc?url=${enc("https://twitch.tv/")}&token=x`)).toBe(
+      "https://twitch.tv/",
+    );
+    expect(decodeRedirect(`https://www.youtube.com/redirect?q=${enc("https://instagram.com/p/1")}`)).toBe(
+      "https://instagram.com/p/1",
+    );
+  });
+
+  it("follows redirectors nested in redirectors", () => {
+    const inner = `https://l.facebook.com/l.php?u=${enc("https://reddit.com/")}`;
+    expect(decodeRedirect(`https://www.google.com/url?q=${enc(inner)}`)).toBe("https://reddit.com/");
+  });
+
+  it("ignores the redirector's other endpoints", () => {
+    expect(decodeRedirect(`https://www.google.com/search?q=${enc("https://reddit.com/")}`)).toBeNull();
+    expect(decodeRedirect(`https://www.facebook.com/l.php?u=${enc("https://reddit.com/")}`)).toBeNull();
+  });
+
+  it("ignores non-http destinations and missing parameters", () => {
+    expect(decodeRedirect(`https://www.google.com/url?q=${enc("javascript:alert(1)")}`)).toBeNull();
+    expect(decodeRedirect("https://www.google.com/url?sa=D")).toBeNull();
+    expect(decodeRedirect("not a url")).toBeNull();
+  });
+
+  it("returns null for ordinary links", () => {
+    expect(decodeRedirect("https://example.com/page?u=https://reddit.com")).toBeNull();
+  });
+});
+
+// ─── resolveDestination ───────────────────────────────────────────────────────
+
+describe("resolveDestination", () => {
+  it("returns the decoded host and path", () => {
+    expect(resolveDestination(`https://l.facebook.com/l.php?u=${enc("https://www.reddit.com/r/all")}`)).toEqual({
+      hostname: "www.reddit.com",
+      path: "/r/all",
+    });
+  });
+
+  it("uses hints for shorteners, skipping ones that are not URLs", () => {
+    expect(resolveDestination("https://t.co/abc123", [null, "Read more", "youtube.com/watch?v=1…"])).toEqual({
+      hostname: "youtube.com",
+      path: "/watch",
+    });
+    expect(resolveDestination("https://bit.ly/x", ["https://twitch.tv/streamer"])).toEqual({
+      hostname: "twitch.tv",
+      path: "/streamer",
+    });
+  });
+
+  it("returns null for a shortener without a usable hint", () => {
+    expect(resolveDestination("https://t.co/abc123", ["", "Click here"])).toBeNull();
+    expect(resolveDestination("https://t.co/abc123", ["https://t.co/abc123"])).toBeNull();
+    expect(resolveDestination("https://t.co/abc123")).toBeNull();
+  });
+
+  it("ignores hints on ordinary links", () => {
+    expect(resolveDestination("https://example.com/", ["reddit.com"])).toBeNull();
+  });
+
+  it("returns null when the destination is on the link's own host", () => {
+    expect(resolveDestination(`https://www.google.com/url?q=${enc("https://www.google.com/maps")}`)).toBeNull();
+  });
+});
+
+describe("isShortener", () => {
+  it("matches known shorteners case-insensitively", () => {
+    expect(isShortener("t.co")).toBe(true);
+    expect(isShortener("BIT.LY")).toBe(true);
+    expect(isShortener("reddit.com")).toBe(false);
+  });
+});
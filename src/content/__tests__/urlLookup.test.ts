@@ -0,0 +1,149 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { createUrlLookup, targetKey, verdictTtlMs, BATCH_MAX, CACHE_TTL_MS } from "../urlLookup";
+import type { UrlBatchSender } from "../urlLookup";
+import { DEFAULT_LINK_ANNOTATIONS } from "../../core/types";
+
+// ─── Helpers ──────────────────────────────────────────────────────────────────
+
+/** A sender that answers "blocked" for reddit.com and "open" for everything else. */
+function makeSender() {
+  return vi.fn<UrlBatchSender>(async (urls) => ({
+    results: urls.map((u) =>
+      u.hostname === "reddit.com" ? { status: "blocked" as const } : { status: "open" as const },
+    ),
+    annotations: DEFAULT_LINK_ANNOTATIONS,
+  }));
+}
+
+beforeEach(() => {
+  vi.useFakeTimers();
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+// ─── targetKey ────────────────────────────────────────────────────────────────
+
+describe("targetKey", () => {
+  it("tells a bare host from the same host with a path", () => {
+    expect(targetKey({ hostname: "a.com" })).not.toBe(targetKey({ hostname: "a.com", path: "/x" }));
+  });
+});
+
+// ─── verdictTtlMs ─────────────────────────────────────────────────────────────
+
+describe("verdictTtlMs", () => {
+  it("keeps blocked and open answers for the full TTL", () => {
+    expect(verdictTtlMs({ status: "blocked" })).toBe(CACHE_TTL_MS);
+    expect(verdictTtlMs({ status: "open" })).toBe(CACHE_TTL_MS);
+  });
+
+  it("expires a limited answer when its time runs out", () => {
+    expect(verdictTtlMs({ status: "limited", remainingSeconds: 12 })).toBe(12_000);
+    expect(verdictTtlMs({ status: "limited", remainingSeconds: 3_600 })).toBe(CACHE_TTL_MS);
+  });
+});
+
+// ─── createUrlLookup ──────────────────────────────────────────────────────────
+
+describe("createUrlLookup", () => {
+  it("sends lookups made together in one batch", async () => {
+    const send = makeSender();
+    const lookup = createUrlLookup(send);
+
+    const verdicts = Promise.all([lookup({ hostname: "reddit.com" }), lookup({ hostname: "example.com" })]);
+    await vi.runAllTimersAsync();
+
+    expect(send).toHaveBeenCalledTimes(1);
+    expect((await verdicts).map((v) => v?.status.status)).toEqual(["blocked", "open"]);
+  });
+
+  it("asks about a repeated target once and serves it from the cache", async () => {
+    const send = makeSender();
+    const lookup = createUrlLookup(send);
+
+    void lookup({ hostname: "reddit.com" });
+    void lookup({ hostname: "reddit.com" });
+    await vi.runAllTimersAsync();
+    await lookup({ hostname: "reddit.com" });
+
+    expect(send).toHaveBeenCalledTimes(1);
+    expect(send.mock.calls[0]?.[0]).toHaveLength(1);
+  });
+
+  it("asks again once the cached answer is stale", async () => {
+    const send = makeSender();
+    let clock = 0;
+    const lookup = createUrlLookup(send, () => clock);
+
+    void lookup({ hostname: "reddit.com" });
+    await vi.runAllTimersAsync();
+    clock = 61_000;
+    void lookup({ hostname: "reddit.com" });
+    await vi.runAllTimersAsync();
+
+    expect(send).toHaveBeenCalledTimes(2);
+  });
+
+  it("asks again about a limited site once its remaining time is up", async () => {
+    let clock = 0;
+    const send = vi.fn<UrlBatchSender>(async () => ({
+      results: [{ status: "limited", remainingSeconds: 5 }],
+      annotations: DEFAULT_LINK_ANNOTATIONS,
+    }));
+    const lookup = createUrlLookup(send, () => clock);
+
+    void lookup({ hostname: "twitter.com" });
+    await vi.runAllTimersAsync();
+    clock = 4_000;
+    void lookup({ hostname: "twitter.com" });
+    await vi.runAllTimersAsync();
+    expect(send).toHaveBeenCalledTimes(1);
+
+    clock = 6_000;
+    void lookup({ hostname: "twitter.com" });
+    await vi.runAllTimersAsync();
+    expect(send).toHaveBeenCalledTimes(2);
+  });
+
+  it("asks again after the cache is cleared", async () => {
+    const send = makeSender();
+    const lookup = createUrlLookup(send);
+
+    void lookup({ hostname: "reddit.com" });
+    await vi.runAllTimersAsync();
+    lookup.clear();
+    void lookup({ hostname: "reddit.com" });
+    await vi.runAllTimersAsync();
+
+    expect(send).toHaveBeenCalledTimes(2);
+  });
+
+  it("splits large batches into messages of at most BATCH_MAX targets", async () => {
+    const send = makeSender();
+    const lookup = createUrlLookup(send);
+
+    for (let i = 0; i < BATCH_MAX + 1; i++) void lookup({ hostname: `site${i}.com` });
+    await vi.runAllTimersAsync();
+
+    expect(send).toHaveBeenCalledTimes(2);
+    expect(send.mock.calls[0]?.[0]).toHaveLength(BATCH_MAX);
+    expect(send.mock.calls[1]?.[0]).toHaveLength(1);
+  });
+
+  it("resolves null on failure and does not cache it", async () => {
+    const send = vi.fn<UrlBatchSender>().mockRejectedValueOnce(new Error("context invalidated"));
+    send.mockResolvedValue({ results: [{ status: "open" }], annotations: DEFAULT_LINK_ANNOTATIONS });
+    const lookup = createUrlLookup(send);
+
+    const first = lookup({ hostname: "example.com" });
+    await vi.runAllTimersAsync();
+    expect(await first).toBeNull();
+
+    const second = lookup({ hostname: "example.com" });
+    await vi.runAllTimersAsync();
+    expect((await second)?.status).toEqual({ status: "open" });
+    expect(send).toHaveBeenCalledTimes(2);
+  });
+});
@@ -6,21 +6,27 @@
  * Responsibilities:
  *  1. Scan all <iframe> elements present in the DOM on load.
  *  2. For each iframe, extract its src hostname and ask the background
- *     whether that domain is blocked (reusing the existing CHECK_URL flow).
+ *     whether that domain is blocked — batched with the page's other
+ *     lookups into CHECK_URLS messages and cached (see urlLookup.ts).
  *  3. Replace blocked iframes with a styled placeholder element.
  *  4. Watch for dynamically added iframes (JS frameworks, lazy-load) via
  *     MutationObserver and apply the same check.
  *  5. Watch for src attribute changes on existing iframes and re-check.
+ *  6. Judge an iframe whose src goes through a known redirector
+ *     (e.g. google.com/url?q=…) by its destination too (see redirect.ts).
  *
  * Design constraints:
  *  - Inline styles only (same as overlay.ts) — no CSP issues, no flash.
  *  - No cross-origin DOM access — only the iframe.src attribute is read.
  *  - Delay mode iframes are blocked immediately (never show countdown for
  *    embedded content; per spec requirement §10).
- *  - The CHECK_URL message is reused — no new message type needed.
+ *  - CHECK_URLS records no temptation attempt — an embed on a page is not
+ *    the user trying to open the site.
  */
 
-import type { CheckUrlMessage, CheckUrlResponse } from "../shared/messages";
+import type { UrlStatus } from "../shared/messages";
+import { resolveDestination } from "./redirect";
+import { createUrlLookup, chromeUrlBatchSender } from "./urlLookup";
 
 // ─── Constants ────────────────────────────────────────────────────────────────
 
@@ -62,6 +68,22 @@ export function extractIframeDomain(src: string): string | null {
   }
 }
 
+/**
+ * Extract the path from an iframe src URL so path rules apply to embeds.
+ * Only meaningful when `extractIframeDomain` returned a hostname.
+ *
+ * @example
+ *   extractIframePath("https://www.youtube.com/embed/abc") → "/embed/abc"
+ *   extractIframePath("not a url")                         → undefined
+ */
+export function extractIframePath(src: string): string | undefined {
+  try {
+    return new URL(src).pathname;
+  } catch {
+    return undefined;
+  }
+}
+
 // ─── Placeholder DOM ──────────────────────────────────────────────────────────
 
 /**
@@ -114,27 +136,26 @@ export function buildBlockedPlaceholder(width: number, height: number): HTMLDivE
 
 // ─── Background check ─────────────────────────────────────────────────────────
 
+const lookup = createUrlLookup(chromeUrlBatchSender);
+
 /**
- * Ask the background service worker whether `hostname` should be blocked.
- *
- * Reuses the existing CHECK_URL message — the background applies the full
- * rule engine including allowlist mode, locked-in mode, schedules, etc.
+ * Whether an embed with this status is replaced by a placeholder.
  *
  * Per requirement §10: delay mode → block immediately for embedded content.
- * A `delayed` response is treated as `blocked` here.
+ * A delayed limited site is treated as blocked here.
  */
-async function shouldBlockDomain(hostname: string): Promise<boolean> {
-  const msg: CheckUrlMessage = { type: "CHECK_URL", hostname };
-  try {
-    const response: CheckUrlResponse | null | undefined =
-      await chrome.runtime.sendMessage(msg);
-    if (!response) return false;
-    // Delay mode: block embedded content instead of showing a countdown.
-    return response.blocked || (response.delayed ?? false);
-  } catch {
-    // Extension context not ready or invalidated — fail open (don't block).
-    return false;
-  }
+export function blocksEmbed(status: UrlStatus): boolean {
+  return status.status === "blocked" || (status.status === "limited" && (status.delayed ?? false));
+}
+
+/**
+ * Ask the background service worker whether `hostname` should be blocked.
+ * The background applies the full rule engine including allowlist mode,
+ * locked-in mode, schedules, etc. Fails open when there is no answer.
+ */
+async function shouldBlockDomain(hostname: string, path?: string): Promise<boolean> {
+  const verdict = await lookup({ hostname, path });
+  return verdict !== null && blocksEmbed(verdict.status);
 }
 
 // ─── Iframe processing ────────────────────────────────────────────────────────
@@ -155,7 +176,12 @@ export async function processIframe(iframe: HTMLIFrameElement): Promise<void> {
   const hostname = extractIframeDomain(src);
   if (!hostname) return; // non-HTTP src — leave alone
 
-  const blocked = await shouldBlockDomain(hostname);
+  // A redirector embed is blocked when either it or its destination is.
+  // Both lookups start together so they share a batch.
+  const destination = resolveDestination(src);
+  const checks = [shouldBlockDomain(hostname, extractIframePath(src))];
+  if (destination) checks.push(shouldBlockDomain(destination.hostname, destination.path));
+  const blocked = (await Promise.all(checks)).some(Boolean);
   if (!blocked) return;
 
   // Capture dimensions before removing the element from the DOM.
@@ -0,0 +1,297 @@
+/**
+ * JustDetox Content Script — Link Annotator
+ *
+ * Runs at document_idle on every page.
+ *
+ * Responsibilities:
+ *  1. Scan all links on load and find where each one leads — through
+ *     redirectors and shorteners too (see redirect.ts).
+ *  2. Look the destinations up in batches via CHECK_URLS (urlLookup.ts)
+ *     instead of one CHECK_URL per link.
+ *  3. Put an inline badge after links to blocked ("Blocked") or time-limited
+ *     ("12 min left") sites, and dim blocked ones when
+ *     `linkAnnotations.dimLinks` is on.
+ *  4. Watch for added links and changed hrefs (infinite scroll, SPA
+ *     re-renders) via MutationObserver.
+ *  5. Refresh the badges when the earliest answer's lookup TTL passes
+ *     ("12 min left" counts down, a schedule ends) and when the background
+ *     pushes RECHECK after a settings change.
+ *
+ * Links to the page's own host are skipped: a limited site would otherwise
+ * badge every one of its own links. Whether annotations are on is asked
+ * once, with an empty CHECK_URLS, before any link is looked up; turning
+ * them off later removes the badges and stops the annotator.
+ *
+ * Design constraints match the other content scripts: inline styles only,
+ * fail open when the extension context is unavailable.
+ */
+
+import type { TabMessage, UrlTarget } from "../shared/messages";
+import { resolveDestination } from "./redirect";
+import { createUrlLookup, chromeUrlBatchSender, verdictTtlMs } from "./urlLookup";
+import type { UrlVerdict } from "./urlLookup";
+
+// ─── Constants ────────────────────────────────────────────────────────────────
+
+const BADGE_CLASS = "justdetox-link-badge";
+
+/** Links annotated per page at most — keeps huge pages cheap. */
+const MAX_LINKS = 1_000;
+
+/** Delay before added nodes are scanned, to coalesce bursts of mutations. */
+const SCAN_DEBOUNCE_MS = 200;
+
+/** Shortest wait before badges are refreshed, so an expiring answer cannot spin. */
+const MIN_REFRESH_MS = 1_000;
+
+// ─── Pure helpers ─────────────────────────────────────────────────────────────
+
+/**
+ * The target a link is judged by: its decoded destination when it goes
+ * through a redirector, otherwise its own host and path. Null for non-http
+ * links and for links to `pageHostname`.
+ */
+export function linkTarget(
+  href: string,
+  pageHostname: string,
+  hints: (string | null | undefined)[] = [],
+): UrlTarget | null {
+  let url: URL;
+  try {
+    url = new URL(href);
+  } catch {
+    return null;
+  }
+  if (url.protocol !== "http:" && url.protocol !== "https:") return null;
+
+  const target = resolveDestination(href, hints) ?? { hostname: url.hostname, path: url.pathname };
+  return target.hostname === pageHostname ? null : target;
+}
+
+/** Badge text for a verdict, or null when the link gets no badge. */
+export function badgeLabel(verdict: UrlVerdict): string | null {
+  const { status } = verdict;
+  if (status.status === "blocked") return "Blocked";
+  if (status.status === "limited") {
+    const minutes = Math.floor(status.remainingSeconds / 60);
+    return minutes < 1 ? "<1 min left" : `${minutes} min left`;
+  }
+  return null;
+}
+
+// ─── Badge DOM ────────────────────────────────────────────────────────────────
+
+function buildBadge(label: string, blocked: boolean): HTMLSpanElement {
+  const badge = document.createElement("span");
+  badge.className = BADGE_CLASS;
+  badge.textContent = label;
+  Object.assign(badge.style, {
+    display: "inline-block",
+    marginLeft: "6px",
+    padding: "0 6px",
+    border: "1px solid #333",
+    borderRadius: "3px",
+    background: "#0a0a0a",
+    color: blocked ? "#e5e5e5" : "#aaa",
+    fontFamily: "Inter, system-ui, -apple-system, sans-serif",
+    fontSize: "11px",
+    fontWeight: "500",
+    lineHeight: "16px",
+    letterSpacing: "0.02em",
+    verticalAlign: "middle",
+    whiteSpace: "nowrap",
+    pointerEvents: "none",
+    userSelect: "none",
+  });
+  return badge;
+}
+
+// ─── Annotation state ─────────────────────────────────────────────────────────
+
+interface Annotation {
+  /** The href the annotation is for — a changed href is annotated again. */
+  href: string;
+  badge?: HTMLSpanElement;
+}
+
+let annotations = new WeakMap<HTMLAnchorElement, Annotation>();
+const lookup = createUrlLookup(chromeUrlBatchSender);
+let annotatedCount = 0;
+let observer: MutationObserver | null = null;
+let refreshTimer: ReturnType<typeof setTimeout> | null = null;
+/** When `refreshTimer` fires (unix ms). */
+let refreshAt = 0;
+
+function clearAnnotation(anchor: HTMLAnchorElement, annotation: Annotation): void {
+  annotation.badge?.remove();
+  annotation.badge = undefined;
+  anchor.style.removeProperty("opacity");
+}
+
+function applyVerdict(anchor: HTMLAnchorElement, annotation: Annotation, verdict: UrlVerdict | null): void {
+  // The href changed or a refresh started while the lookup was in flight —
+  // a newer answer is coming.
+  if (annotations.get(anchor) !== annotation) return;
+
+  // Fail open: a failed refresh keeps the badge it had.
+  if (!verdict) return;
+  clearAnnotation(anchor, annotation);
+  if (!verdict.annotations.enabled) {
+    stopAnnotator();
+    return;
+  }
+  scheduleRefresh(verdictTtlMs(verdict.status));
+
+  const label = badgeLabel(verdict);
+  if (!label) return;
+
+  const blocked = verdict.status.status === "blocked";
+  annotation.badge = buildBadge(label, blocked);
+  anchor.insertAdjacentElement("afterend", annotation.badge);
+  if (blocked && verdict.annotations.dimLinks) anchor.style.opacity = "0.45";
+}
+
+/**
+ * Look `anchor` up and badge it. A new href clears the old badge at once;
+ * a `refresh` of an unchanged href keeps it until the new answer arrives.
+ */
+function annotate(anchor: HTMLAnchorElement, refresh = false): void {
+  const existing = annotations.get(anchor);
+  if (existing?.href === anchor.href && !refresh) return;
+  if (existing && existing.href !== anchor.href) clearAnnotation(anchor, existing);
+  else if (!existing && annotatedCount >= MAX_LINKS) return;
+
+  const target = linkTarget(anchor.href, location.hostname, [
+    anchor.getAttribute("data-expanded-url"),
+    anchor.title,
+    anchor.textContent,
+  ]);
+  const annotation: Annotation = {
+    href: anchor.href,
+    badge: existing?.href === anchor.href ? existing.badge : undefined,
+  };
+  annotations.set(anchor, annotation);
+  if (!existing) annotatedCount++;
+  if (!target) return;
+
+  void lookup(target).then((verdict) => applyVerdict(anchor, annotation, verdict));
+}
+
+// ─── Refresh ──────────────────────────────────────────────────────────────────
+
+/** Look every annotated link up again; stale answers are re-asked in batches. */
+function refreshAll(): void {
+  document.querySelectorAll("a[href]").forEach((el) => {
+    const anchor = el as HTMLAnchorElement;
+    if (annotations.has(anchor)) annotate(anchor, true);
+  });
+}
+
+/** Refresh once the earliest answer shown goes stale, `ttlMs` from now. */
+function scheduleRefresh(ttlMs: number): void {
+  const at = Date.now() + Math.max(ttlMs, MIN_REFRESH_MS);
+  if (refreshTimer !== null && refreshAt <= at) return;
+  if (refreshTimer !== null) clearTimeout(refreshTimer);
+  refreshAt = at;
+  refreshTimer = setTimeout(() => {
+    refreshTimer = null;
+    refreshAll();
+  }, at - Date.now());
+}
+
+/** Annotations were turned off: remove every badge and stop watching. */
+function stopAnnotator(): void {
+  observer?.disconnect();
+  observer = null;
+  if (refreshTimer !== null) clearTimeout(refreshTimer);
+  refreshTimer = null;
+
+  document.querySelectorAll("a[href]").forEach((el) => {
+    const anchor = el as HTMLAnchorElement;
+    const annotation = annotations.get(anchor);
+    if (annotation) clearAnnotation(anchor, annotation);
+  });
+  // Answers still in flight no longer match and are dropped.
+  annotations = new WeakMap();
+  annotatedCount = 0;
+}
+
+// ─── Scan helpers ─────────────────────────────────────────────────────────────
+
+function scanSubtree(root: Element): void {
+  if (root instanceof HTMLAnchorElement && root.hasAttribute("href")) annotate(root);
+  root.querySelectorAll("a[href]").forEach((el) => annotate(el as HTMLAnchorElement));
+}
+
+// ─── Init ─────────────────────────────────────────────────────────────────────
+
+/**
+ * Whether annotations are on — an empty CHECK_URLS answers with the
+ * settings alone. False when the extension context is unavailable.
+ */
+async function annotationsEnabled(): Promise<boolean> {
+  try {
+    return (await chromeUrlBatchSender([]))?.annotations.enabled ?? false;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Start the annotator when annotations are on:
+ *  1. Annotate every link in the document.
+ *  2. Observe added subtrees (debounced) and href changes.
+ */
+export async function initLinkAnnotator(): Promise<void> {
+  if (observer !== null) return;
+  // Checked again after the wait: a RECHECK may have started it meanwhile.
+  if (!(await annotationsEnabled()) || observer !== null) return;
+  scanSubtree(document.documentElement);
+
+  let queued: Element[] = [];
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  const flushQueued = () => {
+    timer = null;
+    const roots = queued;
+    queued = [];
+    for (const root of roots) if (root.isConnected) scanSubtree(root);
+  };
+
+  observer = new MutationObserver((mutations) => {
+    for (const mutation of mutations) {
+      if (mutation.type === "childList") {
+        for (const node of mutation.addedNodes) {
+          if (node.nodeType !== Node.ELEMENT_NODE) continue;
+          if ((node as Element).classList.contains(BADGE_CLASS)) continue;
+          queued.push(node as Element);
+        }
+      } else if (mutation.target instanceof HTMLAnchorElement) {
+        annotate(mutation.target);
+      }
+    }
+    if (queued.length > 0 && timer === null) timer = setTimeout(flushQueued, SCAN_DEBOUNCE_MS);
+  });
+
+  observer.observe(document.documentElement, {
+    childList: true,
+    subtree: true,
+    attributes: true,
+    attributeFilter: ["href"],
+  });
+}
+
+// ─── Boot ─────────────────────────────────────────────────────────────────────
+
+// Guard: only auto-init in a browser context (not in unit tests / Node.js).
+if (typeof document !== "undefined") {
+  void initLinkAnnotator();
+
+  // A settings change can turn annotations on or off or change any verdict.
+  chrome.runtime.onMessage.addListener((message: TabMessage) => {
+    if (message.type !== "RECHECK") return false;
+    lookup.clear();
+    if (observer !== null) refreshAll();
+    else void initLinkAnnotator();
+    return false;
+  });
+}
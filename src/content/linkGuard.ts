@@ -0,0 +1,207 @@
+/**
+ * JustDetox Content Script — Outbound Link Guard
+ *
+ * Runs at document_start on every page.
+ *
+ * A link through a redirector or shortener (`t.co`, `l.facebook.com/l.php`,
+ * `google.com/url`, …) only reaches its real host after a redirect. The
+ * guard resolves such links with `resolveDestination` (redirect.ts) and asks
+ * the background about the destination before the browser leaves the page:
+ *
+ *  1. Hovering or focusing a redirect link starts the lookup (a batched,
+ *     side-effect-free CHECK_URLS — hovering is not a temptation attempt),
+ *     so the verdict is usually known by the time it is clicked.
+ *  2. A link whose destination is blocked gets the blocked-link treatment
+ *     (struck through, dimmed, not clickable) and its clicks are swallowed.
+ *  3. A click that beats the verdict is held; once the destination turns out
+ *     to be allowed, it is replayed.
+ *  4. A verdict is reused only for the lookup TTL (`verdictTtlMs`); after
+ *     that the link is looked up again, and a link whose destination is now
+ *     allowed loses the blocked-link treatment.
+ *
+ * Direct links are left alone — the overlay blocks them on arrival.
+ * Design constraints match the other content scripts: inline styles only,
+ * fail open when the extension context is unavailable.
+ */
+
+import { resolveDestination } from "./redirect";
+import type { LinkDestination } from "./redirect";
+import { createUrlLookup, chromeUrlBatchSender, verdictTtlMs } from "./urlLookup";
+
+// ─── Constants ────────────────────────────────────────────────────────────────
+
+/** Set on links that received the blocked-link treatment. */
+const BLOCKED_ATTR = "data-jd-blocked-link";
+
+// ─── Verdict cache ────────────────────────────────────────────────────────────
+
+interface LinkVerdict {
+  /** The href the verdict is for — a changed href is checked again. */
+  href: string;
+  /** Resolves to true when the destination is blocked. */
+  blocked: Promise<boolean>;
+  /** Set once `blocked` has resolved. */
+  settled?: boolean;
+  /** When the settled verdict goes stale (unix ms); looked up again after. */
+  expiresAt?: number;
+}
+
+const verdicts = new WeakMap<HTMLAnchorElement, LinkVerdict>();
+
+const lookup = createUrlLookup(chromeUrlBatchSender);
+
+/**
+ * Ask the background whether `destination` is blocked, and for how long the
+ * answer holds. Fails open, with no reuse so the next activation asks again.
+ */
+async function checkDestination(destination: LinkDestination): Promise<{ blocked: boolean; ttlMs: number }> {
+  const verdict = await lookup(destination);
+  if (!verdict) return { blocked: false, ttlMs: 0 };
+  // Delay Mode still lets the page open — the countdown runs on arrival.
+  return { blocked: verdict.status.status === "blocked", ttlMs: verdictTtlMs(verdict.status) };
+}
+
+/** The destination of a redirect link, using what the page shows as hints. */
+function destinationOf(anchor: HTMLAnchorElement): LinkDestination | null {
+  return resolveDestination(anchor.href, [
+    anchor.getAttribute("data-expanded-url"),
+    // The blocked-link treatment replaces the title; use the page's own.
+    savedStyles.get(anchor)?.title ?? anchor.title,
+    anchor.textContent,
+  ]);
+}
+
+/** The cached or freshly started verdict for `anchor`; null for direct links. */
+function verdictFor(anchor: HTMLAnchorElement): LinkVerdict | null {
+  const cached = verdicts.get(anchor);
+  if (
+    cached &&
+    cached.href === anchor.href &&
+    (!cached.settled || Date.now() < (cached.expiresAt ?? 0))
+  ) {
+    return cached;
+  }
+
+  const destination = destinationOf(anchor);
+  if (!destination) return null;
+
+  const check = checkDestination(destination);
+  const verdict: LinkVerdict = { href: anchor.href, blocked: check.then((c) => c.blocked) };
+  verdicts.set(anchor, verdict);
+  void check.then(({ blocked, ttlMs }) => {
+    verdict.settled = true;
+    verdict.expiresAt = Date.now() + ttlMs;
+    if (blocked) markBlocked(anchor, destination.hostname);
+    else unmarkBlocked(anchor);
+  });
+  return verdict;
+}
+
+// ─── Blocked-link treatment ───────────────────────────────────────────────────
+
+/** What `markBlocked` overwrote, so `unmarkBlocked` can put it back. */
+interface SavedLinkStyle {
+  title: string;
+  ariaDisabled: string | null;
+  textDecoration: string;
+  opacity: string;
+  cursor: string;
+}
+
+const savedStyles = new WeakMap<HTMLAnchorElement, SavedLinkStyle>();
+
+function markBlocked(anchor: HTMLAnchorElement, hostname: string): void {
+  if (anchor.hasAttribute(BLOCKED_ATTR)) return;
+  savedStyles.set(anchor, {
+    title: anchor.title,
+    ariaDisabled: anchor.getAttribute("aria-disabled"),
+    textDecoration: anchor.style.textDecoration,
+    opacity: anchor.style.opacity,
+    cursor: anchor.style.cursor,
+  });
+  anchor.setAttribute(BLOCKED_ATTR, hostname);
+  anchor.setAttribute("aria-disabled", "true");
+  anchor.title = `Blocked by JustDetox — ${hostname}`;
+  Object.assign(anchor.style, {
+    textDecoration: "line-through",
+    opacity: "0.45",
+    cursor: "not-allowed",
+  });
+}
+
+/** Undo `markBlocked` once the destination is allowed again. */
+function unmarkBlocked(anchor: HTMLAnchorElement): void {
+  const saved = savedStyles.get(anchor);
+  if (!anchor.hasAttribute(BLOCKED_ATTR) || !saved) return;
+  savedStyles.delete(anchor);
+  anchor.removeAttribute(BLOCKED_ATTR);
+  if (saved.ariaDisabled === null) anchor.removeAttribute("aria-disabled");
+  else anchor.setAttribute("aria-disabled", saved.ariaDisabled);
+  anchor.title = saved.title;
+  Object.assign(anchor.style, {
+    textDecoration: saved.textDecoration,
+    opacity: saved.opacity,
+    cursor: saved.cursor,
+  });
+}
+
+// ─── Event handling ───────────────────────────────────────────────────────────
+
+function anchorFrom(target: EventTarget | null): HTMLAnchorElement | null {
+  if (!(target instanceof Element)) return null;
+  const anchor = target.closest("a[href]");
+  return anchor instanceof HTMLAnchorElement ? anchor : null;
+}
+
+/** Re-issue a click that was held for its verdict. */
+function replayClick(anchor: HTMLAnchorElement, original: MouseEvent): void {
+  // Middle or modified clicks open a new tab or window; a synthetic click cannot.
+  if (original.button === 1 || original.ctrlKey || original.metaKey || original.shiftKey) {
+    window.open(anchor.href, "_blank", "noopener");
+    return;
+  }
+  anchor.dispatchEvent(new MouseEvent("click", { bubbles: true, cancelable: true, composed: true }));
+}
+
+function onActivate(event: MouseEvent): void {
+  // auxclick also fires for the right button, which only opens the context menu.
+  if (event.type === "auxclick" && event.button !== 1) return;
+  const anchor = anchorFrom(event.target);
+  if (!anchor) return;
+  const verdict = verdictFor(anchor);
+  if (!verdict) return;
+
+  if (verdict.settled && !anchor.hasAttribute(BLOCKED_ATTR)) return; // allowed — let it through
+
+  // Blocked, or not known yet: keep the page's handlers and the browser out of it.
+  event.preventDefault();
+  event.stopImmediatePropagation();
+  if (verdict.settled) return;
+
+  void verdict.blocked.then((blocked) => {
+    if (!blocked) replayClick(anchor, event);
+  });
+}
+
+function onPrewarm(event: Event): void {
+  const anchor = anchorFrom(event.target);
+  if (anchor) verdictFor(anchor);
+}
+
+/**
+ * Start the link guard. Listeners run in the capture phase so they see
+ * clicks before page scripts (e.g. SPA routers) act on them.
+ */
+export function initLinkGuard(): void {
+  document.addEventListener("click", onActivate, true);
+  document.addEventListener("auxclick", onActivate, true);
+  document.addEventListener("pointerover", onPrewarm, true);
+  document.addEventListener("focusin", onPrewarm, true);
+}
+
+// ─── Boot ─────────────────────────────────────────────────────────────────────
+
+// Guard: only auto-init in a browser context (not in unit tests / Node.js).
+if (typeof document !== "undefined") {
+  initLinkGuard();
+}
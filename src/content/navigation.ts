@@ -0,0 +1,66 @@
+/**
+ * JustDetox — How the overlay re-checks after a navigation.
+ *
+ * SPA sites (YouTube, Reddit) change the path on every video or post. Each
+ * change is re-checked so path rules apply, but only a new hostname — or a
+ * navigation away from an overlay — counts as a visit that may start a
+ * Delay Mode countdown. Otherwise a delayed site would count down again on
+ * every video.
+ *
+ * Pure — no DOM or chrome.* calls.
+ */
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+/**
+ * - `visit`   — the user opened the page: may start a Delay Mode countdown.
+ * - `path`    — a same-host path change with no overlay showing: path rules
+ *               apply, but no countdown starts.
+ * - `recheck` — pushed by the background (RECHECK) or a timer; the user did
+ *               nothing, so no attempt or event is recorded either.
+ */
+export type CheckKind = "visit" | "path" | "recheck";
+
+export interface PageLocation {
+  hostname: string;
+  path: string;
+}
+
+// ─── Helpers ──────────────────────────────────────────────────────────────────
+
+/**
+ * The check a navigation from `prev` to `next` needs, or null when none does.
+ * `overlayShowing` is true while the block or delay overlay is up.
+ *
+ * @example
+ *   navigationCheck({ hostname: "youtube.com", path: "/" },
+ *                   { hostname: "youtube.com", path: "/watch" }, false) // → "path"
+ */
+export function navigationCheck(
+  prev: PageLocation,
+  next: PageLocation,
+  overlayShowing: boolean,
+): CheckKind | null {
+  if (next.hostname !== prev.hostname || overlayShowing) return "visit";
+  return next.path !== prev.path ? "path" : null;
+}
+
+const RANK: Record<CheckKind, number> = { recheck: 0, path: 1, visit: 2 };
+
+/**
+ * The check to run once the one in flight ends, when `next` arrives while
+ * `queued` already waits. The stronger kind wins, so a visit is never
+ * downgraded to a re-check.
+ */
+export function mergeCheck(queued: CheckKind | null, next: CheckKind): CheckKind {
+  return queued !== null && RANK[queued] > RANK[next] ? queued : next;
+}
+
+/**
+ * Whether a `delayed` verdict lets the page through without a countdown:
+ * right after a countdown, or for a non-visit check while no block overlay
+ * is up (an open page is not sent back to a countdown).
+ */
+export function skipsDelay(kind: CheckKind, blockOverlayVisible: boolean, justCompletedDelay: boolean): boolean {
+  return justCompletedDelay || (kind !== "visit" && !blockOverlayVisible);
+}
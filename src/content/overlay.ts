@@ -9,9 +9,23 @@
  *  3. Mount a full-screen delay overlay with a countdown when delayed;
  *     after the countdown, re-check and either allow access or block.
  *  4. Re-check on every SPA navigation (YouTube, Twitter, etc.) by
- *     patching the history API before page scripts load.
+ *     patching the history API before page scripts load. Path changes
+ *     count as navigation so path rules (e.g. youtube.com/shorts) apply,
+ *     but do not restart a Delay Mode countdown (see navigation.ts).
  *  5. For time-limited sites: schedule a re-check exactly when the
  *     remaining quota expires so the overlay appears without polling.
+ *  6. Re-check when the background pushes RECHECK after a settings change
+ *     (new rules, Allowlist Mode, Locked In starting or ending), so open
+ *     tabs follow without a reload.
+ *  7. Schedule a re-check at the next schedule or Locked In boundary
+ *     (`nextCheckTs`), so a window opening at 09:00 blocks a tab opened at
+ *     08:55 without a navigation.
+ *  8. Say on the block overlay when access returns (`liftsAtTs`) and how
+ *     many attempts were made on the domain in the current window.
+ *  9. Warn with a toast as a time-limited site's remaining time crosses each
+ *     low-time threshold (`warningSeconds`), timed off the same
+ *     `remainingSeconds` as the re-check in (5). With `notifyWarnings` the
+ *     background also shows a system notification (LIMIT_WARNING).
  *
  * Design constraints:
  *  - No external stylesheet (inline styles only → no CSP issues, no
@@ -22,12 +36,26 @@
  *    worker; this script sends no RECORD_TIME messages.
  */
 
-import type { CheckUrlMessage, CheckUrlResponse, DelayCompletedMessage } from "../shared/messages";
+import type {
+  CheckUrlMessage,
+  CheckUrlResponse,
+  DelayCompletedMessage,
+  LimitWarningMessage,
+  TabMessage,
+} from "../shared/messages";
+import { formatUpcomingTime } from "../core/schedule";
+import { crossedWarning, warningText } from "../core/limitWarning";
+import { navigationCheck, mergeCheck, skipsDelay } from "./navigation";
+import type { CheckKind } from "./navigation";
 
 // ─── Constants ────────────────────────────────────────────────────────────────
 
 const OVERLAY_ID = "justdetox-overlay";
 const DELAY_OVERLAY_ID = "justdetox-delay-overlay";
+const TOAST_ID = "justdetox-warning-toast";
+
+/** How long a low-time warning toast stays up. */
+const TOAST_DURATION_MS = 8_000;
 
 /**
  * Extra buffer added to the scheduled re-check timer to account for clock
@@ -35,6 +63,12 @@ const DELAY_OVERLAY_ID = "justdetox-delay-overlay";
  */
 const RECHECK_BUFFER_MS = 2_000;
 
+/**
+ * Longest timer set for a boundary — setTimeout overflows past ~24.8 days.
+ * A farther boundary is re-scheduled by the check this timer triggers.
+ */
+const MAX_TRANSITION_DELAY_MS = 24 * 60 * 60 * 1_000;
+
 // ─── Shared styles ────────────────────────────────────────────────────────────
 
 const BASE_OVERLAY_STYLE: Partial<CSSStyleDeclaration> = {
@@ -56,10 +90,29 @@ const BASE_OVERLAY_STYLE: Partial<CSSStyleDeclaration> = {
 // ─── Block overlay DOM ────────────────────────────────────────────────────────
 
 /**
- * Inject the block overlay with the given block message and optional subtitle.
+ * The overlay's detail lines: when access returns and the attempt count.
+ *
+ * @example
+ *   blockDetails({ blocked: true, liftsAtTs: nine, attemptsToday: 3 })
+ *     → ["Back today at 9:00 AM", "3 attempts today"]
+ */
+function blockDetails(response: CheckUrlResponse): string[] {
+  const lines: string[] = [];
+  if (response.liftsAtTs !== undefined) {
+    lines.push(`Back ${formatUpcomingTime(response.liftsAtTs, Date.now())}`);
+  }
+  if (response.attemptsToday) {
+    lines.push(`${response.attemptsToday} ${response.attemptsToday === 1 ? "attempt" : "attempts"} today`);
+  }
+  return lines;
+}
+
+/**
+ * Inject the block overlay with the given block message, optional subtitle
+ * and detail lines (see `blockDetails`).
  * Idempotent — calling a second time before unmounting is a no-op.
  */
-function mountOverlay(message: string, subtitle?: string): void {
+function mountOverlay(message: string, subtitle?: string, details: string[] = []): void {
   if (document.getElementById(OVERLAY_ID)) return;
 
   const overlay = document.createElement("div");
@@ -95,6 +148,20 @@ function mountOverlay(message: string, subtitle?: string): void {
     overlay.appendChild(sub);
   }
 
+  details.forEach((line, i) => {
+    const detail = document.createElement("p");
+    detail.textContent = line;
+    Object.assign(detail.style, {
+      margin: i === 0 ? "28px 0 0" : "6px 0 0",
+      fontSize: "0.75rem",
+      fontWeight: "400",
+      color: "#9ca3af",
+      letterSpacing: "0.04em",
+      textAlign: "center",
+    });
+    overlay.appendChild(detail);
+  });
+
   attachInteractionBlock(overlay);
   document.documentElement.appendChild(overlay);
   applyScrollLock();
@@ -105,6 +172,56 @@ function unmountOverlay(): void {
   if (!document.getElementById(DELAY_OVERLAY_ID)) releaseScrollLock();
 }
 
+// ─── Low-time toast DOM ───────────────────────────────────────────────────────
+
+let toastTimer: ReturnType<typeof setTimeout> | null = null;
+
+/**
+ * Show a small toast in the corner with `text`, replacing any toast already
+ * up. It hides itself after TOAST_DURATION_MS or when clicked.
+ */
+function mountToast(text: string): void {
+  unmountToast();
+
+  const toast = document.createElement("div");
+  toast.id = TOAST_ID;
+  toast.setAttribute("role", "status");
+  toast.textContent = text;
+  Object.assign(toast.style, {
+    position: "fixed",
+    right: "20px",
+    bottom: "20px",
+    // One below the overlays, which cover it when the limit runs out.
+    zIndex: "2147483646",
+    maxWidth: "320px",
+    padding: "12px 16px",
+    border: "1px solid #333",
+    borderRadius: "6px",
+    background: "#0a0a0a",
+    color: "#e5e5e5",
+    fontFamily: "Inter, system-ui, -apple-system, sans-serif",
+    fontSize: "13px",
+    fontWeight: "500",
+    lineHeight: "18px",
+    letterSpacing: "0.015em",
+    boxShadow: "0 4px 16px rgba(0, 0, 0, 0.4)",
+    cursor: "pointer",
+    userSelect: "none",
+  });
+  toast.addEventListener("click", unmountToast);
+
+  document.documentElement.appendChild(toast);
+  toastTimer = setTimeout(unmountToast, TOAST_DURATION_MS);
+}
+
+function unmountToast(): void {
+  if (toastTimer !== null) {
+    clearTimeout(toastTimer);
+    toastTimer = null;
+  }
+  document.getElementById(TOAST_ID)?.remove();
+}
+
 // ─── Delay overlay DOM ────────────────────────────────────────────────────────
 
 let delayTimer: ReturnType<typeof setInterval> | null = null;
@@ -238,10 +355,13 @@ function releaseScrollLock(): void {
 // ─── State ────────────────────────────────────────────────────────────────────
 
 let currentHostname: string = location.hostname;
+let currentPath: string = location.pathname;
 let isOverlayVisible: boolean = false;
 let isDelayOverlayVisible: boolean = false;
 let checkInFlight: boolean = false;
 let nextCheckTimer: ReturnType<typeof setTimeout> | null = null;
+/** Re-check at the next schedule or Locked In boundary (see `nextCheckTs`). */
+let transitionTimer: ReturnType<typeof setTimeout> | null = null;
 
 /**
  * Set to true by the delay timer callback before calling checkCurrentUrl().
@@ -251,11 +371,32 @@ let nextCheckTimer: ReturnType<typeof setTimeout> | null = null;
  */
 let justCompletedDelay: boolean = false;
 
+/** A check that arrived during another one — it runs once that ends. */
+let queuedCheck: CheckKind | null = null;
+
+/** One timer per low-time threshold still ahead (see `scheduleLimitWarnings`). */
+let warningTimers: ReturnType<typeof setTimeout>[] = [];
+
+/**
+ * The smallest threshold (seconds) already warned about on this page, so a
+ * re-check does not repeat it; null when none has been reached.
+ */
+let warnedThreshold: number | null = null;
+
 // ─── Background communication ─────────────────────────────────────────────────
 
-async function checkCurrentUrl(): Promise<void> {
+/**
+ * @param kind  What triggered the check (see `CheckKind`). A check arriving
+ *   while another is in flight is queued rather than dropped: the in-flight
+ *   one may predate a settings change or a path change. Only a visit starts
+ *   a Delay Mode countdown on a page that is already open.
+ */
+async function checkCurrentUrl(kind: CheckKind = "visit"): Promise<void> {
   // Guard against concurrent checks triggered by rapid SPA navigations.
-  if (checkInFlight) return;
+  if (checkInFlight) {
+    queuedCheck = mergeCheck(queuedCheck, kind);
+    return;
+  }
   checkInFlight = true;
 
   // Clear any pending scheduled re-check (it will be rescheduled below if needed).
@@ -263,9 +404,21 @@ async function checkCurrentUrl(): Promise<void> {
     clearTimeout(nextCheckTimer);
     nextCheckTimer = null;
   }
+  if (transitionTimer !== null) {
+    clearTimeout(transitionTimer);
+    transitionTimer = null;
+  }
+  clearWarningTimers();
 
   const hostname = location.hostname;
-  const msg: CheckUrlMessage = { type: "CHECK_URL", hostname };
+  const recheck = kind === "recheck";
+  const msg: CheckUrlMessage = {
+    type: "CHECK_URL",
+    hostname,
+    path: location.pathname,
+    recheck,
+    skipDelay: kind === "path",
+  };
 
   let response: CheckUrlResponse | null | undefined;
   try {
@@ -277,14 +430,27 @@ async function checkCurrentUrl(): Promise<void> {
     checkInFlight = false;
   }
 
+  if (queuedCheck !== null) {
+    const next = queuedCheck;
+    queuedCheck = null;
+    void checkCurrentUrl(next);
+    return;
+  }
+
   if (!response) return;
 
   // ── Delay Mode ──────────────────────────────────────────────────────────────
-  if (response.delayed && response.delaySeconds && !justCompletedDelay) {
+  // A pushed re-check leaves a running countdown alone; only a visit sends an
+  // open page back to one.
+  if (recheck && response.delayed && isDelayOverlayVisible) return;
+  const skipDelay = skipsDelay(kind, isOverlayVisible, justCompletedDelay);
+
+  if (response.delayed && response.delaySeconds && !skipDelay) {
     // Site is accessible but requires a countdown first.
     isDelayOverlayVisible = true;
     isOverlayVisible = false;
     unmountOverlay();
+    unmountToast();
     mountDelayOverlay(hostname, response.delaySeconds);
     return;
   }
@@ -297,7 +463,12 @@ async function checkCurrentUrl(): Promise<void> {
     isDelayOverlayVisible = false;
     isOverlayVisible = true;
     unmountDelayOverlay();
-    mountOverlay(response.message, response.subtitle);
+    unmountToast();
+    // mountOverlay is a no-op while mounted — replace it so the reason, the
+    // lift time and the attempt count are current.
+    unmountOverlay();
+    mountOverlay(response.message, response.subtitle, blockDetails(response));
+    scheduleTransitionCheck(response.nextCheckTs);
     return;
   }
 
@@ -309,24 +480,108 @@ async function checkCurrentUrl(): Promise<void> {
 
   // For time-limited sites: schedule a re-check at the moment the quota
   // expires, so the overlay appears without needing the user to navigate.
+  let limitEndsTs: number | null = null;
   if (response.mode === "time-limit" && (response.remainingSeconds ?? 0) > 0) {
     const delayMs = (response.remainingSeconds! + RECHECK_BUFFER_MS / 1_000) * 1_000;
     nextCheckTimer = setTimeout(checkCurrentUrl, delayMs);
+    limitEndsTs = Date.now() + response.remainingSeconds! * 1_000;
   }
+  scheduleLimitWarnings(response);
+
+  // The limit timer above already covers a boundary at (or after) its expiry.
+  if (response.nextCheckTs !== undefined && (limitEndsTs === null || response.nextCheckTs < limitEndsTs)) {
+    scheduleTransitionCheck(response.nextCheckTs);
+  }
+}
+
+/**
+ * Re-check just after `ts`, the next schedule or Locked In boundary. The
+ * check is a pushed one (`recheck`) — the user did not try to open anything.
+ */
+function scheduleTransitionCheck(ts: number | undefined): void {
+  if (ts === undefined) return;
+  const delayMs = Math.min(Math.max(0, ts - Date.now()) + RECHECK_BUFFER_MS, MAX_TRANSITION_DELAY_MS);
+  transitionTimer = setTimeout(() => {
+    transitionTimer = null;
+    void checkCurrentUrl("recheck");
+  }, delayMs);
+}
+
+// ─── Low-time warnings ────────────────────────────────────────────────────────
+
+function clearWarningTimers(): void {
+  warningTimers.forEach(clearTimeout);
+  warningTimers = [];
 }
 
+/**
+ * Warn now if the remaining time has already crossed a threshold, and set a
+ * timer for each threshold still ahead. Only the focused tab uses up time,
+ * so a timer that fires in a hidden tab is skipped — returning to the tab
+ * re-checks (see the visibilitychange listener).
+ */
+function scheduleLimitWarnings(response: CheckUrlResponse): void {
+  const thresholds = response.warningSeconds ?? [];
+  const remaining = response.remainingSeconds ?? 0;
+  const notify = response.notifyWarnings ?? false;
+
+  const crossed = crossedWarning(remaining, thresholds);
+  if (crossed === null) {
+    // More time than any threshold: a new window, or the limit was raised.
+    warnedThreshold = null;
+  } else {
+    showLimitWarning(crossed, remaining, notify);
+  }
+
+  for (const threshold of thresholds) {
+    if (threshold >= remaining) continue;
+    warningTimers.push(
+      setTimeout(() => {
+        if (document.visibilityState === "visible") showLimitWarning(threshold, threshold, notify);
+      }, (remaining - threshold) * 1_000),
+    );
+  }
+}
+
+/** Show the toast for `threshold` unless it (or a smaller one) was shown already. */
+function showLimitWarning(threshold: number, remainingSeconds: number, notify: boolean): void {
+  if (warnedThreshold !== null && threshold >= warnedThreshold) return;
+  warnedThreshold = threshold;
+
+  const hostname = location.hostname;
+  mountToast(warningText(hostname, remainingSeconds));
+
+  if (notify) {
+    const msg: LimitWarningMessage = { type: "LIMIT_WARNING", hostname, remainingSeconds };
+    chrome.runtime.sendMessage(msg).catch(() => {
+      // Extension context invalidated — the toast is enough.
+    });
+  }
+}
+
+// Time spent elsewhere did not count against this site: re-derive the
+// warning timers from a fresh remainingSeconds when the tab comes back.
+document.addEventListener("visibilitychange", () => {
+  if (document.visibilityState === "visible" && nextCheckTimer !== null) void checkCurrentUrl("recheck");
+});
+
 // ─── SPA navigation detection ─────────────────────────────────────────────────
 
 function onUrlChange(): void {
-  const newHostname = location.hostname;
-
-  // Re-check when:
-  //  a) the hostname changed, OR
-  //  b) either overlay is visible (navigating on a blocked/delayed domain
-  //     should re-validate).
-  if (newHostname !== currentHostname || isOverlayVisible || isDelayOverlayVisible) {
-    currentHostname = newHostname;
-    checkCurrentUrl();
+  const next = { hostname: location.hostname, path: location.pathname };
+
+  // Re-check when the hostname or path changed (path rules may apply), or
+  // when either overlay is visible (navigating on a blocked/delayed domain
+  // should re-validate). A same-host path change does not restart Delay Mode.
+  const kind = navigationCheck(
+    { hostname: currentHostname, path: currentPath },
+    next,
+    isOverlayVisible || isDelayOverlayVisible,
+  );
+  if (kind !== null) {
+    currentHostname = next.hostname;
+    currentPath = next.path;
+    void checkCurrentUrl(kind);
   }
 }
 
@@ -355,6 +610,13 @@ window.addEventListener("hashchange", onUrlChange);
 // YouTube-specific navigation event (belt-and-suspenders alongside pushState patch).
 window.addEventListener("yt-navigate-finish", onUrlChange);
 
+// ─── Background push ──────────────────────────────────────────────────────────
+
+chrome.runtime.onMessage.addListener((message: TabMessage) => {
+  if (message.type === "RECHECK") void checkCurrentUrl("recheck");
+  return false;
+});
+
 // ─── Boot ─────────────────────────────────────────────────────────────────────
 
 // Immediate check — chrome.runtime is available at document_start.
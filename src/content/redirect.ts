@@ -0,0 +1,160 @@
+/**
+ * JustDetox — Open-redirect and URL-shortener resolution for content scripts.
+ *
+ * Links through `l.facebook.com/l.php?u=`, `google.com/url?q=` or
+ * `out.reddit.com` land on the real destination only after a redirect, so a
+ * check of the link's own host lets a blocked site through. `decodeRedirect`
+ * reads the destination from the redirector's query parameter, following
+ * nested redirectors.
+ *
+ * Shorteners (`t.co`, `bit.ly`, …) carry no destination in the URL and
+ * resolving them would mean fetching every link. Sites usually show the
+ * expanded URL though — as the link text, its title, or a
+ * `data-expanded-url` attribute — so `resolveDestination` takes those as hints.
+ *
+ * Pure — no DOM or Chrome APIs.
+ */
+
+// ─── Known redirectors ────────────────────────────────────────────────────────
+
+interface Redirector {
+  /** Matches the redirector's hostname (lower-case, as given by `URL`). */
+  host: RegExp;
+  /** Matches the redirect endpoint's path; any path when omitted. */
+  path?: RegExp;
+  /** Query parameters that may hold the destination, in order of preference. */
+  params: string[];
+}
+
+const REDIRECTORS: Redirector[] = [
+  { host: /^(l|lm)\.facebook\.com$/, path: /^\/l\.php$/, params: ["u"] },
+  { host: /^l\.messenger\.com$/, path: /^\/l\.php$/, params: ["u"] },
+  { host: /^l\.instagram\.com$/, params: ["u"] },
+  { host: /^(www\.)?google\.[a-z.]+$/, path: /^\/url$/, params: ["q", "url"] },
+  { host: /^(www\.)?youtube\.com$/, path: /^\/redirect$/, params: ["q"] },
+  { host: /^out\.reddit\.com$/, params: ["url"] },
+  { host: /^(www\.)?linkedin\.com$/, path: /^\/redir\/redirect$/, params: ["url"] },
+  { host: /^slack-redir\.net$/, path: /^\/link$/, params: ["url"] },
+  { host: /^t\.umblr\.com$/, path: /^\/redirect$/, params: ["z"] },
+  { host: /^(www\.)?duckduckgo\.com$/, path: /^\/l\/?$/, params: ["uddg"] },
+  { host: /^steamcommunity\.com$/, path: /^\/linkfilter\/?$/, params: ["url", "u"] },
+  { host: /^away\.vk\.com$/, path: /^\/away\.php$/, params: ["to"] },
+];
+
+/** Shorteners whose destination can only come from a hint. */
+const SHORTENERS = new Set([
+  "t.co",
+  "bit.ly",
+  "tinyurl.com",
+  "ow.ly",
+  "buff.ly",
+  "lnkd.in",
+  "is.gd",
+  "dlvr.it",
+]);
+
+/** Redirectors wrapped in redirectors are followed at most this deep. */
+const MAX_HOPS = 3;
+
+// ─── Public types ─────────────────────────────────────────────────────────────
+
+export interface LinkDestination {
+  hostname: string;
+  path: string;
+}
+
+// ─── Helpers ──────────────────────────────────────────────────────────────────
+
+/** Parse an http(s) URL, or null. */
+function parseHttpUrl(value: string): URL | null {
+  try {
+    const url = new URL(value);
+    return url.protocol === "http:" || url.protocol === "https:" ? url : null;
+  } catch {
+    return null;
+  }
+}
+
+/** The destination one redirector hop points to, or null when `url` is not a redirector. */
+function decodeHop(url: URL): URL | null {
+  const redirector = REDIRECTORS.find(
+    (r) => r.host.test(url.hostname) && (!r.path || r.path.test(url.pathname)),
+  );
+  if (!redirector) return null;
+
+  for (const param of redirector.params) {
+    const value = url.searchParams.get(param);
+    const target = value ? parseHttpUrl(value) : null;
+    if (target) return target;
+  }
+  return null;
+}
+
+/**
+ * A hint such as "example.com/article…" or "https://example.com/a" as a URL.
+ * Display text is often truncated with an ellipsis and lacks the scheme.
+ */
+function parseHint(hint: string): URL | null {
+  const text = hint.trim().replace(/…$/, "");
+  if (!text || /\s/.test(text)) return null;
+  const url = parseHttpUrl(/^https?:\/\//i.test(text) ? text : `https://${text}`);
+  // A bare word ("Read more") parses as a hostname — require a dot.
+  return url && url.hostname.includes(".") ? url : null;
+}
+
+// ─── Public API ───────────────────────────────────────────────────────────────
+
+/** True for URL shorteners (`t.co`, `bit.ly`, …). */
+export function isShortener(hostname: string): boolean {
+  return SHORTENERS.has(hostname.toLowerCase());
+}
+
+/**
+ * The final destination of a redirector URL, or null when `href` is not a
+ * known redirector (or carries no usable destination).
+ *
+ * @example
+ *   decodeRedirect("https://l.facebook.com/l.php?u=https%3A%2F%2Freddit.com%2Fr%2Fall")
+ *     → "https://reddit.com/r/all"
+ *   decodeRedirect("https://example.com/page") → null
+ */
+export function decodeRedirect(href: string): string | null {
+  let url = parseHttpUrl(href);
+  let decoded: URL | null = null;
+
+  for (let hop = 0; url && hop < MAX_HOPS; hop++) {
+    const next = decodeHop(url);
+    if (!next) break;
+    decoded = next;
+    url = next;
+  }
+  return decoded ? decoded.href : null;
+}
+
+/**
+ * Where a link really goes when that differs from its own host: the decoded
+ * redirector destination, or for a shortener the first usable `hint`.
+ * Returns null for direct links and for shorteners without a hint.
+ */
+export function resolveDestination(
+  href: string,
+  hints: (string | null | undefined)[] = [],
+): LinkDestination | null {
+  const own = parseHttpUrl(href);
+  if (!own) return null;
+
+  let target = parseHttpUrl(decodeRedirect(href) ?? "");
+  if (!target && isShortener(own.hostname)) {
+    for (const hint of hints) {
+      const url = hint ? parseHint(hint) : null;
+      if (url && !isShortener(url.hostname)) {
+        // The hint may itself be a redirector link.
+        target = parseHttpUrl(decodeRedirect(url.href) ?? "") ?? url;
+        break;
+      }
+    }
+  }
+
+  if (!target || target.hostname === own.hostname) return null;
+  return { hostname: target.hostname, path: target.pathname };
+}
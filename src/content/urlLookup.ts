@@ -0,0 +1,129 @@
+/**
+ * JustDetox — Batched link lookups for content scripts.
+ *
+ * A page can hold hundreds of links. `createUrlLookup` collects the targets
+ * requested within BATCH_DELAY_MS and asks the background about all of them
+ * in one CHECK_URLS message (at most BATCH_MAX per message). Identical
+ * targets share one request, and answers are cached so a re-rendered list
+ * does not ask again — for CACHE_TTL_MS, or until a limited site's time runs
+ * out if that comes first (see `verdictTtlMs`).
+ *
+ * A failed request (extension context gone) resolves to null and is not
+ * cached, so the next lookup retries. `clear()` forgets every answer, for
+ * a settings change (RECHECK).
+ */
+
+import type {
+  CheckUrlsMessage,
+  CheckUrlsResponse,
+  UrlStatus,
+  UrlTarget,
+} from "../shared/messages";
+import type { LinkAnnotationSettings } from "../core/types";
+
+// ─── Constants ────────────────────────────────────────────────────────────────
+
+/** How long lookups are collected before a batch is sent. */
+const BATCH_DELAY_MS = 50;
+
+/** Targets per CHECK_URLS message — well under the background's cap. */
+export const BATCH_MAX = 100;
+
+/** Longest an answer is reused — rules and schedules change too. */
+export const CACHE_TTL_MS = 60_000;
+
+// ─── Public types ─────────────────────────────────────────────────────────────
+
+export interface UrlVerdict {
+  status: UrlStatus;
+  annotations: LinkAnnotationSettings;
+}
+
+/** Sends one CHECK_URLS batch; null or a throw means no answer. */
+export type UrlBatchSender = (urls: UrlTarget[]) => Promise<CheckUrlsResponse | null | undefined>;
+
+export interface UrlLookup {
+  (target: UrlTarget): Promise<UrlVerdict | null>;
+  /** Forget every cached answer, so the next lookups ask again. */
+  clear(): void;
+}
+
+// ─── Production sender ────────────────────────────────────────────────────────
+
+export const chromeUrlBatchSender: UrlBatchSender = (urls) => {
+  const msg: CheckUrlsMessage = { type: "CHECK_URLS", urls };
+  return chrome.runtime.sendMessage(msg);
+};
+
+// ─── Lookup ───────────────────────────────────────────────────────────────────
+
+interface PendingLookup {
+  key: string;
+  target: UrlTarget;
+  resolve: (verdict: UrlVerdict | null) => void;
+}
+
+/**
+ * How long `status` may be reused. A limited site turns blocked once its
+ * remaining time is used up, so its answer expires no later than that.
+ */
+export function verdictTtlMs(status: UrlStatus): number {
+  if (status.status !== "limited") return CACHE_TTL_MS;
+  return Math.min(CACHE_TTL_MS, status.remainingSeconds * 1_000);
+}
+
+/** Cache key — a host alone and the same host with a path are different targets. */
+export function targetKey(target: UrlTarget): string {
+  return `${target.hostname}${target.path ?? ""}`;
+}
+
+export function createUrlLookup(send: UrlBatchSender, now: () => number = Date.now): UrlLookup {
+  const cache = new Map<string, { verdict: Promise<UrlVerdict | null>; expiresAt: number }>();
+  let pending: PendingLookup[] = [];
+  let timer: ReturnType<typeof setTimeout> | null = null;
+
+  async function flush(): Promise<void> {
+    timer = null;
+    const batch = pending;
+    pending = [];
+
+    for (let i = 0; i < batch.length; i += BATCH_MAX) {
+      const chunk = batch.slice(i, i + BATCH_MAX);
+      let response: CheckUrlsResponse | null | undefined = null;
+      try {
+        response = await send(chunk.map((p) => p.target));
+      } catch {
+        // Extension context not ready or invalidated — fail open.
+      }
+
+      chunk.forEach((p, j) => {
+        const status = response?.results[j];
+        if (!response || !status) {
+          cache.delete(p.key);
+          p.resolve(null);
+          return;
+        }
+        const entry = cache.get(p.key);
+        if (entry) entry.expiresAt = now() + verdictTtlMs(status);
+        p.resolve({ status, annotations: response.annotations });
+      });
+    }
+  }
+
+  const lookup = (target: UrlTarget): Promise<UrlVerdict | null> => {
+    const key = targetKey(target);
+    const hit = cache.get(key);
+    if (hit && now() < hit.expiresAt) return hit.verdict;
+
+    const verdict = new Promise<UrlVerdict | null>((resolve) => {
+      pending.push({ key, target, resolve });
+    });
+    // In flight: shared until answered, when the real expiry is set.
+    cache.set(key, { verdict, expiresAt: now() + CACHE_TTL_MS });
+    if (timer === null) timer = setTimeout(() => void flush(), BATCH_DELAY_MS);
+    return verdict;
+  };
+
+  // An answer in flight when cleared still resolves; it is just not kept.
+  return Object.assign(lookup, { clear: () => cache.clear() });
+}
@@ -0,0 +1,125 @@
+import { describe, it, expect } from "vitest";
+import { resolveLimitMinutes, budgetRaised, budgetsValid } from "../budget";
+import type { BudgetWindow } from "../types";
+
+// ─── Helpers ──────────────────────────────────────────────────────────────────
+
+/** Build a Date for a specific weekday (0 = Sunday) at HH:MM local time. */
+function at(day: number, hh: number, mm = 0): Date {
+  // 2024-01-07 is a Sunday.
+  return new Date(2024, 0, 7 + day, hh, mm);
+}
+
+const WEEKENDS_60: (number | null)[] = [60, null, null, null, null, null, 60];
+
+const evening = (limitMinutes = 15): BudgetWindow => ({
+  enabled: true,
+  days: [0, 1, 2, 3, 4, 5, 6],
+  startMinutes: 18 * 60,
+  endMinutes: 23 * 60,
+  limitMinutes,
+});
+
+// ─── resolveLimitMinutes ──────────────────────────────────────────────────────
+
+describe("resolveLimitMinutes", () => {
+  it("returns the base limit when there are no overrides", () => {
+    expect(resolveLimitMinutes({ limitMinutes: 30 }, at(1, 12))).toEqual({ minutes: 30, source: "base" });
+  });
+
+  it("uses the weekday budget for that day", () => {
+    const rule = { limitMinutes: 10, dayLimits: WEEKENDS_60 };
+    expect(resolveLimitMinutes(rule, at(6, 12))).toEqual({ minutes: 60, source: "weekday" });
+    expect(resolveLimitMinutes(rule, at(0, 12))).toEqual({ minutes: 60, source: "weekday" });
+  });
+
+  it("falls back to the base limit for null weekdays", () => {
+    const rule = { limitMinutes: 10, dayLimits: WEEKENDS_60 };
+    expect(resolveLimitMinutes(rule, at(3, 12))).toEqual({ minutes: 10, source: "base" });
+  });
+
+  it("uses an active window's budget over the weekday budget", () => {
+    const rule = { limitMinutes: 10, dayLimits: WEEKENDS_60, budgets: [evening(15)] };
+    expect(resolveLimitMinutes(rule, at(6, 19))).toEqual({ minutes: 15, source: "window" });
+  });
+
+  it("keeps the base limit outside the budget window", () => {
+    const rule = { limitMinutes: 10, budgets: [evening(15)] };
+    expect(resolveLimitMinutes(rule, at(3, 12))).toEqual({ minutes: 10, source: "base" });
+  });
+
+  it("ignores a disabled window", () => {
+    const rule = { limitMinutes: 10, dayLimits: WEEKENDS_60, budgets: [{ ...evening(15), enabled: false }] };
+    expect(resolveLimitMinutes(rule, at(6, 19))).toEqual({ minutes: 60, source: "weekday" });
+  });
+
+  it("takes the smallest budget when several windows are active", () => {
+    const late = { ...evening(5), startMinutes: 20 * 60 };
+    const rule = { limitMinutes: 10, budgets: [evening(15), late] };
+    expect(resolveLimitMinutes(rule, at(2, 21)).minutes).toBe(5);
+  });
+});
+
+// ─── budgetRaised ─────────────────────────────────────────────────────────────
+
+describe("budgetRaised", () => {
+  it("detects a raised weekday budget", () => {
+    expect(budgetRaised({ limitMinutes: 10 }, { limitMinutes: 10, dayLimits: WEEKENDS_60 })).toBe(true);
+  });
+
+  it("does not flag lowered budgets", () => {
+    expect(
+      budgetRaised({ limitMinutes: 30 }, { limitMinutes: 30, dayLimits: [10, null, null, null, null, null, null] }),
+    ).toBe(false);
+  });
+
+  it("detects a raised window budget", () => {
+    expect(budgetRaised({ limitMinutes: 30, budgets: [evening(10)] }, { limitMinutes: 30, budgets: [evening(20)] })).toBe(true);
+  });
+
+  it("treats removing or disabling a budget window as raising it", () => {
+    expect(budgetRaised({ limitMinutes: 30, budgets: [evening(10)] }, { limitMinutes: 30 })).toBe(true);
+    expect(
+      budgetRaised({ limitMinutes: 30, budgets: [evening(10)] }, { limitMinutes: 30, budgets: [{ ...evening(10), enabled: false }] }),
+    ).toBe(true);
+  });
+
+  it("does not flag adding a budget window below the limit it covers", () => {
+    expect(budgetRaised({ limitMinutes: 30 }, { limitMinutes: 30, budgets: [evening(10)] })).toBe(false);
+  });
+
+  it("detects a new budget window above the base or weekday limit", () => {
+    expect(budgetRaised({ limitMinutes: 30 }, { limitMinutes: 30, budgets: [evening(45)] })).toBe(true);
+    const weekends = { limitMinutes: 30, dayLimits: WEEKENDS_60 };
+    expect(budgetRaised(weekends, { ...weekends, budgets: [{ ...evening(45), days: [1, 2, 3, 4, 5] }] })).toBe(true);
+  });
+
+  it("detects a higher window moved over hours the base limit covered", () => {
+    const mondays = { limitMinutes: 10, budgets: [{ ...evening(45), days: [1] }] };
+    const moved = (patch: Partial<BudgetWindow>) => ({ limitMinutes: 10, budgets: [{ ...mondays.budgets[0]!, ...patch }] });
+    expect(budgetRaised(mondays, moved({ days: [2] }))).toBe(true);
+    expect(budgetRaised(mondays, moved({ startMinutes: 17 * 60 }))).toBe(true);
+    // Shrinking it only brings back the lower base limit.
+    expect(budgetRaised(mondays, moved({ startMinutes: 19 * 60 }))).toBe(false);
+  });
+
+  it("does not flag reordered windows", () => {
+    const morning: BudgetWindow = { ...evening(20), startMinutes: 8 * 60, endMinutes: 10 * 60 };
+    expect(
+      budgetRaised({ limitMinutes: 30, budgets: [evening(10), morning] }, { limitMinutes: 30, budgets: [morning, evening(10)] }),
+    ).toBe(false);
+  });
+});
+
+// ─── Editing helpers ──────────────────────────────────────────────────────────
+
+describe("budgetsValid", () => {
+  it("accepts budgets within 1–1440", () => {
+    expect(budgetsValid({ dayLimits: WEEKENDS_60, budgets: [evening(1440)] })).toBe(true);
+  });
+
+  it("rejects out-of-range budgets", () => {
+    expect(budgetsValid({ dayLimits: [0, null, null, null, null, null, null] })).toBe(false);
+    expect(budgetsValid({ budgets: [evening(2000)] })).toBe(false);
+  });
+});
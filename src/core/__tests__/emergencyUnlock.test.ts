@@ -0,0 +1,172 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import {
+  grantUnlock,
+  activeUnlockFor,
+  effectiveUnlockFor,
+  unlocksRemaining,
+  rollEmergencyWindow,
+  requestEmergencyUnlock,
+} from "../emergencyUnlock";
+import { calculateScore } from "../dopamine";
+import { getSettings, getEmergencyUnlocks, setEmergencyUnlocks } from "../storage";
+import { DEFAULT_EMERGENCY_UNLOCK, DEFAULT_SETTINGS } from "../types";
+import type { EmergencyUnlockData, ResetWindowConfig, Settings } from "../types";
+
+vi.mock("../storage", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("../storage")>()),
+  getSettings: vi.fn(),
+  getEmergencyUnlocks: vi.fn(),
+  setEmergencyUnlocks: vi.fn(),
+}));
+
+// ─── Helpers ──────────────────────────────────────────────────────────────────
+
+const NOW = 1_700_000_000_000;
+const MIN = 60_000;
+const ROLLING_24: ResetWindowConfig = { intervalHours: 24 };
+
+const EMPTY: EmergencyUnlockData = { windowStartTs: NOW - 60 * MIN, unlocks: [] };
+const TWO = { ...DEFAULT_EMERGENCY_UNLOCK, unlocksPerWindow: 2 };
+
+/** Settings with a hard-locked Locked In session running at NOW. */
+const HARD_LOCKED: Settings = {
+  ...DEFAULT_SETTINGS,
+  lockedInSession: {
+    active: true,
+    startTs: NOW - 10 * MIN,
+    endTs: NOW + 50 * MIN,
+    allowedDomains: ["docs.google.com"],
+    hardLock: true,
+  },
+};
+
+// ─── grantUnlock ──────────────────────────────────────────────────────────────
+
+describe("grantUnlock", () => {
+  it("grants a normalized domain for minutesPerUnlock", () => {
+    const result = grantUnlock(EMPTY, "https://www.Example.com/account", DEFAULT_EMERGENCY_UNLOCK, NOW);
+    expect(result.ok).toBe(true);
+    if (!result.ok) return;
+    expect(result.unlock).toEqual({ domain: "example.com", startTs: NOW, endTs: NOW + 10 * MIN });
+    expect(result.data.unlocks).toHaveLength(1);
+  });
+
+  it("refuses once the quota is used up", () => {
+    const first = grantUnlock(EMPTY, "a.com", DEFAULT_EMERGENCY_UNLOCK, NOW);
+    if (!first.ok) throw new Error("expected a grant");
+    expect(grantUnlock(first.data, "b.com", DEFAULT_EMERGENCY_UNLOCK, NOW + MIN)).toEqual({
+      ok: false,
+      reason: "quota-exhausted",
+    });
+  });
+
+  it("refuses to extend a running unlock", () => {
+    const first = grantUnlock(EMPTY, "a.com", TWO, NOW);
+    if (!first.ok) throw new Error("expected a grant");
+    expect(grantUnlock(first.data, "a.com", TWO, NOW + MIN)).toEqual({ ok: false, reason: "already-unlocked" });
+  });
+
+  it("refuses when disabled or the domain is invalid", () => {
+    expect(grantUnlock(EMPTY, "a.com", { ...TWO, enabled: false }, NOW)).toEqual({ ok: false, reason: "disabled" });
+    expect(grantUnlock(EMPTY, "localhost", TWO, NOW)).toEqual({ ok: false, reason: "invalid-domain" });
+  });
+});
+
+// ─── activeUnlockFor ──────────────────────────────────────────────────────────
+
+describe("activeUnlockFor", () => {
+  const data: EmergencyUnlockData = {
+    ...EMPTY,
+    unlocks: [{ domain: "example.com", startTs: NOW, endTs: NOW + 10 * MIN }],
+  };
+
+  it("covers the domain and its subdomains while running", () => {
+    expect(activeUnlockFor("example.com", data, NOW + MIN)).not.toBeNull();
+    expect(activeUnlockFor("accounts.example.com", data, NOW + MIN)).not.toBeNull();
+    expect(activeUnlockFor("notexample.com", data, NOW + MIN)).toBeNull();
+  });
+
+  it("lapses at endTs", () => {
+    expect(activeUnlockFor("example.com", data, NOW + 10 * MIN)).toBeNull();
+  });
+});
+
+// ─── effectiveUnlockFor ───────────────────────────────────────────────────────
+
+describe("effectiveUnlockFor", () => {
+  const data: EmergencyUnlockData = {
+    ...EMPTY,
+    unlocks: [{ domain: "example.com", startTs: NOW - MIN, endTs: NOW + 10 * MIN }],
+  };
+
+  it("returns the running unlock", () => {
+    expect(effectiveUnlockFor("example.com", data, DEFAULT_SETTINGS, NOW)).not.toBeNull();
+  });
+
+  it("ignores unlocks while a hard-locked session runs", () => {
+    expect(effectiveUnlockFor("example.com", data, HARD_LOCKED, NOW)).toBeNull();
+  });
+
+  it("applies again once the hard lock has ended", () => {
+    const later = { ...data, unlocks: [{ domain: "example.com", startTs: NOW + 50 * MIN, endTs: NOW + 60 * MIN }] };
+    expect(effectiveUnlockFor("example.com", later, HARD_LOCKED, NOW + 55 * MIN)).not.toBeNull();
+  });
+});
+
+// ─── requestEmergencyUnlock ───────────────────────────────────────────────────
+
+describe("requestEmergencyUnlock", () => {
+  beforeEach(() => {
+    vi.mocked(getEmergencyUnlocks).mockResolvedValue(EMPTY);
+    vi.mocked(setEmergencyUnlocks).mockReset();
+  });
+
+  it("refuses while a hard-locked session runs", async () => {
+    vi.mocked(getSettings).mockResolvedValue(HARD_LOCKED);
+    expect(await requestEmergencyUnlock("example.com", NOW)).toEqual({ ok: false, reason: "hard-lock" });
+    expect(setEmergencyUnlocks).not.toHaveBeenCalled();
+  });
+});
+
+// ─── rollEmergencyWindow ──────────────────────────────────────────────────────
+
+describe("rollEmergencyWindow", () => {
+  it("keeps the data while the window is current", () => {
+    expect(rollEmergencyWindow(EMPTY, ROLLING_24, NOW)).toBe(EMPTY);
+  });
+
+  it("refills the quota but keeps running unlocks when the window ends", () => {
+    const late = NOW - 60 * MIN + 24 * 60 * MIN;
+    const data: EmergencyUnlockData = {
+      ...EMPTY,
+      unlocks: [
+        { domain: "old.com", startTs: NOW, endTs: NOW + 10 * MIN },
+        { domain: "running.com", startTs: late - MIN, endTs: late + 5 * MIN },
+      ],
+    };
+    const rolled = rollEmergencyWindow(data, ROLLING_24, late);
+    expect(rolled.windowStartTs).toBe(late);
+    expect(rolled.unlocks.map((u) => u.domain)).toEqual(["running.com"]);
+    expect(unlocksRemaining(rolled, DEFAULT_EMERGENCY_UNLOCK)).toBe(1);
+  });
+});
+
+// ─── Dopamine Score ───────────────────────────────────────────────────────────
+
+describe("calculateScore", () => {
+  it("charges 10 points per emergency unlock", () => {
+    const { score, breakdown } = calculateScore({
+      totalTemptationAttempts: 0,
+      totalLimitedMinutes: 0,
+      limitHitCount: 0,
+      lockedInSessionsCompleted: 0,
+      lockedInMinutes: 0,
+      delayCompletions: 0,
+      emergencyUnlocks: 2,
+      pomodoroCycles: 0,
+      tamperEvents: 0,
+    });
+    expect(score).toBe(80);
+    expect(breakdown.emergencyPenalty).toBe(20);
+  });
+});
@@ -0,0 +1,236 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { explainPolicy, parseTestUrl, type TraceOutcome } from "../explain";
+import { computeBlockedState, MSG_HARD_BLOCK, MSG_LOCKED_IN } from "../policy";
+import { invalidateRuleIndex } from "../ruleIndex";
+import { DEFAULT_SETTINGS } from "../types";
+import type { Settings, UsageMap } from "../types";
+
+// ─── Helpers ──────────────────────────────────────────────────────────────────
+
+function makeSettings(overrides: Partial<Settings> = {}): Settings {
+  return { ...DEFAULT_SETTINGS, ...overrides };
+}
+
+function makeUsage(map: Record<string, number> = {}): UsageMap {
+  return Object.fromEntries(
+    Object.entries(map).map(([domain, secs]) => [
+      domain,
+      { activeSeconds: secs, lastUpdated: NOW, windowStartTs: NOW },
+    ]),
+  );
+}
+
+function outcomes(steps: { outcome: TraceOutcome }[]): TraceOutcome[] {
+  return steps.map((s) => s.outcome);
+}
+
+/** Wednesday 2024-01-10 12:00 local time. */
+const NOW = new Date(2024, 0, 10, 12, 0).getTime();
+
+beforeEach(() => invalidateRuleIndex());
+
+// ─── explainPolicy ────────────────────────────────────────────────────────────
+
+describe("explainPolicy", () => {
+  it("reports every tier in precedence order", () => {
+    const result = explainPolicy("example.com", makeSettings(), makeUsage(), NOW);
+    expect(result.steps.map((s) => s.tier)).toEqual([
+      "disabled",
+      "allowlist-mode",
+      "locked-in",
+      "allow-exception",
+      "site-rule",
+      "group",
+      "global-block-list",
+      "global-defaults",
+    ]);
+    expect(result.steps.every((s) => s.outcome === "no-match")).toBe(true);
+    expect(result.policy).toBeNull();
+    expect(result.state).toEqual({ blocked: false });
+  });
+
+  it("marks tiers after the match as skipped", () => {
+    const settings = makeSettings({
+      siteRules: [{ domain: "youtube.com", mode: "block", enabled: true }],
+    });
+    const result = explainPolicy("m.youtube.com", settings, makeUsage(), NOW);
+    expect(outcomes(result.steps)).toEqual([
+      "no-match", "no-match", "no-match", "no-match",
+      "matched", "skipped", "skipped", "skipped",
+    ]);
+    expect(result.steps[4].detail).toContain("youtube.com");
+    expect(result.state.message).toBe(MSG_HARD_BLOCK);
+  });
+
+  it("reports a disabled extension as unrestricted", () => {
+    const settings = makeSettings({
+      disabled: true,
+      globalBlockList: ["reddit.com"],
+    });
+    const result = explainPolicy("reddit.com", settings, makeUsage(), NOW);
+    expect(result.steps[0].outcome).toBe("matched");
+    expect(result.state).toEqual({ blocked: false });
+  });
+
+  it("reports Locked In Mode before any rule", () => {
+    const settings = makeSettings({
+      siteRules: [{ domain: "github.com", mode: "block", enabled: true }],
+      lockedInSession: {
+        active: true,
+        startTs: NOW - 60_000,
+        endTs: NOW + 60_000,
+        allowedDomains: ["docs.google.com"],
+      },
+    });
+    const result = explainPolicy("github.com", settings, makeUsage(), NOW);
+    expect(result.steps[2]).toMatchObject({ tier: "locked-in", outcome: "matched" });
+    expect(result.steps[4].outcome).toBe("skipped");
+    expect(result.state.message).toBe(MSG_LOCKED_IN);
+  });
+
+  it("ignores an expired Locked In session", () => {
+    const settings = makeSettings({
+      lockedInSession: { active: true, startTs: NOW - 120_000, endTs: NOW - 60_000, allowedDomains: [] },
+    });
+    const result = explainPolicy("github.com", settings, makeUsage(), NOW);
+    expect(result.steps[2].outcome).toBe("no-match");
+  });
+
+  it("reports the matching allow exception", () => {
+    const settings = makeSettings({
+      globalBlockList: ["youtube.com"],
+      allowExceptions: ["music.youtube.com"],
+    });
+    const result = explainPolicy("music.youtube.com", settings, makeUsage(), NOW);
+    expect(result.steps[3]).toMatchObject({ tier: "allow-exception", outcome: "matched" });
+    expect(result.steps[3].detail).toContain("music.youtube.com");
+    expect(result.steps[6].outcome).toBe("skipped");
+  });
+
+  it("names the global block-list entry that matched", () => {
+    const settings = makeSettings({ globalBlockList: ["reddit.com"] });
+    const result = explainPolicy("old.reddit.com", settings, makeUsage(), NOW);
+    expect(result.steps[6]).toMatchObject({ tier: "global-block-list", outcome: "matched" });
+    expect(result.steps[6].detail).toContain("reddit.com");
+  });
+
+  describe("schedules", () => {
+    const weekdayMornings = { enabled: true, days: [1, 2, 3, 4, 5], startMinutes: 540, endMinutes: 660 };
+    const wednesdayNoon = { enabled: true, days: [3], startMinutes: 690, endMinutes: 780 };
+
+    it("evaluates each window of the matched rule", () => {
+      const settings = makeSettings({
+        siteRules: [
+          { domain: "x.com", mode: "block", enabled: true, schedule: [weekdayMornings, wednesdayNoon] },
+        ],
+      });
+      const result = explainPolicy("x.com", settings, makeUsage(), NOW);
+      expect(result.schedules.map((s) => s.active)).toEqual([false, true]);
+      expect(result.scheduleActive).toBe(true);
+      expect(result.state.blocked).toBe(true);
+    });
+
+    it("reports an inactive schedule as unrestricted", () => {
+      const settings = makeSettings({
+        siteRules: [{ domain: "x.com", mode: "block", enabled: true, schedule: [weekdayMornings] }],
+      });
+      const result = explainPolicy("x.com", settings, makeUsage(), NOW);
+      expect(result.schedules[0].summary).toBe(
+        "Weekdays, 9:00 AM–11:00 AM",
+      );
+      expect(result.scheduleActive).toBe(false);
+      expect(result.state).toEqual({ blocked: false });
+    });
+  });
+
+  describe("usage math", () => {
+    it("lists every usage record summed for a site rule", () => {
+      const settings = makeSettings({
+        siteRules: [{ domain: "youtube.com", mode: "limit", limitMinutes: 30, enabled: true }],
+      });
+      const usage = makeUsage({
+        "youtube.com": 600,
+        "m.youtube.com": 300,
+        "youtube.com/shorts": 200,
+        "vimeo.com": 999,
+      });
+      const result = explainPolicy("youtube.com", settings, usage, NOW);
+      expect(result.usage).toEqual({
+        limitSeconds: 1_800,
+        limitSource: "base",
+        usedSeconds: 900,
+        remainingSeconds: 900,
+        contributions: [
+          { key: "youtube.com", seconds: 600 },
+          { key: "m.youtube.com", seconds: 300 },
+        ],
+      });
+      expect(result.state.remainingSeconds).toBe(result.usage?.remainingSeconds);
+    });
+
+    it("sums a group's shared pool", () => {
+      const settings = makeSettings({
+        groups: [
+          { id: "s", name: "Social", domains: ["x.com", "reddit.com"], mode: "limit", limitMinutes: 10, enabled: true },
+        ],
+      });
+      const usage = makeUsage({ "x.com": 200, "old.reddit.com": 500 });
+      const result = explainPolicy("x.com", settings, usage, NOW);
+      expect(result.usage?.usedSeconds).toBe(700);
+      expect(result.usage?.contributions.map((c) => c.key)).toEqual(["old.reddit.com", "x.com"]);
+    });
+
+    it("uses the path rule's own usage key", () => {
+      const settings = makeSettings({
+        siteRules: [{ domain: "youtube.com", path: "/shorts", mode: "limit", limitMinutes: 5, enabled: true }],
+      });
+      const usage = makeUsage({ "youtube.com": 1_000, "youtube.com/shorts": 120 });
+      const result = explainPolicy("youtube.com", settings, usage, NOW, "/shorts/abc");
+      expect(result.usage?.contributions).toEqual([{ key: "youtube.com/shorts", seconds: 120 }]);
+      expect(result.usage?.remainingSeconds).toBe(180);
+    });
+
+    it("is absent for block rules", () => {
+      const settings = makeSettings({ globalBlockList: ["x.com"] });
+      expect(explainPolicy("x.com", settings, makeUsage(), NOW).usage).toBeUndefined();
+    });
+  });
+
+  it("agrees with computeBlockedState", () => {
+    const settings = makeSettings({
+      siteRules: [{ domain: "youtube.com", mode: "limit", limitMinutes: 1, enabled: true }],
+      groups: [{ id: "g", name: "G", domains: ["reddit.com"], mode: "block", enabled: true }],
+      globalDefaults: { mode: "limit", limitMinutes: 2 },
+    });
+    const usage = makeUsage({ "youtube.com": 90, "example.com": 30 });
+    for (const host of ["youtube.com", "reddit.com", "example.com", "other.org"]) {
+      expect(explainPolicy(host, settings, usage, NOW).state).toEqual(
+        computeBlockedState(host, usage, settings, undefined, NOW),
+      );
+    }
+  });
+});
+
+// ─── parseTestUrl ─────────────────────────────────────────────────────────────
+
+describe("parseTestUrl", () => {
+  it("parses a full URL", () => {
+    expect(parseTestUrl("https://www.YouTube.com/shorts/abc?x=1#t")).toEqual({
+      hostname: "www.youtube.com",
+      path: "/shorts/abc",
+    });
+  });
+
+  it("accepts input without a protocol", () => {
+    expect(parseTestUrl("reddit.com/r/all")).toEqual({ hostname: "reddit.com", path: "/r/all" });
+  });
+
+  it("defaults the path to the root", () => {
+    expect(parseTestUrl("example.com")).toEqual({ hostname: "example.com", path: "/" });
+  });
+
+  it("rejects empty input and bare words", () => {
+    expect(parseTestUrl("   ")).toBeNull();
+    expect(parseTestUrl("localhost")).toBeNull();
+  });
+});
@@ -0,0 +1,77 @@
+import { describe, it, expect } from "vitest";
+import { activeHardLock, hardLockViolations } from "../hardLock";
+import { DEFAULT_SETTINGS } from "../types";
+import type { LockedInSession, Settings } from "../types";
+
+// ─── Helpers ──────────────────────────────────────────────────────────────────
+
+const NOW = 1_700_000_000_000;
+const MIN = 60_000;
+
+const LOCK: LockedInSession = {
+  active: true,
+  startTs: NOW - 10 * MIN,
+  endTs: NOW + 50 * MIN,
+  allowedDomains: ["github.com"],
+  hardLock: true,
+};
+
+function makeSettings(overrides: Partial<Settings> = {}): Settings {
+  return {
+    ...DEFAULT_SETTINGS,
+    siteRules: [{ domain: "youtube.com", mode: "block", enabled: true }],
+    lockedInSession: LOCK,
+    ...overrides,
+  };
+}
+
+// ─── activeHardLock ───────────────────────────────────────────────────────────
+
+describe("activeHardLock", () => {
+  it("returns the session only while a hard lock runs", () => {
+    expect(activeHardLock(makeSettings(), NOW)).toBe(LOCK);
+    expect(activeHardLock(makeSettings(), LOCK.endTs)).toBeNull();
+    expect(activeHardLock(makeSettings({ lockedInSession: { ...LOCK, hardLock: false } }), NOW)).toBeNull();
+  });
+});
+
+// ─── hardLockViolations ───────────────────────────────────────────────────────
+
+describe("hardLockViolations", () => {
+  const current = makeSettings();
+
+  it("refuses ending, shortening or widening the session", () => {
+    expect(hardLockViolations(current, { ...current, lockedInSession: { ...LOCK, active: false } }, NOW)).toHaveLength(1);
+    expect(hardLockViolations(current, { ...current, lockedInSession: { ...LOCK, endTs: NOW } }, NOW)).toHaveLength(1);
+    expect(
+      hardLockViolations(current, { ...current, lockedInSession: { ...LOCK, allowedDomains: ["github.com", "x.com"] } }, NOW),
+    ).toHaveLength(1);
+  });
+
+  it("refuses disabling the extension and relaxing rules", () => {
+    expect(hardLockViolations(current, { ...current, disabled: true }, NOW)).toEqual(["Extension will be disabled"]);
+    expect(hardLockViolations(current, { ...current, siteRules: [] }, NOW)).toEqual([
+      'Block rule for "youtube.com" removed',
+    ]);
+  });
+
+  it("refuses turning off Allowlist Mode", () => {
+    const on = makeSettings({ allowlistMode: { enabled: true, allowedDomains: ["github.com"] } });
+    expect(
+      hardLockViolations(on, { ...on, allowlistMode: { enabled: false, allowedDomains: ["github.com"] } }, NOW),
+    ).toEqual(["Allowlist Mode turned off"]);
+  });
+
+  it("allows tightening changes and background bookkeeping", () => {
+    const stricter = {
+      ...current,
+      globalBlockList: ["reddit.com"],
+      lockedInSession: { ...LOCK, endTs: LOCK.endTs + MIN, creditedCycles: 1 },
+    };
+    expect(hardLockViolations(current, stricter, NOW)).toEqual([]);
+  });
+
+  it("allows anything once the lock has ended", () => {
+    expect(hardLockViolations(current, { ...current, disabled: true }, LOCK.endTs)).toEqual([]);
+  });
+});
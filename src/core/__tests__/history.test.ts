@@ -0,0 +1,148 @@
+import { describe, it, expect } from "vitest";
+import {
+  appendToHistory,
+  compactHistory,
+  queryHistory,
+  dayKey,
+  HISTORY_RETENTION_DAYS,
+  MAX_DOMAINS_PER_DAY,
+  OTHER_KEY,
+} from "../history";
+import type { DomainUsage, UsageHistory } from "../types";
+
+// ─── Helpers ──────────────────────────────────────────────────────────────────
+
+/** Unix ms for 2024-01-{date} at HH:00 local time. */
+function jan(date: number, hh = 12): number {
+  return new Date(2024, 0, date, hh).getTime();
+}
+
+function rec(activeSeconds: number, windowStartTs: number): DomainUsage {
+  return { activeSeconds, lastUpdated: windowStartTs, windowStartTs };
+}
+
+const EMPTY: UsageHistory = { days: [] };
+
+// ─── dayKey ───────────────────────────────────────────────────────────────────
+
+describe("dayKey", () => {
+  it("formats the local calendar day", () => {
+    expect(dayKey(jan(5, 23))).toBe("2024-01-05");
+    expect(dayKey(jan(5, 0))).toBe("2024-01-05");
+  });
+});
+
+// ─── appendToHistory ──────────────────────────────────────────────────────────
+
+describe("appendToHistory", () => {
+  it("files records under the day their window started", () => {
+    const result = appendToHistory(EMPTY, { "youtube.com": rec(600, jan(4, 22)) }, jan(5));
+    expect(result.days).toEqual([{ day: "2024-01-04", domains: { "youtube.com": 600 } }]);
+  });
+
+  it("merges repeated appends into the same day", () => {
+    const first = appendToHistory(EMPTY, { "youtube.com": rec(600, jan(4, 9)) }, jan(5));
+    const second = appendToHistory(
+      first,
+      { "youtube.com": rec(300, jan(4, 20)), "reddit.com": rec(60, jan(4, 20)) },
+      jan(5),
+    );
+    expect(second.days).toEqual([
+      { day: "2024-01-04", domains: { "youtube.com": 900, "reddit.com": 60 } },
+    ]);
+  });
+
+  it("skips path-rule keys and empty records", () => {
+    const result = appendToHistory(
+      EMPTY,
+      { "youtube.com/shorts": rec(120, jan(4)), "x.com": rec(0, jan(4)) },
+      jan(5),
+    );
+    expect(result.days).toEqual([]);
+  });
+
+  it("keeps days sorted oldest first", () => {
+    const result = appendToHistory(
+      { days: [{ day: "2024-01-04", domains: { "a.com": 1 } }] },
+      { "b.com": rec(5, jan(2)) },
+      jan(5),
+    );
+    expect(result.days.map((d) => d.day)).toEqual(["2024-01-02", "2024-01-04"]);
+  });
+});
+
+// ─── compactHistory ───────────────────────────────────────────────────────────
+
+describe("compactHistory", () => {
+  it(`drops days older than ${HISTORY_RETENTION_DAYS} days`, () => {
+    const now = new Date(2024, 5, 1, 12).getTime();
+    const result = compactHistory(
+      {
+        days: [
+          { day: "2024-01-01", domains: { "a.com": 1 } },
+          { day: "2024-05-31", domains: { "a.com": 2 } },
+        ],
+      },
+      now,
+    );
+    expect(result.days.map((d) => d.day)).toEqual(["2024-05-31"]);
+  });
+
+  it("folds the smallest domains into the other bucket without losing time", () => {
+    const domains: Record<string, number> = {};
+    for (let i = 0; i < MAX_DOMAINS_PER_DAY + 10; i++) domains[`site${i}.com`] = i + 1;
+    const total = Object.values(domains).reduce((a, b) => a + b, 0);
+
+    const [day] = compactHistory({ days: [{ day: "2024-01-04", domains }] }, jan(5)).days;
+    expect(Object.keys(day.domains)).toHaveLength(MAX_DOMAINS_PER_DAY);
+    expect(day.domains[OTHER_KEY]).toBeGreaterThan(0);
+    expect(day.domains[`site${MAX_DOMAINS_PER_DAY + 9}.com`]).toBe(MAX_DOMAINS_PER_DAY + 10);
+    expect(Object.values(day.domains).reduce((a, b) => a + b, 0)).toBe(total);
+  });
+});
+
+// ─── queryHistory ─────────────────────────────────────────────────────────────
+
+describe("queryHistory", () => {
+  const history: UsageHistory = {
+    days: [
+      { day: "2024-01-01", domains: { "youtube.com": 3_600 } },
+      { day: "2024-01-03", domains: { "youtube.com": 600, "reddit.com": 1_200 } },
+    ],
+  };
+
+  it("returns a zero-filled series ending today", () => {
+    const { series } = queryHistory(history, {}, 7, jan(5));
+    expect(series.map((d) => d.day)).toEqual([
+      "2023-12-30",
+      "2023-12-31",
+      "2024-01-01",
+      "2024-01-02",
+      "2024-01-03",
+      "2024-01-04",
+      "2024-01-05",
+    ]);
+    expect(series.map((d) => d.totalSeconds)).toEqual([0, 0, 3_600, 0, 1_800, 0, 0]);
+    expect(series[6].dayStartTs).toBe(jan(5, 0));
+  });
+
+  it("includes the live window", () => {
+    const { series, totalSeconds } = queryHistory(history, { "x.com": rec(300, jan(5, 8)) }, 7, jan(5));
+    expect(series[6].totalSeconds).toBe(300);
+    expect(totalSeconds).toBe(3_600 + 1_800 + 300);
+  });
+
+  it("ranks domains across the range and averages over active days", () => {
+    const result = queryHistory(history, {}, 7, jan(5));
+    expect(result.topDomains).toEqual([
+      { hostname: "youtube.com", seconds: 4_200 },
+      { hostname: "reddit.com", seconds: 1_200 },
+    ]);
+    expect(result.averageSeconds).toBe(2_700);
+  });
+
+  it("only counts days inside the range", () => {
+    const { totalSeconds } = queryHistory(history, {}, 3, jan(5));
+    expect(totalSeconds).toBe(1_800);
+  });
+});
@@ -0,0 +1,115 @@
+import { describe, it, expect } from "vitest";
+import {
+  warningThresholds,
+  crossedWarning,
+  warningText,
+  parseWarningMinutes,
+  formatWarningMinutes,
+} from "../limitWarning";
+import { DEFAULT_LIMIT_WARNINGS } from "../types";
+import type { LimitWarningSettings } from "../types";
+
+function config(overrides: Partial<LimitWarningSettings> = {}): LimitWarningSettings {
+  return { ...DEFAULT_LIMIT_WARNINGS, ...overrides };
+}
+
+// ─── warningThresholds ────────────────────────────────────────────────────────
+
+describe("warningThresholds", () => {
+  it("converts the global minutes to seconds, largest first", () => {
+    expect(warningThresholds(undefined, config({ thresholdMinutes: [1, 5] }))).toEqual([300, 60]);
+  });
+
+  it("uses the rule's own minutes over the global list", () => {
+    expect(warningThresholds([10], config())).toEqual([600]);
+  });
+
+  it("returns none for a rule with an empty list", () => {
+    expect(warningThresholds([], config())).toEqual([]);
+  });
+
+  it("returns none when warnings are off", () => {
+    expect(warningThresholds([10], config({ enabled: false }))).toEqual([]);
+  });
+
+  it("drops duplicates and non-positive entries", () => {
+    expect(warningThresholds([5, 5, 0, 1], config())).toEqual([300, 60]);
+  });
+
+  it("falls back to the defaults without settings", () => {
+    expect(warningThresholds(undefined)).toEqual([300, 60]);
+  });
+});
+
+// ─── crossedWarning ───────────────────────────────────────────────────────────
+
+describe("crossedWarning", () => {
+  const thresholds = [300, 60];
+
+  it("returns null above every threshold", () => {
+    expect(crossedWarning(301, thresholds)).toBeNull();
+  });
+
+  it("returns a threshold once it is reached", () => {
+    expect(crossedWarning(300, thresholds)).toBe(300);
+    expect(crossedWarning(200, thresholds)).toBe(300);
+  });
+
+  it("returns the smallest threshold reached", () => {
+    expect(crossedWarning(60, thresholds)).toBe(60);
+    expect(crossedWarning(5, thresholds)).toBe(60);
+  });
+
+  it("returns null when time is up", () => {
+    expect(crossedWarning(0, thresholds)).toBeNull();
+  });
+
+  it("returns null without thresholds", () => {
+    expect(crossedWarning(30, [])).toBeNull();
+  });
+});
+
+// ─── warningText ──────────────────────────────────────────────────────────────
+
+describe("warningText", () => {
+  it("shows whole minutes left", () => {
+    expect(warningText("youtube.com", 300)).toBe("5 min left on youtube.com");
+    expect(warningText("youtube.com", 119)).toBe("1 min left on youtube.com");
+  });
+
+  it("says less than a minute under 60 seconds", () => {
+    expect(warningText("youtube.com", 59)).toBe("Less than a minute left on youtube.com");
+  });
+});
+
+// ─── parseWarningMinutes / formatWarningMinutes ───────────────────────────────
+
+describe("parseWarningMinutes", () => {
+  it("parses a comma-separated list, largest first", () => {
+    expect(parseWarningMinutes("1, 5,10")).toEqual([10, 5, 1]);
+  });
+
+  it("returns an empty list for blank input or zeros", () => {
+    expect(parseWarningMinutes("")).toEqual([]);
+    expect(parseWarningMinutes(" 0 ")).toEqual([]);
+  });
+
+  it("drops duplicates", () => {
+    expect(parseWarningMinutes("5, 5, 1")).toEqual([5, 1]);
+  });
+
+  it("rejects entries that are not whole minutes", () => {
+    expect(parseWarningMinutes("5, abc")).toBeNull();
+    expect(parseWarningMinutes("1.5")).toBeNull();
+    expect(parseWarningMinutes("-1")).toBeNull();
+  });
+
+  it("rejects more than a day or too many entries", () => {
+    expect(parseWarningMinutes("1441")).toBeNull();
+    expect(parseWarningMinutes("1, 2, 3, 4, 5, 6")).toBeNull();
+  });
+
+  it("round-trips with formatWarningMinutes", () => {
+    expect(formatWarningMinutes(parseWarningMinutes("5, 1") ?? [])).toBe("5, 1");
+  });
+});
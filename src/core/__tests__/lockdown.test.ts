@@ -0,0 +1,68 @@
+import { describe, it, expect } from "vitest";
+import { lockdownActive, lockdownViolations, settingsWriteRefusal } from "../lockdown";
+import { DEFAULT_SETTINGS } from "../types";
+import type { Settings } from "../types";
+
+// ─── Helpers ──────────────────────────────────────────────────────────────────
+
+const NOW = 1_700_000_000_000;
+const HOUR = 3_600_000;
+
+function makeSettings(overrides: Partial<Settings> = {}): Settings {
+  return {
+    ...DEFAULT_SETTINGS,
+    siteRules: [{ domain: "youtube.com", mode: "limit", limitMinutes: 30, enabled: true }],
+    lockdown: { untilTs: NOW + HOUR },
+    ...overrides,
+  };
+}
+
+// ─── lockdownActive ───────────────────────────────────────────────────────────
+
+describe("lockdownActive", () => {
+  it("runs until untilTs", () => {
+    expect(lockdownActive(makeSettings(), NOW)).toBe(true);
+    expect(lockdownActive(makeSettings(), NOW + HOUR)).toBe(false);
+    expect(lockdownActive(DEFAULT_SETTINGS, NOW)).toBe(false);
+  });
+});
+
+// ─── lockdownViolations ───────────────────────────────────────────────────────
+
+describe("lockdownViolations", () => {
+  const current = makeSettings();
+
+  it("refuses every reduction diffProtection classifies", () => {
+    const raised = {
+      ...current,
+      siteRules: [{ domain: "youtube.com", mode: "limit" as const, limitMinutes: 60, enabled: true }],
+    };
+    expect(lockdownViolations(current, raised, NOW)).toEqual([
+      '"youtube.com" limit increased from 30 min to 60 min',
+    ]);
+  });
+
+  it("refuses shortening but allows extending the lockdown", () => {
+    expect(lockdownViolations(current, { ...current, lockdown: { untilTs: 0 } }, NOW)).toEqual([
+      "The lockdown cannot be shortened",
+    ]);
+    expect(lockdownViolations(current, { ...current, lockdown: { untilTs: NOW + 2 * HOUR } }, NOW)).toEqual([]);
+  });
+
+  it("allows tightening and anything once the lockdown is over", () => {
+    expect(lockdownViolations(current, { ...current, globalBlockList: ["x.com"] }, NOW)).toEqual([]);
+    expect(lockdownViolations(current, { ...current, disabled: true }, NOW + HOUR)).toEqual([]);
+  });
+});
+
+// ─── settingsWriteRefusal ─────────────────────────────────────────────────────
+
+describe("settingsWriteRefusal", () => {
+  it("explains a refused write and passes an allowed one", () => {
+    const current = makeSettings();
+    expect(settingsWriteRefusal(current, { ...current, disabled: true }, NOW)).toMatch(
+      /^Settings are locked down until .+ — Extension will be disabled\.$/,
+    );
+    expect(settingsWriteRefusal(current, current, NOW)).toBeNull();
+  });
+});
@@ -2,10 +2,14 @@ import { describe, it, expect } from "vitest";
 import {
   resolveEffectivePolicy,
   computeBlockedState,
+  nextPolicyTransition,
+  blockLiftsAt,
   MSG_HARD_BLOCK,
   MSG_TIME_UP,
   MSG_ALLOWLIST,
   MSG_ALLOWLIST_SUBTITLE,
+  MSG_LOCKED_IN,
+  MSG_LOCKED_IN_BREAK,
 } from "../policy";
 import type { Settings, UsageMap } from "../types";
 import { DEFAULT_SETTINGS } from "../types";
@@ -62,6 +66,27 @@ describe("resolveEffectivePolicy", () => {
       expect(policy?.configuredDomain).toBe("twitter.com");
     });
 
+    it("carries the rule's low-time warning override", () => {
+      const settings = makeSettings({
+        siteRules: [
+          { domain: "twitter.com", mode: "limit", limitMinutes: 30, enabled: true, warningMinutes: [10] },
+        ],
+        groups: [
+          {
+            id: "g",
+            name: "Video",
+            domains: ["youtube.com"],
+            mode: "limit",
+            limitMinutes: 30,
+            enabled: true,
+            warningMinutes: [],
+          },
+        ],
+      });
+      expect(resolveEffectivePolicy("twitter.com", settings)?.warningMinutes).toEqual([10]);
+      expect(resolveEffectivePolicy("youtube.com", settings)?.warningMinutes).toEqual([]);
+    });
+
     it("skips disabled site-rules", () => {
       const settings = makeSettings({
         siteRules: [{ domain: "youtube.com", mode: "block", enabled: false }],
@@ -223,6 +248,29 @@ describe("resolveEffectivePolicy", () => {
     });
   });
 
+  describe("allow exceptions", () => {
+    it("returns an allow policy for an excepted subdomain", () => {
+      const settings = makeSettings({
+        siteRules: [{ domain: "youtube.com", mode: "block", enabled: true }],
+        allowExceptions: ["music.youtube.com"],
+      });
+      expect(resolveEffectivePolicy("music.youtube.com", settings)).toEqual({
+        mode: "allow",
+        reason: "allow-exception",
+        configuredDomain: "music.youtube.com",
+      });
+    });
+
+    it("wins over globalDefaults", () => {
+      const settings = makeSettings({
+        globalDefaults: { mode: "block" },
+        allowExceptions: ["docs.google.com"],
+      });
+      expect(resolveEffectivePolicy("docs.google.com", settings)?.reason).toBe("allow-exception");
+      expect(resolveEffectivePolicy("mail.google.com", settings)?.reason).toBe("global-defaults");
+    });
+  });
+
   describe("case insensitivity", () => {
     it("normalizes hostname before matching site-rule", () => {
       const settings = makeSettings({
@@ -504,6 +552,157 @@ describe("computeBlockedState", () => {
 
 // ─── Allowlist Mode (Focus Environment) ───────────────────────────────────────
 
+describe("computeBlockedState — weekday and window budgets", () => {
+  // 2024-01-06 is a Saturday, 2024-01-10 a Wednesday.
+  const SATURDAY = new Date(2024, 0, 6, 12, 0).getTime();
+  const WEDNESDAY = new Date(2024, 0, 10, 12, 0).getTime();
+  const rule = {
+    domain: "youtube.com",
+    mode: "limit" as const,
+    limitMinutes: 10,
+    dayLimits: [60, null, null, null, null, null, 60],
+    enabled: true,
+  };
+
+  it("uses the weekend budget on Saturday", () => {
+    const settings = makeSettings({ siteRules: [rule] });
+    const state = computeBlockedState("youtube.com", makeUsage({ "youtube.com": 1_200 }), settings, undefined, SATURDAY);
+    expect(state.blocked).toBe(false);
+    expect(state.remainingSeconds).toBe(3_600 - 1_200);
+  });
+
+  it("uses the base limit on a weekday", () => {
+    const settings = makeSettings({ siteRules: [rule] });
+    const state = computeBlockedState("youtube.com", makeUsage({ "youtube.com": 1_200 }), settings, undefined, WEDNESDAY);
+    expect(state.message).toBe(MSG_TIME_UP);
+  });
+
+  it("reports the budget source on the effective policy", () => {
+    const settings = makeSettings({ siteRules: [rule] });
+    expect(resolveEffectivePolicy("youtube.com", settings, undefined, SATURDAY)).toMatchObject({
+      limitSeconds: 3_600,
+      limitSource: "weekday",
+    });
+  });
+
+  const budgetGroup = makeSettings({
+    groups: [
+      {
+        id: "g",
+        name: "Social",
+        domains: ["x.com"],
+        mode: "limit",
+        limitMinutes: 60,
+        enabled: true,
+        budgets: [{ enabled: true, days: [3], startMinutes: 660, endMinutes: 780, limitMinutes: 5 }],
+      },
+    ],
+  });
+
+  it("applies a group's window budget while the window is active", () => {
+    expect(resolveEffectivePolicy("x.com", budgetGroup, undefined, WEDNESDAY)).toMatchObject({
+      limitSeconds: 300,
+      limitSource: "window",
+    });
+  });
+
+  it("keeps applying the base limit outside the budget window", () => {
+    const evening = new Date(2024, 0, 10, 20, 0).getTime();
+    expect(resolveEffectivePolicy("x.com", budgetGroup, undefined, evening)).toMatchObject({
+      limitSeconds: 3_600,
+      limitSource: "base",
+    });
+    const state = computeBlockedState("x.com", makeUsage({ "x.com": 3_600 }), budgetGroup, undefined, evening);
+    expect(state.message).toBe(MSG_TIME_UP);
+  });
+});
+
+describe("computeBlockedState — path rules", () => {
+  const shortsLimit = {
+    domain: "youtube.com",
+    path: "/shorts",
+    mode: "limit" as const,
+    limitMinutes: 10,
+    enabled: true,
+  };
+
+  it("blocks a matching path while leaving other paths unrestricted", () => {
+    const settings = makeSettings({
+      siteRules: [{ domain: "youtube.com", path: "/shorts", mode: "block", enabled: true }],
+    });
+    expect(computeBlockedState("www.youtube.com", makeUsage(), settings, "/shorts/abc").blocked).toBe(true);
+    expect(computeBlockedState("www.youtube.com", makeUsage(), settings, "/watch").blocked).toBe(false);
+  });
+
+  it("reads usage from the rule's own key, not the whole domain", () => {
+    const settings = makeSettings({ siteRules: [shortsLimit] });
+    const usage = makeUsage({ "youtube.com": 3_000, "youtube.com/shorts": 120 });
+    const state = computeBlockedState("youtube.com", usage, settings, "/shorts");
+    expect(state.blocked).toBe(false);
+    expect(state.remainingSeconds).toBe(600 - 120);
+  });
+
+  it("blocks once the path rule's own usage reaches the limit", () => {
+    const settings = makeSettings({ siteRules: [shortsLimit] });
+    const usage = makeUsage({ "youtube.com/shorts": 600 });
+    expect(computeBlockedState("youtube.com", usage, settings, "/shorts").message).toBe(MSG_TIME_UP);
+  });
+
+  it("whole-host limits do not count path-rule usage keys twice", () => {
+    const settings = makeSettings({
+      siteRules: [{ domain: "youtube.com", mode: "limit", limitMinutes: 10, enabled: true }],
+    });
+    const usage = makeUsage({ "youtube.com": 300, "youtube.com/shorts": 300 });
+    const state = computeBlockedState("youtube.com", usage, settings, "/watch");
+    expect(state.remainingSeconds).toBe(300);
+  });
+
+  it("exposes the configured path on the effective policy", () => {
+    const settings = makeSettings({ siteRules: [shortsLimit] });
+    expect(resolveEffectivePolicy("youtube.com", settings, "/shorts")).toMatchObject({
+      reason: "site-rule",
+      configuredDomain: "youtube.com",
+      configuredPath: "/shorts",
+    });
+  });
+});
+
+describe("computeBlockedState — allow exceptions", () => {
+  it("leaves an excepted subdomain unrestricted under a blocked parent", () => {
+    const settings = makeSettings({
+      siteRules: [{ domain: "youtube.com", mode: "block", enabled: true }],
+      allowExceptions: ["music.youtube.com"],
+    });
+    expect(computeBlockedState("music.youtube.com", makeUsage(), settings)).toEqual({ blocked: false });
+    expect(computeBlockedState("youtube.com", makeUsage(), settings).blocked).toBe(true);
+  });
+
+  it("ignores an exhausted group limit for the excepted domain", () => {
+    const settings = makeSettings({
+      groups: [
+        { id: "g", name: "Google", domains: ["google.com"], mode: "limit", limitMinutes: 1, enabled: true },
+      ],
+      allowExceptions: ["docs.google.com"],
+    });
+    const usage = makeUsage({ "google.com": 3_600 });
+    expect(computeBlockedState("docs.google.com", usage, settings).blocked).toBe(false);
+    expect(computeBlockedState("google.com", usage, settings).blocked).toBe(true);
+  });
+
+  it("does not override Locked In Mode", () => {
+    const settings = makeSettings({
+      allowExceptions: ["docs.google.com"],
+      lockedInSession: {
+        active: true,
+        startTs: Date.now() - 1_000,
+        endTs: Date.now() + 60_000,
+        allowedDomains: ["github.com"],
+      },
+    });
+    expect(computeBlockedState("docs.google.com", makeUsage(), settings).lockedIn).toBe(true);
+  });
+});
+
 describe("computeBlockedState — allowlist mode", () => {
   describe("when allowlist mode is disabled", () => {
     it("applies normal rules when allowlistMode.enabled is false", () => {
@@ -632,3 +831,198 @@ describe("computeBlockedState — allowlist mode", () => {
     });
   });
 });
+
+describe("computeBlockedState — Pomodoro sessions", () => {
+  const START = 1_700_000_000_000;
+  const MIN = 60_000;
+  const pomodoro = {
+    cycles: 2,
+    focusMinutes: 25,
+    shortBreakMinutes: 5,
+    longBreakMinutes: 15,
+    longBreakEvery: 4,
+    breakAllowedDomains: [] as string[],
+  };
+
+  function pomodoroSettings(breakAllowedDomains: string[] = []): Settings {
+    return makeSettings({
+      siteRules: [{ domain: "youtube.com", mode: "block", enabled: true }],
+      lockedInSession: {
+        active: true,
+        startTs: START,
+        endTs: START + 55 * MIN,
+        allowedDomains: ["github.com"],
+        pomodoro: { ...pomodoro, breakAllowedDomains },
+      },
+    });
+  }
+
+  it("enforces the session allowlist during focus", () => {
+    const state = computeBlockedState("news.com", makeUsage(), pomodoroSettings(), undefined, START + MIN);
+    expect(state).toMatchObject({ blocked: true, message: MSG_LOCKED_IN, lockedIn: true });
+  });
+
+  it("falls back to normal rules during a break", () => {
+    const settings = pomodoroSettings();
+    const now = START + 27 * MIN;
+    expect(computeBlockedState("news.com", makeUsage(), settings, undefined, now).blocked).toBe(false);
+    expect(computeBlockedState("youtube.com", makeUsage(), settings, undefined, now).lockedIn).toBeUndefined();
+  });
+
+  it("enforces the break allowlist during a break when set", () => {
+    const settings = pomodoroSettings(["spotify.com"]);
+    const now = START + 27 * MIN;
+    expect(computeBlockedState("spotify.com", makeUsage(), settings, undefined, now).blocked).toBe(false);
+    expect(computeBlockedState("github.com", makeUsage(), settings, undefined, now)).toMatchObject({
+      blocked: true,
+      message: MSG_LOCKED_IN_BREAK,
+      lockedIn: true,
+    });
+  });
+});
+
+// ─── nextPolicyTransition ─────────────────────────────────────────────────────
+
+describe("nextPolicyTransition", () => {
+  // Monday 8 January 2024, local time.
+  const at = (day: number, hours: number, minutes = 0) => new Date(2024, 0, day, hours, minutes).getTime();
+  const weekdays = [1, 2, 3, 4, 5];
+
+  function scheduled(startMinutes: number, endMinutes: number): Settings {
+    return makeSettings({
+      siteRules: [
+        {
+          domain: "twitter.com",
+          mode: "block",
+          enabled: true,
+          schedule: [{ enabled: true, days: weekdays, startMinutes, endMinutes }],
+        },
+      ],
+    });
+  }
+
+  it("returns the start of a window that has not opened yet", () => {
+    const settings = scheduled(9 * 60, 17 * 60);
+    expect(nextPolicyTransition("twitter.com", settings, makeUsage(), at(8, 8, 55))).toBe(at(8, 9));
+  });
+
+  it("returns the end of the running window", () => {
+    const settings = scheduled(9 * 60, 17 * 60);
+    expect(nextPolicyTransition("twitter.com", settings, makeUsage(), at(8, 12))).toBe(at(8, 17));
+  });
+
+  it("ends an overnight window the next morning", () => {
+    const settings = scheduled(22 * 60, 2 * 60);
+    expect(nextPolicyTransition("twitter.com", settings, makeUsage(), at(8, 23))).toBe(at(9, 2));
+    // Friday night's window runs into Saturday.
+    expect(nextPolicyTransition("twitter.com", settings, makeUsage(), at(13, 1))).toBe(at(13, 2));
+  });
+
+  it("skips to the next scheduled day after the last window of the week", () => {
+    const settings = scheduled(9 * 60, 17 * 60);
+    // Friday evening → Monday 09:00.
+    expect(nextPolicyTransition("twitter.com", settings, makeUsage(), at(12, 18))).toBe(at(15, 9));
+  });
+
+  it("returns the Locked In session end while it decides the verdict", () => {
+    const settings = makeSettings({
+      ...scheduled(9 * 60, 17 * 60),
+      lockedInSession: { active: true, startTs: at(8, 8), endTs: at(8, 8, 30), allowedDomains: [] },
+    });
+    expect(nextPolicyTransition("twitter.com", settings, makeUsage(), at(8, 8, 10))).toBe(at(8, 8, 30));
+  });
+
+  it("includes the start of a recurring Locked In window", () => {
+    const settings = makeSettings({
+      recurringLockedIn: [
+        {
+          id: "r1",
+          name: "Mornings",
+          enabled: true,
+          schedule: { enabled: true, days: weekdays, startMinutes: 7 * 60, endMinutes: 8 * 60 },
+          allowedDomains: [],
+        },
+      ],
+    });
+    expect(nextPolicyTransition("example.com", settings, makeUsage(), at(8, 6))).toBe(at(8, 7));
+  });
+
+  it("returns when a limit would run out, unless midnight comes first", () => {
+    const settings = makeSettings({
+      siteRules: [{ domain: "reddit.com", mode: "limit", limitMinutes: 30, enabled: true }],
+    });
+    const usage = makeUsage({ "reddit.com": 20 * 60 });
+    expect(nextPolicyTransition("reddit.com", settings, usage, at(8, 12))).toBe(at(8, 12, 10));
+    expect(nextPolicyTransition("reddit.com", settings, usage, at(8, 23, 55))).toBe(at(9, 0));
+  });
+
+  it("returns null for unrestricted sites and in Allowlist Mode", () => {
+    const settings = scheduled(9 * 60, 17 * 60);
+    expect(nextPolicyTransition("example.com", settings, makeUsage(), at(8, 12))).toBeNull();
+    const allowlist = makeSettings({
+      ...settings,
+      allowlistMode: { enabled: true, allowedDomains: ["github.com"] },
+    });
+    expect(nextPolicyTransition("twitter.com", allowlist, makeUsage(), at(8, 12))).toBeNull();
+  });
+});
+
+// ─── blockLiftsAt ─────────────────────────────────────────────────────────────
+
+describe("blockLiftsAt", () => {
+  const at = (day: number, hours: number, minutes = 0) => new Date(2024, 0, day, hours, minutes).getTime();
+
+  it("lifts a scheduled block when its window ends", () => {
+    const settings = makeSettings({
+      siteRules: [
+        {
+          domain: "twitter.com",
+          mode: "block",
+          enabled: true,
+          schedule: [{ enabled: true, days: [1], startMinutes: 22 * 60, endMinutes: 2 * 60 }],
+        },
+      ],
+    });
+    expect(blockLiftsAt("twitter.com", settings, makeUsage(), at(8, 23))).toBe(at(9, 2));
+  });
+
+  it("lifts a Locked In block at the session end", () => {
+    const settings = makeSettings({
+      lockedInSession: { active: true, startTs: at(8, 8), endTs: at(8, 10), allowedDomains: ["github.com"] },
+    });
+    expect(blockLiftsAt("twitter.com", settings, makeUsage(), at(8, 9))).toBe(at(8, 10));
+  });
+
+  it("keeps a Locked In block past the session end when a rule takes over", () => {
+    const settings = makeSettings({
+      siteRules: [
+        {
+          domain: "twitter.com",
+          mode: "block",
+          enabled: true,
+          schedule: [{ enabled: true, days: [1], startMinutes: 9 * 60, endMinutes: 12 * 60 }],
+        },
+      ],
+      lockedInSession: { active: true, startTs: at(8, 8), endTs: at(8, 10), allowedDomains: [] },
+    });
+    expect(blockLiftsAt("twitter.com", settings, makeUsage(), at(8, 9))).toBe(at(8, 12));
+  });
+
+  it("lifts a used-up limit when the usage window resets", () => {
+    const settings = makeSettings({
+      siteRules: [{ domain: "reddit.com", mode: "limit", limitMinutes: 30, enabled: true }],
+      resetWindow: { intervalHours: 24, anchor: { period: "daily", minutes: 4 * 60 } },
+    });
+    const usage: UsageMap = {
+      "reddit.com": { activeSeconds: 30 * 60, lastUpdated: at(8, 11), windowStartTs: at(8, 4) },
+    };
+    expect(blockLiftsAt("reddit.com", settings, usage, at(8, 12))).toBe(at(9, 4));
+  });
+
+  it("returns null for a block that does not lift on its own", () => {
+    const settings = makeSettings({
+      siteRules: [{ domain: "twitter.com", mode: "block", enabled: true }],
+    });
+    expect(blockLiftsAt("twitter.com", settings, makeUsage(), at(8, 12))).toBeNull();
+  });
+});
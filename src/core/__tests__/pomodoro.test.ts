@@ -0,0 +1,88 @@
+import { describe, it, expect } from "vitest";
+import {
+  pomodoroPhases,
+  pomodoroDurationMs,
+  pomodoroPhaseAt,
+  completedCycles,
+  focusMinutesOf,
+  describePhase,
+} from "../pomodoro";
+import { DEFAULT_POMODORO } from "../types";
+import type { LockedInSession } from "../types";
+
+// ─── Helpers ──────────────────────────────────────────────────────────────────
+
+const START = 1_700_000_000_000;
+const MIN = 60_000;
+
+function session(overrides: Partial<LockedInSession> = {}): LockedInSession {
+  return {
+    active: true,
+    startTs: START,
+    endTs: START + pomodoroDurationMs(DEFAULT_POMODORO),
+    allowedDomains: ["github.com"],
+    pomodoro: DEFAULT_POMODORO,
+    ...overrides,
+  };
+}
+
+// ─── pomodoroPhases ───────────────────────────────────────────────────────────
+
+describe("pomodoroPhases", () => {
+  it("alternates focus and breaks with no trailing break", () => {
+    expect(pomodoroPhases(DEFAULT_POMODORO, START).map((p) => p.kind)).toEqual([
+      "focus", "short-break", "focus", "short-break", "focus", "short-break", "focus",
+    ]);
+  });
+
+  it("inserts a long break after every longBreakEvery-th focus", () => {
+    const config = { ...DEFAULT_POMODORO, cycles: 5, longBreakEvery: 2 };
+    const breaks = pomodoroPhases(config, START).filter((p) => p.kind !== "focus");
+    expect(breaks.map((p) => p.kind)).toEqual(["short-break", "long-break", "short-break", "long-break"]);
+  });
+
+  it("sums to pomodoroDurationMs", () => {
+    // 4 × 25 focus + 3 × 5 short breaks.
+    expect(pomodoroDurationMs(DEFAULT_POMODORO)).toBe(115 * MIN);
+  });
+});
+
+// ─── pomodoroPhaseAt ──────────────────────────────────────────────────────────
+
+describe("pomodoroPhaseAt", () => {
+  it("finds the current phase", () => {
+    expect(pomodoroPhaseAt(session(), START)).toMatchObject({ kind: "focus", cycle: 1 });
+    expect(pomodoroPhaseAt(session(), START + 25 * MIN)).toMatchObject({ kind: "short-break", cycle: 1 });
+    expect(pomodoroPhaseAt(session(), START + 31 * MIN)).toMatchObject({ kind: "focus", cycle: 2 });
+  });
+
+  it("returns null for a single-block session or after the end", () => {
+    expect(pomodoroPhaseAt(session({ pomodoro: undefined }), START)).toBeNull();
+    expect(pomodoroPhaseAt(session(), START + 115 * MIN)).toBeNull();
+  });
+});
+
+// ─── completedCycles / focusMinutesOf ─────────────────────────────────────────
+
+describe("completedCycles", () => {
+  it("counts focus intervals that have fully elapsed", () => {
+    expect(completedCycles(DEFAULT_POMODORO, START, START + 24 * MIN)).toBe(0);
+    expect(completedCycles(DEFAULT_POMODORO, START, START + 25 * MIN)).toBe(1);
+    expect(completedCycles(DEFAULT_POMODORO, START, START + 115 * MIN)).toBe(4);
+  });
+});
+
+describe("focusMinutesOf", () => {
+  it("excludes breaks for Pomodoro sessions", () => {
+    expect(focusMinutesOf(session())).toBe(100);
+    expect(focusMinutesOf(session({ pomodoro: undefined, endTs: START + 30 * MIN }))).toBe(30);
+  });
+});
+
+describe("describePhase", () => {
+  it("labels focus intervals with their position", () => {
+    const [focus, shortBreak] = pomodoroPhases(DEFAULT_POMODORO, START);
+    expect(describePhase(focus!, DEFAULT_POMODORO)).toBe("Focus 1/4");
+    expect(describePhase(shortBreak!, DEFAULT_POMODORO)).toBe("Short break");
+  });
+});
@@ -0,0 +1,199 @@
+import { describe, it, expect } from "vitest";
+import { diffProtection, computeImportDiff } from "../protectedGate";
+import { DEFAULT_SETTINGS } from "../types";
+import type { Settings, SiteRule, SiteGroup, ScheduleWindow } from "../types";
+
+// ─── Helpers ──────────────────────────────────────────────────────────────────
+
+const WORK_HOURS: ScheduleWindow = { enabled: true, days: [1, 2, 3, 4, 5], startMinutes: 540, endMinutes: 1020 };
+
+function makeRule(overrides: Partial<SiteRule> = {}): SiteRule {
+  return { domain: "youtube.com", mode: "limit", limitMinutes: 30, enabled: true, ...overrides };
+}
+
+function makeGroup(overrides: Partial<SiteGroup> = {}): SiteGroup {
+  return { id: "social", name: "Social", domains: ["x.com", "reddit.com"], mode: "block", enabled: true, ...overrides };
+}
+
+function makeSettings(overrides: Partial<Settings> = {}): Settings {
+  return { ...DEFAULT_SETTINGS, siteRules: [makeRule()], groups: [makeGroup()], ...overrides };
+}
+
+/** Action types of every reduction from `before` to `after`. */
+function types(before: Settings, after: Settings) {
+  return diffProtection(before, after).map((r) => r.actionType);
+}
+
+// ─── diffProtection ───────────────────────────────────────────────────────────
+
+describe("diffProtection", () => {
+  const base = makeSettings();
+
+  it("finds nothing when settings are unchanged", () => {
+    expect(diffProtection(base, base)).toEqual([]);
+  });
+
+  it("finds nothing for changes that only tighten", () => {
+    const tighter = makeSettings({
+      siteRules: [makeRule({ limitMinutes: 15 }), makeRule({ domain: "tiktok.com", mode: "block" })],
+      groups: [makeGroup({ domains: ["x.com", "reddit.com", "instagram.com"] })],
+      globalBlockList: ["twitch.tv"],
+      defaultDelaySeconds: 30,
+      allowlistMode: { enabled: true, allowedDomains: ["docs.google.com"] },
+      emergencyUnlock: { enabled: false, unlocksPerWindow: 0, minutesPerUnlock: 10 },
+    });
+    expect(diffProtection(base, tighter)).toEqual([]);
+  });
+
+  it("flags a site rule or group turned off", () => {
+    const off = makeSettings({
+      siteRules: [makeRule({ enabled: false })],
+      groups: [makeGroup({ enabled: false })],
+    });
+    expect(diffProtection(base, off)).toEqual([
+      { actionType: "disable-site-rule", label: 'Site rule "youtube.com" turned off', domain: "youtube.com" },
+      { actionType: "disable-group", label: 'Group "Social" turned off', domain: undefined },
+    ]);
+  });
+
+  it("ignores changes to rules that were already off", () => {
+    const before = makeSettings({ siteRules: [makeRule({ enabled: false })] });
+    const after = makeSettings({ siteRules: [] });
+    expect(diffProtection(before, after)).toEqual([]);
+  });
+
+  it("flags a narrowed schedule but not a widened one", () => {
+    const scheduled = makeSettings({ siteRules: [makeRule({ schedule: [WORK_HOURS] })] });
+    expect(types(base, scheduled)).toEqual(["narrow-schedule"]);
+    expect(types(scheduled, base)).toEqual([]);
+  });
+
+  it("flags Delay Mode turned off or shortened per rule", () => {
+    const delayed = makeSettings({ siteRules: [makeRule({ delayEnabled: true, delaySeconds: 30 })] });
+    const shorter = makeSettings({ siteRules: [makeRule({ delayEnabled: true, delaySeconds: 10 })] });
+    const off = makeSettings({ siteRules: [makeRule({ delayEnabled: false, delaySeconds: 30 })] });
+    expect(diffProtection(delayed, shorter)).toEqual([
+      { actionType: "shorten-delay", label: '"youtube.com" delay shortened from 30 s to 10 s', domain: "youtube.com" },
+    ]);
+    expect(types(delayed, off)).toEqual(["shorten-delay"]);
+  });
+
+  it("reports a shorter default delay once, not per rule that follows it", () => {
+    const before = makeSettings({ siteRules: [makeRule({ delayEnabled: true })] });
+    const after = { ...before, defaultDelaySeconds: 5 };
+    expect(diffProtection(before, after).map((r) => r.label)).toEqual([
+      "Default delay shortened from 15 s to 5 s",
+    ]);
+  });
+
+  it("flags relaxed global defaults", () => {
+    const blocking = makeSettings({ globalDefaults: { mode: "block" } });
+    const limited = makeSettings({ globalDefaults: { mode: "limit", limitMinutes: 20 } });
+    const raised = makeSettings({ globalDefaults: { mode: "limit", limitMinutes: 40 } });
+    expect(types(blocking, limited)).toEqual(["relax-global-defaults"]);
+    expect(types(limited, raised)).toEqual(["relax-global-defaults"]);
+    expect(types(limited, base)).toEqual(["relax-global-defaults"]);
+    expect(types(limited, blocking)).toEqual([]);
+  });
+
+  it("flags Allowlist Mode turned off or given more domains", () => {
+    const on = makeSettings({ allowlistMode: { enabled: true, allowedDomains: ["docs.google.com"] } });
+    const more = makeSettings({
+      allowlistMode: { enabled: true, allowedDomains: ["docs.google.com", "youtube.com"] },
+    });
+    expect(diffProtection(on, more)).toEqual([
+      { actionType: "loosen-allowlist", label: '"youtube.com" added to Allowlist Mode', domain: "youtube.com" },
+    ]);
+    expect(types(on, base)).toEqual(["loosen-allowlist"]);
+    expect(types(more, on)).toEqual([]);
+  });
+
+  it("flags any reset window length or anchor change", () => {
+    const longer = makeSettings({ resetWindow: { intervalHours: 48 } });
+    const shorter = makeSettings({ resetWindow: { intervalHours: 12 } });
+    const anchored = makeSettings({ resetWindow: { intervalHours: 24, anchor: { period: "daily", minutes: 240 } } });
+    expect(types(base, longer)).toEqual(["change-reset-window"]);
+    expect(types(base, shorter)).toEqual(["change-reset-window"]);
+    expect(types(base, anchored)).toEqual(["change-reset-window"]);
+  });
+
+  it("flags the Friction Layer or Protected Gate weakened", () => {
+    const weaker = makeSettings({
+      friction: { ...base.friction, enabled: false },
+      protectedGate: { ...base.protectedGate, requirePhrase: false, cooldownSeconds: 10 },
+    });
+    expect(diffProtection(base, weaker).map((r) => r.label)).toEqual([
+      "Friction Layer turned off",
+      "Protected Gate no longer requires the phrase",
+      "Protected Gate cooldown shortened from 60 s to 10 s",
+    ]);
+  });
+
+  it("flags a removed or disabled recurring session", () => {
+    const entry = { id: "r1", name: "Mornings", schedule: WORK_HOURS, allowedDomains: [], enabled: true };
+    const before = makeSettings({ recurringLockedIn: [entry] });
+    expect(types(before, makeSettings({ recurringLockedIn: [{ ...entry, enabled: false }] }))).toEqual([
+      "disable-recurring-session",
+    ]);
+    expect(types(before, base)).toEqual(["disable-recurring-session"]);
+  });
+
+  it("flags a recurring session narrowed, given more domains or another group", () => {
+    const entry = { id: "r1", name: "Mornings", schedule: WORK_HOURS, allowedDomains: ["docs.google.com"], enabled: true };
+    const before = makeSettings({ recurringLockedIn: [entry] });
+    const edited = (patch: Partial<typeof entry> & { sourceGroupId?: string }) =>
+      makeSettings({ recurringLockedIn: [{ ...entry, ...patch }] });
+
+    expect(diffProtection(before, edited({ schedule: { ...WORK_HOURS, endMinutes: 720 } }))).toEqual([
+      { actionType: "loosen-recurring-session", label: 'Recurring session "Mornings" schedule narrowed', domain: undefined },
+    ]);
+    expect(diffProtection(before, edited({ allowedDomains: ["docs.google.com", "youtube.com"] }))).toEqual([
+      {
+        actionType: "loosen-recurring-session",
+        label: '"youtube.com" allowed during Recurring session "Mornings"',
+        domain: "youtube.com",
+      },
+    ]);
+    expect(types(before, edited({ sourceGroupId: "social" }))).toEqual(["loosen-recurring-session"]);
+    // A wider schedule or fewer domains only tighten.
+    expect(types(before, edited({ schedule: { ...WORK_HOURS, days: [0, 1, 2, 3, 4, 5, 6] } }))).toEqual([]);
+    expect(types(before, edited({ allowedDomains: [] }))).toEqual([]);
+  });
+
+  it("flags background audio or all-windows tracking turned off", () => {
+    const on = makeSettings({ tracking: { audibleTabs: true, allWindows: true } });
+    const off = makeSettings({ tracking: { audibleTabs: false, allWindows: false } });
+    expect(diffProtection(on, off).map((r) => r.label)).toEqual([
+      "Background audio tabs no longer counted",
+      "Other windows' tabs no longer counted",
+    ]);
+    expect(types(on, off)).toEqual(["reduce-tab-tracking", "reduce-tab-tracking"]);
+    expect(types(off, on)).toEqual([]);
+  });
+
+  it("flags idle detection turned on or made to pause sooner", () => {
+    const idle = { enabled: true, thresholdSeconds: 120, countWhilePlayingMedia: true };
+    const off = makeSettings({ idleDetection: { ...idle, enabled: false } });
+    const on = makeSettings({ idleDetection: idle });
+    expect(diffProtection(off, on).map((r) => r.label)).toEqual(["Tracking will pause after 120 s idle"]);
+    expect(
+      types(on, makeSettings({ idleDetection: { ...idle, thresholdSeconds: 60, countWhilePlayingMedia: false } })),
+    ).toEqual(["loosen-idle-detection", "loosen-idle-detection"]);
+    // Turning it off or raising the threshold counts more time.
+    expect(types(on, off)).toEqual([]);
+    expect(types(on, makeSettings({ idleDetection: { ...idle, thresholdSeconds: 300 } }))).toEqual([]);
+  });
+});
+
+// ─── computeImportDiff ────────────────────────────────────────────────────────
+
+describe("computeImportDiff", () => {
+  it("lists the labels of every reduction", () => {
+    const current = makeSettings();
+    const incoming = makeSettings({ disabled: true, siteRules: [] });
+    expect(computeImportDiff(current, incoming)).toEqual({
+      reducesProtection: true,
+      reductions: ["Extension will be disabled", 'Block rule for "youtube.com" removed'],
+    });
+  });
+});
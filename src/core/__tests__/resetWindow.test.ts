@@ -0,0 +1,146 @@
+import { describe, it, expect } from "vitest";
+import {
+  anchorStartAt,
+  nextAnchorAt,
+  windowExpired,
+  windowStartAt,
+  pruneExpired,
+  describeResetWindow,
+} from "../resetWindow";
+import { rollDopamineWindow } from "../dopamine";
+import { rollSelfControlWindow } from "../selfControl";
+import { DEFAULT_DOPAMINE_SCORE } from "../types";
+import type { ResetWindowConfig } from "../types";
+
+// ─── Helpers ──────────────────────────────────────────────────────────────────
+
+/** Unix ms for a weekday (0 = Sunday) at HH:MM local time. */
+function at(day: number, hh: number, mm = 0): number {
+  // 2024-01-07 is a Sunday.
+  return new Date(2024, 0, 7 + day, hh, mm).getTime();
+}
+
+const ROLLING_24: ResetWindowConfig = { intervalHours: 24 };
+const DAILY_4AM: ResetWindowConfig = { intervalHours: 24, anchor: { period: "daily", minutes: 240 } };
+const MONDAY_4AM: ResetWindowConfig = {
+  intervalHours: 24,
+  anchor: { period: "weekly", minutes: 240, weekday: 1 },
+};
+
+// ─── anchorStartAt / nextAnchorAt ─────────────────────────────────────────────
+
+describe("anchorStartAt", () => {
+  it("returns today's boundary once it has passed", () => {
+    expect(anchorStartAt(DAILY_4AM.anchor!, at(2, 10))).toBe(at(2, 4));
+  });
+
+  it("returns yesterday's boundary before today's has passed", () => {
+    expect(anchorStartAt(DAILY_4AM.anchor!, at(2, 3, 59))).toBe(at(1, 4));
+  });
+
+  it("treats the boundary instant as the start of the new window", () => {
+    expect(anchorStartAt(DAILY_4AM.anchor!, at(2, 4))).toBe(at(2, 4));
+  });
+
+  it("returns the most recent configured weekday for weekly anchors", () => {
+    expect(anchorStartAt(MONDAY_4AM.anchor!, at(4, 12))).toBe(at(1, 4));
+  });
+
+  it("goes back a full week on the anchor day before the boundary", () => {
+    expect(anchorStartAt(MONDAY_4AM.anchor!, at(8, 2))).toBe(at(1, 4));
+  });
+});
+
+describe("nextAnchorAt", () => {
+  it("returns tomorrow's boundary for daily anchors", () => {
+    expect(nextAnchorAt(DAILY_4AM.anchor!, at(2, 10))).toBe(at(3, 4));
+  });
+
+  it("returns next week's boundary for weekly anchors", () => {
+    expect(nextAnchorAt(MONDAY_4AM.anchor!, at(4, 12))).toBe(at(8, 4));
+  });
+});
+
+// ─── windowExpired / windowStartAt ────────────────────────────────────────────
+
+describe("windowExpired", () => {
+  it("uses the record's own start for rolling windows", () => {
+    expect(windowExpired(ROLLING_24, at(1, 23), at(2, 5))).toBe(false);
+    expect(windowExpired(ROLLING_24, at(1, 23), at(2, 23))).toBe(true);
+  });
+
+  it("expires every record started before the anchor boundary", () => {
+    expect(windowExpired(DAILY_4AM, at(1, 23), at(2, 5))).toBe(true);
+    expect(windowExpired(DAILY_4AM, at(2, 4, 30), at(2, 5))).toBe(false);
+  });
+
+  it("keeps a weekly window open across days", () => {
+    expect(windowExpired(MONDAY_4AM, at(1, 9), at(6, 22))).toBe(false);
+    expect(windowExpired(MONDAY_4AM, at(1, 9), at(8, 4))).toBe(true);
+  });
+});
+
+describe("windowStartAt", () => {
+  it("is now for rolling windows and the boundary for anchored ones", () => {
+    expect(windowStartAt(ROLLING_24, at(2, 10))).toBe(at(2, 10));
+    expect(windowStartAt(DAILY_4AM, at(2, 10))).toBe(at(2, 4));
+  });
+});
+
+// ─── pruneExpired ─────────────────────────────────────────────────────────────
+
+describe("pruneExpired", () => {
+  const rec = (windowStartTs: number) => ({ activeSeconds: 60, lastUpdated: windowStartTs, windowStartTs });
+
+  it("drops every record from before the anchor at once", () => {
+    const usage = { "youtube.com": rec(at(1, 9)), "reddit.com": rec(at(1, 21)), "x.com": rec(at(2, 5)) };
+    expect(pruneExpired(usage, DAILY_4AM, at(2, 6))).toEqual({ "x.com": rec(at(2, 5)) });
+  });
+
+  it("returns null when nothing expired", () => {
+    expect(pruneExpired({ "x.com": rec(at(2, 5)) }, DAILY_4AM, at(2, 6))).toBeNull();
+  });
+});
+
+// ─── Score and self-control rollover ──────────────────────────────────────────
+
+describe("rollDopamineWindow", () => {
+  it("keeps the previous score and starts at the anchor boundary", () => {
+    const current = { ...DEFAULT_DOPAMINE_SCORE, score: 72, windowStartTs: at(1, 8) };
+    expect(rollDopamineWindow(current, DAILY_4AM, at(2, 6))).toEqual({
+      ...DEFAULT_DOPAMINE_SCORE,
+      previousWindowScore: 72,
+      windowStartTs: at(2, 4),
+    });
+  });
+
+  it("returns the same object while the window is open", () => {
+    const current = { ...DEFAULT_DOPAMINE_SCORE, windowStartTs: at(2, 5) };
+    expect(rollDopamineWindow(current, DAILY_4AM, at(2, 6))).toBe(current);
+  });
+});
+
+describe("rollSelfControlWindow", () => {
+  it("clears events and records the previous count", () => {
+    const data = {
+      windowStartTs: at(1, 8),
+      events: [{ ts: at(1, 9), domain: "x.com", type: "blocked" as const }],
+      previousWindowCount: 0,
+    };
+    expect(rollSelfControlWindow(data, DAILY_4AM, at(2, 6))).toEqual({
+      windowStartTs: at(2, 4),
+      events: [],
+      previousWindowCount: 1,
+    });
+  });
+});
+
+// ─── describeResetWindow ──────────────────────────────────────────────────────
+
+describe("describeResetWindow", () => {
+  it("labels rolling, daily and weekly windows", () => {
+    expect(describeResetWindow(ROLLING_24)).toBe("24h");
+    expect(describeResetWindow(DAILY_4AM)).toBe("Daily 04:00");
+    expect(describeResetWindow(MONDAY_4AM)).toBe("Mon 04:00");
+  });
+});
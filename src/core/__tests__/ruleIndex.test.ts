@@ -120,12 +120,23 @@ describe("buildRuleIndex", () => {
     });
   });
 
+  describe("allow exceptions", () => {
+    it("inserts normalized domains into the set", () => {
+      const index = buildRuleIndex(
+        makeSettings({ allowExceptions: ["Music.YouTube.com", "docs.google.com"] }),
+      );
+      expect(index.allowExceptions.has("music.youtube.com")).toBe(true);
+      expect(index.allowExceptions.has("docs.google.com")).toBe(true);
+    });
+  });
+
   describe("empty settings", () => {
     it("returns empty maps and set when there are no rules", () => {
       const index = buildRuleIndex(makeSettings());
       expect(index.siteRules.size).toBe(0);
       expect(index.groupRules.size).toBe(0);
       expect(index.globalBlockDomains.size).toBe(0);
+      expect(index.allowExceptions.size).toBe(0);
     });
   });
 });
@@ -277,6 +288,117 @@ describe("resolveDomainRule", () => {
     });
   });
 
+  // ── Path rules ─────────────────────────────────────────────────────────────
+
+  describe("path rules", () => {
+    const shorts: SiteRule = { domain: "youtube.com", path: "/shorts", mode: "block", enabled: true };
+
+    it("indexes path rules separately from whole-host rules", () => {
+      index = buildRuleIndex(makeSettings({ siteRules: [shorts, limitRule("youtube.com", 30)] }));
+      expect(index.pathRules.get("youtube.com")).toEqual([shorts]);
+      expect(index.siteRules.get("youtube.com")?.mode).toBe("limit");
+    });
+
+    it("matches a path rule when the path falls under its pattern", () => {
+      index = buildRuleIndex(makeSettings({ siteRules: [shorts] }));
+      const r = resolveDomainRule("www.youtube.com", index, "/shorts/abc");
+      expect(r).toEqual({ kind: "site", rule: shorts });
+    });
+
+    it("ignores a path rule when the path does not match", () => {
+      index = buildRuleIndex(makeSettings({ siteRules: [shorts] }));
+      expect(resolveDomainRule("youtube.com", index, "/watch")).toBeNull();
+    });
+
+    it("ignores path rules when no path is given", () => {
+      index = buildRuleIndex(makeSettings({ siteRules: [shorts] }));
+      expect(resolveDomainRule("youtube.com", index)).toBeNull();
+    });
+
+    it("path rule beats the whole-host rule for the same domain", () => {
+      index = buildRuleIndex(makeSettings({ siteRules: [limitRule("youtube.com", 30), shorts] }));
+      const r = resolveDomainRule("youtube.com", index, "/shorts");
+      if (r?.kind === "site") expect(r.rule.path).toBe("/shorts");
+      else expect.fail("expected a site rule");
+    });
+
+    it("falls through to the whole-host rule for non-matching paths", () => {
+      index = buildRuleIndex(makeSettings({ siteRules: [limitRule("youtube.com", 30), shorts] }));
+      const r = resolveDomainRule("youtube.com", index, "/watch");
+      if (r?.kind === "site") expect(r.rule.path).toBeUndefined();
+      else expect.fail("expected a site rule");
+    });
+
+    it("longest matching pattern wins", () => {
+      const feed: SiteRule = { domain: "reddit.com", path: "/r", mode: "limit", limitMinutes: 30, enabled: true };
+      const all: SiteRule = { domain: "reddit.com", path: "/r/all", mode: "block", enabled: true };
+      index = buildRuleIndex(makeSettings({ siteRules: [feed, all] }));
+      const r = resolveDomainRule("reddit.com", index, "/r/all/top");
+      if (r?.kind === "site") expect(r.rule).toBe(all);
+      else expect.fail("expected a site rule");
+    });
+
+    it("path rule beats a group for the same domain", () => {
+      index = buildRuleIndex(
+        makeSettings({ siteRules: [shorts], groups: [makeGroup("g", ["youtube.com"], "limit")] }),
+      );
+      expect(resolveDomainRule("youtube.com", index, "/shorts")?.kind).toBe("site");
+      expect(resolveDomainRule("youtube.com", index, "/watch")?.kind).toBe("group");
+    });
+  });
+
+  // ── Allow exceptions ───────────────────────────────────────────────────────
+
+  describe("allow exceptions", () => {
+    it("beats a site rule for the parent domain", () => {
+      index = buildRuleIndex(
+        makeSettings({ siteRules: [blockRule("youtube.com")], allowExceptions: ["music.youtube.com"] }),
+      );
+      expect(resolveDomainRule("music.youtube.com", index)).toEqual({
+        kind: "allow-exception",
+        domain: "music.youtube.com",
+      });
+      expect(resolveDomainRule("www.youtube.com", index)?.kind).toBe("site");
+    });
+
+    it("beats an exact-match site rule", () => {
+      index = buildRuleIndex(
+        makeSettings({ siteRules: [blockRule("docs.google.com")], allowExceptions: ["docs.google.com"] }),
+      );
+      expect(resolveDomainRule("docs.google.com", index)?.kind).toBe("allow-exception");
+    });
+
+    it("beats a path rule", () => {
+      index = buildRuleIndex(
+        makeSettings({
+          siteRules: [{ domain: "youtube.com", path: "/shorts", mode: "block", enabled: true }],
+          allowExceptions: ["youtube.com"],
+        }),
+      );
+      expect(resolveDomainRule("youtube.com", index, "/shorts")?.kind).toBe("allow-exception");
+    });
+
+    it("beats a group and the global block list", () => {
+      index = buildRuleIndex(
+        makeSettings({
+          groups: [makeGroup("g", ["google.com"])],
+          globalBlockList: ["reddit.com"],
+          allowExceptions: ["docs.google.com", "old.reddit.com"],
+        }),
+      );
+      expect(resolveDomainRule("docs.google.com", index)?.kind).toBe("allow-exception");
+      expect(resolveDomainRule("old.reddit.com", index)?.kind).toBe("allow-exception");
+      expect(resolveDomainRule("mail.google.com", index)?.kind).toBe("group");
+    });
+
+    it("covers subdomains of the exception", () => {
+      index = buildRuleIndex(
+        makeSettings({ siteRules: [blockRule("google.com")], allowExceptions: ["docs.google.com"] }),
+      );
+      expect(resolveDomainRule("a.docs.google.com", index)?.kind).toBe("allow-exception");
+    });
+  });
+
   // ── Normalization ──────────────────────────────────────────────────────────
 
   describe("hostname normalization", () => {
@@ -1,5 +1,13 @@
 import { describe, it, expect } from "vitest";
-import { isScheduleActive, isAnyScheduleActive, formatScheduleSummary } from "../schedule";
+import {
+  isScheduleActive,
+  isAnyScheduleActive,
+  formatScheduleSummary,
+  scheduleOccurrenceAt,
+  nextScheduleStart,
+  scheduleNarrowed,
+  formatUpcomingTime,
+} from "../schedule";
 import type { ScheduleWindow } from "../types";
 
 // ─── Helpers ──────────────────────────────────────────────────────────────────
@@ -190,6 +198,51 @@ describe("isAnyScheduleActive", () => {
   });
 });
 
+// ─── scheduleOccurrenceAt / nextScheduleStart ─────────────────────────────────
+
+/** 2024-01-08 is a Monday; `day` counts from it. */
+function jan(day: number, hour: number, minute = 0): Date {
+  return new Date(2024, 0, 8 + day, hour, minute);
+}
+
+describe("scheduleOccurrenceAt", () => {
+  const weekdays = makeWindow([1, 2, 3, 4, 5], 540, 690); // 09:00–11:30
+
+  it("returns today's window while it is active", () => {
+    expect(scheduleOccurrenceAt(weekdays, jan(0, 10))).toEqual({
+      startTs: jan(0, 9).getTime(),
+      endTs: jan(0, 11, 30).getTime(),
+    });
+  });
+
+  it("returns null outside the window", () => {
+    expect(scheduleOccurrenceAt(weekdays, jan(0, 12))).toBeNull();
+  });
+
+  it("spans midnight for overnight windows", () => {
+    const overnight = makeWindow([1], 1320, 120); // Mon 22:00–02:00
+    const occurrence = { startTs: jan(0, 22).getTime(), endTs: jan(1, 2).getTime() };
+    expect(scheduleOccurrenceAt(overnight, jan(0, 23))).toEqual(occurrence);
+    expect(scheduleOccurrenceAt(overnight, jan(1, 1))).toEqual(occurrence);
+  });
+});
+
+describe("nextScheduleStart", () => {
+  const weekdays = makeWindow([1, 2, 3, 4, 5], 540, 690);
+
+  it("returns today's start when it is still ahead", () => {
+    expect(nextScheduleStart(weekdays, jan(0, 8))).toBe(jan(0, 9).getTime());
+  });
+
+  it("skips to the next scheduled day", () => {
+    expect(nextScheduleStart(weekdays, jan(4, 10))).toBe(jan(7, 9).getTime()); // Fri → Mon
+  });
+
+  it("returns null for a disabled window", () => {
+    expect(nextScheduleStart({ ...weekdays, enabled: false }, jan(0, 8))).toBeNull();
+  });
+});
+
 // ─── formatScheduleSummary ────────────────────────────────────────────────────
 
 describe("formatScheduleSummary", () => {
@@ -228,3 +281,61 @@ describe("formatScheduleSummary", () => {
     expect(formatScheduleSummary(w)).toBe("Mon, 12:00 AM–1:00 AM");
   });
 });
+
+// ─── scheduleNarrowed ─────────────────────────────────────────────────────────
+
+describe("scheduleNarrowed", () => {
+  const workHours = makeWindow([1, 2, 3, 4, 5], 540, 1020); // Mon–Fri 9–17
+
+  it("no schedule → a schedule narrows (always active becomes partial)", () => {
+    expect(scheduleNarrowed(undefined, [workHours])).toBe(true);
+    expect(scheduleNarrowed([], [workHours])).toBe(true);
+  });
+
+  it("removing the schedule widens, never narrows", () => {
+    expect(scheduleNarrowed([workHours], undefined)).toBe(false);
+    expect(scheduleNarrowed([workHours], [])).toBe(false);
+  });
+
+  it("dropping a day or shortening the window narrows", () => {
+    expect(scheduleNarrowed([workHours], [makeWindow([1, 2, 3, 4], 540, 1020)])).toBe(true);
+    expect(scheduleNarrowed([workHours], [makeWindow([1, 2, 3, 4, 5], 600, 1020)])).toBe(true);
+  });
+
+  it("disabling the only window narrows", () => {
+    expect(scheduleNarrowed([workHours], [makeWindow([1, 2, 3, 4, 5], 540, 1020, false)])).toBe(true);
+  });
+
+  it("adding days or extending the window does not narrow", () => {
+    expect(scheduleNarrowed([workHours], [makeWindow([0, 1, 2, 3, 4, 5, 6], 540, 1020)])).toBe(false);
+    expect(scheduleNarrowed([workHours], [makeWindow([1, 2, 3, 4, 5], 480, 1080)])).toBe(false);
+  });
+
+  it("splitting a window into pieces covering the same minutes does not narrow", () => {
+    const split = [makeWindow([1, 2, 3, 4, 5], 540, 720), makeWindow([1, 2, 3, 4, 5], 720, 1020)];
+    expect(scheduleNarrowed([workHours], split)).toBe(false);
+  });
+
+  it("overnight windows wrap into the next day, Saturday into Sunday", () => {
+    const satNight = makeWindow([6], 1320, 120); // Sat 22:00 – Sun 02:00
+    expect(scheduleNarrowed([satNight], [makeWindow([6], 1320, 0)])).toBe(true);
+    expect(scheduleNarrowed([satNight], [makeWindow([6], 1320, 0), makeWindow([0], 0, 120)])).toBe(false);
+  });
+});
+
+// ─── formatUpcomingTime ───────────────────────────────────────────────────────
+
+describe("formatUpcomingTime", () => {
+  // Monday 8 January 2024, 08:00 local time.
+  const now = new Date(2024, 0, 8, 8, 0).getTime();
+
+  it("names today and tomorrow", () => {
+    expect(formatUpcomingTime(new Date(2024, 0, 8, 17, 30).getTime(), now)).toBe("today at 5:30 PM");
+    expect(formatUpcomingTime(new Date(2024, 0, 9, 0, 0).getTime(), now)).toBe("tomorrow at 12:00 AM");
+  });
+
+  it("uses the weekday within the week and adds the date beyond it", () => {
+    expect(formatUpcomingTime(new Date(2024, 0, 12, 9, 0).getTime(), now)).toBe("Fri at 9:00 AM");
+    expect(formatUpcomingTime(new Date(2024, 0, 15, 9, 0).getTime(), now)).toBe("Mon 1/15 at 9:00 AM");
+  });
+});
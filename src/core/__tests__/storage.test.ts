@@ -0,0 +1,76 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { DEFAULT_SETTINGS } from "../types";
+
+// ─── Chrome stub ──────────────────────────────────────────────────────────────
+
+type ChangeListener = (changes: Record<string, unknown>, areaName: string) => void;
+
+let store: Record<string, unknown>;
+let listeners: ChangeListener[];
+let get: ReturnType<typeof vi.fn>;
+
+beforeEach(() => {
+  store = {};
+  listeners = [];
+  get = vi.fn((key: string, callback: (result: Record<string, unknown>) => void) => {
+    callback({ [key]: store[key] });
+  });
+
+  vi.stubGlobal("chrome", {
+    storage: {
+      local: {
+        get,
+        set: vi.fn((items: Record<string, unknown>, callback: () => void) => {
+          Object.assign(store, items);
+          callback();
+        }),
+      },
+      onChanged: { addListener: (fn: ChangeListener) => listeners.push(fn) },
+    },
+    runtime: { lastError: undefined },
+  });
+
+  // storage.ts keeps the cache in module state — start from a fresh copy.
+  vi.resetModules();
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+// ─── getSettings cache ────────────────────────────────────────────────────────
+
+describe("getSettings", () => {
+  it("reads storage every time unless caching was turned on", async () => {
+    const { getSettings } = await import("../storage");
+    await getSettings();
+    await getSettings();
+    expect(get).toHaveBeenCalledTimes(2);
+  });
+
+  it("serves cached settings until jd_settings changes", async () => {
+    const { getSettings, cacheSettings } = await import("../storage");
+    cacheSettings();
+
+    const first = await getSettings();
+    expect(await getSettings()).toBe(first);
+    expect(get).toHaveBeenCalledTimes(1);
+
+    listeners.forEach((fn) => fn({ jd_usage: {} }, "local"));
+    expect(await getSettings()).toBe(first);
+
+    store.jd_settings = { ...DEFAULT_SETTINGS, disabled: true };
+    listeners.forEach((fn) => fn({ jd_settings: {} }, "local"));
+    expect((await getSettings()).disabled).toBe(true);
+    expect(get).toHaveBeenCalledTimes(2);
+  });
+
+  it("sees its own writes without waiting for onChanged", async () => {
+    const { getSettings, setSettings, cacheSettings } = await import("../storage");
+    cacheSettings();
+
+    await getSettings();
+    await setSettings({ ...DEFAULT_SETTINGS, disabled: true });
+    expect((await getSettings()).disabled).toBe(true);
+  });
+});
@@ -0,0 +1,104 @@
+import { describe, it, expect } from "vitest";
+import {
+  classifyRestart,
+  appendTamperEvent,
+  recentTamperEvents,
+  TAMPER_EVENT_CAP,
+} from "../tamper";
+import type { RestartContext } from "../tamper";
+import { calculateScore } from "../dopamine";
+import type { TamperEvent } from "../types";
+
+// ─── Helpers ──────────────────────────────────────────────────────────────────
+
+const NOW = 1_700_000_000_000;
+const HOUR = 3_600_000;
+
+const beat = { installId: "a", lastBeatTs: NOW - 2 * HOUR };
+
+function ctx(overrides: Partial<RestartContext> = {}): RestartContext {
+  return { cause: "unknown", local: beat, mirror: beat, now: NOW, ...overrides };
+}
+
+function makeEvent(ts: number): TamperEvent {
+  return { ts, kind: "disabled", gapMs: 0 };
+}
+
+// ─── classifyRestart ──────────────────────────────────────────────────────────
+
+describe("classifyRestart", () => {
+  it("a fresh context with no lifecycle event means the extension was switched off", () => {
+    expect(classifyRestart(ctx({ installType: "normal" }))).toEqual({
+      ts: NOW,
+      kind: "disabled",
+      gapMs: 2 * HOUR,
+      installType: "normal",
+    });
+  });
+
+  it("browser starts and updates are not gaps", () => {
+    expect(classifyRestart(ctx({ cause: "browser-start" }))).toBeNull();
+    expect(classifyRestart(ctx({ cause: "update" }))).toBeNull();
+  });
+
+  it("an install that finds the sync mirror is a reinstall", () => {
+    expect(classifyRestart(ctx({ cause: "install", local: null }))).toMatchObject({
+      kind: "reinstalled",
+      gapMs: 2 * HOUR,
+    });
+  });
+
+  it("local data missing outside an install is a wipe", () => {
+    expect(classifyRestart(ctx({ local: null }))?.kind).toBe("state-lost");
+    expect(classifyRestart(ctx({ cause: "browser-start", local: null }))?.kind).toBe("state-lost");
+  });
+
+  it("no heartbeat anywhere is a first run", () => {
+    expect(classifyRestart(ctx({ cause: "install", local: null, mirror: null }))).toBeNull();
+    expect(classifyRestart(ctx({ local: null, mirror: null }))).toBeNull();
+  });
+
+  it("never reports a negative gap for a clock that went backwards", () => {
+    const ahead = { installId: "a", lastBeatTs: NOW + HOUR };
+    expect(classifyRestart(ctx({ local: ahead }))?.gapMs).toBe(0);
+  });
+});
+
+// ─── Log helpers ──────────────────────────────────────────────────────────────
+
+describe("appendTamperEvent", () => {
+  it("appends in order and drops the oldest past the cap", () => {
+    let log = { events: [] as TamperEvent[] };
+    for (let i = 0; i < TAMPER_EVENT_CAP + 5; i++) log = appendTamperEvent(log, makeEvent(i));
+    expect(log.events).toHaveLength(TAMPER_EVENT_CAP);
+    expect(log.events[0]?.ts).toBe(5);
+    expect(log.events[log.events.length - 1]?.ts).toBe(TAMPER_EVENT_CAP + 4);
+  });
+});
+
+describe("recentTamperEvents", () => {
+  it("returns the most recent events, newest first", () => {
+    const log = { events: [makeEvent(1), makeEvent(2), makeEvent(3)] };
+    expect(recentTamperEvents(log, 2).map((e) => e.ts)).toEqual([3, 2]);
+  });
+});
+
+// ─── Dopamine Score ───────────────────────────────────────────────────────────
+
+describe("calculateScore", () => {
+  it("charges 15 points per tamper gap", () => {
+    const { score, breakdown } = calculateScore({
+      totalTemptationAttempts: 0,
+      totalLimitedMinutes: 0,
+      limitHitCount: 0,
+      lockedInSessionsCompleted: 0,
+      lockedInMinutes: 0,
+      delayCompletions: 0,
+      emergencyUnlocks: 0,
+      pomodoroCycles: 0,
+      tamperEvents: 2,
+    });
+    expect(score).toBe(70);
+    expect(breakdown.tamperPenalty).toBe(30);
+  });
+});
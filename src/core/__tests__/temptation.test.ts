@@ -0,0 +1,25 @@
+import { describe, it, expect } from "vitest";
+import { currentAttempts } from "../temptation";
+import type { ResetWindowConfig, TemptationRecord } from "../types";
+
+// ─── currentAttempts ──────────────────────────────────────────────────────────
+
+describe("currentAttempts", () => {
+  const HOUR = 3_600_000;
+  const rolling: ResetWindowConfig = { intervalHours: 24 };
+  const record: TemptationRecord = {
+    attempts: 4,
+    lastAttemptTs: 2 * HOUR,
+    lockedInAttempts: 1,
+    windowStartTs: 0,
+  };
+
+  it("returns the attempts of a running window", () => {
+    expect(currentAttempts(record, rolling, 3 * HOUR)).toBe(4);
+  });
+
+  it("returns 0 once the window has ended or without a record", () => {
+    expect(currentAttempts(record, rolling, 25 * HOUR)).toBe(0);
+    expect(currentAttempts(undefined, rolling, 3 * HOUR)).toBe(0);
+  });
+});
@@ -0,0 +1,107 @@
+import { describe, it, expect } from "vitest";
+import { appendSpan, getHourlyBuckets, topDomainOf, localDayStart, SPAN_CAP } from "../timeline";
+import type { TimelineData } from "../types";
+
+// ─── Helpers ──────────────────────────────────────────────────────────────────
+
+/** Unix ms for 2024-01-08 at HH:MM:SS local time. */
+function at(hh: number, mm = 0, ss = 0): number {
+  return new Date(2024, 0, 8, hh, mm, ss).getTime();
+}
+
+const EMPTY: TimelineData = { spans: [] };
+
+// ─── appendSpan ───────────────────────────────────────────────────────────────
+
+describe("appendSpan", () => {
+  it("appends a new span", () => {
+    const span = { domain: "x.com", start: at(9), end: at(9, 1) };
+    expect(appendSpan(EMPTY, span).spans).toEqual([span]);
+  });
+
+  it("extends the last span when the same domain continues it", () => {
+    const first = appendSpan(EMPTY, { domain: "x.com", start: at(9), end: at(9, 1) });
+    const next = appendSpan(first, { domain: "x.com", start: at(9, 1, 2), end: at(9, 2) });
+    expect(next.spans).toEqual([{ domain: "x.com", start: at(9), end: at(9, 2) }]);
+  });
+
+  it("starts a new span after a gap", () => {
+    const first = appendSpan(EMPTY, { domain: "x.com", start: at(9), end: at(9, 1) });
+    const next = appendSpan(first, { domain: "x.com", start: at(9, 5), end: at(9, 6) });
+    expect(next.spans).toHaveLength(2);
+  });
+
+  it("starts a new span when the domain changes", () => {
+    const first = appendSpan(EMPTY, { domain: "x.com", start: at(9), end: at(9, 1) });
+    const next = appendSpan(first, { domain: "y.com", start: at(9, 1), end: at(9, 2) });
+    expect(next.spans.map((s) => s.domain)).toEqual(["x.com", "y.com"]);
+  });
+
+  it("merges interleaved spans of concurrently tracked domains", () => {
+    let data = appendSpan(EMPTY, { domain: "x.com", start: at(9), end: at(9, 1) });
+    data = appendSpan(data, { domain: "music.com", start: at(9), end: at(9, 1) });
+    data = appendSpan(data, { domain: "x.com", start: at(9, 1), end: at(9, 2) });
+    data = appendSpan(data, { domain: "music.com", start: at(9, 1), end: at(9, 2) });
+    expect(data.spans).toEqual([
+      { domain: "x.com", start: at(9), end: at(9, 2) },
+      { domain: "music.com", start: at(9), end: at(9, 2) },
+    ]);
+  });
+
+  it("ignores empty spans", () => {
+    expect(appendSpan(EMPTY, { domain: "x.com", start: at(9), end: at(9) })).toBe(EMPTY);
+  });
+
+  it(`drops the oldest spans beyond ${SPAN_CAP}`, () => {
+    const spans = Array.from({ length: SPAN_CAP }, (_, i) => ({
+      domain: i % 2 === 0 ? "a.com" : "b.com",
+      start: i * 60_000,
+      end: i * 60_000 + 1_000,
+    }));
+    const next = appendSpan({ spans }, { domain: "c.com", start: SPAN_CAP * 60_000, end: SPAN_CAP * 60_000 + 1_000 });
+    expect(next.spans).toHaveLength(SPAN_CAP);
+    expect(next.spans[0]).toEqual(spans[1]);
+    expect(next.spans[SPAN_CAP - 1].domain).toBe("c.com");
+  });
+});
+
+// ─── getHourlyBuckets ─────────────────────────────────────────────────────────
+
+describe("getHourlyBuckets", () => {
+  const day = localDayStart(at(12));
+
+  it("returns 24 buckets starting at local midnight", () => {
+    const buckets = getHourlyBuckets(EMPTY, day);
+    expect(buckets).toHaveLength(24);
+    expect(buckets[0].hourStart).toBe(at(0));
+    expect(buckets[23].hourStart).toBe(at(23));
+  });
+
+  it("splits spans that cross an hour boundary", () => {
+    const buckets = getHourlyBuckets(
+      { spans: [{ domain: "x.com", start: at(9, 50), end: at(10, 20) }] },
+      day,
+    );
+    expect(buckets[9].seconds).toBe(600);
+    expect(buckets[10].seconds).toBe(1_200);
+    expect(buckets[10].domains).toEqual({ "x.com": 1_200 });
+  });
+
+  it("clips spans to the requested day", () => {
+    const buckets = getHourlyBuckets(
+      { spans: [{ domain: "x.com", start: at(0) - 1_800_000, end: at(0, 10) }] },
+      day,
+    );
+    expect(buckets[0].seconds).toBe(600);
+    expect(buckets.reduce((s, b) => s + b.seconds, 0)).toBe(600);
+  });
+});
+
+// ─── topDomainOf ──────────────────────────────────────────────────────────────
+
+describe("topDomainOf", () => {
+  it("returns the domain with the most time, or null", () => {
+    expect(topDomainOf({ hourStart: 0, seconds: 90, domains: { "a.com": 30, "b.com": 60 } })).toBe("b.com");
+    expect(topDomainOf({ hourStart: 0, seconds: 0, domains: {} })).toBeNull();
+  });
+});
@@ -0,0 +1,170 @@
+import { describe, it, expect } from "vitest";
+import {
+  normalizePathPattern,
+  isValidPathPattern,
+  splitRuleInput,
+  pathMatches,
+  ruleUsageKey,
+  isPathUsageKey,
+} from "../urlPattern";
+
+// ─── normalizePathPattern ─────────────────────────────────────────────────────
+
+describe("normalizePathPattern", () => {
+  it("lowercases and trims", () => {
+    expect(normalizePathPattern("  /Shorts ")).toBe("/shorts");
+  });
+
+  it("adds a missing leading slash", () => {
+    expect(normalizePathPattern("r/all")).toBe("/r/all");
+  });
+
+  it("strips a trailing slash", () => {
+    expect(normalizePathPattern("/shorts/")).toBe("/shorts");
+  });
+
+  it("collapses repeated slashes", () => {
+    expect(normalizePathPattern("//r///all")).toBe("/r/all");
+  });
+
+  it("strips query-string and fragment", () => {
+    expect(normalizePathPattern("/watch?v=abc#t=10")).toBe("/watch");
+  });
+
+  it("returns an empty string for the root path", () => {
+    expect(normalizePathPattern("/")).toBe("");
+    expect(normalizePathPattern("")).toBe("");
+  });
+});
+
+// ─── isValidPathPattern ───────────────────────────────────────────────────────
+
+describe("isValidPathPattern", () => {
+  it("accepts a simple prefix", () => {
+    expect(isValidPathPattern("/shorts")).toBe(true);
+  });
+
+  it("accepts wildcards", () => {
+    expect(isValidPathPattern("/r/*/comments")).toBe(true);
+    expect(isValidPathPattern("/watch/**")).toBe(true);
+  });
+
+  it("rejects a pattern without a leading slash", () => {
+    expect(isValidPathPattern("shorts")).toBe(false);
+  });
+
+  it("rejects whitespace inside a segment", () => {
+    expect(isValidPathPattern("/my page")).toBe(false);
+  });
+
+  it("rejects empty segments", () => {
+    expect(isValidPathPattern("/r//all")).toBe(false);
+  });
+});
+
+// ─── splitRuleInput ───────────────────────────────────────────────────────────
+
+describe("splitRuleInput", () => {
+  it("returns only the host when there is no path", () => {
+    expect(splitRuleInput("reddit.com")).toEqual({ host: "reddit.com" });
+  });
+
+  it("splits host and path", () => {
+    expect(splitRuleInput("youtube.com/shorts")).toEqual({ host: "youtube.com", path: "/shorts" });
+  });
+
+  it("strips the protocol and normalizes the path", () => {
+    expect(splitRuleInput("https://www.youtube.com/Shorts/")).toEqual({
+      host: "www.youtube.com",
+      path: "/shorts",
+    });
+  });
+
+  it("omits a root path", () => {
+    expect(splitRuleInput("https://reddit.com/")).toEqual({ host: "reddit.com" });
+  });
+});
+
+// ─── pathMatches ──────────────────────────────────────────────────────────────
+
+describe("pathMatches", () => {
+  describe("prefix patterns", () => {
+    it("matches the exact path", () => {
+      expect(pathMatches("/shorts", "/shorts")).toBe(true);
+    });
+
+    it("matches a deeper path", () => {
+      expect(pathMatches("/shorts", "/shorts/abc123")).toBe(true);
+    });
+
+    it("does NOT match across a segment boundary", () => {
+      expect(pathMatches("/shorts", "/shortsabc")).toBe(false);
+    });
+
+    it("does NOT match an unrelated path", () => {
+      expect(pathMatches("/shorts", "/watch")).toBe(false);
+    });
+
+    it("matches case-insensitively", () => {
+      expect(pathMatches("/shorts", "/Shorts/X")).toBe(true);
+    });
+
+    it("matches a multi-segment prefix", () => {
+      expect(pathMatches("/r/all", "/r/all/top")).toBe(true);
+      expect(pathMatches("/r/all", "/r/programming")).toBe(false);
+    });
+  });
+
+  describe("glob patterns", () => {
+    it("* matches within one segment", () => {
+      expect(pathMatches("/r/*/comments", "/r/funny/comments/xyz")).toBe(true);
+    });
+
+    it("* does not match across segments", () => {
+      expect(pathMatches("/r/*/comments", "/r/funny/new/comments")).toBe(false);
+    });
+
+    it("** matches across segments", () => {
+      expect(pathMatches("/**/comments", "/r/funny/new/comments")).toBe(true);
+    });
+
+    it("a trailing * matches a segment suffix", () => {
+      expect(pathMatches("/shorts*", "/shorts-feed")).toBe(true);
+    });
+
+    it("treats regex metacharacters literally", () => {
+      expect(pathMatches("/a.b", "/a.b")).toBe(true);
+      expect(pathMatches("/a.b", "/axb")).toBe(false);
+    });
+  });
+
+  it("an empty pattern matches every path", () => {
+    expect(pathMatches("", "/anything")).toBe(true);
+  });
+
+  it("treats an empty page path as the root", () => {
+    expect(pathMatches("/shorts", "")).toBe(false);
+  });
+});
+
+// ─── ruleUsageKey / isPathUsageKey ────────────────────────────────────────────
+
+describe("ruleUsageKey", () => {
+  it("returns the bare domain without a path", () => {
+    expect(ruleUsageKey("youtube.com")).toBe("youtube.com");
+  });
+
+  it("appends the path when set", () => {
+    expect(ruleUsageKey("youtube.com", "/shorts")).toBe("youtube.com/shorts");
+  });
+});
+
+describe("isPathUsageKey", () => {
+  it("recognises path-rule keys", () => {
+    expect(isPathUsageKey("youtube.com/shorts")).toBe(true);
+  });
+
+  it("rejects plain hostnames", () => {
+    expect(isPathUsageKey("m.youtube.com")).toBe(false);
+  });
+});
@@ -0,0 +1,114 @@
+/**
+ * JustDetox — Time budgets that vary by weekday and schedule window.
+ *
+ * A limit-mode SiteRule or SiteGroup has one base `limitMinutes`. Two
+ * optional overrides let the budget change with the calendar:
+ *
+ *   dayLimits       — seven entries indexed by `Date.getDay()` (0 = Sunday).
+ *                     A number replaces the base limit on that weekday;
+ *                     `null` keeps the base limit.
+ *   budgets         — windows with their own budget, e.g. 15 minutes
+ *                     during a weekday-evening window.
+ *
+ * Precedence at evaluation time: active window budget → weekday budget →
+ * base limit. When several budget windows are active the smallest wins.
+ *
+ * Budget windows live apart from `schedule`, which decides whether the rule
+ * applies at all — outside a budget window the rule still limits.
+ *
+ * Budgets only change the limit that is compared against usage — usage
+ * itself still accumulates over the normal reset window.
+ *
+ * Pure — all functions accept an explicit `now: Date` for testability.
+ */
+
+import type { BudgetWindow } from "./types";
+import { isScheduleActive, weeklyCoverage } from "./schedule";
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+/** Which setting produced the limit in effect. */
+export type LimitSource = "base" | "weekday" | "window";
+
+/** The budget-bearing fields shared by SiteRule and SiteGroup. */
+export interface BudgetSource {
+  limitMinutes?: number;
+  dayLimits?: (number | null)[];
+  budgets?: BudgetWindow[];
+}
+
+export interface ResolvedLimit {
+  minutes: number;
+  source: LimitSource;
+}
+
+// ─── resolveLimitMinutes ──────────────────────────────────────────────────────
+
+/**
+ * Resolve the limit (in minutes) that applies to `target` at `now`.
+ *
+ * @example
+ *   // base 30, weekends 60
+ *   resolveLimitMinutes({ limitMinutes: 30, dayLimits: [60, null, null, null, null, null, 60] }, saturday)
+ *   // → { minutes: 60, source: "weekday" }
+ */
+export function resolveLimitMinutes(target: BudgetSource, now: Date): ResolvedLimit {
+  const windowBudgets = (target.budgets ?? [])
+    .filter((w) => isScheduleActive(w, now))
+    .map((w) => w.limitMinutes);
+  if (windowBudgets.length > 0) {
+    return { minutes: Math.min(...windowBudgets), source: "window" };
+  }
+
+  const day = target.dayLimits?.[now.getDay()];
+  if (day !== undefined && day !== null) {
+    return { minutes: day, source: "weekday" };
+  }
+
+  return { minutes: target.limitMinutes ?? 0, source: "base" };
+}
+
+// ─── budgetRaised ─────────────────────────────────────────────────────────────
+
+/**
+ * The limit in effect for each minute of the week (Sunday 00:00 = 0), by
+ * the same precedence as `resolveLimitMinutes`.
+ */
+function weeklyLimits(target: BudgetSource): number[] {
+  const limits = Array.from(
+    { length: 7 * 1_440 },
+    (_, m) => target.dayLimits?.[Math.floor(m / 1_440)] ?? target.limitMinutes ?? 0,
+  );
+  const windowLimits: (number | null)[] = limits.map(() => null);
+  for (const w of target.budgets ?? []) {
+    weeklyCoverage([w]).forEach((covered, m) => {
+      const current = windowLimits[m];
+      if (covered && (current === null || w.limitMinutes < current)) windowLimits[m] = w.limitMinutes;
+    });
+  }
+  return limits.map((limit, m) => windowLimits[m] ?? limit);
+}
+
+/**
+ * Returns `true` if `after` allows more time than `before` at any minute of
+ * the week — used to gate edits and imports that weaken a limit.
+ *
+ * Comparing minute by minute catches every way budgets loosen: a raised
+ * weekday budget, a new window above the limit it covers, a window moved
+ * or removed so a higher limit applies, or windows reordered.
+ */
+export function budgetRaised(before: BudgetSource, after: BudgetSource): boolean {
+  const was = weeklyLimits(before);
+  const is = weeklyLimits(after);
+  return is.some((limit, m) => limit > was[m]!);
+}
+
+// ─── Editing helpers ──────────────────────────────────────────────────────────
+
+/** Returns `true` when every weekday and window budget is within 1–1440 minutes. */
+export function budgetsValid(target: BudgetSource): boolean {
+  const inRange = (m: number) => Number.isInteger(m) && m >= 1 && m <= 1_440;
+  const days = (target.dayLimits ?? []).every((m) => m === null || inRange(m));
+  const windows = (target.budgets ?? []).every((w) => inRange(w.limitMinutes));
+  return days && windows;
+}
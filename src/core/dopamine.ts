@@ -11,25 +11,38 @@
  *     - 1 pt per temptation attempt
  *     - 0.5 pts per minute spent on time-limited sites
  *     - 5 pts per site that hit its time limit
+ *     - 10 pts per emergency unlock
+ *     - 15 pts per tamper gap (extension turned off, reinstalled or wiped)
  *   Add:
  *     - 2 pts per Locked In Mode session completed
- *     - 0.2 pts per minute spent in Locked In Mode
+ *     - 0.2 pts per minute spent in Locked In Mode (focus time only for
+ *       Pomodoro sessions)
+ *     - 1 pt per completed Pomodoro focus interval
  *     - 1 pt per successful Delay Mode completion
  *   Clamped to [0, 100].
  *
  * Recalculation is debounced (DEBOUNCE_MS) to avoid excessive writes.
- * Window resets follow the same intervalHours as usage stats.
+ * Window resets follow the same reset window as usage stats.
  */
 
 import { getSettings, getUsage, getTemptations, getDopamineScore, setDopamineScore } from "./storage";
-import type { DopamineScoreData } from "./types";
+import type { DopamineScoreData, ResetWindowConfig, SiteRule } from "./types";
 import { DEFAULT_DOPAMINE_SCORE } from "./types";
 import { sumUsageUnder } from "./match";
+import { ruleUsageKey } from "./urlPattern";
+import { resolveLimitMinutes } from "./budget";
+import { windowExpired, windowStartAt } from "./resetWindow";
 
 // ─── Constants ────────────────────────────────────────────────────────────────
 
 const DEBOUNCE_MS = 2_000;
 
+/** Points charged for each emergency unlock. */
+const EMERGENCY_UNLOCK_PENALTY = 10;
+
+/** Points charged for each tamper gap (see tamper.ts). */
+const TAMPER_PENALTY = 15;
+
 // ─── In-memory debounce ───────────────────────────────────────────────────────
 
 let debounceTimer: ReturnType<typeof setTimeout> | null = null;
@@ -56,6 +69,9 @@ interface ScoreInputs {
   lockedInSessionsCompleted: number;
   lockedInMinutes: number;
   delayCompletions: number;
+  emergencyUnlocks: number;
+  pomodoroCycles: number;
+  tamperEvents: number;
 }
 
 interface ScoreResult {
@@ -70,15 +86,39 @@ interface ScoreResult {
 export function calculateScore(inputs: ScoreInputs): ScoreResult {
   const temptationPenalty = inputs.totalTemptationAttempts * 1;
   const timePenalty = inputs.totalLimitedMinutes * 0.5 + inputs.limitHitCount * 5;
-  const lockedInBonus = inputs.lockedInSessionsCompleted * 2 + inputs.lockedInMinutes * 0.2;
+  const lockedInBonus =
+    inputs.lockedInSessionsCompleted * 2 + inputs.lockedInMinutes * 0.2 + inputs.pomodoroCycles * 1;
   const delayBonus = inputs.delayCompletions * 1;
+  const emergencyPenalty = inputs.emergencyUnlocks * EMERGENCY_UNLOCK_PENALTY;
+  const tamperPenalty = inputs.tamperEvents * TAMPER_PENALTY;
 
-  const raw = 100 - temptationPenalty - timePenalty + lockedInBonus + delayBonus;
+  const raw =
+    100 - temptationPenalty - timePenalty - emergencyPenalty - tamperPenalty + lockedInBonus + delayBonus;
   const score = Math.max(0, Math.min(100, Math.round(raw * 10) / 10));
 
   return {
     score,
-    breakdown: { temptationPenalty, timePenalty, lockedInBonus, delayBonus },
+    breakdown: { temptationPenalty, timePenalty, lockedInBonus, delayBonus, emergencyPenalty, tamperPenalty },
+  };
+}
+
+/**
+ * Start a fresh score window when the current one has ended, keeping the
+ * final score as `previousWindowScore`. Returns `current` unchanged otherwise.
+ * Pure — shared by the lazy recalculation and the proactive alarm reset.
+ */
+export function rollDopamineWindow(
+  current: DopamineScoreData,
+  resetWindow: ResetWindowConfig,
+  now: number,
+): DopamineScoreData {
+  if (current.windowStartTs <= 0 || !windowExpired(resetWindow, current.windowStartTs, now)) {
+    return current;
+  }
+  return {
+    ...DEFAULT_DOPAMINE_SCORE,
+    previousWindowScore: current.score,
+    windowStartTs: windowStartAt(resetWindow, now),
   };
 }
 
@@ -92,18 +132,10 @@ async function computeAndSave(): Promise<void> {
     getDopamineScore(),
   ]);
 
-  const intervalMs = settings.resetWindow.intervalHours * 3_600_000;
   const now = Date.now();
 
   // Lazy window reset — same pattern as per-domain usage reset.
-  const windowExpired = current.windowStartTs > 0 && now - current.windowStartTs >= intervalMs;
-  const base: DopamineScoreData = windowExpired
-    ? {
-        ...DEFAULT_DOPAMINE_SCORE,
-        previousWindowScore: current.score,
-        windowStartTs: now,
-      }
-    : current;
+  const base = rollDopamineWindow(current, settings.resetWindow, now);
 
   // Total temptation attempts across all domains this window.
   const totalTemptationAttempts = Object.values(temptations).reduce(
@@ -111,10 +143,16 @@ async function computeAndSave(): Promise<void> {
     0,
   );
 
+  // Path rules read their own usage key; whole-host rules sum the domain.
+  const ruleSeconds = (r: SiteRule): number =>
+    r.path
+      ? (usage[ruleUsageKey(r.domain, r.path)]?.activeSeconds ?? 0)
+      : sumUsageUnder(r.domain, usage);
+
   // Seconds on time-limited site rules.
   const limitedRuleSeconds = settings.siteRules
     .filter((r) => r.mode === "limit" && r.enabled)
-    .reduce((sum, r) => sum + sumUsageUnder(r.domain, usage), 0);
+    .reduce((sum, r) => sum + ruleSeconds(r), 0);
 
   // Seconds on time-limited groups.
   const limitedGroupSeconds = settings.groups
@@ -126,13 +164,14 @@ async function computeAndSave(): Promise<void> {
 
   const totalLimitedMinutes = (limitedRuleSeconds + limitedGroupSeconds) / 60;
 
-  // Count site rules that have hit their limit.
+  // Count site rules that have hit their limit (today's budget, if any).
+  const today = new Date(now);
   const limitHitCount = settings.siteRules
     .filter(
       (r) =>
         r.mode === "limit" && r.enabled && r.limitMinutes !== undefined,
     )
-    .filter((r) => sumUsageUnder(r.domain, usage) >= r.limitMinutes! * 60)
+    .filter((r) => ruleSeconds(r) >= resolveLimitMinutes(r, today).minutes * 60)
     .length;
 
   const { score, breakdown } = calculateScore({
@@ -142,6 +181,9 @@ async function computeAndSave(): Promise<void> {
     lockedInSessionsCompleted: base.lockedInSessionsCompleted,
     lockedInMinutes: base.lockedInMinutes,
     delayCompletions: base.delayCompletions,
+    emergencyUnlocks: base.emergencyUnlocks,
+    pomodoroCycles: base.pomodoroCycles,
+    tamperEvents: base.tamperEvents,
   });
 
   await setDopamineScore({ ...base, score, scoreBreakdown: breakdown });
@@ -172,19 +214,32 @@ export function triggerRecalculation(): void {
 
 /**
  * Called when a Locked In Mode session ends naturally (timer expired).
- * Increments the completed-session counter and accrues the time bonus.
+ * Increments the completed-session counter and accrues the time bonus for
+ * `focusMinutes` (the whole session, or only the focus intervals of a
+ * Pomodoro session).
  */
-export async function onLockedInSessionCompleted(
-  startTs: number,
-  endTs: number,
-): Promise<void> {
+export async function onLockedInSessionCompleted(focusMinutes: number): Promise<void> {
   const current = await getDopamineScore();
-  const durationMinutes = (endTs - startTs) / 60_000;
 
   await setDopamineScore({
     ...current,
     lockedInSessionsCompleted: current.lockedInSessionsCompleted + 1,
-    lockedInMinutes: current.lockedInMinutes + durationMinutes,
+    lockedInMinutes: current.lockedInMinutes + focusMinutes,
+  });
+
+  triggerRecalculation();
+}
+
+/**
+ * Called when Pomodoro focus intervals finish. Credited as they complete, so
+ * a session ended early still earns its finished cycles.
+ */
+export async function onPomodoroCyclesCompleted(count: number): Promise<void> {
+  const current = await getDopamineScore();
+
+  await setDopamineScore({
+    ...current,
+    pomodoroCycles: current.pomodoroCycles + count,
   });
 
   triggerRecalculation();
@@ -204,3 +259,33 @@ export async function onDelayCompleted(): Promise<void> {
 
   triggerRecalculation();
 }
+
+/**
+ * Called when an emergency unlock is granted.
+ * Increments the unlock counter, which the score charges for.
+ */
+export async function onEmergencyUnlock(): Promise<void> {
+  const current = await getDopamineScore();
+
+  await setDopamineScore({
+    ...current,
+    emergencyUnlocks: current.emergencyUnlocks + 1,
+  });
+
+  triggerRecalculation();
+}
+
+/**
+ * Called when a tamper gap is detected on service worker startup.
+ * Increments the tamper counter, which the score charges for.
+ */
+export async function onTamperDetected(): Promise<void> {
+  const current = await getDopamineScore();
+
+  await setDopamineScore({
+    ...current,
+    tamperEvents: current.tamperEvents + 1,
+  });
+
+  triggerRecalculation();
+}
@@ -0,0 +1,179 @@
+/**
+ * JustDetox — Break-glass emergency unlocks.
+ *
+ * Storage key: "jd_emergency_unlocks" → EmergencyUnlockData
+ *
+ * The overlay has no bypass. An emergency unlock is the one rationed way
+ * past a block: it lifts every restriction on one domain (and its
+ * subdomains) for `minutesPerUnlock` minutes, at most `unlocksPerWindow`
+ * times per reset window.
+ *
+ * The options page runs the friction gate before requesting an unlock;
+ * the background grants it (see messages.ts), records an
+ * "emergency_unlock" self-control event and charges the Dopamine Score.
+ * `effectiveUnlockFor` is consulted by CHECK_URL before any rule.
+ *
+ * A hard-locked Locked In session (hardLock.ts) has no way out: no unlock
+ * is granted while one runs, and an unlock granted before it started does
+ * not lift its blocks.
+ */
+
+import { getSettings, getEmergencyUnlocks, setEmergencyUnlocks } from "./storage";
+import type {
+  EmergencyUnlock,
+  EmergencyUnlockData,
+  EmergencyUnlockSettings,
+  ResetWindowConfig,
+  Settings,
+} from "./types";
+import { normalizeDomain, domainMatches } from "./domain";
+import { windowExpired, windowStartAt } from "./resetWindow";
+import { recordEvent } from "./selfControl";
+import { onEmergencyUnlock } from "./dopamine";
+import { lockdownActive } from "./lockdown";
+import { activeHardLock } from "./hardLock";
+
+// ─── Public types ─────────────────────────────────────────────────────────────
+
+/** Why an unlock request was refused. */
+export type UnlockRefusal =
+  | "disabled"
+  | "invalid-domain"
+  | "already-unlocked"
+  | "quota-exhausted"
+  | "lockdown"
+  | "hard-lock";
+
+export type UnlockResult =
+  | { ok: true; unlock: EmergencyUnlock; data: EmergencyUnlockData }
+  | { ok: false; reason: UnlockRefusal };
+
+// ─── Pure helpers ─────────────────────────────────────────────────────────────
+
+/**
+ * Start a fresh window (a full quota) when the current one has ended.
+ * Unlocks still running carry over so a rollover never cuts one short, but
+ * only unlocks granted inside the window count against its quota.
+ * Returns `data` unchanged while the window is current.
+ * Pure — shared by `requestEmergencyUnlock` and the proactive alarm reset.
+ */
+export function rollEmergencyWindow(
+  data: EmergencyUnlockData,
+  resetWindow: ResetWindowConfig,
+  now: number,
+): EmergencyUnlockData {
+  if (data.windowStartTs > 0 && !windowExpired(resetWindow, data.windowStartTs, now)) {
+    return data;
+  }
+  return {
+    windowStartTs: windowStartAt(resetWindow, now),
+    unlocks: data.unlocks.filter((u) => u.endTs > now),
+  };
+}
+
+/** Unlocks still available in the window `data` belongs to. */
+export function unlocksRemaining(
+  data: EmergencyUnlockData,
+  settings: EmergencyUnlockSettings,
+): number {
+  const used = data.unlocks.filter((u) => u.startTs >= data.windowStartTs).length;
+  return Math.max(0, settings.unlocksPerWindow - used);
+}
+
+/** The unlock covering `hostname` at `now`, or null. */
+export function activeUnlockFor(
+  hostname: string,
+  data: EmergencyUnlockData,
+  now: number,
+): EmergencyUnlock | null {
+  return (
+    data.unlocks.find((u) => now >= u.startTs && now < u.endTs && domainMatches(u.domain, hostname)) ??
+    null
+  );
+}
+
+/**
+ * The unlock that lifts the rules on `hostname` at `now`, or null. While a
+ * hard-locked session runs no unlock applies — it would bypass the session.
+ */
+export function effectiveUnlockFor(
+  hostname: string,
+  data: EmergencyUnlockData,
+  settings: Settings,
+  now: number,
+): EmergencyUnlock | null {
+  if (activeHardLock(settings, now)) return null;
+  return activeUnlockFor(hostname, data, now);
+}
+
+/**
+ * Grant an unlock for `domain` if the quota allows. `data` must already be
+ * rolled to the current window. Pure — no storage access.
+ */
+export function grantUnlock(
+  data: EmergencyUnlockData,
+  domain: string,
+  settings: EmergencyUnlockSettings,
+  now: number,
+): UnlockResult {
+  if (!settings.enabled) return { ok: false, reason: "disabled" };
+
+  const normalized = normalizeDomain(domain);
+  if (!normalized || !normalized.includes(".")) return { ok: false, reason: "invalid-domain" };
+
+  // A running unlock is not extended — that would be a free second unlock.
+  if (activeUnlockFor(normalized, data, now)) return { ok: false, reason: "already-unlocked" };
+
+  if (unlocksRemaining(data, settings) === 0) return { ok: false, reason: "quota-exhausted" };
+
+  const unlock: EmergencyUnlock = {
+    domain: normalized,
+    startTs: now,
+    endTs: now + settings.minutesPerUnlock * 60_000,
+  };
+  return { ok: true, unlock, data: { ...data, unlocks: [...data.unlocks, unlock] } };
+}
+
+/** Short user-facing explanation of a refusal. */
+export function describeRefusal(reason: UnlockRefusal): string {
+  switch (reason) {
+    case "disabled":         return "Emergency unlocks are turned off.";
+    case "invalid-domain":   return "Enter a domain such as example.com.";
+    case "already-unlocked": return "That site is already unlocked.";
+    case "quota-exhausted":  return "No emergency unlocks left this window.";
+    case "lockdown":         return "Settings are locked down — no emergency unlocks until it ends.";
+    case "hard-lock":        return "Your Locked In session is hard-locked — no emergency unlocks until it ends.";
+  }
+}
+
+// ─── Storage-backed entry point ───────────────────────────────────────────────
+
+/**
+ * Grant and persist an emergency unlock for `domain`, record it as a
+ * self-control event and charge the Dopamine Score.
+ *
+ * Called by the background EMERGENCY_UNLOCK handler once the options page
+ * has passed the friction gate. Refused outright during a settings lockdown
+ * or a hard-locked Locked In session.
+ */
+export async function requestEmergencyUnlock(
+  domain: string,
+  now: number = Date.now(),
+): Promise<UnlockResult> {
+  const [settings, stored] = await Promise.all([getSettings(), getEmergencyUnlocks()]);
+  if (lockdownActive(settings, now)) return { ok: false, reason: "lockdown" };
+  if (activeHardLock(settings, now)) return { ok: false, reason: "hard-lock" };
+
+  const data = rollEmergencyWindow(stored, settings.resetWindow, now);
+
+  const result = grantUnlock(data, domain, settings.emergencyUnlock, now);
+  if (!result.ok) {
+    if (data !== stored) setEmergencyUnlocks(data);
+    return result;
+  }
+
+  setEmergencyUnlocks(result.data);
+  await recordEvent({ domain: result.unlock.domain, type: "emergency_unlock", ts: now });
+  await onEmergencyUnlock();
+  return result;
+}
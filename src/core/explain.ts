@@ -0,0 +1,338 @@
+/**
+ * JustDetox — "Why is this blocked?" policy explanation.
+ *
+ * `explainPolicy` walks the same precedence chain as `computeBlockedState`
+ * and records every tier it checks, the schedule windows it evaluates and
+ * the usage math behind a limit, so the answer can be shown to the user
+ * instead of reverse-engineered from `ruleIndex.ts`.
+ *
+ * The final `state` is always produced by `computeBlockedState` itself, so
+ * the trace can never disagree with what the overlay would actually do.
+ *
+ * Pure — no Chrome APIs. `now` is passed explicitly for testability.
+ */
+
+import type { Settings, UsageMap, ScheduleWindow } from "./types";
+import { normalizeHostname, domainCovers } from "./match";
+import { getOrBuildIndex, resolveDomainRule } from "./ruleIndex";
+import {
+  computeBlockedState,
+  resolveEffectivePolicy,
+  type BlockedState,
+  type EffectivePolicy,
+} from "./policy";
+import { isScheduleActive, formatScheduleSummary } from "./schedule";
+import { lockedInAllowlistAt, pomodoroPhaseAt } from "./pomodoro";
+import { ruleUsageKey, isPathUsageKey } from "./urlPattern";
+import type { LimitSource } from "./budget";
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+/** A precedence tier, in the order `explainPolicy` checks them. */
+export type TraceTier =
+  | "disabled"
+  | "allowlist-mode"
+  | "locked-in"
+  | "allow-exception"
+  | "site-rule"
+  | "group"
+  | "global-block-list"
+  | "global-defaults";
+
+/**
+ * Outcome of a single tier:
+ *  - `"matched"`  — this tier decided the result
+ *  - `"no-match"` — checked, did not apply
+ *  - `"skipped"`  — not reached because an earlier tier matched
+ */
+export type TraceOutcome = "matched" | "no-match" | "skipped";
+
+export interface TraceStep {
+  tier: TraceTier;
+  outcome: TraceOutcome;
+  /** Human-readable explanation, e.g. `Site rule "youtube.com" — block`. */
+  detail: string;
+}
+
+/** One schedule window of the matched rule/group and whether it is active at `now`. */
+export interface ScheduleTrace {
+  window: ScheduleWindow;
+  /** Display label from `formatScheduleSummary`. */
+  summary: string;
+  active: boolean;
+}
+
+/** A single usage record counted towards a limit. */
+export interface UsageContribution {
+  key: string;
+  seconds: number;
+}
+
+/** The arithmetic behind a limit-mode result. */
+export interface UsageMath {
+  limitSeconds: number;
+  /** Which budget produced `limitSeconds` — base limit, weekday or budget window. */
+  limitSource: LimitSource;
+  usedSeconds: number;
+  remainingSeconds: number;
+  /** Usage records summed into `usedSeconds`, largest first. */
+  contributions: UsageContribution[];
+}
+
+export interface PolicyExplanation {
+  /** Normalized hostname that was evaluated. */
+  hostname: string;
+  path?: string;
+  /** Every tier in precedence order. */
+  steps: TraceStep[];
+  /** The rule-derived policy, or null when none applies (or a mode tier decided). */
+  policy: EffectivePolicy | null;
+  /** Schedule windows of the matched rule/group. Empty when it has no schedule. */
+  schedules: ScheduleTrace[];
+  /** False when the matched rule has schedules and none is active at `now`. */
+  scheduleActive: boolean;
+  /** Present when a limit-mode policy was evaluated. */
+  usage?: UsageMath;
+  /** The result, identical to `computeBlockedState` for the same inputs. */
+  state: BlockedState;
+}
+
+const TIER_ORDER: TraceTier[] = [
+  "disabled",
+  "allowlist-mode",
+  "locked-in",
+  "allow-exception",
+  "site-rule",
+  "group",
+  "global-block-list",
+  "global-defaults",
+];
+
+// ─── explainPolicy ────────────────────────────────────────────────────────────
+
+/**
+ * Explain how `hostname` (and optionally `path`) is evaluated at `now`.
+ *
+ * Tiers are reported in precedence order. The first tier that decides the
+ * outcome is `"matched"`; tiers before it are `"no-match"` and tiers after
+ * it are `"skipped"`. When the master switch is off the result is always
+ * unrestricted, matching the background `CHECK_URL` handler.
+ */
+export function explainPolicy(
+  hostname: string,
+  settings: Settings,
+  usage: UsageMap,
+  now: number,
+  path?: string,
+): PolicyExplanation {
+  const host = normalizeHostname(hostname);
+  const steps: TraceStep[] = [];
+  let decided = false;
+
+  const record = (tier: TraceTier, matched: boolean, detail: string) => {
+    steps.push({ tier, outcome: matched ? "matched" : "no-match", detail });
+    decided = matched;
+  };
+
+  const finish = (
+    state: BlockedState,
+    extra: Partial<PolicyExplanation> = {},
+  ): PolicyExplanation => {
+    for (const tier of TIER_ORDER.slice(steps.length)) {
+      steps.push({ tier, outcome: "skipped", detail: "Not evaluated — an earlier tier decided." });
+    }
+    return { hostname: host, path, steps, policy: null, schedules: [], scheduleActive: true, state, ...extra };
+  };
+
+  const state = computeBlockedState(host, usage, settings, path, now);
+
+  // ── Master switch ──────────────────────────────────────────────────────────
+  record(
+    "disabled",
+    settings.disabled,
+    settings.disabled ? "JustDetox is disabled — nothing is blocked." : "JustDetox is enabled.",
+  );
+  if (decided) return finish({ blocked: false });
+
+  // ── Allowlist Mode ─────────────────────────────────────────────────────────
+  if (settings.allowlistMode?.enabled) {
+    const entry = settings.allowlistMode.allowedDomains.find((d) =>
+      domainCovers(host, normalizeHostname(d)),
+    );
+    record(
+      "allowlist-mode",
+      true,
+      entry
+        ? `Allowlist Mode is on and "${entry}" is in the focus environment.`
+        : "Allowlist Mode is on and this site is not in the focus environment.",
+    );
+    return finish(state);
+  }
+  record("allowlist-mode", false, "Allowlist Mode is off.");
+
+  // ── Locked In Mode ─────────────────────────────────────────────────────────
+  const session = settings.lockedInSession;
+  if (session?.active && now < session.endTs) {
+    const phase = pomodoroPhaseAt(session, now);
+    const allowlist = lockedInAllowlistAt(session, now);
+    if (allowlist) {
+      const entry = allowlist.find((d) => domainCovers(host, normalizeHostname(d)));
+      const what = phase && phase.kind !== "focus" ? "Locked In break" : "Locked In session";
+      record(
+        "locked-in",
+        true,
+        entry
+          ? `${what} is active and "${entry}" is allowed.`
+          : `${what} is active and this site is not part of it.`,
+      );
+      return finish(state);
+    }
+    record("locked-in", false, "Locked In session is on a break — normal rules apply.");
+  } else {
+    record("locked-in", false, "No active Locked In session.");
+  }
+
+  // ── Rule tiers ─────────────────────────────────────────────────────────────
+  const resolved = resolveDomainRule(host, getOrBuildIndex(settings), path);
+  const policy = resolveEffectivePolicy(host, settings, path, now);
+
+  record(
+    "allow-exception",
+    resolved?.kind === "allow-exception",
+    resolved?.kind === "allow-exception"
+      ? `Allow exception "${resolved.domain}" covers this site.`
+      : "No allow exception covers this site.",
+  );
+  if (decided) return finish(state, { policy });
+
+  if (resolved?.kind === "site") {
+    const { rule } = resolved;
+    const key = ruleUsageKey(rule.domain, rule.path);
+    record("site-rule", true, `Site rule "${key}" — ${describeMode(rule.mode, rule.limitMinutes)}.`);
+  } else {
+    record("site-rule", false, "No enabled site rule matches.");
+  }
+
+  if (!decided) {
+    if (resolved?.kind === "group") {
+      const { group } = resolved;
+      record("group", true, `Group "${group.name}" — ${describeMode(group.mode, group.limitMinutes)}.`);
+    } else {
+      record("group", false, "No enabled group lists this site.");
+    }
+  }
+
+  if (!decided) {
+    if (resolved?.kind === "global-block") {
+      const entry = settings.globalBlockList.find((d) => domainCovers(host, normalizeHostname(d)));
+      record("global-block-list", true, `"${entry ?? host}" is on the always-blocked list.`);
+    } else {
+      record("global-block-list", false, "Not on the always-blocked list.");
+    }
+  }
+
+  if (!decided) {
+    const defaults = settings.globalDefaults;
+    record(
+      "global-defaults",
+      Boolean(defaults?.mode),
+      defaults?.mode
+        ? `Global default — ${describeMode(defaults.mode, defaults.limitMinutes)}.`
+        : "No global default — the site is unrestricted.",
+    );
+  }
+
+  if (!policy) return finish(state);
+
+  // ── Schedule gate ──────────────────────────────────────────────────────────
+  const date = new Date(now);
+  const schedules = (policy.schedule ?? []).map((window) => ({
+    window,
+    summary: formatScheduleSummary(window),
+    active: isScheduleActive(window, date),
+  }));
+  const scheduleActive = schedules.length === 0 || schedules.some((s) => s.active);
+
+  // ── Usage math ─────────────────────────────────────────────────────────────
+  let usageMath: UsageMath | undefined;
+  if (policy.mode === "limit" && scheduleActive) {
+    const contributions = collectUsage(host, usage, policy, settings);
+    const usedSeconds = contributions.reduce((sum, c) => sum + c.seconds, 0);
+    const limitSeconds = policy.limitSeconds ?? 0;
+    usageMath = {
+      limitSeconds,
+      limitSource: policy.limitSource ?? "base",
+      usedSeconds,
+      remainingSeconds: Math.max(0, limitSeconds - usedSeconds),
+      contributions,
+    };
+  }
+
+  return finish(state, { policy, schedules, scheduleActive, usage: usageMath });
+}
+
+// ─── parseTestUrl ─────────────────────────────────────────────────────────────
+
+/**
+ * Parse free-form "Test a URL" input into a hostname and path.
+ *
+ * Accepts full URLs and bare `host/path` strings. Returns `null` when the
+ * input cannot be parsed or has no dotted hostname.
+ *
+ * @example
+ *   parseTestUrl("youtube.com/shorts/abc")       → { hostname: "youtube.com", path: "/shorts/abc" }
+ *   parseTestUrl("https://www.reddit.com/?x=1")  → { hostname: "www.reddit.com", path: "/" }
+ */
+export function parseTestUrl(input: string): { hostname: string; path: string } | null {
+  const trimmed = input.trim();
+  if (!trimmed) return null;
+  const withProtocol = /^[a-z][a-z0-9+.-]*:\/\//i.test(trimmed) ? trimmed : `https://${trimmed}`;
+  try {
+    const url = new URL(withProtocol);
+    if (!url.hostname.includes(".")) return null;
+    return { hostname: normalizeHostname(url.hostname), path: url.pathname || "/" };
+  } catch {
+    return null;
+  }
+}
+
+// ─── Internal helpers ─────────────────────────────────────────────────────────
+
+function describeMode(mode: string, limitMinutes?: number): string {
+  return mode === "limit" ? `${limitMinutes ?? 0} min limit` : "block";
+}
+
+/**
+ * List the usage records that `computeBlockedState` sums for `policy`.
+ * Mirrors `resolveUsedSeconds` in policy.ts record-by-record.
+ */
+function collectUsage(
+  host: string,
+  usage: UsageMap,
+  policy: EffectivePolicy,
+  settings: Settings,
+): UsageContribution[] {
+  const under = (domain: string): UsageContribution[] => {
+    const norm = normalizeHostname(domain);
+    return Object.entries(usage)
+      .filter(([key]) => !isPathUsageKey(key) && domainCovers(normalizeHostname(key), norm))
+      .map(([key, rec]) => ({ key, seconds: rec.activeSeconds }));
+  };
+
+  let contributions: UsageContribution[];
+  if (policy.reason === "site-rule" && policy.configuredDomain && policy.configuredPath) {
+    const key = ruleUsageKey(policy.configuredDomain, policy.configuredPath);
+    contributions = [{ key, seconds: usage[key]?.activeSeconds ?? 0 }];
+  } else if (policy.reason === "site-rule" && policy.configuredDomain) {
+    contributions = under(policy.configuredDomain);
+  } else if (policy.reason === "group" && policy.groupId) {
+    const group = settings.groups.find((g) => g.id === policy.groupId);
+    contributions = group ? group.domains.flatMap(under) : [];
+  } else {
+    contributions = [{ key: host, seconds: usage[host]?.activeSeconds ?? 0 }];
+  }
+
+  return contributions
+    .filter((c) => c.seconds > 0)
+    .sort((a, b) => b.seconds - a.seconds);
+}
@@ -5,7 +5,8 @@
  * The actual UI gate (FrictionGate) is in src/ui/components/FrictionGate.tsx.
  *
  * Storage key: "jd_friction_log" → FrictionLogEntry[]
- * Only written when frictionSettings.logReflections === true.
+ * Only written when frictionSettings.logReflections === true, for required
+ * payloads, and for every rejection during a settings lockdown.
  */
 
 // ─── Action types ──────────────────────────────────────────────────────────────
@@ -25,7 +26,21 @@ export type FrictionActionType =
   | "rule-limit-increase"
   | "group-limit-increase"
   | "remove-domain"
-  | "import-reduces-protection";
+  | "add-allow-exception"
+  | "import-reduces-protection"
+  | "emergency-unlock"
+  | "emergency-quota-increase"
+  | "disable-recurring-session"
+  | "loosen-recurring-session"
+  | "narrow-schedule"
+  | "shorten-delay"
+  | "relax-global-defaults"
+  | "loosen-allowlist"
+  | "change-reset-window"
+  | "weaken-gate"
+  | "reduce-tab-tracking"
+  | "loosen-idle-detection"
+  | "reduce-protection";
 
 // ─── Payload ──────────────────────────────────────────────────────────────────
 
@@ -51,6 +66,11 @@ export interface FrictionPayload {
    * Used by the import flow to enumerate every protection reduction.
    */
   context?: string[];
+  /**
+   * Always show a gate and always log the outcome, even when the Friction
+   * Layer or reflection logging is turned off. Used for emergency unlocks.
+   */
+  required?: boolean;
 }
 
 // ─── Log entries ──────────────────────────────────────────────────────────────
@@ -64,8 +84,11 @@ export interface FrictionLogEntry {
   label: string;
   /** Text entered in the reflection field (may be empty string). */
   reflection: string;
-  /** Whether the user applied the change or kept their protections. */
-  outcome: "applied" | "kept";
+  /**
+   * Whether the user applied the change or kept their protections, or the
+   * change was rejected outright by a settings lockdown.
+   */
+  outcome: "applied" | "kept" | "rejected";
 }
 
 // ─── Storage ──────────────────────────────────────────────────────────────────
@@ -129,6 +152,20 @@ export function describeActionType(actionType: FrictionActionType): string {
     case "rule-limit-increase":         return "Increase a time limit";
     case "group-limit-increase":        return "Increase a time limit";
     case "remove-domain":               return "Remove a domain from a rule";
+    case "add-allow-exception":         return "Add an allow exception";
     case "import-reduces-protection":   return "Import settings that reduce protection";
+    case "emergency-unlock":            return "Use an emergency unlock";
+    case "emergency-quota-increase":    return "Raise the emergency unlock quota";
+    case "disable-recurring-session":   return "Turn off a recurring Locked In session";
+    case "loosen-recurring-session":    return "Loosen a recurring Locked In session";
+    case "narrow-schedule":             return "Narrow a rule schedule";
+    case "shorten-delay":               return "Shorten or turn off a delay";
+    case "relax-global-defaults":       return "Relax the global defaults";
+    case "loosen-allowlist":            return "Loosen Allowlist Mode";
+    case "change-reset-window":         return "Change the reset window";
+    case "weaken-gate":                 return "Weaken the Friction Layer or Protected Gate";
+    case "reduce-tab-tracking":         return "Count fewer tabs";
+    case "loosen-idle-detection":       return "Pause tracking sooner when idle";
+    case "reduce-protection":           return "Make several changes that reduce protection";
   }
 }
@@ -0,0 +1,59 @@
+/**
+ * JustDetox — Hard-locked Locked In sessions.
+ *
+ * A session started with `hardLock: true` cannot be undone until its
+ * `endTs`. While it runs, any settings write that would weaken protection
+ * is refused as a whole:
+ *
+ *   - ending, shortening or loosening the session itself
+ *   - any reduction `diffProtection` classifies: disabling the extension,
+ *     turning off Allowlist Mode, removed or relaxed rules, …
+ *
+ * Enforced in `setSettings` (storage.ts) through `settingsWriteRefusal`
+ * (lockdown.ts), so every writer — the options page, `updateSettings`,
+ * `importAll` and the background — goes through it.
+ * The options page also checks before applying a patch so its state never
+ * runs ahead of storage.
+ *
+ * Pure — no Chrome APIs. `now` is passed explicitly for testability.
+ */
+
+import type { LockedInSession, Settings } from "./types";
+import { diffProtection } from "./protectedGate";
+
+/** The hard-locked session running at `now`, or null. */
+export function activeHardLock(settings: Settings, now: number): LockedInSession | null {
+  const session = settings.lockedInSession;
+  return session?.active && session.hardLock && now < session.endTs ? session : null;
+}
+
+/**
+ * Every change from `current` to `next` that the running hard lock forbids.
+ * Empty when no hard lock is running or the change only tightens protection.
+ */
+export function hardLockViolations(current: Settings, next: Settings, now: number): string[] {
+  const lock = activeHardLock(current, now);
+  if (!lock) return [];
+
+  const violations: string[] = [];
+
+  const session = next.lockedInSession;
+  const loosened =
+    !session ||
+    !session.active ||
+    !session.hardLock ||
+    session.startTs !== lock.startTs ||
+    session.endTs < lock.endTs ||
+    session.allowedDomains.some((d) => !lock.allowedDomains.includes(d)) ||
+    JSON.stringify(session.pomodoro) !== JSON.stringify(lock.pomodoro);
+  if (loosened) violations.push("The hard-locked session cannot be ended or loosened");
+
+  violations.push(...diffProtection(current, next).map((r) => r.label));
+  return violations;
+}
+
+/** "Hard lock active until 14:30 — …", for refusals shown to the user. */
+export function describeHardLockRefusal(lock: LockedInSession, violations: string[]): string {
+  const until = new Date(lock.endTs).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" });
+  return `Hard lock active until ${until} — ${violations.join("; ")}.`;
+}
@@ -0,0 +1,195 @@
+/**
+ * JustDetox — Usage history beyond the current reset window.
+ *
+ * Storage key: "jd_history" → UsageHistory
+ *
+ * `DomainUsage` only holds the current window. Whenever a usage record rolls
+ * over (lazily in the tracker, or proactively on the alarm tick) its total is
+ * appended here under the local day its window started. Appends are merged
+ * into the existing day, so the store stays one entry per day.
+ *
+ * Compaction on every append:
+ *  - Days older than HISTORY_RETENTION_DAYS are dropped.
+ *  - Each day keeps its MAX_DOMAINS_PER_DAY largest domains; the remainder
+ *    is folded into a single OTHER_KEY entry so daily totals stay exact.
+ *
+ * `queryHistory` merges the live window back in, so 7/30/90-day views
+ * include today.
+ */
+
+import { getUsageHistory, setUsageHistory } from "./storage";
+import { isPathUsageKey } from "./urlPattern";
+import type { HistoryDay, UsageHistory, UsageMap } from "./types";
+
+// ─── Constants ────────────────────────────────────────────────────────────────
+
+/** Days of history retained. Covers the longest dashboard range. */
+export const HISTORY_RETENTION_DAYS = 90;
+
+/** Domains kept per day before the tail is folded into OTHER_KEY. */
+export const MAX_DOMAINS_PER_DAY = 50;
+
+/** Bucket for time on domains trimmed by compaction. */
+export const OTHER_KEY = "(other)";
+
+// ─── Public types ─────────────────────────────────────────────────────────────
+
+export interface DailyTotal {
+  day: string;
+  /** Unix ms of local midnight at the start of `day`. */
+  dayStartTs: number;
+  totalSeconds: number;
+}
+
+export interface HistoryDomainTotal {
+  hostname: string;
+  seconds: number;
+}
+
+export interface HistoryQuery {
+  /** One entry per day, oldest first, zero-filled. Always `days` long. */
+  series: DailyTotal[];
+  /** Domains by total time across the range, descending. */
+  topDomains: HistoryDomainTotal[];
+  totalSeconds: number;
+  /** Average over days with any recorded time. */
+  averageSeconds: number;
+}
+
+// ─── Day keys ─────────────────────────────────────────────────────────────────
+
+/** Local calendar day of `ts` as "YYYY-MM-DD". */
+export function dayKey(ts: number): string {
+  const d = new Date(ts);
+  const mm = String(d.getMonth() + 1).padStart(2, "0");
+  const dd = String(d.getDate()).padStart(2, "0");
+  return `${d.getFullYear()}-${mm}-${dd}`;
+}
+
+/** Local midnight at the start of the "YYYY-MM-DD" day. */
+function dayStart(day: string): number {
+  const [y, m, d] = day.split("-").map(Number);
+  return new Date(y, m - 1, d).getTime();
+}
+
+/** The `count` day keys ending with today, oldest first. */
+function lastDays(count: number, now: number): string[] {
+  const today = new Date(now);
+  const keys: string[] = [];
+  for (let i = count - 1; i >= 0; i--) {
+    keys.push(dayKey(new Date(today.getFullYear(), today.getMonth(), today.getDate() - i).getTime()));
+  }
+  return keys;
+}
+
+// ─── Pure: append + compact ───────────────────────────────────────────────────
+
+/**
+ * Return `history` with the totals of `records` added to the day their
+ * window started, compacted. Path-rule keys and empty records are skipped.
+ */
+export function appendToHistory(
+  history: UsageHistory,
+  records: UsageMap,
+  now: number,
+): UsageHistory {
+  const byDay = new Map(history.days.map((d) => [d.day, { ...d.domains }]));
+
+  for (const [key, record] of Object.entries(records)) {
+    if (isPathUsageKey(key) || record.activeSeconds <= 0) continue;
+    const day = dayKey(record.windowStartTs);
+    const domains = byDay.get(day) ?? {};
+    domains[key] = (domains[key] ?? 0) + record.activeSeconds;
+    byDay.set(day, domains);
+  }
+
+  return compactHistory(
+    { days: [...byDay].map(([day, domains]) => ({ day, domains })) },
+    now,
+  );
+}
+
+/**
+ * Sort days, drop those outside the retention window and fold each day's
+ * smallest domains into OTHER_KEY.
+ */
+export function compactHistory(history: UsageHistory, now: number): UsageHistory {
+  const oldest = lastDays(HISTORY_RETENTION_DAYS, now)[0];
+  const days: HistoryDay[] = history.days
+    .filter((d) => d.day >= oldest)
+    .sort((a, b) => (a.day < b.day ? -1 : a.day > b.day ? 1 : 0))
+    .map((d) => ({ day: d.day, domains: capDomains(d.domains) }));
+  return { days };
+}
+
+function capDomains(domains: Record<string, number>): Record<string, number> {
+  const entries = Object.entries(domains);
+  if (entries.length <= MAX_DOMAINS_PER_DAY) return domains;
+
+  const sorted = entries
+    .filter(([key]) => key !== OTHER_KEY)
+    .sort((a, b) => b[1] - a[1]);
+  const kept = sorted.slice(0, MAX_DOMAINS_PER_DAY - 1);
+  const folded = sorted
+    .slice(MAX_DOMAINS_PER_DAY - 1)
+    .reduce((sum, [, seconds]) => sum + seconds, domains[OTHER_KEY] ?? 0);
+
+  return { ...Object.fromEntries(kept), [OTHER_KEY]: folded };
+}
+
+// ─── Pure: query ──────────────────────────────────────────────────────────────
+
+/**
+ * Daily totals and top domains for the last `days` days (including today),
+ * combining archived history with the live `usage` window.
+ */
+export function queryHistory(
+  history: UsageHistory,
+  usage: UsageMap,
+  days: number,
+  now: number,
+): HistoryQuery {
+  const merged = appendToHistory(history, usage, now);
+  const byDay = new Map(merged.days.map((d) => [d.day, d.domains]));
+  const domainTotals = new Map<string, number>();
+
+  const series = lastDays(days, now).map((day) => {
+    const domains = byDay.get(day) ?? {};
+    let totalSeconds = 0;
+    for (const [hostname, seconds] of Object.entries(domains)) {
+      totalSeconds += seconds;
+      domainTotals.set(hostname, (domainTotals.get(hostname) ?? 0) + seconds);
+    }
+    return { day, dayStartTs: dayStart(day), totalSeconds };
+  });
+
+  const totalSeconds = series.reduce((sum, d) => sum + d.totalSeconds, 0);
+  const activeDays = series.filter((d) => d.totalSeconds > 0).length;
+
+  return {
+    series,
+    topDomains: [...domainTotals]
+      .map(([hostname, seconds]) => ({ hostname, seconds }))
+      .sort((a, b) => b.seconds - a.seconds),
+    totalSeconds,
+    averageSeconds: activeDays > 0 ? totalSeconds / activeDays : 0,
+  };
+}
+
+// ─── Storage ──────────────────────────────────────────────────────────────────
+
+/**
+ * Archive usage records that are about to be reset.
+ *
+ * Called by the tracker and the alarm rollover with the expired records
+ * only. No-op when `records` has nothing to add.
+ */
+export async function archiveUsage(records: UsageMap, now: number = Date.now()): Promise<void> {
+  const hasTime = Object.entries(records).some(
+    ([key, r]) => !isPathUsageKey(key) && r.activeSeconds > 0,
+  );
+  if (!hasTime) return;
+
+  const history = await getUsageHistory();
+  setUsageHistory(appendToHistory(history, records, now));
+}
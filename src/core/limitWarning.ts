@@ -0,0 +1,92 @@
+/**
+ * JustDetox — Low-time warnings before a limit runs out.
+ *
+ * A time-limited site warns as its remaining time crosses each threshold
+ * (`limitWarnings.thresholdMinutes`, default 5 and 1 minutes), so hitting
+ * the block overlay mid-task is not a surprise. A SiteRule or SiteGroup may
+ * carry its own `warningMinutes`; an empty list turns warnings off for it.
+ *
+ * CHECK_URL reports the thresholds (in seconds) with `remainingSeconds`; the
+ * overlay times the warnings off the same figure it uses for its re-check
+ * and shows a toast, plus a system notification when `notify` is on.
+ *
+ * Pure — no chrome.* calls.
+ */
+
+import type { LimitWarningSettings } from "./types";
+import { DEFAULT_LIMIT_WARNINGS } from "./types";
+
+/** Most thresholds a setting may hold (matches `warningMinutesSchema`). */
+const MAX_THRESHOLDS = 5;
+
+/** Largest threshold in minutes — a full day, like a limit. */
+const MAX_THRESHOLD_MINUTES = 1_440;
+
+// ─── Thresholds ───────────────────────────────────────────────────────────────
+
+/**
+ * The thresholds in seconds for a rule, largest first. The rule's own
+ * `warningMinutes` wins over the global list; none when warnings are off.
+ */
+export function warningThresholds(
+  ruleMinutes: number[] | undefined,
+  config: LimitWarningSettings = DEFAULT_LIMIT_WARNINGS,
+): number[] {
+  if (!config.enabled) return [];
+  const minutes = ruleMinutes ?? config.thresholdMinutes;
+  return Array.from(new Set(minutes))
+    .filter((m) => m > 0)
+    .sort((a, b) => b - a)
+    .map((m) => m * 60);
+}
+
+/**
+ * The threshold `remainingSeconds` has reached — the smallest one at or
+ * above it — or null when none has been reached yet or time is up.
+ *
+ * @example
+ *   crossedWarning(200, [300, 60]) // → 300
+ *   crossedWarning(45, [300, 60])  // → 60
+ *   crossedWarning(400, [300, 60]) // → null
+ */
+export function crossedWarning(remainingSeconds: number, thresholds: number[]): number | null {
+  if (remainingSeconds <= 0) return null;
+  let crossed: number | null = null;
+  for (const t of thresholds) {
+    if (t >= remainingSeconds && (crossed === null || t < crossed)) crossed = t;
+  }
+  return crossed;
+}
+
+/** "5 min left on youtube.com" — the toast and notification text. */
+export function warningText(hostname: string, remainingSeconds: number): string {
+  const minutes = Math.floor(remainingSeconds / 60);
+  return minutes < 1
+    ? `Less than a minute left on ${hostname}`
+    : `${minutes} min left on ${hostname}`;
+}
+
+// ─── Settings input ───────────────────────────────────────────────────────────
+
+/**
+ * Parse a comma-separated list of minutes ("5, 1") for the settings UI.
+ * Zeros are dropped, so "0" is an empty list. Null when an entry is not a
+ * whole number of minutes up to a day, or there are too many.
+ */
+export function parseWarningMinutes(input: string): number[] | null {
+  const parts = input.split(",").map((p) => p.trim()).filter((p) => p !== "");
+  const minutes: number[] = [];
+  for (const part of parts) {
+    if (!/^\d+$/.test(part)) return null;
+    const m = parseInt(part, 10);
+    if (m > MAX_THRESHOLD_MINUTES) return null;
+    if (m > 0 && !minutes.includes(m)) minutes.push(m);
+  }
+  if (minutes.length > MAX_THRESHOLDS) return null;
+  return minutes.sort((a, b) => b - a);
+}
+
+/** "5, 1" — the inverse of `parseWarningMinutes`. */
+export function formatWarningMinutes(minutes: number[]): string {
+  return minutes.join(", ");
+}
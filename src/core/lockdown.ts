@@ -0,0 +1,66 @@
+/**
+ * JustDetox — Settings lockdown.
+ *
+ * Friction and the Protected Gate only delay a protection-reducing change.
+ * A lockdown (`settings.lockdown`) is a commitment — "no reductions until
+ * Friday 18:00" — enforced in two places:
+ *
+ *   - `useFrictionGate` rejects every `askFriction` call outright and logs
+ *     it with outcome "rejected".
+ *   - `setSettings` / `importAll` (via `settingsWriteRefusal`) refuse any
+ *     write containing a reduction `diffProtection` classifies, or one that
+ *     shortens the lockdown itself.
+ *
+ * `settingsWriteRefusal` also folds in the hard-lock check (hardLock.ts), so
+ * storage and the options page share one gate for every settings write.
+ *
+ * Pure — no Chrome APIs. `now` is passed explicitly for testability.
+ */
+
+import type { Settings } from "./types";
+import { diffProtection } from "./protectedGate";
+import { activeHardLock, hardLockViolations, describeHardLockRefusal } from "./hardLock";
+
+/** True while the lockdown runs. */
+export function lockdownActive(settings: Settings, now: number): boolean {
+  return now < (settings.lockdown?.untilTs ?? 0);
+}
+
+/**
+ * Every change from `current` to `next` the running lockdown forbids.
+ * Empty when no lockdown is running.
+ */
+export function lockdownViolations(current: Settings, next: Settings, now: number): string[] {
+  if (!lockdownActive(current, now)) return [];
+
+  const violations: string[] = [];
+  if ((next.lockdown?.untilTs ?? 0) < current.lockdown.untilTs) {
+    violations.push("The lockdown cannot be shortened");
+  }
+  violations.push(...diffProtection(current, next).map((r) => r.label));
+  return violations;
+}
+
+/** "Fri 18:00" — short enough for a hint line. */
+export function formatLockdownUntil(untilTs: number): string {
+  const date = new Date(untilTs);
+  const day = date.toLocaleDateString([], { weekday: "short" });
+  const time = date.toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" });
+  return `${day} ${time}`;
+}
+
+/**
+ * Why writing `next` over `current` must be refused — a running hard lock or
+ * lockdown forbids it — or null when the write may go ahead.
+ */
+export function settingsWriteRefusal(current: Settings, next: Settings, now: number): string | null {
+  const lock = activeHardLock(current, now);
+  const lockViolations = hardLockViolations(current, next, now);
+  if (lock && lockViolations.length > 0) return describeHardLockRefusal(lock, lockViolations);
+
+  const violations = lockdownViolations(current, next, now);
+  if (violations.length > 0) {
+    return `Settings are locked down until ${formatLockdownUntil(current.lockdown.untilTs)} — ${violations.join("; ")}.`;
+  }
+  return null;
+}
@@ -5,6 +5,8 @@
  * and importable from both the service worker and the UI.
  */
 
+import { isPathUsageKey } from "./urlPattern";
+
 /**
  * Normalize a raw hostname to a canonical form suitable for comparison:
  *  - Trim surrounding whitespace
@@ -57,6 +59,9 @@ export function matchesAny(hostname: string, domains: readonly string[]): boolea
  * under the real page hostname (e.g. `"m.youtube.com"`), but the rule
  * is configured for the parent domain (`"youtube.com"`).
  *
+ * Keys recorded for path rules (e.g. `"youtube.com/shorts"`) are skipped —
+ * that time is already counted under the plain hostname key.
+ *
  * @example
  *   // usage = { "youtube.com": 600, "m.youtube.com": 300 }
  *   sumUsageUnder("youtube.com", usage) → 900
@@ -68,7 +73,9 @@ export function sumUsageUnder(
   const norm = normalizeHostname(configuredDomain);
   return Object.entries(usage).reduce(
     (total, [key, val]) =>
-      domainCovers(normalizeHostname(key), norm) ? total + val.activeSeconds : total,
+      !isPathUsageKey(key) && domainCovers(normalizeHostname(key), norm)
+        ? total + val.activeSeconds
+        : total,
     0,
   );
 }
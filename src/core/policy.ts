@@ -3,23 +3,43 @@
  *
  * Two public entry points:
  *
- *   resolveEffectivePolicy(hostname, settings)
+ *   resolveEffectivePolicy(hostname, settings, path?, now?)
  *     → The applicable rule for this domain (or null if unrestricted).
- *       Pure function of settings only — no usage data needed.
+ *       Pure function of settings only — no usage data needed. `now`
+ *       selects the weekday / budget-window limit (see budget.ts).
  *
- *   computeBlockedState(hostname, usage, settings)
+ *   computeBlockedState(hostname, usage, settings, path?, now?)
  *     → Whether the domain is currently blocked, the reason message,
  *       and how many seconds remain (for limit-mode rules).
  *       Pure function of settings + current usage snapshot.
  *
- * Both functions are free of Chrome extension APIs and safe to call
+ *   nextPolicyTransition(hostname, settings, usage, now, path?)
+ *     → The next moment the computeBlockedState verdict could change
+ *       without a settings write — schedule and Locked In boundaries —
+ *       so callers can re-check exactly then.
+ *
+ *   blockLiftsAt(hostname, settings, usage, now, path?)
+ *     → When a block ends on its own, for the overlay's "Back at" line.
+ *
+ * All of them are free of Chrome extension APIs and safe to call
  * from service worker, content scripts, and UI alike.
  */
 
-import type { Settings, UsageMap, RuleMode, ScheduleWindow } from "./types";
+import type {
+  Settings,
+  UsageMap,
+  RuleMode,
+  ScheduleWindow,
+  BudgetWindow,
+  ResetWindowConfig,
+} from "./types";
 import { normalizeHostname, domainCovers, sumUsageUnder } from "./match";
 import { getOrBuildIndex, resolveDomainRule } from "./ruleIndex";
-import { isAnyScheduleActive } from "./schedule";
+import { isAnyScheduleActive, nextScheduleStart, scheduleOccurrenceAt } from "./schedule";
+import { ruleUsageKey } from "./urlPattern";
+import { resolveLimitMinutes, type LimitSource } from "./budget";
+import { lockedInAllowlistAt, pomodoroPhaseAt } from "./pomodoro";
+import { nextAnchorAt, pruneExpired } from "./resetWindow";
 
 // ─── Block messages ───────────────────────────────────────────────────────────
 
@@ -32,6 +52,9 @@ export const MSG_TIME_UP = "no more, lock back in";
 /** Shown when a domain is accessed outside the active Locked In session's allowed list. */
 export const MSG_LOCKED_IN = "Not part of your session. Stay locked in.";
 
+/** Shown when a domain is outside the break allowlist of a Pomodoro session. */
+export const MSG_LOCKED_IN_BREAK = "Not part of your break. Back to focus soon.";
+
 /** Shown when a domain is blocked by Allowlist Mode (Focus Environment). */
 export const MSG_ALLOWLIST = "Not part of your focus environment.";
 
@@ -40,7 +63,18 @@ export const MSG_ALLOWLIST_SUBTITLE = "Lock back in.";
 
 // ─── Types ────────────────────────────────────────────────────────────────────
 
-export type PolicyReason = "site-rule" | "group" | "global-block-list" | "global-defaults";
+export type PolicyReason =
+  | "allow-exception"
+  | "site-rule"
+  | "group"
+  | "global-block-list"
+  | "global-defaults";
+
+/**
+ * How the effective policy treats the domain. `"allow"` is only produced by
+ * an allow exception and always resolves to unrestricted.
+ */
+export type PolicyMode = RuleMode | "allow";
 
 /**
  * The effective rule that applies to a domain, resolved from settings.
@@ -49,28 +83,47 @@ export type PolicyReason = "site-rule" | "group" | "global-block-list" | "global
  * to look up the correct usage bucket(s) without re-scanning rules.
  */
 export interface EffectivePolicy {
-  mode: RuleMode;
-  /** Seconds allowed per reset window. Required when mode === "limit". */
+  mode: PolicyMode;
+  /**
+   * Seconds allowed per reset window. Required when mode === "limit".
+   * For rules and groups this is the budget in effect at evaluation time.
+   */
   limitSeconds?: number;
+  /** Which budget produced `limitSeconds` for a limit-mode rule or group. */
+  limitSource?: LimitSource;
   reason: PolicyReason;
   /**
    * The exact domain string from the matching SiteRule.
    * Set when reason === "site-rule" so usage is summed for the configured
    * domain (and all its subdomains) rather than only the visited hostname.
+   * When reason === "allow-exception" it is the matching exception domain.
    */
   configuredDomain?: string;
+  /**
+   * The path pattern from the matching SiteRule, when it has one.
+   * Usage for path rules is read from the rule's own usage key instead of
+   * being summed across the domain.
+   */
+  configuredPath?: string;
   /** The group.id when reason === "group". */
   groupId?: string;
   /** Whether Delay Mode is enabled on the matching rule/group. */
   delayEnabled?: boolean;
   /** Countdown duration in seconds. Only meaningful when delayEnabled is true. */
   delaySeconds?: number;
+  /** Low-time warning override from the matching rule/group (see limitWarning.ts). */
+  warningMinutes?: number[];
   /**
    * Schedule windows from the matched rule/group (if any).
    * Absent for global-block-list and global-defaults matches (always active).
    * Checked in computeBlockedState before applying block/limit logic.
    */
   schedule?: ScheduleWindow[];
+  /**
+   * Budget windows from the matched limit-mode rule/group. They only change
+   * `limitSeconds`; the rule applies outside them with its base limit.
+   */
+  budgets?: BudgetWindow[];
 }
 
 export interface BlockedState {
@@ -98,50 +151,73 @@ export interface BlockedState {
  * Resolve the effective policy for `hostname` from `settings`.
  *
  * Precedence (first match wins):
+ *  0. Allow exception — an entry in `allowExceptions` covering this hostname
+ *     returns `mode: "allow"` and overrides every rule below.
  *  1. Per-site SiteRule — highest priority; an enabled rule for this domain
- *     overrides any group or global rule.
+ *     overrides any group or global rule. A path rule matching `path` beats
+ *     the whole-host rule for the same domain.
  *  2. SiteGroup — the first enabled group whose domain list covers this hostname.
  *  3. globalBlockList — quick-add list of always-blocked domains.
  *  4. globalDefaults — catch-all fallback.
  *
+ * For limit-mode rules and groups, `limitSeconds` is the weekday or
+ * budget-window limit in effect at `now` (defaults to the current time),
+ * falling back to `limitMinutes`.
+ *
  * Returns `null` when no rule applies (the domain is unrestricted).
  */
 export function resolveEffectivePolicy(
   hostname: string,
   settings: Settings,
+  path?: string,
+  now = Date.now(),
 ): EffectivePolicy | null {
   // Normalize once; pass the pre-normalized form to resolveDomainRule.
   const host = normalizeHostname(hostname);
 
   // Build (or reuse cached) index and resolve via O(labels) Map lookups.
   const index = getOrBuildIndex(settings);
-  const resolved = resolveDomainRule(host, index);
+  const resolved = resolveDomainRule(host, index, path);
+
+  // 0. Allow exception
+  if (resolved?.kind === "allow-exception") {
+    return { mode: "allow", reason: "allow-exception", configuredDomain: resolved.domain };
+  }
 
   // 1. Per-site rule
   if (resolved?.kind === "site") {
     const { rule } = resolved;
+    const limit = rule.mode === "limit" ? resolveLimitMinutes(rule, new Date(now)) : undefined;
     return {
       mode: rule.mode,
-      limitSeconds: rule.mode === "limit" ? (rule.limitMinutes ?? 0) * 60 : undefined,
+      limitSeconds: limit ? limit.minutes * 60 : undefined,
+      limitSource: limit?.source,
       reason: "site-rule",
       configuredDomain: rule.domain,
+      configuredPath: rule.path,
       delayEnabled: rule.delayEnabled,
       delaySeconds: rule.delaySeconds ?? settings.defaultDelaySeconds,
+      warningMinutes: rule.warningMinutes,
       schedule: rule.schedule,
+      budgets: rule.budgets,
     };
   }
 
   // 2. Group rule
   if (resolved?.kind === "group") {
     const { group } = resolved;
+    const limit = group.mode === "limit" ? resolveLimitMinutes(group, new Date(now)) : undefined;
     return {
       mode: group.mode,
-      limitSeconds: group.mode === "limit" ? (group.limitMinutes ?? 0) * 60 : undefined,
+      limitSeconds: limit ? limit.minutes * 60 : undefined,
+      limitSource: limit?.source,
       reason: "group",
       groupId: group.id,
       delayEnabled: group.delayEnabled,
       delaySeconds: group.delaySeconds ?? settings.defaultDelaySeconds,
+      warningMinutes: group.warningMinutes,
       schedule: group.schedule,
+      budgets: group.budgets,
     };
   }
 
@@ -178,12 +254,19 @@ export function resolveEffectivePolicy(
  *
  * For site-rule with mode === "limit", usage is summed for the configured
  * domain and all its subdomains (e.g. tracking both "twitter.com" and
- * "m.twitter.com" against a single rule for "twitter.com").
+ * "m.twitter.com" against a single rule for "twitter.com"). Path rules read
+ * the usage recorded under their own key (e.g. "youtube.com/shorts").
+ *
+ * `path` is the page path (`location.pathname`); omit it when only the
+ * hostname is known. `now` (unix ms) defaults to the current time and is
+ * used for Locked In expiry and schedule evaluation.
  */
 export function computeBlockedState(
   hostname: string,
   usage: UsageMap,
   settings: Settings,
+  path?: string,
+  now = Date.now(),
 ): BlockedState {
   // ── Allowlist Mode: evaluated first — overrides Locked In and all other rules ──
   if (settings.allowlistMode?.enabled) {
@@ -202,16 +285,18 @@ export function computeBlockedState(
   }
 
   // ── Locked In Mode: evaluated before all other rules ──────────────────────
+  // A Pomodoro break without a break allowlist falls through to normal rules.
   const session = settings.lockedInSession;
-  if (session?.active && Date.now() < session.endTs) {
+  const allowlist = session?.active && now < session.endTs ? lockedInAllowlistAt(session, now) : null;
+  if (session && allowlist) {
     const host = normalizeHostname(hostname);
-    const isAllowed = session.allowedDomains.some((d) =>
-      domainCovers(host, normalizeHostname(d)),
-    );
+    const isAllowed = allowlist.some((d) => domainCovers(host, normalizeHostname(d)));
 
     if (!isAllowed) {
       // Domain is not in the session's allowed list — block unconditionally.
-      return { blocked: true, message: MSG_LOCKED_IN, mode: "block", lockedIn: true };
+      const onBreak = (pomodoroPhaseAt(session, now)?.kind ?? "focus") !== "focus";
+      const message = onBreak ? MSG_LOCKED_IN_BREAK : MSG_LOCKED_IN;
+      return { blocked: true, message, mode: "block", lockedIn: true };
     }
 
     // Domain is in the allowed list — grant access, bypassing all other rules.
@@ -219,13 +304,13 @@ export function computeBlockedState(
     return { blocked: false };
   }
 
-  const policy = resolveEffectivePolicy(hostname, settings);
-  if (!policy) return { blocked: false };
+  const policy = resolveEffectivePolicy(hostname, settings, path, now);
+  if (!policy || policy.mode === "allow") return { blocked: false };
 
   // Schedule gate: if the matched rule has schedules and none is currently
   // active, skip the rule for this time window (site is unrestricted).
   if (policy.schedule && policy.schedule.length > 0) {
-    if (!isAnyScheduleActive(policy.schedule, new Date())) {
+    if (!isAnyScheduleActive(policy.schedule, new Date(now))) {
       return { blocked: false };
     }
   }
@@ -257,11 +342,140 @@ export function computeBlockedState(
   return { blocked: false, mode: "limit", remainingSeconds: remaining };
 }
 
+// ─── nextPolicyTransition ─────────────────────────────────────────────────────
+
+/**
+ * The first moment after `now` at which `computeBlockedState` for `hostname`
+ * could return a different verdict, or null when nothing is due.
+ *
+ * Boundaries considered (earliest wins):
+ *  - Locked In: the session's `endTs` and the end of the current Pomodoro
+ *    phase. While the session decides the verdict, rules are not consulted.
+ *  - Recurring Locked In: the next start of each enabled window.
+ *  - The matched rule's schedule windows: the end of each running
+ *    occurrence (an overnight window ends the next morning) and the next
+ *    start of each window.
+ *  - Limit rules: the next local midnight, where a weekday budget may take
+ *    over, the start and end of each budget window, and the moment the remaining time runs out with continuous use.
+ *
+ * Allowlist Mode and emergency unlocks only change through a write or have
+ * their own expiry (CHECK_URL reports an unlock's remaining time).
+ *
+ * "Could" — at a boundary where an overlapping window keeps the rule
+ * active, the verdict stays the same; callers re-check and ask again.
+ */
+export function nextPolicyTransition(
+  hostname: string,
+  settings: Settings,
+  usage: UsageMap,
+  now: number,
+  path?: string,
+): number | null {
+  if (settings.allowlistMode?.enabled) return null;
+
+  const date = new Date(now);
+  const candidates: (number | null | undefined)[] = [];
+
+  for (const entry of settings.recurringLockedIn ?? []) {
+    if (entry.enabled) candidates.push(nextScheduleStart(entry.schedule, date));
+  }
+
+  const session = settings.lockedInSession;
+  if (session?.active && now < session.endTs) {
+    candidates.push(session.endTs, pomodoroPhaseAt(session, now)?.endTs);
+    // Locked In decides the verdict until its next boundary.
+    if (lockedInAllowlistAt(session, now)) return earliestAfter(candidates, now);
+  }
+
+  const policy = resolveEffectivePolicy(hostname, settings, path, now);
+  if (policy && policy.mode !== "allow") {
+    for (const window of policy.schedule ?? []) {
+      candidates.push(scheduleOccurrenceAt(window, date)?.endTs, nextScheduleStart(window, date));
+    }
+
+    if (policy.mode === "limit") {
+      candidates.push(new Date(date.getFullYear(), date.getMonth(), date.getDate() + 1).getTime());
+      for (const window of policy.budgets ?? []) {
+        candidates.push(scheduleOccurrenceAt(window, date)?.endTs, nextScheduleStart(window, date));
+      }
+      const state = computeBlockedState(hostname, usage, settings, path, now);
+      if (!state.blocked && state.remainingSeconds) {
+        candidates.push(now + state.remainingSeconds * 1_000);
+      }
+    }
+  }
+
+  return earliestAfter(candidates, now);
+}
+
+// ─── blockLiftsAt ─────────────────────────────────────────────────────────────
+
+/** Boundaries after which a block that has not lifted is reported as lasting. */
+const LIFT_MAX_STEPS = 64;
+
+/** How far ahead `blockLiftsAt` looks. */
+const LIFT_HORIZON_MS = 8 * 24 * 60 * 60 * 1_000;
+
+/** The next end of a usage window after `now` — where a used-up limit resets. */
+function nextUsageReset(usage: UsageMap, config: ResetWindowConfig, now: number): number | null {
+  if (config.anchor) return nextAnchorAt(config.anchor, now);
+  const intervalMs = config.intervalHours * 3_600_000;
+  return earliestAfter(
+    Object.values(usage).map((u) => u.windowStartTs + intervalMs),
+    now,
+  );
+}
+
+/**
+ * When a block on `hostname` ends without the user doing anything, or null
+ * when it does not within LIFT_HORIZON_MS — a plain block rule, Allowlist
+ * Mode.
+ *
+ * Steps from boundary to boundary (`nextPolicyTransition`, plus the end of
+ * the usage window for a used-up limit) and returns the first one at which
+ * `computeBlockedState` no longer blocks: the session end for Locked In,
+ * the schedule end for a scheduled block, the window reset for a limit.
+ * Usage is taken as frozen — a blocked site accrues none.
+ */
+export function blockLiftsAt(
+  hostname: string,
+  settings: Settings,
+  usage: UsageMap,
+  now: number,
+  path?: string,
+): number | null {
+  let ts = now;
+  let current = usage;
+
+  for (let step = 0; step < LIFT_MAX_STEPS; step++) {
+    const next = earliestAfter(
+      [
+        nextPolicyTransition(hostname, settings, current, ts, path),
+        nextUsageReset(current, settings.resetWindow, ts),
+      ],
+      ts,
+    );
+    if (next === null || next - now > LIFT_HORIZON_MS) return null;
+
+    current = pruneExpired(current, settings.resetWindow, next) ?? current;
+    if (!computeBlockedState(hostname, current, settings, path, next).blocked) return next;
+    ts = next;
+  }
+  return null;
+}
+
+/** The smallest candidate strictly after `now`, or null. */
+function earliestAfter(candidates: (number | null | undefined)[], now: number): number | null {
+  const future = candidates.filter((ts): ts is number => typeof ts === "number" && ts > now);
+  return future.length > 0 ? Math.min(...future) : null;
+}
+
 // ─── Internal: usage resolution ──────────────────────────────────────────────
 
 /**
  * Resolve the seconds-used for `hostname` under the given policy.
  *
+ * - site-rule with a path: the usage recorded under the rule's own key.
  * - site-rule: sum all usage keys that fall under the configured domain.
  * - group:     sum all usage keys that fall under any domain in the group.
  * - global-defaults: look up the exact hostname only (each domain is independent).
@@ -272,6 +486,10 @@ function resolveUsedSeconds(
   policy: EffectivePolicy,
   settings: Settings,
 ): number {
+  if (policy.reason === "site-rule" && policy.configuredDomain && policy.configuredPath) {
+    return usage[ruleUsageKey(policy.configuredDomain, policy.configuredPath)]?.activeSeconds ?? 0;
+  }
+
   if (policy.reason === "site-rule" && policy.configuredDomain) {
     return sumUsageUnder(policy.configuredDomain, usage);
   }
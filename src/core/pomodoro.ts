@@ -0,0 +1,102 @@
+/**
+ * JustDetox — Pomodoro phases for Locked In Mode.
+ *
+ * A Pomodoro session is an ordinary `LockedInSession` carrying a
+ * `PomodoroConfig`. Its phases are derived from `startTs` on demand rather
+ * than stored, so the background, the policy engine and the popup always
+ * agree on the current phase:
+ *
+ *   focus 1 → short break → focus 2 → … → long break → … → focus N
+ *
+ * A long break follows every `longBreakEvery`-th focus interval; the session
+ * ends with the last focus interval (no trailing break).
+ *
+ * Pure — no Chrome APIs. `now` is passed explicitly for testability.
+ */
+
+import type { LockedInSession, PomodoroConfig } from "./types";
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+export type PomodoroPhaseKind = "focus" | "short-break" | "long-break";
+
+export interface PomodoroPhase {
+  kind: PomodoroPhaseKind;
+  /** 1-based focus interval this phase belongs to (a break shares the preceding focus's number). */
+  cycle: number;
+  startTs: number;
+  endTs: number;
+}
+
+// ─── Phases ───────────────────────────────────────────────────────────────────
+
+/** Every phase of a session started at `startTs`, in order. */
+export function pomodoroPhases(config: PomodoroConfig, startTs: number): PomodoroPhase[] {
+  const phases: PomodoroPhase[] = [];
+  let ts = startTs;
+
+  for (let cycle = 1; cycle <= config.cycles; cycle++) {
+    const focusEnd = ts + config.focusMinutes * 60_000;
+    phases.push({ kind: "focus", cycle, startTs: ts, endTs: focusEnd });
+    ts = focusEnd;
+
+    if (cycle === config.cycles) break;
+
+    const long = cycle % config.longBreakEvery === 0;
+    const breakEnd = ts + (long ? config.longBreakMinutes : config.shortBreakMinutes) * 60_000;
+    phases.push({ kind: long ? "long-break" : "short-break", cycle, startTs: ts, endTs: breakEnd });
+    ts = breakEnd;
+  }
+
+  return phases;
+}
+
+/** Total length of a Pomodoro session in ms. */
+export function pomodoroDurationMs(config: PomodoroConfig): number {
+  const phases = pomodoroPhases(config, 0);
+  return phases[phases.length - 1]?.endTs ?? 0;
+}
+
+/**
+ * The phase a Pomodoro session is in at `now`, or null when the session is
+ * not a Pomodoro session or `now` is outside it.
+ */
+export function pomodoroPhaseAt(session: LockedInSession, now: number): PomodoroPhase | null {
+  if (!session.pomodoro || now < session.startTs) return null;
+  return pomodoroPhases(session.pomodoro, session.startTs).find((p) => now < p.endTs) ?? null;
+}
+
+/** Focus intervals fully elapsed at `now`. */
+export function completedCycles(config: PomodoroConfig, startTs: number, now: number): number {
+  return pomodoroPhases(config, startTs).filter((p) => p.kind === "focus" && p.endTs <= now).length;
+}
+
+/** Minutes spent in focus — the whole session for a single-block one. */
+export function focusMinutesOf(session: LockedInSession): number {
+  if (!session.pomodoro) return (session.endTs - session.startTs) / 60_000;
+  return session.pomodoro.cycles * session.pomodoro.focusMinutes;
+}
+
+/**
+ * The domains that bind at `now`: the session allowlist during focus (and for
+ * single-block sessions), the break allowlist during a break, or null when a
+ * break falls back to the normal rules.
+ */
+export function lockedInAllowlistAt(session: LockedInSession, now: number): string[] | null {
+  const phase = pomodoroPhaseAt(session, now);
+  if (!phase || phase.kind === "focus") return session.allowedDomains;
+  const breakDomains = session.pomodoro?.breakAllowedDomains ?? [];
+  return breakDomains.length > 0 ? breakDomains : null;
+}
+
+/** "Focus 2/4", "Short break", "Long break". */
+export function describePhase(phase: PomodoroPhase, config: PomodoroConfig): string {
+  switch (phase.kind) {
+    case "focus":
+      return `Focus ${phase.cycle}/${config.cycles}`;
+    case "short-break":
+      return "Short break";
+    case "long-break":
+      return "Long break";
+  }
+}
@@ -1,8 +1,11 @@
 /**
  * JustDetox — Protected Settings Gate core logic.
  *
- * Provides `computeImportDiff` which compares an incoming settings backup
- * to the current settings and enumerates every reduction in protection.
+ * `diffProtection` compares two settings snapshots and classifies every
+ * reduction in protection, each tagged with the `FrictionActionType` that
+ * labels it on the gate. Every `patch()` in the options page goes through it
+ * (see ui/options/hooks/useGuardedPatch.ts), and `computeImportDiff` wraps it
+ * for imports.
  *
  * The actual gate UI is in src/ui/components/ProtectedGate.tsx.
  * The gate is invoked via the same `askFriction()` API as the Friction Layer,
@@ -10,59 +13,91 @@
  * `settings.protectedGate.enabled` is true.
  */
 
-import type { Settings } from "./types";
+import type { Settings, SiteRule, SiteGroup } from "./types";
+import type { FrictionActionType } from "./friction";
+import { ruleUsageKey } from "./urlPattern";
+import { budgetRaised } from "./budget";
+import { scheduleNarrowed } from "./schedule";
 
-// ─── Import diff ──────────────────────────────────────────────────────────────
+// ─── Protection diff ──────────────────────────────────────────────────────────
 
-export interface ProtectionDiff {
-  /** True when the incoming settings reduce protection in any way. */
-  reducesProtection: boolean;
-  /** Human-readable list of individual reductions (shown in the gate). */
-  reductions: string[];
+/** One change that makes blocking weaker. */
+export interface ProtectionReduction {
+  actionType: FrictionActionType;
+  /** Human-readable description (shown in the gate). */
+  label: string;
+  /** Domain the change concerns, for the gate's usage context. */
+  domain?: string;
 }
 
 /**
- * Compare `incoming` settings (from an import file) to `current` settings
- * and return every protection reduction.
+ * Every change from `before` to `after` that makes blocking weaker:
  *
- * A "reduction" is any change that makes blocking weaker:
  *  - Extension being disabled
  *  - Domain removed from the always-blocked list
- *  - Site rule removed (when it was an enabled block/limit)
- *  - Site rule relaxed: block → limit, or limit increased
- *  - Group removed (when it was enabled)
- *  - Group relaxed: block → limit, limit increased, or domain removed
+ *  - Allow exception added
+ *  - Site rule or group removed or turned off (when it was enabled)
+ *  - Site rule or group relaxed: block → limit, limit or weekday / window
+ *    budget increased, domain removed from a group
+ *  - Site rule or group schedule narrowed (it applies less of the week)
+ *  - Delay Mode turned off or shortened, per rule or by default
+ *  - Global defaults relaxed
+ *  - Allowlist Mode turned off or given more domains
+ *  - Reset window length or anchor changed
+ *  - Friction Layer or Protected Gate weakened
+ *  - Background-audio or all-windows tracking turned off
+ *  - Idle detection turned on, its threshold lowered, or media no longer
+ *    counted while idle
+ *  - Emergency unlock quota raised
+ *  - Recurring Locked In session removed or turned off, its schedule
+ *    narrowed, its allowed domains widened or its source group changed
  *
  * Does NOT flag changes that increase protection (new rules, lower limits, etc.).
+ * Pure.
  */
-export function computeImportDiff(current: Settings, incoming: Settings): ProtectionDiff {
-  const reductions: string[] = [];
+export function diffProtection(before: Settings, after: Settings): ProtectionReduction[] {
+  const reductions: ProtectionReduction[] = [];
+  const add = (actionType: FrictionActionType, label: string, domain?: string) =>
+    reductions.push({ actionType, label, domain });
 
   // ── Extension master switch ──────────────────────────────────────────────
-  if (!current.disabled && incoming.disabled) {
-    reductions.push("Extension will be disabled");
+  if (!before.disabled && after.disabled) {
+    add("disable-extension", "Extension will be disabled");
   }
 
   // ── Always-blocked list ──────────────────────────────────────────────────
-  for (const domain of current.globalBlockList) {
-    if (!incoming.globalBlockList.includes(domain)) {
-      reductions.push(`"${domain}" removed from always-blocked list`);
+  for (const domain of before.globalBlockList) {
+    if (!after.globalBlockList.includes(domain)) {
+      add("remove-domain", `"${domain}" removed from always-blocked list`, domain);
+    }
+  }
+
+  // ── Allow exceptions ─────────────────────────────────────────────────────
+  for (const domain of after.allowExceptions) {
+    if (!before.allowExceptions.includes(domain)) {
+      add("add-allow-exception", `"${domain}" added as an allow exception`, domain);
     }
   }
 
   // ── Site rules ───────────────────────────────────────────────────────────
-  for (const rule of current.siteRules) {
+  for (const rule of before.siteRules) {
     if (!rule.enabled) continue; // already disabled — not a regression
 
-    const newRule = incoming.siteRules.find((r) => r.domain === rule.domain);
+    // Rules are identified by domain + path (path rules may share a domain).
+    const key = ruleUsageKey(rule.domain, rule.path);
+    const newRule = after.siteRules.find((r) => ruleUsageKey(r.domain, r.path) === key);
 
     if (!newRule) {
-      reductions.push(`Block rule for "${rule.domain}" removed`);
+      add("delete-site-rule", `Block rule for "${key}" removed`, rule.domain);
+      continue;
+    }
+    if (!newRule.enabled) {
+      add("disable-site-rule", `Site rule "${key}" turned off`, rule.domain);
       continue;
     }
 
     if (rule.mode === "block" && newRule.mode === "limit") {
-      reductions.push(`"${rule.domain}" changed from block → time limit`);
+      add("rule-block-to-limit", `"${key}" changed from block → time limit`, rule.domain);
     }
 
     if (
@@ -70,25 +105,35 @@ export function computeImportDiff(current: Settings, incoming: Settings): Protec
       newRule.mode === "limit" &&
       (newRule.limitMinutes ?? 0) > (rule.limitMinutes ?? 0)
     ) {
-      reductions.push(
-        `"${rule.domain}" limit increased from ${rule.limitMinutes ?? 0} min to ${newRule.limitMinutes ?? 0} min`,
+      add(
+        "rule-limit-increase",
+        `"${key}" limit increased from ${rule.limitMinutes ?? 0} min to ${newRule.limitMinutes ?? 0} min`,
+        rule.domain,
       );
+    } else if (rule.mode === "limit" && newRule.mode === "limit" && budgetRaised(rule, newRule)) {
+      add("rule-limit-increase", `"${key}" weekday or window budget increased`, rule.domain);
     }
+
+    diffTarget(`"${key}"`, rule, newRule, before, after, rule.domain, add);
   }
 
   // ── Groups ───────────────────────────────────────────────────────────────
-  for (const group of current.groups) {
+  for (const group of before.groups) {
     if (!group.enabled) continue;
 
-    const newGroup = incoming.groups.find((g) => g.id === group.id);
+    const newGroup = after.groups.find((g) => g.id === group.id);
 
     if (!newGroup) {
-      reductions.push(`Group "${group.name}" removed`);
+      add("delete-group", `Group "${group.name}" removed`);
+      continue;
+    }
+    if (!newGroup.enabled) {
+      add("disable-group", `Group "${group.name}" turned off`);
       continue;
     }
 
     if (group.mode === "block" && newGroup.mode === "limit") {
-      reductions.push(`Group "${group.name}" changed from block → time limit`);
+      add("group-block-to-limit", `Group "${group.name}" changed from block → time limit`);
     }
 
     if (
@@ -96,17 +141,205 @@ export function computeImportDiff(current: Settings, incoming: Settings): Protec
       newGroup.mode === "limit" &&
       (newGroup.limitMinutes ?? 0) > (group.limitMinutes ?? 0)
     ) {
-      reductions.push(
+      add(
+        "group-limit-increase",
         `Group "${group.name}" limit increased from ${group.limitMinutes ?? 0} min to ${newGroup.limitMinutes ?? 0} min`,
       );
+    } else if (group.mode === "limit" && newGroup.mode === "limit" && budgetRaised(group, newGroup)) {
+      add("group-limit-increase", `Group "${group.name}" weekday or window budget increased`);
     }
 
     for (const domain of group.domains) {
       if (!newGroup.domains.includes(domain)) {
-        reductions.push(`"${domain}" removed from group "${group.name}"`);
+        add("remove-domain", `"${domain}" removed from group "${group.name}"`, domain);
+      }
+    }
+
+    diffTarget(`Group "${group.name}"`, group, newGroup, before, after, undefined, add);
+  }
+
+  // ── Global defaults ──────────────────────────────────────────────────────
+  const gBefore = before.globalDefaults;
+  const gAfter = after.globalDefaults;
+  if (gBefore?.mode === "block" && gAfter?.mode !== "block") {
+    add("relax-global-defaults", "Global default no longer blocks unlisted sites");
+  } else if (gBefore?.mode === "limit") {
+    if (gAfter?.mode !== "limit" && gAfter?.mode !== "block") {
+      add("relax-global-defaults", "Global default limit removed");
+    } else if (gAfter.mode === "limit" && (gAfter.limitMinutes ?? 0) > (gBefore.limitMinutes ?? 0)) {
+      add(
+        "relax-global-defaults",
+        `Global default limit increased from ${gBefore.limitMinutes ?? 0} min to ${gAfter.limitMinutes ?? 0} min`,
+      );
+    }
+  }
+
+  // ── Default delay ────────────────────────────────────────────────────────
+  if (after.defaultDelaySeconds < before.defaultDelaySeconds) {
+    add(
+      "shorten-delay",
+      `Default delay shortened from ${before.defaultDelaySeconds} s to ${after.defaultDelaySeconds} s`,
+    );
+  }
+
+  // ── Allowlist Mode ───────────────────────────────────────────────────────
+  if (before.allowlistMode.enabled) {
+    if (!after.allowlistMode.enabled) {
+      add("loosen-allowlist", "Allowlist Mode turned off");
+    } else {
+      for (const domain of after.allowlistMode.allowedDomains) {
+        if (!before.allowlistMode.allowedDomains.includes(domain)) {
+          add("loosen-allowlist", `"${domain}" added to Allowlist Mode`, domain);
+        }
+      }
+    }
+  }
+
+  // ── Reset window ─────────────────────────────────────────────────────────
+  // Either direction re-times when every limit refills, so both are gated.
+  const rBefore = before.resetWindow;
+  const rAfter = after.resetWindow;
+  if (rAfter.intervalHours !== rBefore.intervalHours) {
+    add(
+      "change-reset-window",
+      `Reset window changed from ${rBefore.intervalHours} h to ${rAfter.intervalHours} h`,
+    );
+  } else if (JSON.stringify(rAfter.anchor) !== JSON.stringify(rBefore.anchor)) {
+    add("change-reset-window", "Reset window anchor changed");
+  }
+
+  // ── Friction Layer / Protected Gate ──────────────────────────────────────
+  if (before.friction.enabled && !after.friction.enabled) {
+    add("weaken-gate", "Friction Layer turned off");
+  }
+  const pgBefore = before.protectedGate;
+  const pgAfter = after.protectedGate;
+  if (pgBefore.enabled) {
+    if (!pgAfter.enabled) {
+      add("weaken-gate", "Protected Gate turned off");
+    } else {
+      if (pgBefore.requirePhrase && !pgAfter.requirePhrase) {
+        add("weaken-gate", "Protected Gate no longer requires the phrase");
+      }
+      if (pgBefore.requireCooldown && !pgAfter.requireCooldown) {
+        add("weaken-gate", "Protected Gate no longer requires the cooldown");
+      } else if (pgAfter.cooldownSeconds < pgBefore.cooldownSeconds) {
+        add(
+          "weaken-gate",
+          `Protected Gate cooldown shortened from ${pgBefore.cooldownSeconds} s to ${pgAfter.cooldownSeconds} s`,
+        );
+      }
+    }
+  }
+
+  // ── Tracking ─────────────────────────────────────────────────────────────
+  // Counting fewer tabs, or pausing sooner, counts less time against limits.
+  if (before.tracking.audibleTabs && !after.tracking.audibleTabs) {
+    add("reduce-tab-tracking", "Background audio tabs no longer counted");
+  }
+  if (before.tracking.allWindows && !after.tracking.allWindows) {
+    add("reduce-tab-tracking", "Other windows' tabs no longer counted");
+  }
+
+  const iBefore = before.idleDetection;
+  const iAfter = after.idleDetection;
+  if (iAfter.enabled && !iBefore.enabled) {
+    add("loosen-idle-detection", `Tracking will pause after ${iAfter.thresholdSeconds} s idle`);
+  } else if (iAfter.enabled) {
+    if (iAfter.thresholdSeconds < iBefore.thresholdSeconds) {
+      add(
+        "loosen-idle-detection",
+        `Idle threshold lowered from ${iBefore.thresholdSeconds} s to ${iAfter.thresholdSeconds} s`,
+      );
+    }
+    if (iBefore.countWhilePlayingMedia && !iAfter.countWhilePlayingMedia) {
+      add("loosen-idle-detection", "Playing media no longer counted while idle");
+    }
+  }
+
+  // ── Emergency unlocks ────────────────────────────────────────────────────
+  const eBefore = before.emergencyUnlock;
+  const eAfter = after.emergencyUnlock;
+  if (
+    (eAfter.enabled && !eBefore.enabled) ||
+    (eAfter.enabled &&
+      (eAfter.unlocksPerWindow > eBefore.unlocksPerWindow ||
+        eAfter.minutesPerUnlock > eBefore.minutesPerUnlock))
+  ) {
+    add(
+      "emergency-quota-increase",
+      `Emergency unlocks raised to ${eAfter.unlocksPerWindow} × ${eAfter.minutesPerUnlock} min per window`,
+    );
+  }
+
+  // ── Recurring Locked In sessions ─────────────────────────────────────────
+  for (const entry of before.recurringLockedIn) {
+    if (!entry.enabled) continue;
+    const next = after.recurringLockedIn.find((e) => e.id === entry.id);
+    if (!next) {
+      add("disable-recurring-session", `Recurring session "${entry.name}" removed`);
+    } else if (!next.enabled) {
+      add("disable-recurring-session", `Recurring session "${entry.name}" turned off`);
+    } else {
+      const name = `Recurring session "${entry.name}"`;
+      if (scheduleNarrowed([entry.schedule], [next.schedule])) {
+        add("loosen-recurring-session", `${name} schedule narrowed`);
+      }
+      for (const domain of next.allowedDomains) {
+        if (!entry.allowedDomains.includes(domain)) {
+          add("loosen-recurring-session", `"${domain}" allowed during ${name}`, domain);
+        }
       }
+      // Another group may allow more domains.
+      if (next.sourceGroupId !== entry.sourceGroupId) {
+        add("loosen-recurring-session", `${name} allowed-sites group changed`);
+      }
+    }
+  }
+
+  return reductions;
+}
+
+/** Schedule and Delay Mode reductions shared by site rules and groups. */
+function diffTarget(
+  name: string,
+  was: SiteRule | SiteGroup,
+  is: SiteRule | SiteGroup,
+  before: Settings,
+  after: Settings,
+  domain: string | undefined,
+  add: (actionType: FrictionActionType, label: string, domain?: string) => void,
+): void {
+  if (scheduleNarrowed(was.schedule, is.schedule)) {
+    add("narrow-schedule", `${name} schedule narrowed`, domain);
+  }
+
+  if (was.delayEnabled && !is.delayEnabled) {
+    add("shorten-delay", `${name} delay turned off`, domain);
+  } else if (was.delayEnabled && is.delayEnabled) {
+    const from = was.delaySeconds ?? before.defaultDelaySeconds;
+    const to = is.delaySeconds ?? after.defaultDelaySeconds;
+    // A per-target delay that just follows the default is reported once, above.
+    if (to < from && (was.delaySeconds !== undefined || is.delaySeconds !== undefined)) {
+      add("shorten-delay", `${name} delay shortened from ${from} s to ${to} s`, domain);
     }
   }
+}
+
+// ─── Import diff ──────────────────────────────────────────────────────────────
+
+export interface ProtectionDiff {
+  /** True when the incoming settings reduce protection in any way. */
+  reducesProtection: boolean;
+  /** Human-readable list of individual reductions (shown in the gate). */
+  reductions: string[];
+}
 
+/**
+ * Compare `incoming` settings (from an import file) to `current` settings
+ * and return every protection reduction `diffProtection` finds, as labels.
+ */
+export function computeImportDiff(current: Settings, incoming: Settings): ProtectionDiff {
+  const reductions = diffProtection(current, incoming).map((r) => r.label);
   return { reducesProtection: reductions.length > 0, reductions };
 }
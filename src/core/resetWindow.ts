@@ -0,0 +1,120 @@
+/**
+ * JustDetox — Reset window evaluation.
+ *
+ * Two ways of deciding when a tracking window ends:
+ *
+ *   Rolling (default) — each record has its own window that ends
+ *                       `intervalHours` after its `windowStartTs`, so
+ *                       different domains reset at different times.
+ *   Anchored          — windows are aligned to a fixed local time, daily
+ *                       ("every day at 04:00") or weekly ("Mondays at
+ *                       04:00"). Every record started before the most
+ *                       recent boundary is expired, so usage, temptations,
+ *                       the Dopamine Score and the self-control log all roll
+ *                       over together.
+ *
+ * Pure — all functions accept an explicit `now` (unix ms) for testability.
+ */
+
+import type { ResetAnchor, ResetWindowConfig } from "./types";
+
+// ─── Constants ────────────────────────────────────────────────────────────────
+
+const WEEKDAY_NAMES = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"] as const;
+
+// ─── Anchored boundaries ──────────────────────────────────────────────────────
+
+/**
+ * Most recent anchor boundary at or before `now`, in local time.
+ *
+ * Uses calendar arithmetic (`setDate`) rather than fixed millisecond
+ * offsets so the boundary stays on the configured wall-clock time across
+ * daylight-saving changes.
+ */
+export function anchorStartAt(anchor: ResetAnchor, now: number): number {
+  const date = new Date(now);
+  const start = new Date(date.getFullYear(), date.getMonth(), date.getDate(), 0, anchor.minutes);
+  const periodDays = anchor.period === "weekly" ? 7 : 1;
+
+  if (anchor.period === "weekly") {
+    const back = (date.getDay() - (anchor.weekday ?? 1) + 7) % 7;
+    start.setDate(start.getDate() - back);
+  }
+  if (start.getTime() > now) start.setDate(start.getDate() - periodDays);
+
+  return start.getTime();
+}
+
+/** First anchor boundary strictly after `now`. */
+export function nextAnchorAt(anchor: ResetAnchor, now: number): number {
+  const next = new Date(anchorStartAt(anchor, now));
+  next.setDate(next.getDate() + (anchor.period === "weekly" ? 7 : 1));
+  return next.getTime();
+}
+
+// ─── Window checks ────────────────────────────────────────────────────────────
+
+/**
+ * Returns `true` when a window that began at `windowStartTs` has ended.
+ *
+ * @example
+ *   // Anchored daily at 04:00 — a record from 23:00 expires at 04:00
+ *   windowExpired({ intervalHours: 24, anchor: { period: "daily", minutes: 240 } }, elevenPm, fiveAm)
+ *   // → true
+ */
+export function windowExpired(
+  config: ResetWindowConfig,
+  windowStartTs: number,
+  now: number,
+): boolean {
+  if (config.anchor) return windowStartTs < anchorStartAt(config.anchor, now);
+  return now - windowStartTs >= config.intervalHours * 3_600_000;
+}
+
+/**
+ * `windowStartTs` for a window opened at `now` — the current anchor
+ * boundary when anchored, `now` itself when rolling.
+ */
+export function windowStartAt(config: ResetWindowConfig, now: number): number {
+  return config.anchor ? anchorStartAt(config.anchor, now) : now;
+}
+
+/**
+ * Drop every record whose window has ended. Returns `null` when nothing
+ * expired so callers can skip the storage write.
+ */
+export function pruneExpired<T extends { windowStartTs: number }>(
+  map: Record<string, T>,
+  config: ResetWindowConfig,
+  now: number,
+): Record<string, T> | null {
+  const kept = Object.entries(map).filter(
+    ([, record]) => !windowExpired(config, record.windowStartTs, now),
+  );
+  return kept.length === Object.keys(map).length ? null : Object.fromEntries(kept);
+}
+
+// ─── Display ──────────────────────────────────────────────────────────────────
+
+/** Convert minutes-since-midnight to "04:00". */
+export function formatAnchorTime(minutes: number): string {
+  const h = Math.floor(minutes / 60) % 24;
+  const m = minutes % 60;
+  return `${String(h).padStart(2, "0")}:${String(m).padStart(2, "0")}`;
+}
+
+/**
+ * Short label for the reset cycle.
+ *
+ * @example
+ *   describeResetWindow({ intervalHours: 24 })                                          → "24h"
+ *   describeResetWindow({ intervalHours: 24, anchor: { period: "daily", minutes: 240 } }) → "Daily 04:00"
+ */
+export function describeResetWindow(config: ResetWindowConfig): string {
+  const { anchor } = config;
+  if (!anchor) return `${config.intervalHours}h`;
+  const time = formatAnchorTime(anchor.minutes);
+  return anchor.period === "weekly"
+    ? `${WEEKDAY_NAMES[anchor.weekday ?? 1]} ${time}`
+    : `Daily ${time}`;
+}
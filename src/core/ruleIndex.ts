@@ -20,12 +20,16 @@
  *
  * # Precedence
  * The original precedence is preserved at the *tier* level:
+ *   0. Allow exceptions — an exception covering the hostname beats every rule
  *   1. Site rules  — any site-rule match beats any group match
  *   2. Group rules — any group match beats the global block list
  *   3. Global block list
  *
  * Within a single tier, the *most specific* domain wins (longest label match
- * first). For example, if both "youtube.com" and "m.youtube.com" exist as
+ * first). Within the site-rule tier, a path rule for a domain is checked
+ * before that domain's whole-host rule, so `youtube.com/shorts` beats
+ * `youtube.com` on a Shorts page while `/watch` falls through to the
+ * whole-host rule. For example, if both "youtube.com" and "m.youtube.com" exist as
  * separate site rules, visiting "m.youtube.com" applies the more specific rule.
  * This differs from the original array-order preference only in this rare
  * overlapping-rule edge case — the more-specific behaviour is more intuitive.
@@ -33,6 +37,7 @@
 
 import type { Settings, SiteRule, SiteGroup } from "./types";
 import { normalizeHostname } from "./match";
+import { pathMatches } from "./urlPattern";
 
 // ─── Types ────────────────────────────────────────────────────────────────────
 
@@ -44,16 +49,24 @@ import { normalizeHostname } from "./match";
  * group objects from `settings` — no data is duplicated.
  */
 export interface RuleIndex {
-  /** Normalized domain → the first enabled SiteRule for that domain. */
+  /** Normalized domain → the first enabled whole-host SiteRule for that domain. */
   siteRules: Map<string, SiteRule>;
+  /**
+   * Normalized domain → enabled SiteRules with a `path`, longest pattern
+   * first so the most specific path wins.
+   */
+  pathRules: Map<string, SiteRule[]>;
   /** Normalized domain → the first enabled SiteGroup that lists that domain. */
   groupRules: Map<string, SiteGroup>;
   /** Normalized domains in globalBlockList. */
   globalBlockDomains: Set<string>;
+  /** Normalized domains in allowExceptions. */
+  allowExceptions: Set<string>;
 }
 
 /** Discriminated union returned by `resolveDomainRule`. */
 export type ResolvedRule =
+  | { kind: "allow-exception"; domain: string }
   | { kind: "site"; rule: SiteRule }
   | { kind: "group"; group: SiteGroup }
   | { kind: "global-block" };
@@ -68,20 +81,33 @@ export type ResolvedRule =
  *
  * Rules are inserted in array order; the first enabled entry for a given
  * normalized domain wins (preserving the original array-order precedence
- * for exact-same-domain conflicts).
+ * for exact-same-domain conflicts). Path rules are kept in a separate
+ * per-domain list sorted by pattern length, descending.
  *
- * Time complexity: O(r + g·d + b) where r = siteRules count,
- * g = groups count, d = average domains per group, b = globalBlockList size.
+ * Time complexity: O(r + g·d + b + a) where r = siteRules count,
+ * g = groups count, d = average domains per group, b = globalBlockList size,
+ * a = allowExceptions size.
  */
 export function buildRuleIndex(settings: Settings): RuleIndex {
   const siteRules = new Map<string, SiteRule>();
+  const pathRules = new Map<string, SiteRule[]>();
   const groupRules = new Map<string, SiteGroup>();
   const globalBlockDomains = new Set<string>();
+  const allowExceptions = new Set<string>();
 
   for (const rule of settings.siteRules) {
     if (!rule.enabled) continue;
     const norm = normalizeHostname(rule.domain);
-    if (!siteRules.has(norm)) siteRules.set(norm, rule);
+    if (rule.path) {
+      pathRules.set(norm, [...(pathRules.get(norm) ?? []), rule]);
+    } else if (!siteRules.has(norm)) {
+      siteRules.set(norm, rule);
+    }
+  }
+
+  for (const rules of pathRules.values()) {
+    // Stable sort: equal-length patterns keep array order.
+    rules.sort((a, b) => (b.path?.length ?? 0) - (a.path?.length ?? 0));
   }
 
   for (const group of settings.groups) {
@@ -96,7 +122,11 @@ export function buildRuleIndex(settings: Settings): RuleIndex {
     globalBlockDomains.add(normalizeHostname(domain));
   }
 
-  return { siteRules, groupRules, globalBlockDomains };
+  for (const domain of settings.allowExceptions) {
+    allowExceptions.add(normalizeHostname(domain));
+  }
+
+  return { siteRules, pathRules, groupRules, globalBlockDomains, allowExceptions };
 }
 
 // ─── resolveDomainRule ────────────────────────────────────────────────────────
@@ -114,12 +144,18 @@ export function buildRuleIndex(settings: Settings): RuleIndex {
  * Tiers are checked exhaustively before advancing: all suffix levels are
  * checked for site rules before any suffix level is checked for group rules.
  * This ensures the original tier precedence (site > group > global-block) is
- * preserved regardless of specificity.
+ * preserved regardless of specificity. Allow exceptions are probed before
+ * every other tier, so "music.youtube.com" escapes a "youtube.com" rule.
+ *
+ * At each suffix level of the site tier, path rules matching `path` are
+ * probed before the whole-host rule for that level.
  *
  * Time complexity: O(labels) per tier, typically O(3–5) total.
  *
  * @param hostname  The page hostname (normalized internally — no pre-processing needed).
  * @param index     The compiled index from `buildRuleIndex` or `getOrBuildIndex`.
+ * @param path      The page path (`location.pathname`). Defaults to "/" (the
+ *                  site root) for callers that only know the hostname.
  *
  * @example
  *   // index has siteRules: { "youtube.com" → block rule }
@@ -127,13 +163,25 @@ export function buildRuleIndex(settings: Settings): RuleIndex {
  *   // probes "studio.youtube.com" (miss), then "youtube.com" (hit)
  *   // → { kind: "site", rule: <block rule> }
  */
-export function resolveDomainRule(hostname: string, index: RuleIndex): ResolvedRule | null {
+export function resolveDomainRule(
+  hostname: string,
+  index: RuleIndex,
+  path = "/",
+): ResolvedRule | null {
   const norm = normalizeHostname(hostname);
   const labels = norm.split(".");
 
+  // Priority 0: allow exceptions — an explicit allow beats every rule tier.
+  for (let i = 0; i < labels.length; i++) {
+    const candidate = labels.slice(i).join(".");
+    if (index.allowExceptions.has(candidate)) return { kind: "allow-exception", domain: candidate };
+  }
+
   // Priority 1: site rules — check all specificity levels before moving on.
   for (let i = 0; i < labels.length; i++) {
     const candidate = labels.slice(i).join(".");
+    const pathRule = index.pathRules.get(candidate)?.find((r) => pathMatches(r.path ?? "", path));
+    if (pathRule) return { kind: "site", rule: pathRule };
     const rule = index.siteRules.get(candidate);
     if (rule) return { kind: "site", rule };
   }
@@ -163,10 +211,10 @@ let _cachedIndex: RuleIndex | null = null;
  * Return the compiled index for `settings`, building it if needed.
  *
  * Uses reference equality on the settings object to detect staleness.
- * Because `getSettings()` creates a new object on every read (Zod parse),
- * the cache is naturally invalidated across separate settings loads. Within
- * a single settings load (same object reference), multiple policy calls
- * share one compiled index.
+ * Every storage read of `getSettings()` creates a new object (Zod parse), so
+ * the cache is naturally invalidated across separate settings loads. Calls
+ * that share one settings object — a single load, or the service worker's
+ * in-memory settings (see `cacheSettings`) — share one compiled index.
  *
  * The cache is also invalidated explicitly by `invalidateRuleIndex()`, which
  * storage.ts calls after writing new settings.
@@ -67,6 +67,93 @@ export function isAnyScheduleActive(schedules: ScheduleWindow[], now: Date): boo
   return schedules.some((s) => isScheduleActive(s, now));
 }
 
+// ─── Coverage comparison ──────────────────────────────────────────────────────
+
+const MINUTES_PER_WEEK = 7 * 1_440;
+
+/** Which minutes of the week (Sunday 00:00 = 0) `schedules` covers. */
+export function weeklyCoverage(schedules: ScheduleWindow[]): Uint8Array {
+  const covered = new Uint8Array(MINUTES_PER_WEEK);
+  // Same rule as isAnyScheduleActive: no windows → always active.
+  if (schedules.length === 0) return covered.fill(1);
+
+  for (const s of schedules) {
+    if (!s.enabled || s.startMinutes === s.endMinutes) continue;
+    for (const day of s.days) {
+      const start = day * 1_440 + s.startMinutes;
+      // Overnight windows run into the next day (wrapping Saturday → Sunday).
+      const length = (s.endMinutes - s.startMinutes + 1_440) % 1_440;
+      for (let i = 0; i < length; i++) covered[(start + i) % MINUTES_PER_WEEK] = 1;
+    }
+  }
+  return covered;
+}
+
+/**
+ * Returns `true` when `after` leaves out some minute of the week that
+ * `before` covered — i.e. a rule would apply less of the time. `undefined`
+ * and `[]` both mean "always active".
+ */
+export function scheduleNarrowed(
+  before: ScheduleWindow[] | undefined,
+  after: ScheduleWindow[] | undefined,
+): boolean {
+  const was = weeklyCoverage(before ?? []);
+  const is = weeklyCoverage(after ?? []);
+  return was.some((v, i) => v === 1 && is[i] === 0);
+}
+
+// ─── Occurrences ──────────────────────────────────────────────────────────────
+
+/** One concrete run of a schedule window, in unix ms. */
+export interface ScheduleOccurrence {
+  startTs: number;
+  endTs: number;
+}
+
+/** Unix ms for `minutes` past local midnight, `dayOffset` days from `now`. */
+function atMinutes(now: Date, dayOffset: number, minutes: number): number {
+  return new Date(now.getFullYear(), now.getMonth(), now.getDate() + dayOffset, 0, minutes).getTime();
+}
+
+/**
+ * The occurrence of `schedule` that contains `now`, or null when the window
+ * is not active. Overnight windows run from the start day into the next.
+ */
+export function scheduleOccurrenceAt(schedule: ScheduleWindow, now: Date): ScheduleOccurrence | null {
+  if (!isScheduleActive(schedule, now)) return null;
+  const { startMinutes, endMinutes } = schedule;
+
+  if (endMinutes > startMinutes) {
+    return { startTs: atMinutes(now, 0, startMinutes), endTs: atMinutes(now, 0, endMinutes) };
+  }
+
+  const minutes = now.getHours() * 60 + now.getMinutes();
+  // Evening side started today; morning side started yesterday.
+  const startDay = minutes >= startMinutes ? 0 : -1;
+  return {
+    startTs: atMinutes(now, startDay, startMinutes),
+    endTs: atMinutes(now, startDay + 1, endMinutes),
+  };
+}
+
+/**
+ * Unix ms of the first start of `schedule` strictly after `now`, or null
+ * when the window never starts (disabled, no days, zero length).
+ */
+export function nextScheduleStart(schedule: ScheduleWindow, now: Date): number | null {
+  if (!schedule.enabled || schedule.days.length === 0) return null;
+  if (schedule.startMinutes === schedule.endMinutes) return null;
+
+  // Today's start may still be ahead; a week later always repeats a day.
+  for (let offset = 0; offset <= 7; offset++) {
+    const ts = atMinutes(now, offset, schedule.startMinutes);
+    const day = new Date(ts).getDay();
+    if (ts > now.getTime() && schedule.days.includes(day)) return ts;
+  }
+  return null;
+}
+
 // ─── Display formatting ───────────────────────────────────────────────────────
 
 const DAY_ABBREVS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"] as const;
@@ -81,6 +168,26 @@ function minutesToDisplay(m: number): string {
   return `${h12}${padded === "" ? ":00" : padded} ${period}`;
 }
 
+/**
+ * An upcoming moment for display, relative to `now`: "today at 9:00 AM",
+ * "tomorrow at 9:00 AM", "Mon at 9:00 AM" later in the week, and
+ * "Mon 1/15 at 9:00 AM" beyond it.
+ */
+export function formatUpcomingTime(ts: number, now: number): string {
+  const date = new Date(ts);
+  const time = minutesToDisplay(date.getHours() * 60 + date.getMinutes());
+  const today = new Date(now);
+  const days = Math.round(
+    (new Date(date.getFullYear(), date.getMonth(), date.getDate()).getTime() -
+      new Date(today.getFullYear(), today.getMonth(), today.getDate()).getTime()) /
+      86_400_000,
+  );
+  if (days <= 0) return `today at ${time}`;
+  if (days === 1) return `tomorrow at ${time}`;
+  if (days < 7) return `${DAY_ABBREVS[date.getDay()]} at ${time}`;
+  return `${DAY_ABBREVS[date.getDay()]} ${date.getMonth() + 1}/${date.getDate()} at ${time}`;
+}
+
 /**
  * Produce a short human-readable label for the set of days.
  *
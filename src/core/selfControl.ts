@@ -9,11 +9,12 @@
  * Constraints:
  *  - Maximum 2,000 events per window (oldest dropped on overflow).
  *  - Same domain+type within DEBOUNCE_MS (3 s) counts as one event.
- *  - Window resets with the same intervalHours as usage data.
+ *  - Window resets with the same reset window as usage data.
  */
 
 import { getSelfControlData, setSelfControlData, getSettings } from "./storage";
-import type { SelfControlData, SelfControlEvent, SelfControlEventType } from "./types";
+import type { ResetWindowConfig, SelfControlData, SelfControlEvent, SelfControlEventType } from "./types";
+import { windowExpired, windowStartAt } from "./resetWindow";
 
 // ─── Constants ────────────────────────────────────────────────────────────────
 
@@ -43,13 +44,31 @@ export interface DomainSummary {
 
 // ─── Write path ───────────────────────────────────────────────────────────────
 
+/**
+ * Start an empty log when the current window has ended, keeping the old
+ * event count as `previousWindowCount`. Returns `data` unchanged otherwise.
+ * Pure — shared by `recordEvent` and the proactive alarm reset.
+ */
+export function rollSelfControlWindow(
+  data: SelfControlData,
+  resetWindow: ResetWindowConfig,
+  now: number,
+): SelfControlData {
+  if (!windowExpired(resetWindow, data.windowStartTs, now)) return data;
+  return {
+    windowStartTs: windowStartAt(resetWindow, now),
+    events: [],
+    previousWindowCount: data.events.length,
+  };
+}
+
 /**
  * Record a temptation event for the given domain and type.
  *
  * Skipped if:
  *  - The same domain+type was recorded within DEBOUNCE_MS.
  *
- * Resets the window if the configured intervalHours has elapsed since
+ * Resets the window if the configured reset window has ended since
  * windowStartTs, preserving a previousWindowCount for comparison.
  *
  * Caps events at EVENT_CAP (oldest dropped first).
@@ -65,16 +84,7 @@ export async function recordEvent(params: {
   const [data, settings] = await Promise.all([getSelfControlData(), getSettings()]);
 
   // Window expiry: reset the log if the window has elapsed.
-  const intervalMs = settings.resetWindow.intervalHours * 3_600_000;
-  const windowExpired = now - data.windowStartTs >= intervalMs;
-
-  const baseData: SelfControlData = windowExpired
-    ? {
-        windowStartTs: now,
-        events: [],
-        previousWindowCount: data.events.length,
-      }
-    : data;
+  const baseData = rollSelfControlWindow(data, settings.resetWindow, now);
 
   // Debounce: skip if the same domain+type was recorded recently.
   // Scan backwards through the (chronologically ordered) events array.
@@ -14,10 +14,12 @@
  * never clobbers the other.
  */
 
-import type { Settings, DomainUsage, UsageMap, TemptationMap, FullExport, DopamineScoreData, SelfControlData } from "./types";
+import type { Settings, DomainUsage, UsageMap, TemptationMap, FullExport, DopamineScoreData, SelfControlData, ResetWindowConfig, UsageHistory, TimelineData, EmergencyUnlockData, TamperLog, Heartbeat } from "./types";
 import { invalidateRuleIndex } from "./ruleIndex";
+import { windowExpired } from "./resetWindow";
 import { queueStorageReplace, readThrough, forceFlushStorageQueue } from "./storageQueue";
-import { DEFAULT_SETTINGS, DEFAULT_DOPAMINE_SCORE, DEFAULT_SELF_CONTROL_DATA } from "./types";
+import { settingsWriteRefusal } from "./lockdown";
+import { DEFAULT_SETTINGS, DEFAULT_DOPAMINE_SCORE, DEFAULT_SELF_CONTROL_DATA, DEFAULT_USAGE_HISTORY, DEFAULT_TIMELINE, DEFAULT_EMERGENCY_UNLOCK_DATA, DEFAULT_TAMPER_LOG } from "./types";
 import {
   settingsSchema,
   usageMapSchema,
@@ -26,6 +28,11 @@ import {
   parseImportJson,
   dopamineScoreDataSchema,
   selfControlDataSchema,
+  usageHistorySchema,
+  timelineDataSchema,
+  emergencyUnlockDataSchema,
+  tamperLogSchema,
+  heartbeatSchema,
 } from "./validation";
 import type { ImportResult } from "./validation";
 
@@ -36,6 +43,11 @@ const KEY_USAGE = "jd_usage";
 const KEY_TEMPTATIONS = "jd_temptations";
 const KEY_DOPAMINE = "jd_dopamine";
 const KEY_SELF_CONTROL = "jd_self_control";
+const KEY_HISTORY = "jd_history";
+const KEY_TIMELINE = "jd_timeline";
+const KEY_EMERGENCY_UNLOCKS = "jd_emergency_unlocks";
+const KEY_TAMPER = "jd_tamper";
+const KEY_HEARTBEAT = "jd_heartbeat";
 
 // ─── Internal helpers ─────────────────────────────────────────────────────────
 
@@ -66,12 +78,46 @@ function storageSet(items: Record<string, unknown>): Promise<void> {
 // ─── Settings ─────────────────────────────────────────────────────────────────
 
 /**
- * Read settings from storage.
+ * In-memory settings, used only after `cacheSettings()` — i.e. in the service
+ * worker, which reads settings for every CHECK_URL. Other contexts read
+ * storage every time: nothing would tell them about another context's write.
+ */
+let settingsCacheEnabled = false;
+let cachedSettings: Promise<Settings> | null = null;
+
+/**
+ * Keep settings in memory from now on, dropping them whenever `jd_settings`
+ * changes in storage — whichever context wrote it.
+ */
+export function cacheSettings(): void {
+  if (settingsCacheEnabled) return;
+  settingsCacheEnabled = true;
+  chrome.storage.onChanged.addListener((changes, areaName) => {
+    if (areaName === "local" && KEY_SETTINGS in changes) cachedSettings = null;
+  });
+}
+
+/**
+ * Read settings from storage — or from memory once `cacheSettings()` was
+ * called, in which case callers share one object and must not mutate it.
  *
  * Falls back to `DEFAULT_SETTINGS` if the key is absent or the stored value
  * fails validation (e.g. corrupted data). Logs a warning in the latter case.
  */
-export async function getSettings(): Promise<Settings> {
+export function getSettings(): Promise<Settings> {
+  if (!settingsCacheEnabled) return loadSettings();
+  if (!cachedSettings) {
+    const loading = loadSettings();
+    cachedSettings = loading;
+    // A failed read is not remembered — the next call retries.
+    loading.catch(() => {
+      if (cachedSettings === loading) cachedSettings = null;
+    });
+  }
+  return cachedSettings;
+}
+
+async function loadSettings(): Promise<Settings> {
   const result = await storageGet<unknown>(KEY_SETTINGS);
   const raw = result[KEY_SETTINGS];
 
@@ -89,21 +135,35 @@ export async function getSettings(): Promise<Settings> {
   return parsed.data as Settings;
 }
 
-/** Persist the complete settings object and invalidate the rule index cache. */
-export async function setSettings(settings: Settings): Promise<void> {
+export type SettingsWriteResult = { ok: true } | { ok: false; error: string };
+
+/**
+ * Persist the complete settings object and invalidate the rule index cache.
+ *
+ * Refused — storage left untouched — while a hard-locked Locked In session
+ * or a settings lockdown forbids the change (see hardLock.ts, lockdown.ts).
+ */
+export async function setSettings(settings: Settings): Promise<SettingsWriteResult> {
+  const refusal = settingsWriteRefusal(await getSettings(), settings, Date.now());
+  if (refusal) return { ok: false, error: refusal };
+
   await storageSet({ [KEY_SETTINGS]: settings });
+  // Do not wait for onChanged — the next read in this context must see the write.
+  cachedSettings = null;
   invalidateRuleIndex();
+  return { ok: true };
 }
 
 /**
  * Apply a shallow patch to settings and persist.
- * Returns the updated settings.
+ * Returns the updated settings — or the stored ones, unchanged, when a hard
+ * lock or lockdown refuses the patch.
  */
 export async function updateSettings(patch: Partial<Settings>): Promise<Settings> {
   const current = await getSettings();
   const updated: Settings = { ...current, ...patch };
-  await setSettings(updated);
-  return updated;
+  const result = await setSettings(updated);
+  return result.ok ? updated : current;
 }
 
 // ─── Usage ────────────────────────────────────────────────────────────────────
@@ -268,7 +328,8 @@ export async function exportAll(): Promise<string> {
  * Parse, validate, and import a JSON backup produced by `exportAll()`.
  *
  * On success: overwrites both settings and usage in storage.
- * On failure: storage is left untouched and an error description is returned.
+ * On failure — including a refusal by a hard lock or lockdown — storage is left
+ * untouched and an error description is returned.
  *
  * @param json  Raw file content from the user's upload.
  */
@@ -288,11 +349,16 @@ export async function importAll(json: string): Promise<ImportResult> {
     };
   }
 
+  // Refuse the whole import — usage included — while a hard lock or lockdown forbids it.
+  const refusal = settingsWriteRefusal(await getSettings(), validated.data.settings as Settings, Date.now());
+  if (refusal) return { ok: false, error: refusal };
+
   // Drain any stale queued writes before overwriting with imported data.
   await forceFlushStorageQueue();
 
   // setSettings writes immediately; setUsage/setTemptations queue their writes.
-  await setSettings(validated.data.settings as Settings);
+  const written = await setSettings(validated.data.settings as Settings);
+  if (!written.ok) return written;
   setUsage((validated.data.usage ?? {}) as UsageMap);
   setTemptations((validated.data.temptations ?? {}) as TemptationMap);
 
@@ -374,11 +440,176 @@ export function setSelfControlData(data: SelfControlData): void {
   queueStorageReplace(KEY_SELF_CONTROL, data);
 }
 
+// ─── Usage history ─────────────────────────────────────────────────────────────
+
+/**
+ * Read the archived per-day usage history from storage.
+ *
+ * Returns an empty history if absent or invalid.
+ */
+export async function getUsageHistory(): Promise<UsageHistory> {
+  const cached = readThrough(KEY_HISTORY);
+  if (cached !== undefined) return cached as UsageHistory;
+
+  const result = await storageGet<unknown>(KEY_HISTORY);
+  const raw = result[KEY_HISTORY];
+
+  if (raw === undefined || raw === null) {
+    return { ...DEFAULT_USAGE_HISTORY };
+  }
+
+  const parsed = usageHistorySchema.safeParse(raw);
+  if (!parsed.success) {
+    // eslint-disable-next-line no-console
+    console.warn("[JustDetox] Usage history validation failed — resetting.\n", parsed.error.format());
+    return { ...DEFAULT_USAGE_HISTORY };
+  }
+
+  return parsed.data as UsageHistory;
+}
+
+/**
+ * Queue the full usage history for batched persistence.
+ * Readable immediately via getUsageHistory() (write-back cache).
+ */
+export function setUsageHistory(history: UsageHistory): void {
+  queueStorageReplace(KEY_HISTORY, history);
+}
+
+// ─── Browsing timeline ─────────────────────────────────────────────────────────
+
+/**
+ * Read the browsing-timeline ring buffer from storage.
+ *
+ * Returns an empty timeline if absent or invalid.
+ */
+export async function getTimeline(): Promise<TimelineData> {
+  const cached = readThrough(KEY_TIMELINE);
+  if (cached !== undefined) return cached as TimelineData;
+
+  const result = await storageGet<unknown>(KEY_TIMELINE);
+  const raw = result[KEY_TIMELINE];
+
+  if (raw === undefined || raw === null) {
+    return { ...DEFAULT_TIMELINE };
+  }
+
+  const parsed = timelineDataSchema.safeParse(raw);
+  if (!parsed.success) {
+    // eslint-disable-next-line no-console
+    console.warn("[JustDetox] Timeline validation failed — resetting.\n", parsed.error.format());
+    return { ...DEFAULT_TIMELINE };
+  }
+
+  return parsed.data as TimelineData;
+}
+
+/**
+ * Queue the full timeline for batched persistence.
+ * Readable immediately via getTimeline() (write-back cache).
+ */
+export function setTimeline(data: TimelineData): void {
+  queueStorageReplace(KEY_TIMELINE, data);
+}
+
+// ─── Emergency unlocks ────────────────────────────────────────────────────────
+
+/**
+ * Read the emergency unlocks granted in the current window.
+ *
+ * Returns empty data if absent or invalid.
+ */
+export async function getEmergencyUnlocks(): Promise<EmergencyUnlockData> {
+  const cached = readThrough(KEY_EMERGENCY_UNLOCKS);
+  if (cached !== undefined) return cached as EmergencyUnlockData;
+
+  const result = await storageGet<unknown>(KEY_EMERGENCY_UNLOCKS);
+  const raw = result[KEY_EMERGENCY_UNLOCKS];
+
+  if (raw === undefined || raw === null) {
+    return { ...DEFAULT_EMERGENCY_UNLOCK_DATA };
+  }
+
+  const parsed = emergencyUnlockDataSchema.safeParse(raw);
+  if (!parsed.success) {
+    // eslint-disable-next-line no-console
+    console.warn("[JustDetox] Emergency unlock validation failed — resetting.\n", parsed.error.format());
+    return { ...DEFAULT_EMERGENCY_UNLOCK_DATA };
+  }
+
+  return parsed.data as EmergencyUnlockData;
+}
+
+/**
+ * Queue the emergency unlock data for batched persistence.
+ * Readable immediately via getEmergencyUnlocks() (write-back cache).
+ */
+export function setEmergencyUnlocks(data: EmergencyUnlockData): void {
+  queueStorageReplace(KEY_EMERGENCY_UNLOCKS, data);
+}
+
+// ─── Tamper log ───────────────────────────────────────────────────────────────
+
+/**
+ * Read the tamper log.
+ *
+ * Returns an empty log if absent or invalid.
+ */
+export async function getTamperLog(): Promise<TamperLog> {
+  const cached = readThrough(KEY_TAMPER);
+  if (cached !== undefined) return cached as TamperLog;
+
+  const result = await storageGet<unknown>(KEY_TAMPER);
+  const raw = result[KEY_TAMPER];
+
+  if (raw === undefined || raw === null) {
+    return { ...DEFAULT_TAMPER_LOG };
+  }
+
+  const parsed = tamperLogSchema.safeParse(raw);
+  if (!parsed.success) {
+    // eslint-disable-next-line no-console
+    console.warn("[JustDetox] Tamper log validation failed — resetting.\n", parsed.error.format());
+    return { ...DEFAULT_TAMPER_LOG };
+  }
+
+  return parsed.data as TamperLog;
+}
+
+/**
+ * Queue the tamper log for batched persistence.
+ * Readable immediately via getTamperLog() (write-back cache).
+ */
+export function setTamperLog(log: TamperLog): void {
+  queueStorageReplace(KEY_TAMPER, log);
+}
+
+/**
+ * Read this install's heartbeat, or null before the first beat (or after
+ * local storage was wiped).
+ */
+export async function getHeartbeat(): Promise<Heartbeat | null> {
+  const cached = readThrough(KEY_HEARTBEAT);
+  if (cached !== undefined) return cached as Heartbeat;
+
+  const result = await storageGet<unknown>(KEY_HEARTBEAT);
+  const parsed = heartbeatSchema.safeParse(result[KEY_HEARTBEAT]);
+  return parsed.success ? parsed.data : null;
+}
+
+/**
+ * Queue the heartbeat for batched persistence.
+ * Readable immediately via getHeartbeat() (write-back cache).
+ */
+export function setHeartbeat(beat: Heartbeat): void {
+  queueStorageReplace(KEY_HEARTBEAT, beat);
+}
+
 // ─── Reset-window utility ─────────────────────────────────────────────────────
 
 /**
  * Returns `true` if the tracking window for `domain` has expired
- * given the provided `intervalHours`.
+ * under the provided reset-window configuration.
  *
  * Does NOT mutate storage — call `resetDomainUsage(domain)` if you want
  * to act on the result.
@@ -386,11 +617,11 @@ export function setSelfControlData(data: SelfControlData): void {
 export function isWindowExpired(
   usage: UsageMap,
   domain: string,
-  intervalHours: number,
+  resetWindow: ResetWindowConfig,
+  now: number = Date.now(),
 ): boolean {
   const record = usage[domain];
   if (!record) return false; // no record → nothing to expire
 
-  const windowMs = intervalHours * 3_600_000;
-  return Date.now() - record.windowStartTs >= windowMs;
+  return windowExpired(resetWindow, record.windowStartTs, now);
 }
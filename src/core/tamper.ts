@@ -0,0 +1,105 @@
+/**
+ * JustDetox — Tamper log.
+ *
+ * Storage key: "jd_tamper" → TamperLog
+ *
+ * A disabled extension cannot record its own disabling, so gaps are found
+ * afterwards: the service worker writes a heartbeat (see
+ * background/heartbeat.ts) on every alarm tick, and when it comes back in a
+ * fresh extension context it works out why the heartbeat stopped.
+ *
+ * `classifyRestart` decides from:
+ *  - the lifecycle event that started the context — a browser start, an
+ *    install or an update are ordinary; a context with none of them means
+ *    the extension was switched off and on again (or reloaded)
+ *  - the local heartbeat — missing after a reinstall or a storage wipe
+ *  - the heartbeat mirror in chrome.storage.sync, which outlives both
+ *
+ * The mirror is shared by every device on the same Chrome sync account, so
+ * a first install on a second device is also logged as "reinstalled".
+ *
+ * Each detected gap is appended to the log and charged to the Dopamine Score.
+ */
+
+import { getTamperLog, setTamperLog } from "./storage";
+import type { Heartbeat, TamperEvent, TamperLog } from "./types";
+import { onTamperDetected } from "./dopamine";
+
+// ─── Constants ────────────────────────────────────────────────────────────────
+
+/** Maximum events retained. Oldest are dropped when exceeded. */
+export const TAMPER_EVENT_CAP = 200;
+
+// ─── Public types ─────────────────────────────────────────────────────────────
+
+/** The lifecycle event that started an extension context, if any was seen. */
+export type RestartCause = "browser-start" | "install" | "update" | "unknown";
+
+export interface RestartContext {
+  cause: RestartCause;
+  /** Heartbeat from chrome.storage.local; null when local data is gone. */
+  local: Heartbeat | null;
+  /** Heartbeat mirrored to chrome.storage.sync; null when sync is unavailable. */
+  mirror: Heartbeat | null;
+  now: number;
+  /** `chrome.management.getSelf().installType`, when available. */
+  installType?: string;
+}
+
+// ─── Pure helpers ─────────────────────────────────────────────────────────────
+
+/**
+ * The gap a fresh extension context reveals, or null when the restart was
+ * ordinary (browser start, update, very first install).
+ */
+export function classifyRestart(ctx: RestartContext): TamperEvent | null {
+  const { cause, local, mirror, now, installType } = ctx;
+  const gapSince = (beat: Heartbeat) => Math.max(0, now - beat.lastBeatTs);
+
+  if (local) {
+    if (cause !== "unknown") return null;
+    return { ts: now, kind: "disabled", gapMs: gapSince(local), installType };
+  }
+
+  // Local data is gone. Without a mirror this is indistinguishable from a first run.
+  if (!mirror) return null;
+  return {
+    ts: now,
+    kind: cause === "install" ? "reinstalled" : "state-lost",
+    gapMs: gapSince(mirror),
+    installType,
+  };
+}
+
+/** Return `log` with `event` appended, trimmed to TAMPER_EVENT_CAP. */
+export function appendTamperEvent(log: TamperLog, event: TamperEvent): TamperLog {
+  const appended = [...log.events, event];
+  const events =
+    appended.length > TAMPER_EVENT_CAP ? appended.slice(appended.length - TAMPER_EVENT_CAP) : appended;
+  return { events };
+}
+
+/** The `limit` most recent events, newest first. */
+export function recentTamperEvents(log: TamperLog, limit: number): TamperEvent[] {
+  return log.events.slice(-limit).reverse();
+}
+
+/** Short label for a dashboard row, e.g. "Extension turned off". */
+export function describeTamperEvent(event: TamperEvent): string {
+  switch (event.kind) {
+    case "disabled":
+      return "Extension turned off";
+    case "reinstalled":
+      return "Extension reinstalled — earlier data wiped";
+    case "state-lost":
+      return "Extension data wiped";
+  }
+}
+
+// ─── Write path ───────────────────────────────────────────────────────────────
+
+/** Append `event` to the log and charge it to the Dopamine Score. */
+export async function recordTamperEvent(event: TamperEvent): Promise<void> {
+  setTamperLog(appendTamperEvent(await getTamperLog(), event));
+  await onTamperDetected();
+}
@@ -18,8 +18,9 @@
  */
 
 import { getTemptations, setTemptations, getSettings } from "./storage";
-import type { TemptationMap, TemptationRecord } from "./types";
+import type { ResetWindowConfig, TemptationMap, TemptationRecord } from "./types";
 import { triggerRecalculation } from "./dopamine";
+import { windowExpired, windowStartAt } from "./resetWindow";
 
 // ─── Constants ────────────────────────────────────────────────────────────────
 
@@ -28,6 +29,19 @@ const DEBOUNCE_MS = 3_000;
 
 // ─── Public API ───────────────────────────────────────────────────────────────
 
+/**
+ * Attempts in `record` that count at `now` — 0 once its reset window has
+ * ended (the record is only zeroed on the next attempt).
+ */
+export function currentAttempts(
+  record: TemptationRecord | undefined,
+  config: ResetWindowConfig,
+  now: number,
+): number {
+  if (!record || windowExpired(config, record.windowStartTs, now)) return 0;
+  return record.attempts;
+}
+
 /**
  * Record a blocked-overlay trigger for `domain`.
  *
@@ -36,25 +50,33 @@ const DEBOUNCE_MS = 3_000;
  *  - The call is concurrent with another in-flight write (no lock needed;
  *    the service worker processes messages serially).
  *
+ * Resolves to the window's attempt count afterwards, for the overlay.
+ *
  * @param domain     Sanitized hostname (e.g. "twitter.com").
  * @param isLockedIn True when the block was caused by Locked In Mode.
  */
-export async function incrementAttempt(domain: string, isLockedIn = false): Promise<void> {
+export async function incrementAttempt(domain: string, isLockedIn = false): Promise<number> {
   const now = Date.now();
   const [map, settings] = await Promise.all([getTemptations(), getSettings()]);
 
   const existing = map[domain];
 
   // Debounce: skip if we just recorded an attempt for this domain.
-  if (existing && now - existing.lastAttemptTs < DEBOUNCE_MS) return;
+  if (existing && now - existing.lastAttemptTs < DEBOUNCE_MS) {
+    return currentAttempts(existing, settings.resetWindow, now);
+  }
 
   // Check whether the tracking window has expired for this domain.
-  const intervalMs = settings.resetWindow.intervalHours * 3_600_000;
-  const windowExpired = existing !== undefined && now - existing.windowStartTs >= intervalMs;
+  const expired = existing !== undefined && windowExpired(settings.resetWindow, existing.windowStartTs, now);
 
   const base: TemptationRecord =
-    !existing || windowExpired
-      ? { attempts: 0, lastAttemptTs: 0, lockedInAttempts: 0, windowStartTs: now }
+    !existing || expired
+      ? {
+          attempts: 0,
+          lastAttemptTs: 0,
+          lockedInAttempts: 0,
+          windowStartTs: windowStartAt(settings.resetWindow, now),
+        }
       : existing;
 
   const updated: TemptationMap = {
@@ -69,6 +91,7 @@ export async function incrementAttempt(domain: string, isLockedIn = false): Prom
 
   await setTemptations(updated);
   triggerRecalculation();
+  return base.attempts + 1;
 }
 
 /**
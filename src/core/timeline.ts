@@ -0,0 +1,133 @@
+/**
+ * JustDetox — Browsing timeline.
+ *
+ * Storage key: "jd_timeline" → TimelineData
+ *
+ * The tracker records every flush as a (domain, start, end) span. A span
+ * that continues the latest one of its domain — starting within
+ * MERGE_GAP_MS of its end — extends it instead, so a steady session on one
+ * site is a single span no matter how many alarm ticks it covers.
+ *
+ * Constraints:
+ *  - Ring buffer of at most SPAN_CAP spans (oldest dropped on overflow).
+ *  - Independent of the reset window — spans are never cleared on rollover.
+ *
+ * Pure aggregation helpers split spans into hourly buckets for the
+ * Dashboard timeline, aligned with the Self-Control Graph buckets.
+ */
+
+import { getTimeline, setTimeline } from "./storage";
+import type { TimelineData, TimelineSpan } from "./types";
+
+// ─── Constants ────────────────────────────────────────────────────────────────
+
+/** Maximum spans retained. Oldest are dropped when exceeded. */
+export const SPAN_CAP = 5_000;
+
+/** Largest gap between spans of the same domain that still merges them. */
+const MERGE_GAP_MS = 5_000;
+
+/** How many trailing spans are searched for one to merge into. */
+const MERGE_LOOKBACK = 8;
+
+// ─── Public types ─────────────────────────────────────────────────────────────
+
+export interface HourBucket {
+  /** Unix ms of the start of this hour. */
+  hourStart: number;
+  /** Tracked seconds that fall inside this hour. */
+  seconds: number;
+  /** Seconds per domain inside this hour. */
+  domains: Record<string, number>;
+}
+
+// ─── Write path ───────────────────────────────────────────────────────────────
+
+/**
+ * Return `data` with `span` appended, merged into the most recent span of
+ * the same domain when it continues it, and trimmed to SPAN_CAP. Empty or inverted spans are ignored.
+ */
+export function appendSpan(data: TimelineData, span: TimelineSpan): TimelineData {
+  if (span.end <= span.start) return data;
+
+  // Background tabs flush alongside the focused one, so the span this one
+  // continues may not be the very last — look back a few entries.
+  for (let i = data.spans.length - 1; i >= Math.max(0, data.spans.length - MERGE_LOOKBACK); i--) {
+    const prev = data.spans[i];
+    if (prev.domain !== span.domain) continue;
+    if (span.start >= prev.start && span.start - prev.end <= MERGE_GAP_MS) {
+      const spans = [...data.spans];
+      spans[i] = { ...prev, end: Math.max(prev.end, span.end) };
+      return { spans };
+    }
+    break;
+  }
+
+  const appended = [...data.spans, span];
+  return {
+    spans: appended.length > SPAN_CAP ? appended.slice(appended.length - SPAN_CAP) : appended,
+  };
+}
+
+/**
+ * Persist a tracked span. Called by the tracker on every flush.
+ *
+ * Safe to call fire-and-forget from the service worker.
+ */
+export async function recordSpan(span: TimelineSpan): Promise<void> {
+  const data = await getTimeline();
+  const next = appendSpan(data, span);
+  if (next !== data) setTimeline(next);
+}
+
+// ─── Read / aggregation helpers (pure) ────────────────────────────────────────
+
+/**
+ * Split spans into 24 hourly buckets for the local day starting at
+ * `dayStartTs`. Spans crossing an hour (or the day) boundary are divided
+ * between the buckets they touch.
+ */
+export function getHourlyBuckets(data: TimelineData, dayStartTs: number): HourBucket[] {
+  const buckets: HourBucket[] = [];
+  const day = new Date(dayStartTs);
+  for (let h = 0; h < 24; h++) {
+    // Built from calendar fields so DST days still get one bucket per clock hour.
+    const hourStart = new Date(day.getFullYear(), day.getMonth(), day.getDate(), h).getTime();
+    buckets.push({ hourStart, seconds: 0, domains: {} });
+  }
+  const dayEnd = new Date(day.getFullYear(), day.getMonth(), day.getDate() + 1).getTime();
+
+  for (const span of data.spans) {
+    if (span.end <= dayStartTs || span.start >= dayEnd) continue;
+    for (let h = 0; h < 24; h++) {
+      const bucket = buckets[h];
+      const bucketEnd = h < 23 ? buckets[h + 1].hourStart : dayEnd;
+      const overlap = Math.min(span.end, bucketEnd) - Math.max(span.start, bucket.hourStart);
+      if (overlap <= 0) continue;
+      const seconds = overlap / 1_000;
+      bucket.seconds += seconds;
+      bucket.domains[span.domain] = (bucket.domains[span.domain] ?? 0) + seconds;
+    }
+  }
+
+  return buckets;
+}
+
+/** Domain with the most time in `bucket`, or null when the hour is empty. */
+export function topDomainOf(bucket: HourBucket): string | null {
+  let top: string | null = null;
+  let max = 0;
+  for (const [domain, seconds] of Object.entries(bucket.domains)) {
+    if (seconds > max) {
+      max = seconds;
+      top = domain;
+    }
+  }
+  return top;
+}
+
+/** Local midnight of the day containing `ts`, shifted by `offsetDays`. */
+export function localDayStart(ts: number, offsetDays = 0): number {
+  const d = new Date(ts);
+  return new Date(d.getFullYear(), d.getMonth(), d.getDate() + offsetDays).getTime();
+}
@@ -38,6 +38,17 @@ export interface ScheduleWindow {
   endMinutes: number;
 }
 
+/**
+ * A time window with its own budget, e.g. 15 minutes on weekday evenings.
+ * While it is active `limitMinutes` replaces the rule's limit (see
+ * `budget.ts`). Unlike `schedule`, it never decides whether the rule
+ * applies — outside it the weekday or base limit holds.
+ */
+export interface BudgetWindow extends ScheduleWindow {
+  /** Minutes allowed per reset window while this window is active. */
+  limitMinutes: number;
+}
+
 // ─── Rules ────────────────────────────────────────────────────────────────────
 
 /**
@@ -45,17 +56,35 @@ export interface ScheduleWindow {
  *
  * `domain` is always a sanitized hostname (lowercase, no protocol, no path),
  * e.g. `"twitter.com"` or `"www.reddit.com"`.
+ *
+ * `path` optionally narrows the rule to part of the site — a path prefix or
+ * glob pattern such as `"/shorts"` or `"/r/*"` (see `urlPattern.ts`).
+ * A rule is identified by domain + path, so several rules may share a domain.
  */
 export interface SiteRule {
   domain: string;
+  /** Normalized path pattern. Absent when the rule covers the whole host. */
+  path?: string;
   mode: RuleMode;
   /** Required when mode === "limit". Minutes allowed per reset window. */
   limitMinutes?: number;
+  /**
+   * Optional per-weekday budgets indexed by `Date.getDay()` (0 = Sunday).
+   * A number replaces `limitMinutes` on that day; `null` keeps it.
+   */
+  dayLimits?: (number | null)[];
+  /** Optional budgets for parts of the week. Only for limit-mode rules. */
+  budgets?: BudgetWindow[];
   enabled: boolean;
   /** When true, visiting this site shows a countdown before allowing access. Only effective when mode === "limit" and time remains. */
   delayEnabled?: boolean;
   /** Countdown duration in seconds (5–60). Defaults to the global defaultDelaySeconds when not set. */
   delaySeconds?: number;
+  /**
+   * Minutes left at which to warn, e.g. `[5, 1]`. Replaces the global
+   * `limitWarnings.thresholdMinutes`; `[]` turns warnings off for this rule.
+   */
+  warningMinutes?: number[];
   /**
    * Optional schedule windows. When present, the rule only applies during
    * matching time windows. When absent, the rule is always active.
@@ -80,11 +109,17 @@ export interface SiteGroup {
   mode: RuleMode;
   /** Required when mode === "limit". Shared minutes per reset window. */
   limitMinutes?: number;
+  /** Optional per-weekday budgets — same shape as `SiteRule.dayLimits`. */
+  dayLimits?: (number | null)[];
+  /** Optional budget windows — same shape as `SiteRule.budgets`. */
+  budgets?: BudgetWindow[];
   enabled: boolean;
   /** When true, visiting any domain in this group shows a countdown before allowing access. Only effective when mode === "limit" and time remains. */
   delayEnabled?: boolean;
   /** Countdown duration in seconds (5–60). Defaults to the global defaultDelaySeconds when not set. */
   delaySeconds?: number;
+  /** Minutes left at which to warn — same shape as `SiteRule.warningMinutes`. */
+  warningMinutes?: number[];
   /**
    * Optional schedule windows. When present, the group only applies during
    * matching time windows. When absent, the group is always active.
@@ -104,16 +139,34 @@ export interface GlobalDefaults {
   limitMinutes?: number;
 }
 
+/**
+ * A fixed local time at which every tracking window ends.
+ *
+ * `minutes` — minutes since local midnight (0–1439), e.g. 240 = 04:00.
+ * `weekday` — 0 = Sunday … 6 = Saturday; only used when `period` is "weekly".
+ */
+export interface ResetAnchor {
+  period: "daily" | "weekly";
+  minutes: number;
+  weekday?: number;
+}
+
 /**
  * Configuration for the usage-reset cycle.
  *
- * `intervalHours` — length of one window in hours (default 24).
+ * `intervalHours` — length of one rolling window in hours (default 24).
  * Usage counters are zeroed when `now - windowStartTs >= intervalHours * 3_600_000`.
- * The background service worker checks this lazily on each visit and also
- * via a `chrome.alarms` entry named `"jd-reset"`.
+ *
+ * `anchor` — when set, windows are calendar-aligned instead: everything
+ * started before the most recent anchor boundary expires at once and
+ * `intervalHours` is ignored.
+ *
+ * The background service worker checks expiry lazily on each write and
+ * proactively on every `jd-tick` alarm. See `resetWindow.ts`.
  */
 export interface ResetWindowConfig {
   intervalHours: number;
+  anchor?: ResetAnchor;
 }
 
 // ─── Locked In Mode ───────────────────────────────────────────────────────────
@@ -136,10 +189,145 @@ export interface LockedInSession {
   allowedDomains: string[];
   /** Group ID if the domains were sourced from an existing group. */
   sourceGroupId?: string;
+  /** Set when the session was started by a `RecurringLockedIn` schedule. */
+  recurringId?: string;
+  /**
+   * Set for a Pomodoro session: `endTs` is then the end of the last focus
+   * interval and the allowlist only binds during focus (see core/pomodoro.ts).
+   */
+  pomodoro?: PomodoroConfig;
+  /** Pomodoro cycles already credited to the Dopamine Score. */
+  creditedCycles?: number;
+  /**
+   * Hard lock: until `endTs`, the session cannot be ended early and no
+   * settings write may weaken protection (see core/hardLock.ts).
+   */
+  hardLock?: boolean;
+}
+
+/**
+ * Pomodoro variant of a Locked In session: `cycles` focus intervals separated
+ * by short breaks, with a long break after every `longBreakEvery`-th focus.
+ * There is no break after the final focus interval.
+ */
+export interface PomodoroConfig {
+  /** Number of focus intervals. Range: 1–12. */
+  cycles: number;
+  /** Range: 5–120. */
+  focusMinutes: number;
+  /** Range: 1–30. */
+  shortBreakMinutes: number;
+  /** Range: 5–60. */
+  longBreakMinutes: number;
+  /** A long break follows every Nth focus interval. Range: 2–12. */
+  longBreakEvery: number;
+  /**
+   * Sites allowed during breaks. Empty — breaks fall back to the normal
+   * rules; otherwise everything else stays blocked during breaks too.
+   */
+  breakAllowedDomains: string[];
+}
+
+/**
+ * A Locked In session that starts and ends on a schedule, e.g. every
+ * weekday 09:00–11:30 with the "Work" group's domains.
+ *
+ * The background starts it when `schedule` opens and ends it when the
+ * window closes (see background/lockedIn.ts).
+ */
+export interface RecurringLockedIn {
+  id: string;
+  name: string;
+  enabled: boolean;
+  schedule: ScheduleWindow;
+  /** Group whose domains are allowed — read each time a session starts. */
+  sourceGroupId?: string;
+  /** Allowed domains when no group is set. */
+  allowedDomains: string[];
 }
 
 // ─── Allowlist Mode ───────────────────────────────────────────────────────────
 
+/**
+ * Idle detection — pause time tracking while the user is away.
+ *
+ * `thresholdSeconds` — seconds without keyboard/mouse input before the
+ * browser reports "idle" (15–3600). Locking the screen always pauses.
+ * `countWhilePlayingMedia` — keep counting when the tracked tab is playing
+ * audio, so watching a video without touching the mouse still counts.
+ */
+export interface IdleDetectionSettings {
+  enabled: boolean;
+  thresholdSeconds: number;
+  countWhilePlayingMedia: boolean;
+}
+
+/**
+ * Which tabs the tracker counts besides the active tab of the focused window.
+ *
+ * `audibleTabs` — also count tabs playing audio in the background (music,
+ * podcasts).
+ *
+ * `allWindows` — also count the active tab of every visible (non-minimized)
+ * window, for multi-monitor setups.
+ *
+ * Either way a hostname is counted once per flush, however many tabs show it.
+ */
+export interface TrackingSettings {
+  audibleTabs: boolean;
+  allWindows: boolean;
+}
+
+/**
+ * Inline badges on links to blocked or time-limited sites ("Blocked",
+ * "12 min left"), added by the link annotator content script.
+ *
+ * `dimLinks` — also fade links to blocked sites.
+ */
+export interface LinkAnnotationSettings {
+  enabled: boolean;
+  dimLinks: boolean;
+}
+
+/**
+ * Heads-up before a time limit runs out: a toast on the page as the time
+ * left crosses each threshold, e.g. 5 and 1 minutes.
+ *
+ * `notify` — also show a system notification.
+ */
+export interface LimitWarningSettings {
+  enabled: boolean;
+  /** Minutes left at which to warn. Rules may override (`warningMinutes`). */
+  thresholdMinutes: number[];
+  notify: boolean;
+}
+
+/**
+ * Break-glass emergency unlocks: a rationed way past a block.
+ *
+ * Each unlock lifts every restriction on one domain for `minutesPerUnlock`
+ * minutes. At most `unlocksPerWindow` may be used per reset window, and
+ * each one goes through the friction gate and costs Dopamine Score points.
+ */
+export interface EmergencyUnlockSettings {
+  enabled: boolean;
+  /** Unlocks available per reset window. Range: 1–5. Default: 1. */
+  unlocksPerWindow: number;
+  /** Minutes each unlock lasts. Range: 1–60. Default: 10. */
+  minutesPerUnlock: number;
+}
+
+/**
+ * Settings lockdown: a commitment that no protection-reducing change may be
+ * made until `untilTs` — every friction-gated action is rejected outright
+ * rather than delayed (see core/lockdown.ts). It can be extended but not
+ * shortened while it runs.
+ */
+export interface SettingsLockdown {
+  /** Unix ms when the lockdown ends. 0 = no lockdown. */
+  untilTs: number;
+}
+
 /**
  * Configuration for Allowlist Mode (Focus Environment).
  *
@@ -219,15 +407,24 @@ export interface Settings {
   groups: SiteGroup[];
   /**
    * A quick-add list of domains that are always hard-blocked
-   * regardless of any rule or group. Processed after rules/groups
-   * to allow explicit allow-list overrides in future milestones.
+   * regardless of any rule or group. Processed after rules/groups;
+   * an entry in `allowExceptions` overrides it.
    */
   globalBlockList: string[];
+  /**
+   * Normalized hostnames that are always allowed, e.g. `"music.youtube.com"`.
+   * An exception covers its subdomains and beats any site rule, group,
+   * global block-list entry or global default that would otherwise match.
+   * Allowlist Mode and Locked In Mode are still evaluated first.
+   */
+  allowExceptions: string[];
   globalDefaults?: GlobalDefaults;
   resetWindow: ResetWindowConfig;
   friction: FrictionSettings;
   /** Active Locked In Mode session, if any. Absent when no session has ever been started. */
   lockedInSession?: LockedInSession;
+  /** Locked In sessions started automatically on a schedule. */
+  recurringLockedIn: RecurringLockedIn[];
   /** Protected Settings Gate configuration. */
   protectedGate: ProtectedGateSettings;
   /**
@@ -238,6 +435,18 @@ export interface Settings {
   defaultDelaySeconds: number;
   /** Allowlist Mode (Focus Environment) configuration. */
   allowlistMode: AllowlistMode;
+  /** Pause tracking while the user is idle or the screen is locked. */
+  idleDetection: IdleDetectionSettings;
+  /** Extra tabs counted alongside the focused one. */
+  tracking: TrackingSettings;
+  /** Badges on links to blocked or limited sites. */
+  linkAnnotations: LinkAnnotationSettings;
+  /** Warnings before a time limit runs out. */
+  limitWarnings: LimitWarningSettings;
+  /** Rationed break-glass unlocks. */
+  emergencyUnlock: EmergencyUnlockSettings;
+  /** Commitment window that freezes protection-reducing changes. */
+  lockdown: SettingsLockdown;
 }
 
 // ─── Usage ────────────────────────────────────────────────────────────────────
@@ -246,8 +455,8 @@ export interface Settings {
  * Usage record for a single domain within the current reset window.
  *
  * The background updates this on every RECORD_TIME message.
- * When `now - windowStartTs >= resetWindow.intervalHours * 3_600_000`
- * the record is reset: `activeSeconds = 0`, `windowStartTs = now`.
+ * When the reset window ends (see `windowExpired` in resetWindow.ts) the
+ * record is reset: `activeSeconds = 0` and a new `windowStartTs`.
  */
 export interface DomainUsage {
   /** Cumulative active seconds in the current window. */
@@ -310,6 +519,10 @@ export interface DopamineScoreData {
     lockedInBonus: number;
     /** Total bonus from completed Delay Mode countdowns. */
     delayBonus: number;
+    /** Total penalty from emergency unlocks. */
+    emergencyPenalty: number;
+    /** Total penalty from tamper gaps. */
+    tamperPenalty: number;
   };
   /** Unix ms timestamp when the current score window started. */
   windowStartTs: number;
@@ -319,6 +532,12 @@ export interface DopamineScoreData {
   lockedInMinutes: number;
   /** How many Delay Mode countdowns were completed this window. */
   delayCompletions: number;
+  /** How many emergency unlocks were used this window. */
+  emergencyUnlocks: number;
+  /** How many Pomodoro focus intervals were completed this window. */
+  pomodoroCycles: number;
+  /** How many tamper gaps (see `TamperEvent`) were detected this window. */
+  tamperEvents: number;
 }
 
 // ─── Self-Control Graph ───────────────────────────────────────────────────────
@@ -328,7 +547,8 @@ export type SelfControlEventType =
   | "blocked"           // Hard-block overlay shown
   | "limit_exceeded"    // Time-limit-exceeded overlay shown
   | "locked_in_block"   // Locked In Mode block overlay shown
-  | "delay_triggered";  // Delay Mode countdown triggered
+  | "delay_triggered"   // Delay Mode countdown triggered
+  | "emergency_unlock"; // Emergency unlock used
 
 /** A single timestamped temptation event. */
 export interface SelfControlEvent {
@@ -353,6 +573,118 @@ export interface SelfControlData {
   previousWindowCount: number;
 }
 
+// ─── Usage history ────────────────────────────────────────────────────────────
+
+/**
+ * Archived usage totals for one local calendar day.
+ *
+ * `day` is "YYYY-MM-DD" in local time — the day the archived window started.
+ * `domains` maps hostname → active seconds. Path-rule usage keys are never
+ * archived because their time is already counted under the hostname.
+ */
+export interface HistoryDay {
+  day: string;
+  domains: Record<string, number>;
+}
+
+/**
+ * Per-day usage history that outlives the reset window.
+ *
+ * Appended to whenever a usage record rolls over, so the current window is
+ * never in here — readers merge it in from `UsageMap`. Sorted oldest first,
+ * at most one entry per day, trimmed to a retention cap (see history.ts).
+ */
+export interface UsageHistory {
+  days: HistoryDay[];
+}
+
+// ─── Browsing timeline ────────────────────────────────────────────────────────
+
+/** A continuous stretch of tracked time on one domain (unix ms). */
+export interface TimelineSpan {
+  domain: string;
+  start: number;
+  end: number;
+}
+
+/**
+ * Ring buffer of recent browsing spans, oldest first.
+ *
+ * Capped at 5,000 spans (oldest dropped on overflow). Consecutive flushes
+ * for the same domain are merged into one span. See timeline.ts.
+ */
+export interface TimelineData {
+  spans: TimelineSpan[];
+}
+
+// ─── Emergency unlocks ────────────────────────────────────────────────────────
+
+/** One granted emergency unlock. */
+export interface EmergencyUnlock {
+  /** Normalized hostname; subdomains are covered too. */
+  domain: string;
+  /** Unix ms when the unlock was granted. */
+  startTs: number;
+  /** Unix ms when the unlock lapses. */
+  endTs: number;
+}
+
+/**
+ * Emergency unlocks granted in the current reset window.
+ *
+ * Storage key: "jd_emergency_unlocks". Cleared when the window rolls over,
+ * which also refills the quota.
+ */
+export interface EmergencyUnlockData {
+  /** Unix ms timestamp when the current window started. */
+  windowStartTs: number;
+  unlocks: EmergencyUnlock[];
+}
+
+// ─── Tamper log ───────────────────────────────────────────────────────────────
+
+/**
+ * How protection was interrupted:
+ *  - "disabled"    — the extension was turned off (or reloaded) and back on
+ *  - "reinstalled" — a fresh install replaced an earlier one, wiping its data
+ *  - "state-lost"  — local data was wiped while the extension stayed installed
+ */
+export type TamperKind = "disabled" | "reinstalled" | "state-lost";
+
+/** One detected gap in protection. */
+export interface TamperEvent {
+  /** Unix ms when the gap was detected (the extension came back). */
+  ts: number;
+  kind: TamperKind;
+  /** How long no heartbeat was written, in ms. */
+  gapMs: number;
+  /** `chrome.management` install type, when the API is available (e.g. "development"). */
+  installType?: string;
+}
+
+/**
+ * Every detected gap, oldest first.
+ *
+ * Storage key: "jd_tamper". Capped at 200 events (oldest dropped). Not tied
+ * to the reset window — the Dopamine Score keeps its own per-window count.
+ */
+export interface TamperLog {
+  events: TamperEvent[];
+}
+
+/**
+ * Proof of life written by the service worker on every alarm tick.
+ *
+ * Storage key: "jd_heartbeat", mirrored to chrome.storage.sync so a
+ * reinstall — which wipes local storage — can still be noticed.
+ */
+export interface Heartbeat {
+  /** Random id chosen on first run of an install. */
+  installId: string;
+  /** Unix ms of the last beat. */
+  lastBeatTs: number;
+}
+
 // ─── Export / Import container ────────────────────────────────────────────────
 
 /** Shape of a JSON backup produced by `exportAll()`. */
@@ -377,6 +709,51 @@ export const DEFAULT_ALLOWLIST_MODE: AllowlistMode = {
   allowedDomains: [],
 };
 
+/**
+ * Off by default: pausing counts less time, which would quietly loosen the
+ * limits of everyone upgrading. Users opt in from the settings.
+ */
+export const DEFAULT_IDLE_DETECTION: IdleDetectionSettings = {
+  enabled: false,
+  thresholdSeconds: 120,
+  countWhilePlayingMedia: true,
+};
+
+export const DEFAULT_EMERGENCY_UNLOCK: EmergencyUnlockSettings = {
+  enabled: true,
+  unlocksPerWindow: 1,
+  minutesPerUnlock: 10,
+};
+
+export const DEFAULT_LOCKDOWN: SettingsLockdown = {
+  untilTs: 0,
+};
+
+export const DEFAULT_POMODORO: PomodoroConfig = {
+  cycles: 4,
+  focusMinutes: 25,
+  shortBreakMinutes: 5,
+  longBreakMinutes: 15,
+  longBreakEvery: 4,
+  breakAllowedDomains: [],
+};
+
+export const DEFAULT_TRACKING: TrackingSettings = {
+  audibleTabs: false,
+  allWindows: false,
+};
+
+export const DEFAULT_LINK_ANNOTATIONS: LinkAnnotationSettings = {
+  enabled: true,
+  dimLinks: false,
+};
+
+export const DEFAULT_LIMIT_WARNINGS: LimitWarningSettings = {
+  enabled: true,
+  thresholdMinutes: [5, 1],
+  notify: false,
+};
+
 export const DEFAULT_FRICTION_SETTINGS: FrictionSettings = {
   enabled: true,
   requireReflection: false,
@@ -394,11 +771,21 @@ export const DEFAULT_PROTECTED_GATE: ProtectedGateSettings = {
 export const DEFAULT_DOPAMINE_SCORE: DopamineScoreData = {
   score: 100,
   previousWindowScore: 100,
-  scoreBreakdown: { temptationPenalty: 0, timePenalty: 0, lockedInBonus: 0, delayBonus: 0 },
+  scoreBreakdown: {
+    temptationPenalty: 0,
+    timePenalty: 0,
+    lockedInBonus: 0,
+    delayBonus: 0,
+    emergencyPenalty: 0,
+    tamperPenalty: 0,
+  },
   windowStartTs: 0,
   lockedInSessionsCompleted: 0,
   lockedInMinutes: 0,
   delayCompletions: 0,
+  emergencyUnlocks: 0,
+  pomodoroCycles: 0,
+  tamperEvents: 0,
 };
 
 export const DEFAULT_SELF_CONTROL_DATA: SelfControlData = {
@@ -407,15 +794,40 @@ export const DEFAULT_SELF_CONTROL_DATA: SelfControlData = {
   previousWindowCount: 0,
 };
 
+export const DEFAULT_USAGE_HISTORY: UsageHistory = {
+  days: [],
+};
+
+export const DEFAULT_TIMELINE: TimelineData = {
+  spans: [],
+};
+
+export const DEFAULT_EMERGENCY_UNLOCK_DATA: EmergencyUnlockData = {
+  windowStartTs: 0,
+  unlocks: [],
+};
+
+export const DEFAULT_TAMPER_LOG: TamperLog = {
+  events: [],
+};
+
 export const DEFAULT_SETTINGS: Settings = {
   version: SETTINGS_VERSION,
   disabled: false,
   siteRules: [],
   groups: [],
   globalBlockList: [],
+  allowExceptions: [],
   resetWindow: { ...DEFAULT_RESET_WINDOW },
   friction: { ...DEFAULT_FRICTION_SETTINGS },
+  recurringLockedIn: [],
   protectedGate: { ...DEFAULT_PROTECTED_GATE },
   defaultDelaySeconds: 15,
   allowlistMode: { ...DEFAULT_ALLOWLIST_MODE },
+  idleDetection: { ...DEFAULT_IDLE_DETECTION },
+  tracking: { ...DEFAULT_TRACKING },
+  linkAnnotations: { ...DEFAULT_LINK_ANNOTATIONS },
+  limitWarnings: { ...DEFAULT_LIMIT_WARNINGS, thresholdMinutes: [...DEFAULT_LIMIT_WARNINGS.thresholdMinutes] },
+  emergencyUnlock: { ...DEFAULT_EMERGENCY_UNLOCK },
+  lockdown: { ...DEFAULT_LOCKDOWN },
 };
@@ -0,0 +1,142 @@
+/**
+ * JustDetox — URL path patterns for site rules.
+ *
+ * A SiteRule normally targets a whole hostname. An optional `path` narrows
+ * it to part of a site, e.g. `youtube.com` + `/shorts` blocks Shorts while
+ * leaving `/watch` usable.
+ *
+ * Pattern syntax (matched case-insensitively against `location.pathname`):
+ *   /shorts          — prefix match on a segment boundary:
+ *                      matches /shorts, /shorts/abc — NOT /shortsabc
+ *   /r/*             — `*` matches any run of characters within one segment:
+ *                      matches /r/all, /r/all/top — NOT /r
+ *   /watch/**        — `**` matches any run of characters across segments
+ *
+ * Usage for a path rule is recorded under its own key (`ruleUsageKey`),
+ * e.g. `"youtube.com/shorts"`, alongside the plain hostname record, so a
+ * path rule's limit only counts time spent on matching pages.
+ */
+
+// ─── normalizePathPattern ─────────────────────────────────────────────────────
+
+/**
+ * Reduce a user-supplied path pattern to its canonical stored form.
+ *
+ * Steps applied in order:
+ *  1. Trim and lowercase
+ *  2. Strip query-string and fragment
+ *  3. Ensure a single leading "/" and collapse repeated slashes
+ *  4. Strip a trailing "/"
+ *
+ * Returns `""` for the root path — a root pattern is equivalent to no path
+ * at all and callers should store the rule without one.
+ *
+ * @example
+ *   normalizePathPattern("/Shorts/")     → "/shorts"
+ *   normalizePathPattern("r/all?sort=1") → "/r/all"
+ *   normalizePathPattern("/")            → ""
+ */
+export function normalizePathPattern(input: string): string {
+  let p = input.trim().toLowerCase();
+  p = p.split("?")[0];
+  p = p.split("#")[0];
+  p = `/${p}`.replace(/\/{2,}/g, "/");
+  p = p.replace(/\/$/, "");
+  return p;
+}
+
+/**
+ * Returns `true` if `pattern` is a valid, normalized path pattern.
+ *
+ * Each segment must be non-empty and contain only URL path characters
+ * or the `*` wildcard.
+ */
+export function isValidPathPattern(pattern: string): boolean {
+  if (!pattern.startsWith("/")) return false;
+  const segments = pattern.slice(1).split("/");
+  return segments.every((s) => /^[a-z0-9\-._~%!$&'()+,;=:@*]+$/.test(s));
+}
+
+// ─── splitRuleInput ───────────────────────────────────────────────────────────
+
+/**
+ * Split a raw rule string into its host and path parts.
+ *
+ * The host part is returned as typed (protocol stripped) — callers normalize
+ * it with `sanitizeDomain`. The path part is normalized here and omitted
+ * when it is the root.
+ *
+ * @example
+ *   splitRuleInput("https://www.youtube.com/shorts/") → { host: "www.youtube.com", path: "/shorts" }
+ *   splitRuleInput("reddit.com")                       → { host: "reddit.com" }
+ */
+export function splitRuleInput(raw: string): { host: string; path?: string } {
+  const withoutProtocol = raw.trim().replace(/^https?:\/\//i, "");
+  const slash = withoutProtocol.indexOf("/");
+  if (slash === -1) return { host: withoutProtocol };
+
+  const path = normalizePathPattern(withoutProtocol.slice(slash));
+  const host = withoutProtocol.slice(0, slash);
+  return path ? { host, path } : { host };
+}
+
+// ─── pathMatches ──────────────────────────────────────────────────────────────
+
+const compiled = new Map<string, RegExp>();
+
+function compilePattern(pattern: string): RegExp {
+  let re = compiled.get(pattern);
+  if (re) return re;
+
+  const body = pattern
+    .split(/(\*\*|\*)/)
+    .map((part) => {
+      if (part === "**") return ".*";
+      if (part === "*") return "[^/]*";
+      return part.replace(/[.+?^${}()|[\]\\]/g, "\\$&");
+    })
+    .join("");
+
+  re = new RegExp(`^${body}(?:/|$)`);
+  compiled.set(pattern, re);
+  return re;
+}
+
+/**
+ * Returns `true` if the page `path` falls under `pattern`.
+ *
+ * Both arguments are normalized internally. An empty pattern matches every
+ * path (the rule covers the whole host).
+ *
+ * @example
+ *   pathMatches("/shorts", "/shorts/abc")          → true
+ *   pathMatches("/shorts", "/shortsabc")           → false
+ *   pathMatches("/r/*", "/r/all/top")              → true
+ *   pathMatches("/watch/**", "/watch/a/b/c")       → true
+ */
+export function pathMatches(pattern: string, path: string): boolean {
+  const p = normalizePathPattern(pattern);
+  if (!p) return true;
+  return compilePattern(p).test(normalizePathPattern(path) || "/");
+}
+
+// ─── Usage keys ───────────────────────────────────────────────────────────────
+
+/**
+ * The storage key identifying a rule: its domain, plus its path when set.
+ *
+ * Used both as the usage-map key for path rules and as the rule's identity
+ * in the UI (two rules may share a domain when their paths differ).
+ *
+ * @example
+ *   ruleUsageKey("youtube.com", "/shorts") → "youtube.com/shorts"
+ *   ruleUsageKey("youtube.com")            → "youtube.com"
+ */
+export function ruleUsageKey(domain: string, path?: string): string {
+  return path ? `${domain}${path}` : domain;
+}
+
+/** Returns `true` for usage-map keys written for path rules (not plain hostnames). */
+export function isPathUsageKey(key: string): boolean {
+  return key.includes("/");
+}
@@ -8,6 +8,7 @@
 import { z } from "zod";
 import { SETTINGS_VERSION } from "./types";
 import { normalizeDomain } from "./domain";
+import { normalizePathPattern, isValidPathPattern } from "./urlPattern";
 
 // ─── Domain sanitization ──────────────────────────────────────────────────────
 
@@ -56,14 +57,45 @@ export const domainSchema = z
   .transform(sanitizeDomain)
   .refine(isValidDomain, { message: "Invalid domain — must be a valid hostname (e.g. twitter.com)" });
 
+/**
+ * Normalizes and validates a site-rule path pattern.
+ * A root pattern ("/") normalizes to undefined — the rule covers the whole host.
+ */
+export const pathPatternSchema = z
+  .string()
+  .transform((p) => normalizePathPattern(p) || undefined)
+  .refine((p) => p === undefined || isValidPathPattern(p), {
+    message: "Invalid path — use a prefix like /shorts or a pattern like /r/*",
+  });
+
 /** Block mode enum. */
 export const ruleModeSchema = z.enum(["block", "limit"]);
 
 /** Minutes-per-window constraint: 1 min → 1440 min (24 h). */
 export const limitMinutesSchema = z.number().int().min(1).max(1_440);
 
+/** Per-weekday budgets: seven entries indexed by `Date.getDay()`; null = use the base limit. */
+export const dayLimitsSchema = z.array(limitMinutesSchema.nullable()).length(7);
+
+/** Low-time warning thresholds in minutes left; a handful at most. */
+export const warningMinutesSchema = z.array(limitMinutesSchema).max(5);
+
 // ─── Schedule ─────────────────────────────────────────────────────────────────
 
+const scheduleWindowShape = z.object({
+  enabled: z.boolean().default(true),
+  days: z
+    .array(z.number().int().min(0).max(6))
+    .min(1, "Select at least one day"),
+  startMinutes: z.number().int().min(0).max(1439),
+  endMinutes: z.number().int().min(0).max(1439),
+});
+
+const hasDistinctEnds = (s: { startMinutes: number; endMinutes: number }) =>
+  s.startMinutes !== s.endMinutes;
+
+const distinctEndsIssue = { message: "Start and end time must be different", path: ["endMinutes"] };
+
 /**
  * A single schedule window: days of the week + start/end time.
  *
@@ -72,30 +104,27 @@ export const limitMinutesSchema = z.number().int().min(1).max(1_440);
  *  - `startMinutes` and `endMinutes` must be in range [0, 1439]
  *  - start must not equal end (a zero-duration window is meaningless)
  */
-export const scheduleWindowSchema = z
-  .object({
-    enabled: z.boolean().default(true),
-    days: z
-      .array(z.number().int().min(0).max(6))
-      .min(1, "Select at least one day"),
-    startMinutes: z.number().int().min(0).max(1439),
-    endMinutes: z.number().int().min(0).max(1439),
-  })
-  .refine((s) => s.startMinutes !== s.endMinutes, {
-    message: "Start and end time must be different",
-    path: ["endMinutes"],
-  });
+export const scheduleWindowSchema = scheduleWindowShape.refine(hasDistinctEnds, distinctEndsIssue);
+
+/** A schedule window carrying its own budget (`SiteRule.budgets`). */
+export const budgetWindowSchema = scheduleWindowShape
+  .extend({ limitMinutes: limitMinutesSchema })
+  .refine(hasDistinctEnds, distinctEndsIssue);
 
 // ─── SiteRule ─────────────────────────────────────────────────────────────────
 
 export const siteRuleSchema = z
   .object({
     domain: domainSchema,
+    path: pathPatternSchema.optional(),
     mode: ruleModeSchema,
     limitMinutes: limitMinutesSchema.optional(),
+    dayLimits: dayLimitsSchema.optional(),
+    budgets: z.array(budgetWindowSchema).optional(),
     enabled: z.boolean().default(true),
     delayEnabled: z.boolean().optional(),
     delaySeconds: z.number().int().min(5).max(60).optional(),
+    warningMinutes: warningMinutesSchema.optional(),
     schedule: z.array(scheduleWindowSchema).optional(),
   })
   .refine((r) => r.mode !== "limit" || r.limitMinutes !== undefined, {
@@ -112,9 +141,12 @@ export const siteGroupSchema = z
     domains: z.array(domainSchema).min(1, "Group must contain at least one domain"),
     mode: ruleModeSchema,
     limitMinutes: limitMinutesSchema.optional(),
+    dayLimits: dayLimitsSchema.optional(),
+    budgets: z.array(budgetWindowSchema).optional(),
     enabled: z.boolean().default(true),
     delayEnabled: z.boolean().optional(),
     delaySeconds: z.number().int().min(5).max(60).optional(),
+    warningMinutes: warningMinutesSchema.optional(),
     schedule: z.array(scheduleWindowSchema).optional(),
   })
   .refine((g) => g.mode !== "limit" || g.limitMinutes !== undefined, {
@@ -124,9 +156,17 @@ export const siteGroupSchema = z
 
 // ─── Settings ─────────────────────────────────────────────────────────────────
 
+export const resetAnchorSchema = z.object({
+  period: z.enum(["daily", "weekly"]),
+  /** Minutes since local midnight. */
+  minutes: z.number().int().min(0).max(1439),
+  weekday: z.number().int().min(0).max(6).optional(),
+});
+
 export const resetWindowSchema = z.object({
   /** 1 h minimum, 168 h (7 days) maximum. */
   intervalHours: z.number().int().min(1).max(168),
+  anchor: resetAnchorSchema.optional(),
 });
 
 export const globalDefaultsSchema = z
@@ -136,6 +176,15 @@ export const globalDefaultsSchema = z
   })
   .optional();
 
+export const pomodoroConfigSchema = z.object({
+  cycles: z.number().int().min(1).max(12),
+  focusMinutes: z.number().int().min(5).max(120),
+  shortBreakMinutes: z.number().int().min(1).max(30),
+  longBreakMinutes: z.number().int().min(5).max(60),
+  longBreakEvery: z.number().int().min(2).max(12).default(4),
+  breakAllowedDomains: z.array(z.string()).default([]),
+});
+
 export const lockedInSessionSchema = z
   .object({
     active: z.boolean().default(false),
@@ -143,9 +192,22 @@ export const lockedInSessionSchema = z
     endTs: z.number().min(0),
     allowedDomains: z.array(z.string()).default([]),
     sourceGroupId: z.string().optional(),
+    recurringId: z.string().optional(),
+    pomodoro: pomodoroConfigSchema.optional(),
+    creditedCycles: z.number().int().min(0).optional(),
+    hardLock: z.boolean().optional(),
   })
   .optional();
 
+export const recurringLockedInSchema = z.object({
+  id: z.string().min(1),
+  name: z.string().min(1).max(100),
+  enabled: z.boolean().default(true),
+  schedule: scheduleWindowSchema,
+  sourceGroupId: z.string().optional(),
+  allowedDomains: z.array(domainSchema).default([]),
+});
+
 export const frictionSettingsSchema = z.object({
   enabled: z.boolean().default(true),
   requireReflection: z.boolean().default(false),
@@ -167,12 +229,46 @@ export const allowlistModeSchema = z.object({
   allowedDomains: z.array(domainSchema).default([]),
 });
 
+export const idleDetectionSchema = z.object({
+  enabled: z.boolean().default(false),
+  /** chrome.idle accepts 15 s minimum; capped at one hour. */
+  thresholdSeconds: z.number().int().min(15).max(3600).default(120),
+  countWhilePlayingMedia: z.boolean().default(true),
+});
+
+export const trackingSchema = z.object({
+  audibleTabs: z.boolean().default(false),
+  allWindows: z.boolean().default(false),
+});
+
+export const linkAnnotationsSchema = z.object({
+  enabled: z.boolean().default(true),
+  dimLinks: z.boolean().default(false),
+});
+
+export const limitWarningsSchema = z.object({
+  enabled: z.boolean().default(true),
+  thresholdMinutes: warningMinutesSchema.default([5, 1]),
+  notify: z.boolean().default(false),
+});
+
+export const emergencyUnlockSchema = z.object({
+  enabled: z.boolean().default(true),
+  unlocksPerWindow: z.number().int().min(1).max(5).default(1),
+  minutesPerUnlock: z.number().int().min(1).max(60).default(10),
+});
+
+export const lockdownSchema = z.object({
+  untilTs: z.number().min(0).default(0),
+});
+
 export const settingsSchema = z.object({
   version: z.number().int().min(1).default(SETTINGS_VERSION),
   disabled: z.boolean().default(false),
   siteRules: z.array(siteRuleSchema).default([]),
   groups: z.array(siteGroupSchema).default([]),
   globalBlockList: z.array(domainSchema).default([]),
+  allowExceptions: z.array(domainSchema).default([]),
   globalDefaults: globalDefaultsSchema,
   resetWindow: resetWindowSchema.default({ intervalHours: 24 }),
   friction: frictionSettingsSchema.default({
@@ -181,6 +277,7 @@ export const settingsSchema = z.object({
     logReflections: true,
   }),
   lockedInSession: lockedInSessionSchema,
+  recurringLockedIn: z.array(recurringLockedInSchema).default([]),
   protectedGate: protectedGateSchema.default({
     enabled: true,
     cooldownSeconds: 60,
@@ -190,6 +287,16 @@ export const settingsSchema = z.object({
   }),
   defaultDelaySeconds: z.number().int().min(5).max(60).default(15),
   allowlistMode: allowlistModeSchema.default({ enabled: false, allowedDomains: [] }),
+  idleDetection: idleDetectionSchema.default({
+    enabled: false,
+    thresholdSeconds: 120,
+    countWhilePlayingMedia: true,
+  }),
+  tracking: trackingSchema.default({ audibleTabs: false, allWindows: false }),
+  linkAnnotations: linkAnnotationsSchema.default({ enabled: true, dimLinks: false }),
+  limitWarnings: limitWarningsSchema.default({ enabled: true, thresholdMinutes: [5, 1], notify: false }),
+  emergencyUnlock: emergencyUnlockSchema.default({ enabled: true, unlocksPerWindow: 1, minutesPerUnlock: 10 }),
+  lockdown: lockdownSchema.default({ untilTs: 0 }),
 });
 
 // ─── Usage ────────────────────────────────────────────────────────────────────
@@ -220,6 +327,8 @@ export const dopamineScoreBreakdownSchema = z.object({
   timePenalty: z.number().min(0),
   lockedInBonus: z.number().min(0),
   delayBonus: z.number().min(0),
+  emergencyPenalty: z.number().min(0).default(0),
+  tamperPenalty: z.number().min(0).default(0),
 });
 
 export const dopamineScoreDataSchema = z.object({
@@ -230,6 +339,9 @@ export const dopamineScoreDataSchema = z.object({
   lockedInSessionsCompleted: z.number().int().min(0),
   lockedInMinutes: z.number().min(0),
   delayCompletions: z.number().int().min(0),
+  emergencyUnlocks: z.number().int().min(0).default(0),
+  pomodoroCycles: z.number().int().min(0).default(0),
+  tamperEvents: z.number().int().min(0).default(0),
 });
 
 // ─── Self-Control Graph ────────────────────────────────────────────────────────
@@ -239,6 +351,7 @@ export const selfControlEventTypeSchema = z.enum([
   "limit_exceeded",
   "locked_in_block",
   "delay_triggered",
+  "emergency_unlock",
 ]);
 
 export const selfControlEventSchema = z.object({
@@ -253,6 +366,60 @@ export const selfControlDataSchema = z.object({
   previousWindowCount: z.number().int().min(0).default(0),
 });
 
+// ─── Usage history ─────────────────────────────────────────────────────────────
+
+export const historyDaySchema = z.object({
+  day: z.string().regex(/^\d{4}-\d{2}-\d{2}$/),
+  domains: z.record(z.string(), z.number().min(0)),
+});
+
+export const usageHistorySchema = z.object({
+  days: z.array(historyDaySchema).default([]),
+});
+
+// ─── Browsing timeline ─────────────────────────────────────────────────────────
+
+export const timelineSpanSchema = z.object({
+  domain: z.string(),
+  start: z.number().min(0),
+  end: z.number().min(0),
+});
+
+export const timelineDataSchema = z.object({
+  spans: z.array(timelineSpanSchema).default([]),
+});
+
+// ─── Emergency unlocks ─────────────────────────────────────────────────────────
+
+export const emergencyUnlockEntrySchema = z.object({
+  domain: z.string().min(1),
+  startTs: z.number().min(0),
+  endTs: z.number().min(0),
+});
+
+export const emergencyUnlockDataSchema = z.object({
+  windowStartTs: z.number().min(0),
+  unlocks: z.array(emergencyUnlockEntrySchema).default([]),
+});
+
+// ─── Tamper log ────────────────────────────────────────────────────────────────
+
+export const tamperEventSchema = z.object({
+  ts: z.number().min(0),
+  kind: z.enum(["disabled", "reinstalled", "state-lost"]),
+  gapMs: z.number().min(0),
+  installType: z.string().optional(),
+});
+
+export const tamperLogSchema = z.object({
+  events: z.array(tamperEventSchema).default([]),
+});
+
+export const heartbeatSchema = z.object({
+  installId: z.string().min(1),
+  lastBeatTs: z.number().min(0),
+});
+
 // ─── Full export ──────────────────────────────────────────────────────────────
 
 export const fullExportSchema = z.object({
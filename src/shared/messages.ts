@@ -2,11 +2,49 @@
  * Message types for communication between content scripts and background.
  */
 
-export type MessageType = "CHECK_URL" | "RECORD_TIME" | "GET_STORAGE" | "DELAY_COMPLETED";
+import type { EmergencyUnlock, LinkAnnotationSettings } from "../core/types";
+
+export type MessageType =
+  | "CHECK_URL"
+  | "CHECK_URLS"
+  | "RECORD_TIME"
+  | "GET_STORAGE"
+  | "DELAY_COMPLETED"
+  | "EMERGENCY_UNLOCK"
+  | "LIMIT_WARNING"
+  | "RECHECK";
 
 export interface CheckUrlMessage {
   type: "CHECK_URL";
   hostname: string;
+  /** Page path (`location.pathname`) — needed to evaluate path rules. */
+  path?: string;
+  /**
+   * True for a re-check pushed by the background (RECHECK), not a visit —
+   * no temptation attempt or self-control event is recorded.
+   */
+  recheck?: boolean;
+  /**
+   * True for a same-host path change: the overlay lets a delayed site
+   * through without a countdown, so no delay_triggered event is recorded.
+   */
+  skipDelay?: boolean;
+}
+
+/** One link target in a CHECK_URLS batch. */
+export interface UrlTarget {
+  hostname: string;
+  path?: string;
+}
+
+/**
+ * Bulk lookup for links and embeds on a page (annotations, the link guard,
+ * the iframe blocker). Unlike CHECK_URL it has no side effects — no
+ * temptation is recorded.
+ */
+export interface CheckUrlsMessage {
+  type: "CHECK_URLS";
+  urls: UrlTarget[];
 }
 
 export interface RecordTimeMessage {
@@ -24,7 +62,47 @@ export interface DelayCompletedMessage {
   type: "DELAY_COMPLETED";
 }
 
-export type ExtensionMessage = CheckUrlMessage | RecordTimeMessage | GetStorageMessage | DelayCompletedMessage;
+/** Sent by the options page after the user passes the friction gate. */
+export interface EmergencyUnlockMessage {
+  type: "EMERGENCY_UNLOCK";
+  domain: string;
+}
+
+/**
+ * Sent by the overlay when a time-limited site crosses a low-time warning
+ * threshold and `limitWarnings.notify` is on. The background shows a system
+ * notification.
+ */
+export interface LimitWarningMessage {
+  type: "LIMIT_WARNING";
+  hostname: string;
+  remainingSeconds: number;
+}
+
+/**
+ * Sent by the background to open tabs when settings change (new rules,
+ * Allowlist Mode, a Locked In session starting or ending). The overlay
+ * re-checks its page and mounts or unmounts right away.
+ */
+export interface RecheckMessage {
+  type: "RECHECK";
+}
+
+/** Messages the background sends to content scripts. */
+export type TabMessage = RecheckMessage;
+
+export type ExtensionMessage =
+  | CheckUrlMessage
+  | CheckUrlsMessage
+  | RecordTimeMessage
+  | GetStorageMessage
+  | DelayCompletedMessage
+  | EmergencyUnlockMessage
+  | LimitWarningMessage;
+
+export type EmergencyUnlockResponse =
+  | { ok: true; unlock: EmergencyUnlock }
+  | { ok: false; error: string };
 
 export interface CheckUrlResponse {
   blocked: boolean;
@@ -38,4 +116,41 @@ export interface CheckUrlResponse {
   delayed?: boolean;
   /** Countdown duration in seconds; only set when delayed === true. */
   delaySeconds?: number;
+  /**
+   * Unix ms of the next schedule or Locked In boundary, when the verdict
+   * could change without a navigation (see `nextPolicyTransition`).
+   */
+  nextCheckTs?: number;
+  /**
+   * Unix ms when the block ends on its own — session end, schedule end or
+   * limit reset. Only set when blocked; absent when it does not lift.
+   */
+  liftsAtTs?: number;
+  /** Temptation attempts on this domain in the current window; only set when blocked. */
+  attemptsToday?: number;
+  /**
+   * Low-time warning thresholds in seconds, largest first; only set for an
+   * allowed time-limited site (see limitWarning.ts).
+   */
+  warningSeconds?: number[];
+  /** True when warnings should also raise a system notification (LIMIT_WARNING). */
+  notifyWarnings?: boolean;
+}
+
+/** What a link or embed leads to. */
+export type UrlStatus =
+  | { status: "open" }
+  | { status: "blocked" }
+  | {
+      status: "limited";
+      remainingSeconds: number;
+      /** True when Delay Mode shows a countdown before the page opens. */
+      delayed?: boolean;
+    };
+
+export interface CheckUrlsResponse {
+  /** One status per requested URL, in request order. */
+  results: UrlStatus[];
+  /** The user's badge preferences (`settings.linkAnnotations`). */
+  annotations: LinkAnnotationSettings;
 }
@@ -0,0 +1,157 @@
+/**
+ * PolicyTester — "Test a URL" tool.
+ *
+ * Runs `explainPolicy` against the stored settings and usage and renders the
+ * tier-by-tier trace, schedule windows and usage math. Shared by the popup
+ * and the options page.
+ */
+
+import { useState } from "react";
+import { getSettings, getUsage } from "../../core/storage";
+import { explainPolicy, parseTestUrl, type PolicyExplanation } from "../../core/explain";
+
+// ─── Helpers ──────────────────────────────────────────────────────────────────
+
+const TIER_LABELS: Record<PolicyExplanation["steps"][number]["tier"], string> = {
+  disabled:            "Master switch",
+  "allowlist-mode":    "Allowlist Mode",
+  "locked-in":         "Locked In",
+  "allow-exception":   "Allow exception",
+  "site-rule":         "Site rule",
+  group:               "Group",
+  "global-block-list": "Always blocked",
+  "global-defaults":   "Global default",
+};
+
+function formatMinutes(seconds: number): string {
+  const m = Math.floor(seconds / 60);
+  const s = seconds % 60;
+  return s === 0 ? `${m}m` : `${m}m ${s}s`;
+}
+
+const LIMIT_SOURCE_LABELS: Record<NonNullable<PolicyExplanation["usage"]>["limitSource"], string> = {
+  base:     "",
+  weekday:  " (today's budget)",
+  window: " (budget window)",
+};
+
+function verdictLabel(result: PolicyExplanation): string {
+  const { state } = result;
+  if (state.blocked) return state.mode === "limit" ? "Blocked — time is up" : "Blocked";
+  if (state.delayed) return "Allowed after a countdown";
+  if (state.mode === "limit") return "Time-limited";
+  return "Allowed";
+}
+
+// ─── Component ────────────────────────────────────────────────────────────────
+
+interface PolicyTesterProps {
+  /** Pre-filled URL, e.g. the active tab. */
+  initialUrl?: string;
+}
+
+export function PolicyTester({ initialUrl = "" }: PolicyTesterProps) {
+  const [input, setInput] = useState(initialUrl);
+  const [result, setResult] = useState<PolicyExplanation | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const runTest = async () => {
+    const parsed = parseTestUrl(input);
+    if (!parsed) {
+      setError("Enter a URL or hostname, e.g. youtube.com/shorts");
+      setResult(null);
+      return;
+    }
+    try {
+      const [settings, usage] = await Promise.all([getSettings(), getUsage()]);
+      setResult(explainPolicy(parsed.hostname, settings, usage, Date.now(), parsed.path));
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load settings");
+      setResult(null);
+    }
+  };
+
+  return (
+    <div className="policy-tester">
+      <form
+        className="policy-tester__form"
+        onSubmit={(e) => {
+          e.preventDefault();
+          void runTest();
+        }}
+      >
+        <input
+          className="input"
+          type="text"
+          placeholder="youtube.com/shorts"
+          value={input}
+          onChange={(e) => setInput(e.target.value)}
+        />
+        <button className="btn btn-secondary btn--sm" type="submit">
+          Test
+        </button>
+      </form>
+
+      {error && <p className="policy-tester__error">{error}</p>}
+
+      {result && (
+        <div className="policy-tester__result">
+          <p className={`policy-tester__verdict${result.state.blocked ? " policy-tester__verdict--blocked" : ""}`}>
+            {verdictLabel(result)}
+            <span className="policy-tester__target">
+              {result.hostname}
+              {result.path && result.path !== "/" ? result.path : ""}
+            </span>
+          </p>
+
+          <ol className="policy-tester__steps">
+            {result.steps.map((step) => (
+              <li key={step.tier} className={`policy-tester__step policy-tester__step--${step.outcome}`}>
+                <span className="policy-tester__tier">{TIER_LABELS[step.tier]}</span>
+                <span className="policy-tester__detail">{step.detail}</span>
+              </li>
+            ))}
+          </ol>
+
+          {result.schedules.length > 0 && (
+            <div className="policy-tester__section">
+              <p className="policy-tester__heading">
+                Schedule — {result.scheduleActive ? "active now" : "not active now, rule skipped"}
+              </p>
+              <ul className="policy-tester__list">
+                {result.schedules.map((s, i) => (
+                  <li key={i} className={s.active ? "policy-tester__on" : undefined}>
+                    {s.summary}
+                    {!s.window.enabled && " (disabled)"}
+                    {s.active && " ✓"}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          {result.usage && (
+            <div className="policy-tester__section">
+              <p className="policy-tester__heading">
+                Usage — {formatMinutes(result.usage.usedSeconds)} used of{" "}
+                {formatMinutes(result.usage.limitSeconds)}
+                {LIMIT_SOURCE_LABELS[result.usage.limitSource]},{" "}
+                {formatMinutes(result.usage.remainingSeconds)} left
+              </p>
+              {result.usage.contributions.length > 0 && (
+                <ul className="policy-tester__list">
+                  {result.usage.contributions.map((c, i) => (
+                    <li key={`${c.key}:${i}`}>
+                      {c.key} — {formatMinutes(c.seconds)}
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
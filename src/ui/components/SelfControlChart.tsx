@@ -36,12 +36,20 @@ function formatHHMM(ts: number): string {
 
 interface SelfControlChartProps {
   buckets: BucketPoint[];
+  /** Y-axis label formatter. Defaults to the raw count. */
+  formatValue?: (value: number) => string;
+  /** Shown instead of the chart when there are no buckets. */
+  emptyMessage?: string;
 }
 
-export function SelfControlChart({ buckets }: SelfControlChartProps) {
+export function SelfControlChart({
+  buckets,
+  formatValue = String,
+  emptyMessage = "No events recorded yet.",
+}: SelfControlChartProps) {
   if (buckets.length === 0) {
     return (
-      <div className="scg-chart-empty">No events recorded yet.</div>
+      <div className="scg-chart-empty">{emptyMessage}</div>
     );
   }
 
@@ -106,7 +114,7 @@ export function SelfControlChart({ buckets }: SelfControlChartProps) {
             fontVariantNumeric: "tabular-nums",
           }}
         >
-          {value}
+          {formatValue(value)}
         </text>
       ))}
 
@@ -0,0 +1,110 @@
+/**
+ * UsageHistoryChart — Monochrome SVG column chart of daily browsing time.
+ *
+ * Same visual language as SelfControlChart: grays only, sparse date ticks
+ * on the x-axis, 0 and max time labels on the y-axis, width 100%.
+ */
+
+import type { DailyTotal } from "../../core/history";
+import { formatTime } from "../popup/utils/formatTime";
+
+// ─── Chart constants ──────────────────────────────────────────────────────────
+
+const CHART_W = 540;
+const CHART_H = 100;
+const PAD = { top: 8, right: 4, bottom: 22, left: 44 };
+const INNER_W = CHART_W - PAD.left - PAD.right;
+const INNER_H = CHART_H - PAD.top - PAD.bottom;
+
+/** Maximum number of x-axis tick labels to show. */
+const MAX_X_TICKS = 7;
+
+const LABEL_STYLE = {
+  fill: "#3a3a3a",
+  fontSize: "9px",
+  fontFamily: "ui-monospace, monospace",
+  fontVariantNumeric: "tabular-nums",
+} as const;
+
+// ─── Helpers ──────────────────────────────────────────────────────────────────
+
+function formatDay(ts: number): string {
+  return new Date(ts).toLocaleDateString(undefined, { month: "short", day: "numeric" });
+}
+
+// ─── Component ────────────────────────────────────────────────────────────────
+
+interface UsageHistoryChartProps {
+  series: DailyTotal[];
+}
+
+export function UsageHistoryChart({ series }: UsageHistoryChartProps) {
+  if (series.every((d) => d.totalSeconds === 0)) {
+    return <div className="scg-chart-empty">No usage recorded in this range.</div>;
+  }
+
+  const n = series.length;
+  const max = Math.max(...series.map((d) => d.totalSeconds), 1);
+  const slotW = INNER_W / n;
+  const barW = Math.max(1, slotW * 0.7);
+  const tickInterval = Math.max(1, Math.ceil(n / MAX_X_TICKS));
+
+  return (
+    <svg
+      viewBox={`0 0 ${CHART_W} ${CHART_H}`}
+      style={{ width: "100%", height: "auto", display: "block", overflow: "visible" }}
+      aria-hidden="true"
+    >
+      {/* Axes */}
+      <line x1={PAD.left} y1={PAD.top} x2={PAD.left} y2={PAD.top + INNER_H} stroke="#1c1c1c" strokeWidth="1" />
+      <line
+        x1={PAD.left}
+        y1={PAD.top + INNER_H}
+        x2={PAD.left + INNER_W}
+        y2={PAD.top + INNER_H}
+        stroke="#1c1c1c"
+        strokeWidth="1"
+      />
+
+      {/* Y-axis labels */}
+      <text x={PAD.left - 4} y={PAD.top + 3} textAnchor="end" style={LABEL_STYLE}>
+        {formatTime(max)}
+      </text>
+      <text x={PAD.left - 4} y={PAD.top + INNER_H + 3} textAnchor="end" style={LABEL_STYLE}>
+        0
+      </text>
+
+      {/* Bars */}
+      {series.map((d, i) => {
+        const barH = d.totalSeconds === 0 ? 0 : Math.max(1, (d.totalSeconds / max) * INNER_H);
+        return (
+          <rect
+            key={d.day}
+            x={PAD.left + i * slotW + (slotW - barW) / 2}
+            y={PAD.top + INNER_H - barH}
+            width={barW}
+            height={barH}
+            style={{ fill: i === n - 1 ? "#4a4a4a" : "#2e2e2e" }}
+          >
+            <title>{`${formatDay(d.dayStartTs)} — ${formatTime(d.totalSeconds)}`}</title>
+          </rect>
+        );
+      })}
+
+      {/* X-axis tick labels — counted back from today so today is always labelled */}
+      {series.map((d, i) =>
+        (n - 1 - i) % tickInterval === 0 ? (
+          <text
+            key={d.day}
+            x={PAD.left + i * slotW + slotW / 2}
+            y={PAD.top + INNER_H + 14}
+            textAnchor="middle"
+            style={LABEL_STYLE}
+          >
+            {formatDay(d.dayStartTs)}
+          </text>
+        ) : null,
+      )}
+    </svg>
+  );
+}
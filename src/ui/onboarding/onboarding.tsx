@@ -53,6 +53,7 @@ function Onboarding() {
   const [limitMinutes, setLimitMinutes]     = useState(60);
   const [intervalHours, setIntervalHours]   = useState<number>(24);
   const [saving, setSaving]                 = useState(false);
+  const [saveError, setSaveError]           = useState<string | null>(null);
 
   const toggleTemplate = (id: TemplateId) => {
     setSelectedTemplate((prev) => (prev === id ? null : id));
@@ -60,6 +61,7 @@ function Onboarding() {
 
   const handleFinish = async () => {
     setSaving(true);
+    setSaveError(null);
     try {
       const settings = await getSettings();
       const updated = { ...settings, resetWindow: { intervalHours } };
@@ -77,7 +79,13 @@ function Onboarding() {
         updated.groups = [...settings.groups, group];
       }
 
-      await setSettings(updated);
+      const result = await setSettings(updated);
+      if (!result.ok) {
+        // A hard-locked session or lockdown refused the write — say why.
+        setSaveError(result.error);
+        setSaving(false);
+        return;
+      }
       window.close();
     } catch {
       setSaving(false);
@@ -297,6 +305,7 @@ function Onboarding() {
                 {saving ? "Saving…" : "Get started"}
               </button>
             </div>
+            {saveError && <p className="ob-error">{saveError}</p>}
           </>
         )}
 
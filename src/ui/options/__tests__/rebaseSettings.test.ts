@@ -0,0 +1,72 @@
+import { describe, it, expect } from "vitest";
+import { rebaseSettings } from "../utils/rebaseSettings";
+import { DEFAULT_SETTINGS } from "../../../core/types";
+import type { LockedInSession, Settings } from "../../../core/types";
+
+// ─── Helpers ──────────────────────────────────────────────────────────────────
+
+const NOW = 1_700_000_000_000;
+
+/** What the options page loaded. */
+const loaded: Settings = { ...DEFAULT_SETTINGS };
+
+const recurringSession: LockedInSession = {
+  active: true,
+  startTs: NOW,
+  endTs: NOW + 3_600_000,
+  allowedDomains: ["docs.google.com"],
+  recurringId: "mornings",
+};
+
+const rule = { domain: "reddit.com", mode: "block" as const, enabled: true };
+
+// ─── rebaseSettings ───────────────────────────────────────────────────────────
+
+describe("rebaseSettings", () => {
+  it("keeps a recurring session the background started after the page loaded", () => {
+    const local = { ...loaded, siteRules: [rule] };
+    const stored = { ...loaded, lockedInSession: recurringSession };
+
+    const saved = rebaseSettings(loaded, local, stored);
+    expect(saved.lockedInSession).toEqual(recurringSession);
+    expect(saved.siteRules).toEqual([rule]);
+  });
+
+  it("keeps a recurring session's end written after the page loaded", () => {
+    const base = { ...loaded, lockedInSession: recurringSession };
+    const local = { ...base, siteRules: [rule] };
+    const stored = { ...base, lockedInSession: { ...recurringSession, active: false } };
+
+    expect(rebaseSettings(base, local, stored).lockedInSession?.active).toBe(false);
+  });
+
+  it("does not roll back credited Pomodoro cycles", () => {
+    const base = { ...loaded, lockedInSession: { ...recurringSession, creditedCycles: 1 } };
+    const local = { ...base, defaultDelaySeconds: 30 };
+    const stored = { ...base, lockedInSession: { ...recurringSession, creditedCycles: 2 } };
+
+    const saved = rebaseSettings(base, local, stored);
+    expect(saved.lockedInSession?.creditedCycles).toBe(2);
+    expect(saved.defaultDelaySeconds).toBe(30);
+  });
+
+  it("keeps the page's value for a field it edited", () => {
+    const local = { ...loaded, lockedInSession: { ...recurringSession, recurringId: undefined } };
+    const stored = { ...loaded, lockedInSession: recurringSession };
+
+    expect(rebaseSettings(loaded, local, stored).lockedInSession?.recurringId).toBeUndefined();
+  });
+
+  it("removes a field the page cleared", () => {
+    const base = { ...loaded, lockedInSession: recurringSession };
+    const local: Settings = { ...base };
+    delete local.lockedInSession;
+
+    expect(rebaseSettings(base, local, base)).not.toHaveProperty("lockedInSession");
+  });
+
+  it("takes a fresh copy of unchanged fields even when they are new objects", () => {
+    const stored = JSON.parse(JSON.stringify(loaded)) as Settings;
+    expect(rebaseSettings(JSON.parse(JSON.stringify(loaded)), loaded, stored)).toEqual(stored);
+  });
+});
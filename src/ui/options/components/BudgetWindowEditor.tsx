@@ -0,0 +1,176 @@
+// FILE: src/ui/options/components/BudgetWindowEditor.tsx
+
+import type { BudgetWindow } from "../../../core/types";
+
+// ─── Props ────────────────────────────────────────────────────────────────────
+
+interface BudgetWindowEditorProps {
+  budgets: BudgetWindow[];
+  onChange: (budgets: BudgetWindow[]) => void;
+  /** Optional error message shown at the bottom of the section. */
+  error?: string;
+}
+
+// ─── Time conversion helpers ──────────────────────────────────────────────────
+
+/** Convert minutes-since-midnight to an HTML time input value: "09:00". */
+function minutesToTime(m: number): string {
+  const h = Math.floor(m / 60) % 24;
+  const min = m % 60;
+  return `${String(h).padStart(2, "0")}:${String(min).padStart(2, "0")}`;
+}
+
+/** Convert an HTML time input value ("09:00") to minutes-since-midnight. */
+function timeToMinutes(t: string): number {
+  const [h, m] = t.split(":").map(Number);
+  return (h ?? 0) * 60 + (m ?? 0);
+}
+
+// ─── Constants ────────────────────────────────────────────────────────────────
+
+const DAY_LABELS = ["S", "M", "T", "W", "T", "F", "S"] as const;
+const MAX_WINDOWS = 4;
+
+const DEFAULT_WINDOW: BudgetWindow = {
+  enabled: true,
+  days: [1, 2, 3, 4, 5], // Mon–Fri
+  startMinutes: 540,       // 9:00 AM
+  endMinutes: 1020,        // 5:00 PM
+  limitMinutes: 15,
+};
+
+// ─── Component ────────────────────────────────────────────────────────────────
+
+/**
+ * Budget windows for limit-mode rules and groups. While a window is active
+ * its budget replaces the limit; outside every window the limit still applies.
+ */
+export function BudgetWindowEditor({ budgets, onChange, error }: BudgetWindowEditorProps) {
+  const updateWindow = (index: number, patch: Partial<BudgetWindow>) => {
+    onChange(budgets.map((w, i) => (i === index ? { ...w, ...patch } : w)));
+  };
+
+  const removeWindow = (index: number) => {
+    onChange(budgets.filter((_, i) => i !== index));
+  };
+
+  const addWindow = () => {
+    if (budgets.length >= MAX_WINDOWS) return;
+    onChange([...budgets, { ...DEFAULT_WINDOW }]);
+  };
+
+  const toggleDay = (windowIndex: number, day: number) => {
+    const w = budgets[windowIndex];
+    if (!w) return;
+    const days = w.days.includes(day) ? w.days.filter((d) => d !== day) : [...w.days, day];
+    updateWindow(windowIndex, { days });
+  };
+
+  return (
+    <div className="sched-section">
+      <div className="sched-header">
+        <span className="sched-header__label">Budget windows</span>
+      </div>
+
+      {budgets.length > 0 && (
+        <div className="sched-windows">
+          {budgets.map((w, wi) => (
+            <div key={wi} className="sched-window">
+              {/* Top row: enabled toggle + remove */}
+              <div className="sched-window__top">
+                <div className="sched-window__top-left">
+                  <label className="toggle">
+                    <input
+                      className="toggle__input"
+                      type="checkbox"
+                      checked={w.enabled}
+                      onChange={(e) => updateWindow(wi, { enabled: e.target.checked })}
+                    />
+                    <span className="toggle__track"><span className="toggle__thumb" /></span>
+                  </label>
+                  <span className="sched-window__enabled-label">
+                    {w.enabled ? "Active" : "Disabled"}
+                  </span>
+                </div>
+                <button
+                  type="button"
+                  className="btn btn-ghost btn--sm btn--icon"
+                  title="Remove window"
+                  onClick={() => removeWindow(wi)}
+                >
+                  ✕
+                </button>
+              </div>
+
+              {/* Day pills: S M T W T F S */}
+              <div className="sched-days">
+                {DAY_LABELS.map((label, day) => (
+                  <button
+                    key={day}
+                    type="button"
+                    className={`sched-day${w.days.includes(day) ? " sched-day--active" : ""}`}
+                    title={["Sun","Mon","Tue","Wed","Thu","Fri","Sat"][day]}
+                    onClick={() => toggleDay(wi, day)}
+                  >
+                    {label}
+                  </button>
+                ))}
+              </div>
+
+              {/* Time inputs */}
+              <div className="sched-window__times">
+                <input
+                  className="input"
+                  type="time"
+                  value={minutesToTime(w.startMinutes)}
+                  onChange={(e) =>
+                    updateWindow(wi, { startMinutes: timeToMinutes(e.target.value) })
+                  }
+                />
+                <span className="sched-window__times-sep">to</span>
+                <input
+                  className="input"
+                  type="time"
+                  value={minutesToTime(w.endMinutes)}
+                  onChange={(e) =>
+                    updateWindow(wi, { endMinutes: timeToMinutes(e.target.value) })
+                  }
+                />
+              </div>
+
+              {/* Budget while this window is active */}
+              <label className="sched-window__budget">
+                <span>Budget</span>
+                <input
+                  className="input"
+                  type="number"
+                  min={1}
+                  max={1440}
+                  value={w.limitMinutes || ""}
+                  onChange={(e) => {
+                    const mins = parseInt(e.target.value, 10);
+                    // 0 fails budgetsValid, so a blank budget is caught on save.
+                    updateWindow(wi, { limitMinutes: isNaN(mins) ? 0 : mins });
+                  }}
+                />
+                <span>min while active</span>
+              </label>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {budgets.length < MAX_WINDOWS && (
+        <button
+          type="button"
+          className="btn btn-ghost btn--sm sched-add-btn"
+          onClick={addWindow}
+        >
+          + Add budget window
+        </button>
+      )}
+
+      {error && <p className="sched-error">{error}</p>}
+    </div>
+  );
+}
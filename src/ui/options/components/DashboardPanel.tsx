@@ -4,9 +4,12 @@ import { useDashboard } from "../hooks/useDashboard";
 import { BarChart } from "./BarChart";
 import { DopamineScoreCard } from "./DopamineScoreCard";
 import { SelfControlSection } from "./SelfControlSection";
+import { UsageHistorySection } from "./UsageHistorySection";
+import { TimelineSection } from "./TimelineSection";
+import { TamperLogSection } from "./TamperLogSection";
 import type { Settings } from "../../../core/types";
 import { formatTime } from "../../popup/utils/formatTime";
-import { useFriction } from "../context/FrictionContext";
+import { describeResetWindow } from "../../../core/resetWindow";
 
 interface DashboardPanelProps {
   settings: Settings;
@@ -17,17 +20,8 @@ interface DashboardPanelProps {
 export function DashboardPanel({ settings, patch, lockedInActive }: DashboardPanelProps) {
   const { domainStats, groupStats, temptationStats, totalSeconds, dopamineScore, loading, refresh } =
     useDashboard(settings);
-  const { askFriction } = useFriction();
-
-  const handleDisableToggle = async () => {
-    // Only gate the action when the extension is currently ENABLED (i.e. user is disabling it).
-    if (!settings.disabled) {
-      const ok = await askFriction({
-        actionType: "disable-extension",
-        label: "Extension — master toggle",
-      });
-      if (!ok) return;
-    }
+  // Disabling is gated by the guarded patch (see useGuardedPatch).
+  const handleDisableToggle = () => {
     patch({ disabled: !settings.disabled });
   };
 
@@ -76,7 +70,7 @@ export function DashboardPanel({ settings, patch, lockedInActive }: DashboardPan
             className="toggle__input"
             type="checkbox"
             checked={!settings.disabled}
-            onChange={() => void handleDisableToggle()}
+            onChange={handleDisableToggle}
           />
           <span className="toggle__track"><span className="toggle__thumb" /></span>
         </label>
@@ -99,7 +93,7 @@ export function DashboardPanel({ settings, patch, lockedInActive }: DashboardPan
           </div>
           <div className="stat-card">
             <span className="stat-card__label">Window</span>
-            <span className="stat-card__value tabular">{settings.resetWindow.intervalHours}h</span>
+            <span className="stat-card__value tabular">{describeResetWindow(settings.resetWindow)}</span>
           </div>
         </div>
       )}
@@ -122,6 +116,9 @@ export function DashboardPanel({ settings, patch, lockedInActive }: DashboardPan
         )}
       </section>
 
+      {/* History — archived windows plus the live one */}
+      {!loading && <UsageHistorySection />}
+
       {/* Most tempting sites */}
       {!loading && temptationStats.length > 0 && (
         <section className="panel-section">
@@ -154,6 +151,12 @@ export function DashboardPanel({ settings, patch, lockedInActive }: DashboardPan
       {/* Self-Control Graph */}
       {!loading && <SelfControlSection />}
 
+      {/* Browsing timeline — hourly, next to the temptation buckets */}
+      {!loading && <TimelineSection />}
+
+      {/* Gaps in protection — extension turned off, reinstalled or wiped */}
+      {!loading && <TamperLogSection thisWindow={dopamineScore.tamperEvents} />}
+
       {/* Groups summary — only if groups exist */}
       {settings.groups.length > 0 && (
         <section className="panel-section">
@@ -0,0 +1,58 @@
+// FILE: src/ui/options/components/DayBudgetEditor.tsx
+
+// ─── Props ────────────────────────────────────────────────────────────────────
+
+interface DayBudgetEditorProps {
+  /** Seven entries indexed by Date.getDay(); null = use the base limit. Absent = no overrides. */
+  dayLimits: (number | null)[] | undefined;
+  /** Base limit shown as the placeholder for days without an override. */
+  baseLimit: string;
+  onChange: (dayLimits: (number | null)[] | undefined) => void;
+  /** Optional error message shown below the grid. */
+  error?: string;
+}
+
+// ─── Constants ────────────────────────────────────────────────────────────────
+
+const DAY_NAMES = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"] as const;
+const EMPTY: (number | null)[] = [null, null, null, null, null, null, null];
+
+// ─── Component ────────────────────────────────────────────────────────────────
+
+/**
+ * Per-weekday budget grid for limit-mode rules and groups.
+ * A blank day falls back to the base limit; clearing every day removes the overrides.
+ */
+export function DayBudgetEditor({ dayLimits, baseLimit, onChange, error }: DayBudgetEditorProps) {
+  const values = dayLimits ?? EMPTY;
+
+  const setDay = (day: number, raw: string) => {
+    const mins = parseInt(raw, 10);
+    const next = values.map((v, i) => (i === day ? (isNaN(mins) ? null : mins) : v));
+    onChange(next.every((v) => v === null) ? undefined : next);
+  };
+
+  return (
+    <div className="field">
+      <span className="field__label">Per-day budget (min)</span>
+      <div className="day-budget">
+        {DAY_NAMES.map((label, day) => (
+          <label key={day} className="day-budget__cell">
+            <span className="day-budget__day">{label}</span>
+            <input
+              className="input day-budget__input"
+              type="number"
+              min={1}
+              max={1440}
+              placeholder={baseLimit}
+              value={values[day] ?? ""}
+              onChange={(e) => setDay(day, e.target.value)}
+            />
+          </label>
+        ))}
+      </div>
+      <p className="field__hint">Leave a day blank to use the limit above.</p>
+      {error && <p className="field__error">{error}</p>}
+    </div>
+  );
+}
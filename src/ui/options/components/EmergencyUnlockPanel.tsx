@@ -0,0 +1,198 @@
+// FILE: src/ui/options/components/EmergencyUnlockPanel.tsx
+
+/**
+ * Emergency Unlock panel — options page.
+ *
+ * The break-glass path past a block: pick a domain, pass the friction gate,
+ * and the background lifts every rule on it for a few minutes. Shows the
+ * quota left this window, running unlocks, and the quota settings.
+ * Raising the quota goes through the gate too, via the guarded patch.
+ */
+
+import { useState } from "react";
+import type { Settings, EmergencyUnlockSettings } from "../../../core/types";
+import { DEFAULT_EMERGENCY_UNLOCK } from "../../../core/types";
+import { useFriction } from "../context/FrictionContext";
+import { useEmergencyUnlocks } from "../hooks/useEmergencyUnlocks";
+import { formatTime } from "../../popup/utils/formatTime";
+
+interface EmergencyUnlockPanelProps {
+  settings: Settings;
+  patch: (update: Partial<Settings>) => void;
+}
+
+const COUNT_PRESETS = [1, 2, 3] as const;
+const MINUTE_PRESETS = [5, 10, 15, 30] as const;
+
+export function EmergencyUnlockPanel({ settings, patch }: EmergencyUnlockPanelProps) {
+  const { askFriction } = useFriction();
+  const config = settings.emergencyUnlock ?? DEFAULT_EMERGENCY_UNLOCK;
+  const { remaining, active, loading, unlock } = useEmergencyUnlocks(settings);
+
+  const [domain, setDomain] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  const handleUnlock = async () => {
+    const target = domain.trim();
+    if (!target) return;
+    setError(null);
+
+    const ok = await askFriction({
+      actionType: "emergency-unlock",
+      label: `${target} — ${config.minutesPerUnlock} min emergency unlock`,
+      domain: target,
+      required: true,
+    });
+    if (!ok) return;
+
+    setBusy(true);
+    try {
+      const err = await unlock(target);
+      setError(err);
+      if (!err) setDomain("");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const patchConfig = (partial: Partial<EmergencyUnlockSettings>) => {
+    patch({ emergencyUnlock: { ...config, ...partial } });
+  };
+
+  return (
+    <div className="panel-content">
+      <div className="panel-header">
+        <div>
+          <h1 className="panel-title">Emergency Unlock</h1>
+          <p className="panel-subtitle">
+            A rationed way past a block when you genuinely need a site. Each unlock costs Dopamine Score points.
+          </p>
+        </div>
+      </div>
+
+      {/* Unlock */}
+      <section className="panel-section" style={{ maxWidth: 560 }}>
+        <p className="section-heading">Unlock a site</p>
+
+        {!config.enabled ? (
+          <p className="field__hint">Emergency unlocks are turned off.</p>
+        ) : (
+          <>
+            <p className="field__hint" style={{ marginBottom: "var(--sp-3)" }}>
+              {loading
+                ? "Loading…"
+                : `${remaining} of ${config.unlocksPerWindow} left this window · ${config.minutesPerUnlock} min each`}
+            </p>
+            <div style={{ display: "flex", gap: "var(--sp-2)" }}>
+              <input
+                className="input"
+                type="text"
+                placeholder="example.com"
+                value={domain}
+                onChange={(e) => setDomain(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === "Enter") void handleUnlock();
+                }}
+              />
+              <button
+                className="btn btn-primary"
+                disabled={busy || loading || remaining === 0 || !domain.trim()}
+                onClick={() => void handleUnlock()}
+              >
+                Unlock
+              </button>
+            </div>
+            {error && (
+              <p className="field__hint" style={{ marginTop: "var(--sp-2)", color: "var(--text-danger)" }}>
+                {error}
+              </p>
+            )}
+            <p className="field__hint" style={{ marginTop: "var(--sp-2)" }}>
+              Reload the blocked tab once the unlock is granted.
+            </p>
+          </>
+        )}
+      </section>
+
+      {/* Running unlocks */}
+      {active.length > 0 && (
+        <section className="panel-section" style={{ maxWidth: 560 }}>
+          <p className="section-heading">Unlocked now</p>
+          <div className="rule-card-list">
+            {active.map((u) => (
+              <div key={`${u.domain}-${u.startTs}`} className="list-row">
+                <span className="list-row__title" style={{ fontFamily: "var(--font-mono)", fontSize: "var(--text-sm)" }}>
+                  {u.domain}
+                </span>
+                <span className="field__hint">
+                  {formatTime(Math.max(0, Math.round((u.endTs - Date.now()) / 1_000)))} left
+                </span>
+              </div>
+            ))}
+          </div>
+        </section>
+      )}
+
+      {/* Quota settings */}
+      <section className="panel-section">
+        <p className="section-heading">Quota</p>
+
+        <div
+          className="field"
+          style={{ flexDirection: "row", alignItems: "center", justifyContent: "space-between", marginBottom: "var(--sp-4)" }}
+        >
+          <div>
+            <span className="field__label" style={{ marginBottom: 0 }}>Allow emergency unlocks</span>
+            <p className="field__hint" style={{ marginTop: "var(--sp-1)" }}>
+              Every unlock goes through the friction gate and is logged.
+            </p>
+          </div>
+          <label className="toggle">
+            <input
+              className="toggle__input"
+              type="checkbox"
+              checked={config.enabled}
+              onChange={(e) => patchConfig({ enabled: e.target.checked })}
+            />
+            <span className="toggle__track"><span className="toggle__thumb" /></span>
+          </label>
+        </div>
+
+        {config.enabled && (
+          <>
+            <div className="field" style={{ marginBottom: "var(--sp-4)" }}>
+              <span className="field__label">Unlocks per window</span>
+              <div className="seg">
+                {COUNT_PRESETS.map((n) => (
+                  <button
+                    key={n}
+                    className={`seg__option${config.unlocksPerWindow === n ? " seg__option--active" : ""}`}
+                    onClick={() => patchConfig({ unlocksPerWindow: n })}
+                  >
+                    {n}
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            <div className="field">
+              <span className="field__label">Minutes per unlock</span>
+              <div className="seg">
+                {MINUTE_PRESETS.map((m) => (
+                  <button
+                    key={m}
+                    className={`seg__option${config.minutesPerUnlock === m ? " seg__option--active" : ""}`}
+                    onClick={() => patchConfig({ minutesPerUnlock: m })}
+                  >
+                    {m} min
+                  </button>
+                ))}
+              </div>
+            </div>
+          </>
+        )}
+      </section>
+    </div>
+  );
+}
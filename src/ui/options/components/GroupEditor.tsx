@@ -1,12 +1,15 @@
 // FILE: src/ui/options/components/GroupEditor.tsx
 
 import { useState } from "react";
-import type { SiteGroup, RuleMode, ScheduleWindow } from "../../../core/types";
+import type { SiteGroup, RuleMode, ScheduleWindow, BudgetWindow } from "../../../core/types";
 import { Modal } from "./Modal";
 import { DomainPillInput } from "./DomainPillInput";
 import { ScheduleEditor } from "./ScheduleEditor";
+import { DayBudgetEditor } from "./DayBudgetEditor";
+import { BudgetWindowEditor } from "./BudgetWindowEditor";
+import { budgetsValid } from "../../../core/budget";
+import { parseWarningMinutes, formatWarningMinutes } from "../../../core/limitWarning";
 import { generateId } from "../utils/id";
-import { useFriction } from "../context/FrictionContext";
 
 interface GroupEditorProps {
   group: SiteGroup | null; // null = create new
@@ -21,7 +24,10 @@ interface FormErrors {
   domains?: string;
   limitMinutes?: string;
   delaySeconds?: string;
+  warningMinutes?: string;
   schedule?: string;
+  budget?: string;
+  budgetWindows?: string;
 }
 
 export function GroupEditor({ group, onSave, onClose, defaultDelaySeconds = 15 }: GroupEditorProps) {
@@ -33,9 +39,18 @@ export function GroupEditor({ group, onSave, onClose, defaultDelaySeconds = 15 }
   const [enabled, setEnabled] = useState(group?.enabled ?? true);
   const [delayEnabled, setDelayEnabled] = useState(group?.delayEnabled ?? false);
   const [delaySeconds, setDelaySeconds] = useState(String(group?.delaySeconds ?? defaultDelaySeconds));
+  // Blank = the global warnings; "0" = none for this group.
+  const [warningMinutes, setWarningMinutes] = useState(
+    group?.warningMinutes === undefined
+      ? ""
+      : group.warningMinutes.length === 0
+        ? "0"
+        : formatWarningMinutes(group.warningMinutes),
+  );
   const [schedules, setSchedules] = useState<ScheduleWindow[]>(group?.schedule ?? []);
+  const [dayLimits, setDayLimits] = useState<(number | null)[] | undefined>(group?.dayLimits);
+  const [budgets, setBudgets] = useState<BudgetWindow[]>(group?.budgets ?? []);
   const [errors, setErrors] = useState<FormErrors>({});
-  const { askFriction } = useFriction();
 
   const validate = (): FormErrors => {
     const errs: FormErrors = {};
@@ -51,14 +66,28 @@ export function GroupEditor({ group, onSave, onClose, defaultDelaySeconds = 15 }
       if (isNaN(secs) || secs < 5 || secs > 60)
         errs.delaySeconds = "Enter a value between 5 and 60";
     }
+    if (mode === "limit" && parseWarningMinutes(warningMinutes) === null) {
+      errs.warningMinutes = "Enter up to 5 whole minutes, e.g. 5, 1";
+    }
     if (schedules.length > 0) {
       const invalid = schedules.some((s) => s.days.length === 0);
       if (invalid) errs.schedule = "Each schedule window must have at least one day selected";
     }
+    if (mode === "limit" && !budgetsValid({ dayLimits })) {
+      errs.budget = "Budgets must be between 1 and 1440 minutes";
+    }
+    if (mode === "limit") {
+      const shapeInvalid = budgets.some((w) => w.days.length === 0 || w.startMinutes === w.endMinutes);
+      if (shapeInvalid) {
+        errs.budgetWindows = "Each budget window needs a day and different start and end times";
+      } else if (!budgetsValid({ budgets })) {
+        errs.budgetWindows = "Budgets must be between 1 and 1440 minutes";
+      }
+    }
     return errs;
   };
 
-  const handleSave = async () => {
+  const handleSave = () => {
     const errs = validate();
     if (Object.keys(errs).length > 0) {
       setErrors(errs);
@@ -70,44 +99,20 @@ export function GroupEditor({ group, onSave, onClose, defaultDelaySeconds = 15 }
       name: name.trim(),
       mode,
       limitMinutes: mode === "limit" ? parseInt(limitMinutes, 10) : undefined,
+      dayLimits: mode === "limit" ? dayLimits : undefined,
+      budgets: mode === "limit" && budgets.length > 0 ? budgets : undefined,
       domains,
       enabled,
       delayEnabled: mode === "limit" && delayEnabled ? true : undefined,
       delaySeconds: mode === "limit" && delayEnabled ? parseInt(delaySeconds, 10) : undefined,
+      warningMinutes:
+        mode === "limit" && warningMinutes.trim() !== ""
+          ? (parseWarningMinutes(warningMinutes) ?? undefined)
+          : undefined,
       schedule: schedules.length > 0 ? schedules : undefined,
     };
 
-    // Gate checks only apply when editing an existing group, not creating.
-    if (!isNew && group !== null) {
-      const wasBlock = group.mode === "block";
-      const newLimitMins = parseInt(limitMinutes, 10);
-      const oldLimitMins = group.limitMinutes ?? 0;
-
-      // Domain removal: detect domains present in the original but missing now.
-      const removedDomains = group.domains.filter((d) => !domains.includes(d));
-      if (removedDomains.length > 0) {
-        const ok = await askFriction({
-          actionType: "remove-domain",
-          label: `${saved.name} — remove ${removedDomains.join(", ")}`,
-        });
-        if (!ok) return;
-      }
-
-      if (wasBlock && mode === "limit") {
-        const ok = await askFriction({
-          actionType: "group-block-to-limit",
-          label: `${saved.name} — block → time limit`,
-        });
-        if (!ok) return;
-      } else if (group.mode === "limit" && mode === "limit" && newLimitMins > oldLimitMins) {
-        const ok = await askFriction({
-          actionType: "group-limit-increase",
-          label: `${saved.name} — limit ${oldLimitMins}min → ${newLimitMins}min`,
-        });
-        if (!ok) return;
-      }
-    }
-
+    // Relaxing an existing group is gated by the parent's guarded patch.
     onSave(saved);
   };
 
@@ -118,7 +123,7 @@ export function GroupEditor({ group, onSave, onClose, defaultDelaySeconds = 15 }
       footer={
         <>
           <button className="btn btn-secondary" onClick={onClose}>Cancel</button>
-          <button className="btn btn-primary" onClick={() => void handleSave()}>
+          <button className="btn btn-primary" onClick={handleSave}>
             {isNew ? "Create" : "Save"}
           </button>
         </>
@@ -179,6 +184,29 @@ export function GroupEditor({ group, onSave, onClose, defaultDelaySeconds = 15 }
         </div>
       )}
 
+      {mode === "limit" && (
+        <DayBudgetEditor
+          dayLimits={dayLimits}
+          baseLimit={limitMinutes}
+          onChange={(d) => {
+            setDayLimits(d);
+            setErrors((p) => ({ ...p, budget: undefined }));
+          }}
+          error={errors.budget}
+        />
+      )}
+
+      {mode === "limit" && (
+        <BudgetWindowEditor
+          budgets={budgets}
+          onChange={(b) => {
+            setBudgets(b);
+            setErrors((p) => ({ ...p, budgetWindows: undefined }));
+          }}
+          error={errors.budgetWindows}
+        />
+      )}
+
       {/* Domains */}
       <div className="field">
         <span className="field__label">Domains</span>
@@ -257,6 +285,26 @@ export function GroupEditor({ group, onSave, onClose, defaultDelaySeconds = 15 }
         </div>
       )}
 
+      {mode === "limit" && (
+        <div className="field" style={{ maxWidth: 200 }}>
+          <span className="field__label">Warn at (minutes left)</span>
+          <input
+            className="input"
+            type="text"
+            value={warningMinutes}
+            placeholder="Default"
+            onChange={(e) => {
+              setWarningMinutes(e.target.value);
+              setErrors((p) => ({ ...p, warningMinutes: undefined }));
+            }}
+          />
+          <p className="field__hint">Blank uses the default warnings. 0 turns them off for this group.</p>
+          {errors.warningMinutes && (
+            <p className="field__error">{errors.warningMinutes}</p>
+          )}
+        </div>
+      )}
+
       {/* Schedule */}
       <ScheduleEditor
         schedules={schedules}
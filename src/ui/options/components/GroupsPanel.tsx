@@ -4,7 +4,6 @@ import { useState } from "react";
 import type { Settings, SiteGroup } from "../../../core/types";
 import { formatScheduleSummary } from "../../../core/schedule";
 import { GroupEditor } from "./GroupEditor";
-import { useFriction } from "../context/FrictionContext";
 
 interface GroupsPanelProps {
   settings: Settings;
@@ -13,7 +12,6 @@ interface GroupsPanelProps {
 
 export function GroupsPanel({ settings, patch }: GroupsPanelProps) {
   const [editing, setEditing] = useState<SiteGroup | null | "new">(null);
-  const { askFriction } = useFriction();
 
   const saveGroup = (saved: SiteGroup) => {
     const exists = settings.groups.some((g) => g.id === saved.id);
@@ -24,26 +22,12 @@ export function GroupsPanel({ settings, patch }: GroupsPanelProps) {
     setEditing(null);
   };
 
-  const deleteGroup = async (id: string) => {
-    const group = settings.groups.find((g) => g.id === id);
-    const ok = await askFriction({
-      actionType: "delete-group",
-      label: `${group?.name ?? id} — group`,
-    });
-    if (!ok) return;
+  // Removing and disabling are gated by the guarded patch (see useGuardedPatch).
+  const deleteGroup = (id: string) => {
     patch({ groups: settings.groups.filter((g) => g.id !== id) });
   };
 
-  const toggleEnabled = async (id: string) => {
-    const group = settings.groups.find((g) => g.id === id);
-    // Only gate when the group is currently ENABLED (user is disabling it).
-    if (group?.enabled) {
-      const ok = await askFriction({
-        actionType: "disable-group",
-        label: `${group.name} — ${group.mode === "block" ? "block" : `${group.limitMinutes ?? 0}min limit`}`,
-      });
-      if (!ok) return;
-    }
+  const toggleEnabled = (id: string) => {
     patch({
       groups: settings.groups.map((g) =>
         g.id === id ? { ...g, enabled: !g.enabled } : g,
@@ -85,6 +69,7 @@ export function GroupsPanel({ settings, patch }: GroupsPanelProps) {
                   {g.mode === "block"
                     ? "Block"
                     : `${g.limitMinutes ?? 0} min/window`}
+                  {g.mode === "limit" && g.dayLimits && " · per-day budgets"}
                   {" · "}
                   {g.domains.length} domain{g.domains.length !== 1 ? "s" : ""}
                   {g.schedule && g.schedule.length > 0 && (
@@ -105,7 +90,7 @@ export function GroupsPanel({ settings, patch }: GroupsPanelProps) {
                     className="toggle__input"
                     type="checkbox"
                     checked={g.enabled}
-                    onChange={() => void toggleEnabled(g.id)}
+                    onChange={() => toggleEnabled(g.id)}
                   />
                   <span className="toggle__track"><span className="toggle__thumb" /></span>
                 </label>
@@ -117,7 +102,7 @@ export function GroupsPanel({ settings, patch }: GroupsPanelProps) {
                 </button>
                 <button
                   className="btn btn-danger btn--sm"
-                  onClick={() => void deleteGroup(g.id)}
+                  onClick={() => deleteGroup(g.id)}
                 >
                   Delete
                 </button>
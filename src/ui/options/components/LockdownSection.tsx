@@ -0,0 +1,88 @@
+// FILE: src/ui/options/components/LockdownSection.tsx
+
+/**
+ * Settings lockdown — shown in the Settings panel. Commits to "no
+ * protection-reducing changes until <time>"; while it runs every gated
+ * action is rejected outright (see core/lockdown.ts). A running lockdown
+ * can be extended but not shortened or ended.
+ */
+
+import { useState } from "react";
+import type { Settings } from "../../../core/types";
+import { DEFAULT_LOCKDOWN } from "../../../core/types";
+import { formatLockdownUntil, lockdownActive } from "../../../core/lockdown";
+
+interface LockdownSectionProps {
+  settings: Settings;
+  patch: (update: Partial<Settings>) => void;
+}
+
+/** Unix ms ↔ the local "YYYY-MM-DDTHH:MM" value of a datetime-local input. */
+function toInputValue(ts: number): string {
+  const d = new Date(ts);
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}T${pad(d.getHours())}:${pad(d.getMinutes())}`;
+}
+
+function fromInputValue(value: string): number {
+  const ts = new Date(value).getTime();
+  return isNaN(ts) ? 0 : ts;
+}
+
+/** Default pick: tomorrow at 18:00. */
+function defaultUntil(now: number): number {
+  const d = new Date(now);
+  d.setDate(d.getDate() + 1);
+  d.setHours(18, 0, 0, 0);
+  return d.getTime();
+}
+
+export function LockdownSection({ settings, patch }: LockdownSectionProps) {
+  const lockdown = settings.lockdown ?? DEFAULT_LOCKDOWN;
+  const now = Date.now();
+  const active = lockdownActive(settings, now);
+
+  const [value, setValue] = useState(() => toInputValue(defaultUntil(now)));
+  const untilTs = fromInputValue(value);
+  const valid = untilTs > now && (!active || untilTs > lockdown.untilTs);
+
+  return (
+    <section className="panel-section">
+      <p className="section-heading">Lockdown</p>
+      <p className="field__hint" style={{ marginBottom: "var(--sp-4)" }}>
+        Commit to no protection-reducing changes until a set time. Gated actions are refused outright
+        instead of delayed, and every refusal is logged.
+      </p>
+
+      {active && (
+        <p className="field__hint" style={{ marginBottom: "var(--sp-3)", color: "var(--text-danger)" }}>
+          Locked down until {formatLockdownUntil(lockdown.untilTs)}. It can be extended, not ended.
+        </p>
+      )}
+
+      <div className="field" style={{ maxWidth: 320 }}>
+        <span className="field__label">{active ? "Extend until" : "Lock down until"}</span>
+        <div style={{ display: "flex", gap: "var(--sp-2)" }}>
+          <input
+            className="input"
+            type="datetime-local"
+            value={value}
+            onChange={(e) => setValue(e.target.value)}
+          />
+          <button
+            className="btn btn-primary btn--sm"
+            disabled={!valid}
+            onClick={() => patch({ lockdown: { untilTs } })}
+          >
+            {active ? "Extend" : "Start"}
+          </button>
+        </div>
+        {value !== "" && !valid && (
+          <p className="field__hint" style={{ color: "var(--text-danger)" }}>
+            {active ? "Pick a time after the current lockdown ends." : "Pick a time in the future."}
+          </p>
+        )}
+      </div>
+    </section>
+  );
+}
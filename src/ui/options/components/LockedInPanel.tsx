@@ -5,19 +5,26 @@
  *
  * Two views:
  *   1. Start flow  — shown when no session is active.
- *      Step 1: Duration (15 / 30 / 60 / Custom min)
- *      Step 2: Allowed sites (pick group OR enter domains manually)
- *      Step 3: Summary + confirm
+ *      Step 1: Single block (15 / 30 / 60 / Custom min) or Pomodoro cycles
+ *      Step 2: Allowed sites (pick group OR enter domains manually), plus
+ *              what Pomodoro breaks allow
+ *      Step 3: Summary + confirm, with the optional hard lock
  *
  *   2. Active session view — shown while a session is running.
- *      Displays remaining time (live countdown), allowed domains,
- *      and an "End Session" button.
+ *      Displays remaining time (live countdown), the Pomodoro phase,
+ *      allowed domains, and an "End Session" button (hidden under a hard
+ *      lock, which cannot be ended early — see core/hardLock.ts).
+ *
+ * Both views end with the recurring-session list (RecurringLockedInSection).
  */
 
-import { useEffect, useRef, useState } from "react";
-import type { Settings, LockedInSession, TemptationMap } from "../../../core/types";
+import { useEffect, useRef, useState, type ReactNode } from "react";
+import type { Settings, LockedInSession, TemptationMap, PomodoroConfig } from "../../../core/types";
+import { DEFAULT_POMODORO } from "../../../core/types";
 import { getTemptations } from "../../../core/storage";
+import { describePhase, pomodoroDurationMs, pomodoroPhaseAt } from "../../../core/pomodoro";
 import { DomainPillInput } from "./DomainPillInput";
+import { RecurringLockedInSection } from "./RecurringLockedInSection";
 import { formatTime } from "../../popup/utils/formatTime";
 
 interface LockedInPanelProps {
@@ -30,6 +37,17 @@ interface LockedInPanelProps {
 const DURATION_PRESETS = [15, 30, 60] as const;
 type DurationPreset = (typeof DURATION_PRESETS)[number];
 
+type PomodoroNumberKey = Exclude<keyof PomodoroConfig, "breakAllowedDomains">;
+
+/** Pomodoro inputs shown in step 1, with the ranges enforced by validation.ts. */
+const POMODORO_FIELDS: { key: PomodoroNumberKey; label: string; min: number; max: number }[] = [
+  { key: "cycles", label: "Focus intervals", min: 1, max: 12 },
+  { key: "focusMinutes", label: "Focus (min)", min: 5, max: 120 },
+  { key: "shortBreakMinutes", label: "Short break (min)", min: 1, max: 30 },
+  { key: "longBreakMinutes", label: "Long break (min)", min: 5, max: 60 },
+  { key: "longBreakEvery", label: "Long break every", min: 2, max: 12 },
+];
+
 // ─── Remaining-time countdown hook ────────────────────────────────────────────
 
 function useRemainingSeconds(endTs: number | null): number {
@@ -57,9 +75,11 @@ interface ActiveSessionViewProps {
   session: LockedInSession;
   settings: Settings;
   onEnd: () => void;
+  /** Rendered after the session details. */
+  footer: ReactNode;
 }
 
-function ActiveSessionView({ session, settings, onEnd }: ActiveSessionViewProps) {
+function ActiveSessionView({ session, settings, onEnd, footer }: ActiveSessionViewProps) {
   const remaining = useRemainingSeconds(session.endTs);
   const isExpired = remaining === 0;
   const [temptations, setTemptations] = useState<TemptationMap>({});
@@ -81,6 +101,12 @@ function ActiveSessionView({ session, settings, onEnd }: ActiveSessionViewProps)
   const sourceGroup = session.sourceGroupId
     ? settings.groups.find((g) => g.id === session.sourceGroupId)
     : undefined;
+  const recurring = session.recurringId
+    ? settings.recurringLockedIn.find((r) => r.id === session.recurringId)
+    : undefined;
+  // Re-derived on every countdown tick.
+  const phase = isExpired ? null : pomodoroPhaseAt(session, Date.now());
+  const breakDomains = session.pomodoro?.breakAllowedDomains ?? [];
 
   return (
     <div className="panel-content">
@@ -114,6 +140,28 @@ function ActiveSessionView({ session, settings, onEnd }: ActiveSessionViewProps)
           </span>
         </div>
 
+        {phase && session.pomodoro && (
+          <div className="locked-in-meta-row">
+            <span className="locked-in-meta-label">{describePhase(phase, session.pomodoro)}</span>
+            <span className="locked-in-meta-value">
+              {formatTime(Math.max(0, Math.round((phase.endTs - Date.now()) / 1_000)))} left
+            </span>
+          </div>
+        )}
+        {session.pomodoro && (
+          <div className="locked-in-meta-row">
+            <span className="locked-in-meta-label">Cycles done</span>
+            <span className="locked-in-meta-value">
+              {session.creditedCycles ?? 0} of {session.pomodoro.cycles}
+            </span>
+          </div>
+        )}
+        {recurring && (
+          <div className="locked-in-meta-row">
+            <span className="locked-in-meta-label">Recurring</span>
+            <span className="locked-in-meta-value">{recurring.name}</span>
+          </div>
+        )}
         <div className="locked-in-meta-row">
           <span className="locked-in-meta-label">Started</span>
           <span className="locked-in-meta-value">
@@ -140,7 +188,7 @@ function ActiveSessionView({ session, settings, onEnd }: ActiveSessionViewProps)
 
       {/* Allowed domains */}
       <section className="panel-section">
-        <p className="section-heading">Allowed during session</p>
+        <p className="section-heading">{session.pomodoro ? "Allowed during focus" : "Allowed during session"}</p>
         {sourceGroup && (
           <p className="field__hint" style={{ marginBottom: "var(--sp-3)" }}>
             Sourced from group: <strong style={{ color: "var(--text-2)" }}>{sourceGroup.name}</strong>
@@ -163,8 +211,34 @@ function ActiveSessionView({ session, settings, onEnd }: ActiveSessionViewProps)
         </div>
       </section>
 
+      {/* Pomodoro breaks */}
+      {session.pomodoro && (
+        <section className="panel-section">
+          <p className="section-heading">Allowed during breaks</p>
+          {breakDomains.length === 0 ? (
+            <p className="field__hint">Normal rules apply during breaks.</p>
+          ) : (
+            <div className="locked-in-domain-preview">
+              {breakDomains.map((d) => (
+                <span key={d} className="locked-in-domain-pill">{d}</span>
+              ))}
+            </div>
+          )}
+        </section>
+      )}
+
+      {/* Hard lock */}
+      {!isExpired && session.hardLock && (
+        <section className="panel-section">
+          <p className="field__hint">
+            Hard lock — this session cannot be ended early, and changes that weaken your rules are
+            refused until it ends.
+          </p>
+        </section>
+      )}
+
       {/* End session */}
-      {!isExpired && (
+      {!isExpired && !session.hardLock && (
         <section className="panel-section">
           <button className="btn btn-danger" onClick={onEnd}>
             End Session
@@ -174,6 +248,8 @@ function ActiveSessionView({ session, settings, onEnd }: ActiveSessionViewProps)
           </p>
         </section>
       )}
+
+      {footer}
     </div>
   );
 }
@@ -182,8 +258,14 @@ function ActiveSessionView({ session, settings, onEnd }: ActiveSessionViewProps)
 
 interface StartFlowState {
   step: 1 | 2 | 3;
+  kind: "single" | "pomodoro";
   durationPreset: DurationPreset | "custom";
   customMinutes: string;
+  /** Raw Pomodoro inputs, parsed and range-checked on use. */
+  pomodoroInputs: Record<PomodoroNumberKey, string>;
+  breakSource: "normal" | "allowlist";
+  breakDomains: string[];
+  hardLock: boolean;
   domainSource: "group" | "manual";
   selectedGroupId: string;
   manualDomains: string[];
@@ -191,34 +273,67 @@ interface StartFlowState {
 
 const INITIAL_FLOW: StartFlowState = {
   step: 1,
+  kind: "single",
   durationPreset: 30,
   customMinutes: "",
+  pomodoroInputs: {
+    cycles: String(DEFAULT_POMODORO.cycles),
+    focusMinutes: String(DEFAULT_POMODORO.focusMinutes),
+    shortBreakMinutes: String(DEFAULT_POMODORO.shortBreakMinutes),
+    longBreakMinutes: String(DEFAULT_POMODORO.longBreakMinutes),
+    longBreakEvery: String(DEFAULT_POMODORO.longBreakEvery),
+  },
+  breakSource: "normal",
+  breakDomains: [],
+  hardLock: false,
   domainSource: "group",
   selectedGroupId: "",
   manualDomains: [],
 };
 
+/** The Pomodoro config described by the inputs, or null while any is out of range. */
+function parsePomodoro(flow: StartFlowState): PomodoroConfig | null {
+  const config: PomodoroConfig = {
+    ...DEFAULT_POMODORO,
+    breakAllowedDomains: flow.breakSource === "allowlist" ? flow.breakDomains : [],
+  };
+  for (const { key, min, max } of POMODORO_FIELDS) {
+    const n = parseInt(flow.pomodoroInputs[key], 10);
+    if (isNaN(n) || n < min || n > max) return null;
+    config[key] = n;
+  }
+  return config;
+}
+
 interface StartFlowProps {
   settings: Settings;
   onStart: (session: LockedInSession) => void;
+  /** Rendered after the start steps. */
+  footer: ReactNode;
 }
 
-function StartFlow({ settings, onStart }: StartFlowProps) {
+function StartFlow({ settings, onStart, footer }: StartFlowProps) {
   const [flow, setFlow] = useState<StartFlowState>(INITIAL_FLOW);
   const customRef = useRef<HTMLInputElement>(null);
 
   const set = <K extends keyof StartFlowState>(key: K, val: StartFlowState[K]) =>
     setFlow((prev) => ({ ...prev, [key]: val }));
 
+  const pomodoro = flow.kind === "pomodoro" ? parsePomodoro(flow) : null;
+
   // Resolved duration in minutes
   const resolvedMinutes =
-    flow.durationPreset === "custom"
-      ? parseInt(flow.customMinutes, 10)
-      : flow.durationPreset;
+    flow.kind === "pomodoro"
+      ? pomodoro ? pomodoroDurationMs(pomodoro) / 60_000 : NaN
+      : flow.durationPreset === "custom"
+        ? parseInt(flow.customMinutes, 10)
+        : flow.durationPreset;
 
   const durationValid =
-    flow.durationPreset !== "custom" ||
-    (!isNaN(resolvedMinutes) && resolvedMinutes >= 1 && resolvedMinutes <= 1440);
+    flow.kind === "pomodoro"
+      ? pomodoro !== null
+      : flow.durationPreset !== "custom" ||
+        (!isNaN(resolvedMinutes) && resolvedMinutes >= 1 && resolvedMinutes <= 1440);
 
   // Resolved domains
   const resolvedDomains: string[] = (() => {
@@ -229,7 +344,9 @@ function StartFlow({ settings, onStart }: StartFlowProps) {
     return flow.manualDomains;
   })();
 
-  const domainsValid = resolvedDomains.length > 0;
+  const domainsValid =
+    resolvedDomains.length > 0 &&
+    (flow.kind === "single" || flow.breakSource === "normal" || flow.breakDomains.length > 0);
 
   const canProceedStep1 = durationValid;
   const canProceedStep2 = domainsValid;
@@ -244,6 +361,8 @@ function StartFlow({ settings, onStart }: StartFlowProps) {
       allowedDomains: resolvedDomains,
       sourceGroupId:
         flow.domainSource === "group" ? flow.selectedGroupId || undefined : undefined,
+      pomodoro: pomodoro ?? undefined,
+      hardLock: flow.hardLock || undefined,
     };
     onStart(session);
   };
@@ -277,28 +396,81 @@ function StartFlow({ settings, onStart }: StartFlowProps) {
         <section className="panel-section">
           <p className="section-heading">Duration</p>
 
-          <div className="seg" style={{ marginBottom: "var(--sp-3)" }}>
-            {DURATION_PRESETS.map((p) => (
+          <div className="field" style={{ marginBottom: "var(--sp-4)" }}>
+            <span className="field__label">Session type</span>
+            <div className="seg">
               <button
-                key={p}
-                className={`seg__option${flow.durationPreset === p ? " seg__option--active" : ""}`}
-                onClick={() => set("durationPreset", p)}
+                className={`seg__option${flow.kind === "single" ? " seg__option--active" : ""}`}
+                onClick={() => set("kind", "single")}
               >
-                {p} min
+                Single block
               </button>
-            ))}
-            <button
-              className={`seg__option${flow.durationPreset === "custom" ? " seg__option--active" : ""}`}
-              onClick={() => {
-                set("durationPreset", "custom");
-                setTimeout(() => customRef.current?.focus(), 50);
+              <button
+                className={`seg__option${flow.kind === "pomodoro" ? " seg__option--active" : ""}`}
+                onClick={() => set("kind", "pomodoro")}
+              >
+                Pomodoro
+              </button>
+            </div>
+          </div>
+
+          {flow.kind === "pomodoro" && (
+            <div
+              style={{
+                display: "grid",
+                gridTemplateColumns: "repeat(auto-fill, minmax(140px, 1fr))",
+                gap: "var(--sp-3)",
+                maxWidth: 480,
+                marginBottom: "var(--sp-3)",
               }}
             >
-              Custom
-            </button>
-          </div>
+              {POMODORO_FIELDS.map(({ key, label, min, max }) => (
+                <div key={key} className="field">
+                  <span className="field__label">{label}</span>
+                  <input
+                    className="input"
+                    type="number"
+                    min={min}
+                    max={max}
+                    value={flow.pomodoroInputs[key]}
+                    onChange={(e) =>
+                      set("pomodoroInputs", { ...flow.pomodoroInputs, [key]: e.target.value })
+                    }
+                  />
+                </div>
+              ))}
+            </div>
+          )}
+          {flow.kind === "pomodoro" && !durationValid && (
+            <p className="field__error" style={{ marginBottom: "var(--sp-3)" }}>
+              {POMODORO_FIELDS.map((f) => `${f.label}: ${f.min}–${f.max}`).join(" · ")}
+            </p>
+          )}
 
-          {flow.durationPreset === "custom" && (
+          {flow.kind === "single" && (
+            <div className="seg" style={{ marginBottom: "var(--sp-3)" }}>
+              {DURATION_PRESETS.map((p) => (
+                <button
+                  key={p}
+                  className={`seg__option${flow.durationPreset === p ? " seg__option--active" : ""}`}
+                  onClick={() => set("durationPreset", p)}
+                >
+                  {p} min
+                </button>
+              ))}
+              <button
+                className={`seg__option${flow.durationPreset === "custom" ? " seg__option--active" : ""}`}
+                onClick={() => {
+                  set("durationPreset", "custom");
+                  setTimeout(() => customRef.current?.focus(), 50);
+                }}
+              >
+                Custom
+              </button>
+            </div>
+          )}
+
+          {flow.kind === "single" && flow.durationPreset === "custom" && (
             <div className="field" style={{ maxWidth: 200, marginBottom: "var(--sp-3)" }}>
               <span className="field__label">Minutes (1–1440)</span>
               <input
@@ -420,9 +592,44 @@ function StartFlow({ settings, onStart }: StartFlowProps) {
             </div>
           )}
 
+          {/* Pomodoro breaks */}
+          {flow.kind === "pomodoro" && (
+            <div className="field" style={{ marginBottom: "var(--sp-4)" }}>
+              <span className="field__label">During breaks</span>
+              <div className="seg" style={{ marginBottom: "var(--sp-2)" }}>
+                <button
+                  className={`seg__option${flow.breakSource === "normal" ? " seg__option--active" : ""}`}
+                  onClick={() => set("breakSource", "normal")}
+                >
+                  Normal rules
+                </button>
+                <button
+                  className={`seg__option${flow.breakSource === "allowlist" ? " seg__option--active" : ""}`}
+                  onClick={() => set("breakSource", "allowlist")}
+                >
+                  Break sites only
+                </button>
+              </div>
+              {flow.breakSource === "allowlist" && (
+                <DomainPillInput
+                  domains={flow.breakDomains}
+                  onChange={(domains) => set("breakDomains", domains)}
+                  placeholder="youtube.com, spotify.com…"
+                />
+              )}
+              <p className="field__hint">
+                {flow.breakSource === "normal"
+                  ? "Your usual rules and limits apply between focus intervals."
+                  : "Only these domains are accessible between focus intervals."}
+              </p>
+            </div>
+          )}
+
           {!domainsValid && (
             <p className="field__error" style={{ marginBottom: "var(--sp-3)" }}>
-              Add at least one domain to continue.
+              {resolvedDomains.length === 0
+                ? "Add at least one domain to continue."
+                : "Add at least one break site, or use normal rules during breaks."}
             </p>
           )}
 
@@ -451,6 +658,24 @@ function StartFlow({ settings, onStart }: StartFlowProps) {
               <span className="locked-in-summary-label">Duration</span>
               <span className="locked-in-summary-value">{resolvedMinutes} min</span>
             </div>
+            {pomodoro && (
+              <>
+                <div className="locked-in-summary-row">
+                  <span className="locked-in-summary-label">Cycles</span>
+                  <span className="locked-in-summary-value">
+                    {pomodoro.cycles} × {pomodoro.focusMinutes} min focus
+                  </span>
+                </div>
+                <div className="locked-in-summary-row">
+                  <span className="locked-in-summary-label">Breaks</span>
+                  <span className="locked-in-summary-value">
+                    {pomodoro.breakAllowedDomains.length > 0
+                      ? `${pomodoro.breakAllowedDomains.length} site${pomodoro.breakAllowedDomains.length !== 1 ? "s" : ""}`
+                      : "Normal rules"}
+                  </span>
+                </div>
+              </>
+            )}
             <div className="locked-in-summary-row">
               <span className="locked-in-summary-label">Ends at</span>
               <span className="locked-in-summary-value">
@@ -472,8 +697,31 @@ function StartFlow({ settings, onStart }: StartFlowProps) {
             ))}
           </div>
 
+          <div
+            className="field"
+            style={{ flexDirection: "row", alignItems: "center", justifyContent: "space-between", marginBottom: "var(--sp-4)" }}
+          >
+            <div>
+              <span className="field__label" style={{ marginBottom: 0 }}>Hard lock</span>
+              <p className="field__hint" style={{ marginTop: "var(--sp-1)" }}>
+                No ending early, disabling JustDetox or loosening rules until the session ends.
+              </p>
+            </div>
+            <label className="toggle">
+              <input
+                className="toggle__input"
+                type="checkbox"
+                checked={flow.hardLock}
+                onChange={(e) => set("hardLock", e.target.checked)}
+              />
+              <span className="toggle__track"><span className="toggle__thumb" /></span>
+            </label>
+          </div>
+
           <p className="field__hint" style={{ marginBottom: "var(--sp-6)" }}>
-            All other domains will show a block overlay until the session ends.
+            {pomodoro
+              ? "All other domains will show a block overlay during each focus interval."
+              : "All other domains will show a block overlay until the session ends."}
           </p>
 
           <div style={{ display: "flex", gap: "var(--sp-2)" }}>
@@ -486,6 +734,8 @@ function StartFlow({ settings, onStart }: StartFlowProps) {
           </div>
         </section>
       )}
+
+      {footer}
     </div>
   );
 }
@@ -505,15 +755,18 @@ export function LockedInPanel({ settings, patch }: LockedInPanelProps) {
     patch({ lockedInSession: { ...session, active: false } });
   };
 
+  const recurring = <RecurringLockedInSection settings={settings} patch={patch} />;
+
   if (isActive && session) {
     return (
       <ActiveSessionView
         session={session}
         settings={settings}
         onEnd={handleEnd}
+        footer={recurring}
       />
     );
   }
 
-  return <StartFlow settings={settings} onStart={handleStart} />;
+  return <StartFlow settings={settings} onStart={handleStart} footer={recurring} />;
 }
@@ -0,0 +1,243 @@
+// FILE: src/ui/options/components/RecurringLockedInSection.tsx
+
+/**
+ * Recurring Locked In sessions — list and add form, shown at the bottom of
+ * the Locked In panel. The background starts and ends each session on its
+ * schedule (see background/lockedIn.ts). Turning one off or removing it goes
+ * through the friction gate via the guarded patch.
+ */
+
+import { useState } from "react";
+import type { Settings, RecurringLockedIn } from "../../../core/types";
+import { formatScheduleSummary } from "../../../core/schedule";
+import { DomainPillInput } from "./DomainPillInput";
+import { generateId } from "../utils/id";
+
+interface RecurringLockedInSectionProps {
+  settings: Settings;
+  patch: (update: Partial<Settings>) => void;
+}
+
+const DAY_LABELS = ["S", "M", "T", "W", "T", "F", "S"] as const;
+const DAY_NAMES = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"] as const;
+
+/** "09:00" ↔ minutes since midnight. */
+function minutesToTime(m: number): string {
+  return `${String(Math.floor(m / 60) % 24).padStart(2, "0")}:${String(m % 60).padStart(2, "0")}`;
+}
+
+function timeToMinutes(t: string): number {
+  const [h, m] = t.split(":").map(Number);
+  return (h ?? 0) * 60 + (m ?? 0);
+}
+
+interface DraftState {
+  name: string;
+  days: number[];
+  startMinutes: number;
+  endMinutes: number;
+  sourceGroupId: string;
+  allowedDomains: string[];
+}
+
+const INITIAL_DRAFT: DraftState = {
+  name: "",
+  days: [1, 2, 3, 4, 5],
+  startMinutes: 540, // 09:00
+  endMinutes: 690,   // 11:30
+  sourceGroupId: "",
+  allowedDomains: [],
+};
+
+export function RecurringLockedInSection({ settings, patch }: RecurringLockedInSectionProps) {
+  const [draft, setDraft] = useState<DraftState | null>(null);
+
+  const entries = settings.recurringLockedIn;
+  const groupsWithDomains = settings.groups.filter((g) => g.domains.length > 0);
+
+  const describeSource = (entry: RecurringLockedIn): string => {
+    const group = entry.sourceGroupId
+      ? settings.groups.find((g) => g.id === entry.sourceGroupId)
+      : undefined;
+    if (group) return `${group.name} group`;
+    const n = entry.allowedDomains.length;
+    return `${n} domain${n !== 1 ? "s" : ""}`;
+  };
+
+  const toggleEnabled = (entry: RecurringLockedIn) => {
+    patch({
+      recurringLockedIn: entries.map((e) => (e.id === entry.id ? { ...e, enabled: !e.enabled } : e)),
+    });
+  };
+
+  const remove = (entry: RecurringLockedIn) => {
+    patch({ recurringLockedIn: entries.filter((e) => e.id !== entry.id) });
+  };
+
+  const draftValid =
+    draft !== null &&
+    draft.name.trim().length > 0 &&
+    draft.days.length > 0 &&
+    draft.startMinutes !== draft.endMinutes &&
+    (draft.sourceGroupId !== "" || draft.allowedDomains.length > 0);
+
+  const save = () => {
+    if (!draft || !draftValid) return;
+    const entry: RecurringLockedIn = {
+      id: generateId(),
+      name: draft.name.trim(),
+      enabled: true,
+      schedule: {
+        enabled: true,
+        days: [...draft.days].sort((a, b) => a - b),
+        startMinutes: draft.startMinutes,
+        endMinutes: draft.endMinutes,
+      },
+      sourceGroupId: draft.sourceGroupId || undefined,
+      allowedDomains: draft.sourceGroupId ? [] : draft.allowedDomains,
+    };
+    patch({ recurringLockedIn: [...entries, entry] });
+    setDraft(null);
+  };
+
+  const setField = <K extends keyof DraftState>(key: K, val: DraftState[K]) =>
+    setDraft((prev) => (prev ? { ...prev, [key]: val } : prev));
+
+  return (
+    <section className="panel-section">
+      <p className="section-heading">Recurring sessions</p>
+      <p className="field__hint" style={{ marginBottom: "var(--sp-4)" }}>
+        Start Locked In automatically, for example every weekday morning. A session that is already
+        running is never interrupted — a recurring one starts when it ends.
+      </p>
+
+      {entries.length > 0 && (
+        <div className="rule-card-list" style={{ marginBottom: "var(--sp-4)" }}>
+          {entries.map((e) => (
+            <div key={e.id} className={`list-row${e.enabled ? "" : " list-row--disabled"}`}>
+              <div className="list-row__main">
+                <span className="list-row__title">{e.name}</span>
+                <span className="list-row__sub">
+                  {formatScheduleSummary(e.schedule)} · {describeSource(e)}
+                </span>
+              </div>
+              <div className="list-row__aside">
+                <label className="toggle" title={e.enabled ? "On — click to turn off" : "Off — click to turn on"}>
+                  <input
+                    className="toggle__input"
+                    type="checkbox"
+                    checked={e.enabled}
+                    onChange={() => toggleEnabled(e)}
+                  />
+                  <span className="toggle__track"><span className="toggle__thumb" /></span>
+                </label>
+                <button
+                  type="button"
+                  className="btn btn-ghost btn--sm btn--icon"
+                  title="Remove"
+                  onClick={() => remove(e)}
+                >
+                  ✕
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {draft === null ? (
+        <button className="btn btn-secondary btn--sm" onClick={() => setDraft({ ...INITIAL_DRAFT })}>
+          + Add recurring session
+        </button>
+      ) : (
+        <div className="sched-window" style={{ maxWidth: 480 }}>
+          <div className="field" style={{ marginBottom: "var(--sp-3)" }}>
+            <span className="field__label">Name</span>
+            <input
+              className="input"
+              type="text"
+              placeholder="Deep work"
+              value={draft.name}
+              onChange={(e) => setField("name", e.target.value)}
+            />
+          </div>
+
+          <div className="sched-days">
+            {DAY_LABELS.map((label, day) => (
+              <button
+                key={day}
+                type="button"
+                className={`sched-day${draft.days.includes(day) ? " sched-day--active" : ""}`}
+                title={DAY_NAMES[day]}
+                onClick={() =>
+                  setField(
+                    "days",
+                    draft.days.includes(day) ? draft.days.filter((d) => d !== day) : [...draft.days, day],
+                  )
+                }
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+
+          <div className="sched-window__times">
+            <input
+              className="input"
+              type="time"
+              value={minutesToTime(draft.startMinutes)}
+              onChange={(e) => setField("startMinutes", timeToMinutes(e.target.value))}
+            />
+            <span className="sched-window__times-sep">to</span>
+            <input
+              className="input"
+              type="time"
+              value={minutesToTime(draft.endMinutes)}
+              onChange={(e) => setField("endMinutes", timeToMinutes(e.target.value))}
+            />
+          </div>
+
+          <div className="field" style={{ marginTop: "var(--sp-3)" }}>
+            <span className="field__label">Allowed sites</span>
+            {groupsWithDomains.length > 0 && (
+              <div className="select-wrap" style={{ marginBottom: "var(--sp-2)" }}>
+                <select
+                  value={draft.sourceGroupId}
+                  onChange={(e) => setField("sourceGroupId", e.target.value)}
+                >
+                  <option value="">Enter domains manually</option>
+                  {groupsWithDomains.map((g) => (
+                    <option key={g.id} value={g.id}>
+                      {g.name} ({g.domains.length} domain{g.domains.length !== 1 ? "s" : ""})
+                    </option>
+                  ))}
+                </select>
+              </div>
+            )}
+            {draft.sourceGroupId === "" && (
+              <DomainPillInput
+                domains={draft.allowedDomains}
+                onChange={(domains) => setField("allowedDomains", domains)}
+                placeholder="notion.so, figma.com…"
+              />
+            )}
+            <p className="field__hint">
+              {draft.sourceGroupId
+                ? "Uses the group domains as they are when each session starts."
+                : "Press Enter or comma to add each domain."}
+            </p>
+          </div>
+
+          <div style={{ display: "flex", gap: "var(--sp-2)", marginTop: "var(--sp-4)" }}>
+            <button className="btn btn-secondary btn--sm" onClick={() => setDraft(null)}>
+              Cancel
+            </button>
+            <button className="btn btn-primary btn--sm" disabled={!draftValid} onClick={save}>
+              Save
+            </button>
+          </div>
+        </div>
+      )}
+    </section>
+  );
+}
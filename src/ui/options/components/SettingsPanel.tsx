@@ -2,11 +2,18 @@
 
 import { useState } from "react";
 import type { Settings } from "../../../core/types";
-import { DEFAULT_FRICTION_SETTINGS, DEFAULT_PROTECTED_GATE } from "../../../core/types";
+import { DEFAULT_FRICTION_SETTINGS, DEFAULT_IDLE_DETECTION, DEFAULT_TRACKING, DEFAULT_PROTECTED_GATE, DEFAULT_LINK_ANNOTATIONS, DEFAULT_LIMIT_WARNINGS } from "../../../core/types";
 import { DomainPillInput } from "./DomainPillInput";
+import { LockdownSection } from "./LockdownSection";
 import { useFriction } from "../context/FrictionContext";
+import { formatAnchorTime, nextAnchorAt } from "../../../core/resetWindow";
+import { parseWarningMinutes, formatWarningMinutes } from "../../../core/limitWarning";
 
 const RESET_PRESETS = [6, 12, 24, 48] as const;
+const WEEKDAYS = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"] as const;
+const IDLE_PRESETS_MINUTES = [1, 2, 5, 10] as const;
+/** Anchor used when switching from rolling to calendar-aligned resets. */
+const DEFAULT_ANCHOR_MINUTES = 240; // 04:00
 
 interface SettingsPanelProps {
   settings: Settings;
@@ -24,7 +31,28 @@ export function SettingsPanel({ settings, patch }: SettingsPanelProps) {
 
   const patchPg = (partial: Partial<typeof pg>) =>
     patch({ protectedGate: { ...pg, ...partial } });
-  const { intervalHours } = settings.resetWindow;
+
+  const idle = settings.idleDetection ?? DEFAULT_IDLE_DETECTION;
+  const patchIdle = (partial: Partial<typeof idle>) =>
+    patch({ idleDetection: { ...idle, ...partial } });
+
+  const tracking = settings.tracking ?? DEFAULT_TRACKING;
+  const links = settings.linkAnnotations ?? DEFAULT_LINK_ANNOTATIONS;
+  const warnings = settings.limitWarnings ?? DEFAULT_LIMIT_WARNINGS;
+  const [warningInput, setWarningInput] = useState(formatWarningMinutes(warnings.thresholdMinutes));
+  const [warningError, setWarningError] = useState<string | null>(null);
+
+  const applyWarningInput = () => {
+    const minutes = parseWarningMinutes(warningInput);
+    if (minutes === null) {
+      setWarningError("Enter up to 5 whole minutes, e.g. 5, 1");
+      return;
+    }
+    setWarningError(null);
+    setWarningInput(formatWarningMinutes(minutes));
+    patch({ limitWarnings: { ...warnings, thresholdMinutes: minutes } });
+  };
+  const { intervalHours, anchor } = settings.resetWindow;
   const isCustom = !RESET_PRESETS.includes(intervalHours as (typeof RESET_PRESETS)[number]);
 
   const applyCustomHours = () => {
@@ -35,6 +63,19 @@ export function SettingsPanel({ settings, patch }: SettingsPanelProps) {
     }
   };
 
+  const patchAnchor = (partial: Partial<NonNullable<typeof anchor>>) =>
+    patch({
+      resetWindow: {
+        intervalHours,
+        anchor: { period: "daily", minutes: DEFAULT_ANCHOR_MINUTES, ...anchor, ...partial },
+      },
+    });
+
+  const setAnchorTime = (value: string) => {
+    const [h, m] = value.split(":").map(Number);
+    if (Number.isInteger(h) && Number.isInteger(m)) patchAnchor({ minutes: h * 60 + m });
+  };
+
   return (
     <div className="panel-content">
       <div className="panel-header">
@@ -106,42 +147,330 @@ export function SettingsPanel({ settings, patch }: SettingsPanelProps) {
         <p className="section-heading">Reset window</p>
 
         <div className="seg" style={{ marginBottom: "var(--sp-3)" }}>
-          {RESET_PRESETS.map((h) => (
-            <button
-              key={h}
-              className={`seg__option${intervalHours === h ? " seg__option--active" : ""}`}
-              onClick={() => patch({ resetWindow: { intervalHours: h } })}
-            >
-              {h}h
-            </button>
-          ))}
           <button
-            className={`seg__option${isCustom ? " seg__option--active" : ""}`}
-            onClick={() => setCustomHours(String(intervalHours))}
+            className={`seg__option${!anchor ? " seg__option--active" : ""}`}
+            onClick={() => patch({ resetWindow: { intervalHours } })}
           >
-            Custom
+            Rolling
+          </button>
+          <button
+            className={`seg__option${anchor?.period === "daily" ? " seg__option--active" : ""}`}
+            onClick={() => patchAnchor({ period: "daily", weekday: undefined })}
+          >
+            Daily
+          </button>
+          <button
+            className={`seg__option${anchor?.period === "weekly" ? " seg__option--active" : ""}`}
+            onClick={() => patchAnchor({ period: "weekly", weekday: anchor?.weekday ?? 1 })}
+          >
+            Weekly
           </button>
         </div>
 
-        {(isCustom || customHours !== "") && (
-          <div className="field" style={{ marginBottom: "var(--sp-3)", maxWidth: 160 }}>
-            <span className="field__label">Custom hours (1–168)</span>
+        {!anchor && (
+          <>
+            <div className="seg" style={{ marginBottom: "var(--sp-3)" }}>
+              {RESET_PRESETS.map((h) => (
+                <button
+                  key={h}
+                  className={`seg__option${intervalHours === h ? " seg__option--active" : ""}`}
+                  onClick={() => patch({ resetWindow: { intervalHours: h } })}
+                >
+                  {h}h
+                </button>
+              ))}
+              <button
+                className={`seg__option${isCustom ? " seg__option--active" : ""}`}
+                onClick={() => setCustomHours(String(intervalHours))}
+              >
+                Custom
+              </button>
+            </div>
+
+            {(isCustom || customHours !== "") && (
+              <div className="field" style={{ marginBottom: "var(--sp-3)", maxWidth: 160 }}>
+                <span className="field__label">Custom hours (1–168)</span>
+                <input
+                  className="input"
+                  type="number"
+                  min={1}
+                  max={168}
+                  value={customHours !== "" ? customHours : intervalHours}
+                  onChange={(e) => setCustomHours(e.target.value)}
+                  onBlur={applyCustomHours}
+                  onKeyDown={(e) => e.key === "Enter" && applyCustomHours()}
+                />
+              </div>
+            )}
+
+            <p className="reset-window-hint">
+              Each site resets {intervalHours}h after its first visit in a window. Changing this does not erase existing data.
+            </p>
+          </>
+        )}
+
+        {anchor && (
+          <>
+            <div className="reset-anchor">
+              {anchor.period === "weekly" && (
+                <div className="select-wrap">
+                  <select
+                    value={anchor.weekday ?? 1}
+                    onChange={(e) => patchAnchor({ weekday: Number(e.target.value) })}
+                  >
+                    {WEEKDAYS.map((name, day) => (
+                      <option key={day} value={day}>{name}</option>
+                    ))}
+                  </select>
+                </div>
+              )}
+              <span className="reset-anchor__at">at</span>
+              <input
+                className="input"
+                type="time"
+                value={formatAnchorTime(anchor.minutes)}
+                onChange={(e) => setAnchorTime(e.target.value)}
+              />
+            </div>
+
+            <p className="reset-window-hint">
+              Usage, temptations, Dopamine Score and the self-control graph all reset together.
+              Next reset: {new Date(nextAnchorAt(anchor, Date.now())).toLocaleString(undefined, {
+                weekday: "short",
+                hour: "2-digit",
+                minute: "2-digit",
+              })}.
+            </p>
+          </>
+        )}
+      </section>
+
+      {/* Idle detection */}
+      <section className="panel-section">
+        <p className="section-heading">Idle detection</p>
+
+        <div
+          className="field"
+          style={{ flexDirection: "row", alignItems: "center", justifyContent: "space-between", marginBottom: "var(--sp-4)" }}
+        >
+          <div>
+            <span className="field__label" style={{ marginBottom: 0 }}>Pause tracking when away</span>
+            <p className="field__hint" style={{ marginTop: "var(--sp-1)" }}>
+              Time stops counting when you stop using the keyboard and mouse, or lock your screen.
+            </p>
+          </div>
+          <label className="toggle">
             <input
-              className="input"
-              type="number"
-              min={1}
-              max={168}
-              value={customHours !== "" ? customHours : intervalHours}
-              onChange={(e) => setCustomHours(e.target.value)}
-              onBlur={applyCustomHours}
-              onKeyDown={(e) => e.key === "Enter" && applyCustomHours()}
+              className="toggle__input"
+              type="checkbox"
+              checked={idle.enabled}
+              onChange={(e) => patchIdle({ enabled: e.target.checked })}
             />
-          </div>
+            <span className="toggle__track"><span className="toggle__thumb" /></span>
+          </label>
+        </div>
+
+        {idle.enabled && (
+          <>
+            <div className="field" style={{ marginBottom: "var(--sp-4)" }}>
+              <span className="field__label">Idle after</span>
+              <div className="seg">
+                {IDLE_PRESETS_MINUTES.map((m) => (
+                  <button
+                    key={m}
+                    className={`seg__option${idle.thresholdSeconds === m * 60 ? " seg__option--active" : ""}`}
+                    onClick={() => patchIdle({ thresholdSeconds: m * 60 })}
+                  >
+                    {m} min
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            <div
+              className="field"
+              style={{ flexDirection: "row", alignItems: "center", justifyContent: "space-between" }}
+            >
+              <div>
+                <span className="field__label" style={{ marginBottom: 0 }}>Keep counting while media plays</span>
+                <p className="field__hint" style={{ marginTop: "var(--sp-1)" }}>
+                  Watching a video without touching the mouse still counts. Locking the screen always pauses.
+                </p>
+              </div>
+              <label className="toggle">
+                <input
+                  className="toggle__input"
+                  type="checkbox"
+                  checked={idle.countWhilePlayingMedia}
+                  onChange={(e) => patchIdle({ countWhilePlayingMedia: e.target.checked })}
+                />
+                <span className="toggle__track"><span className="toggle__thumb" /></span>
+              </label>
+            </div>
+          </>
         )}
+      </section>
 
-        <p className="reset-window-hint">
-          Usage counters reset every {intervalHours}h. Changing this does not erase existing data.
-        </p>
+      {/* Tracked tabs */}
+      <section className="panel-section">
+        <p className="section-heading">Tracked tabs</p>
+
+        <div
+          className="field"
+          style={{ flexDirection: "row", alignItems: "center", justifyContent: "space-between" }}
+        >
+          <div>
+            <span className="field__label" style={{ marginBottom: 0 }}>Count audible background tabs</span>
+            <p className="field__hint" style={{ marginTop: "var(--sp-1)" }}>
+              A site playing audio in another tab uses its budget too.
+            </p>
+          </div>
+          <label className="toggle">
+            <input
+              className="toggle__input"
+              type="checkbox"
+              checked={tracking.audibleTabs}
+              onChange={(e) => patch({ tracking: { ...tracking, audibleTabs: e.target.checked } })}
+            />
+            <span className="toggle__track"><span className="toggle__thumb" /></span>
+          </label>
+        </div>
+
+        <div
+          className="field"
+          style={{ flexDirection: "row", alignItems: "center", justifyContent: "space-between", marginTop: "var(--sp-4)" }}
+        >
+          <div>
+            <span className="field__label" style={{ marginBottom: 0 }}>Count every visible window</span>
+            <p className="field__hint" style={{ marginTop: "var(--sp-1)" }}>
+              For multi-monitor setups: the active tab of each window that is not minimized counts, focused or not. A site open in two windows is counted once.
+            </p>
+          </div>
+          <label className="toggle">
+            <input
+              className="toggle__input"
+              type="checkbox"
+              checked={tracking.allWindows}
+              onChange={(e) => patch({ tracking: { ...tracking, allWindows: e.target.checked } })}
+            />
+            <span className="toggle__track"><span className="toggle__thumb" /></span>
+          </label>
+        </div>
+      </section>
+
+      {/* Link badges */}
+      <section className="panel-section">
+        <p className="section-heading">Link badges</p>
+
+        <div
+          className="field"
+          style={{ flexDirection: "row", alignItems: "center", justifyContent: "space-between" }}
+        >
+          <div>
+            <span className="field__label" style={{ marginBottom: 0 }}>Badge links to blocked and limited sites</span>
+            <p className="field__hint" style={{ marginTop: "var(--sp-1)" }}>
+              Search results and other links show &quot;Blocked&quot; or the minutes left before you click them.
+            </p>
+          </div>
+          <label className="toggle">
+            <input
+              className="toggle__input"
+              type="checkbox"
+              checked={links.enabled}
+              onChange={(e) => patch({ linkAnnotations: { ...links, enabled: e.target.checked } })}
+            />
+            <span className="toggle__track"><span className="toggle__thumb" /></span>
+          </label>
+        </div>
+
+        <div
+          className="field"
+          style={{ flexDirection: "row", alignItems: "center", justifyContent: "space-between", marginTop: "var(--sp-4)" }}
+        >
+          <div>
+            <span className="field__label" style={{ marginBottom: 0 }}>Dim blocked links</span>
+            <p className="field__hint" style={{ marginTop: "var(--sp-1)" }}>
+              Fades links to blocked sites so they draw less attention.
+            </p>
+          </div>
+          <label className="toggle">
+            <input
+              className="toggle__input"
+              type="checkbox"
+              checked={links.dimLinks}
+              disabled={!links.enabled}
+              onChange={(e) => patch({ linkAnnotations: { ...links, dimLinks: e.target.checked } })}
+            />
+            <span className="toggle__track"><span className="toggle__thumb" /></span>
+          </label>
+        </div>
+      </section>
+
+      {/* Low-time warnings */}
+      <section className="panel-section">
+        <p className="section-heading">Low-time warnings</p>
+
+        <div
+          className="field"
+          style={{ flexDirection: "row", alignItems: "center", justifyContent: "space-between" }}
+        >
+          <div>
+            <span className="field__label" style={{ marginBottom: 0 }}>Warn before a time limit runs out</span>
+            <p className="field__hint" style={{ marginTop: "var(--sp-1)" }}>
+              A limited site shows a short notice as its time left passes each mark.
+            </p>
+          </div>
+          <label className="toggle">
+            <input
+              className="toggle__input"
+              type="checkbox"
+              checked={warnings.enabled}
+              onChange={(e) => patch({ limitWarnings: { ...warnings, enabled: e.target.checked } })}
+            />
+            <span className="toggle__track"><span className="toggle__thumb" /></span>
+          </label>
+        </div>
+
+        <div className="field" style={{ maxWidth: 200, marginTop: "var(--sp-4)" }}>
+          <span className="field__label">Warn at (minutes left)</span>
+          <input
+            className="input"
+            type="text"
+            value={warningInput}
+            placeholder="5, 1"
+            disabled={!warnings.enabled}
+            onChange={(e) => {
+              setWarningInput(e.target.value);
+              setWarningError(null);
+            }}
+            onBlur={applyWarningInput}
+            onKeyDown={(e) => e.key === "Enter" && applyWarningInput()}
+          />
+          <p className="field__hint">Comma-separated. Sites and groups can set their own.</p>
+          {warningError && <p className="field__error">{warningError}</p>}
+        </div>
+
+        <div
+          className="field"
+          style={{ flexDirection: "row", alignItems: "center", justifyContent: "space-between", marginTop: "var(--sp-4)" }}
+        >
+          <div>
+            <span className="field__label" style={{ marginBottom: 0 }}>System notifications</span>
+            <p className="field__hint" style={{ marginTop: "var(--sp-1)" }}>
+              Also show each warning as a notification outside the page.
+            </p>
+          </div>
+          <label className="toggle">
+            <input
+              className="toggle__input"
+              type="checkbox"
+              checked={warnings.notify}
+              disabled={!warnings.enabled}
+              onChange={(e) => patch({ limitWarnings: { ...warnings, notify: e.target.checked } })}
+            />
+            <span className="toggle__track"><span className="toggle__thumb" /></span>
+          </label>
+        </div>
       </section>
 
       {/* Always blocked */}
@@ -154,11 +483,14 @@ export function SettingsPanel({ settings, patch }: SettingsPanelProps) {
             placeholder="reddit.com, tiktok.com…"
           />
           <p className="field__hint">
-            Blocked globally regardless of any group or site rule.
+            Blocked globally regardless of any group or site rule. Allow exceptions on the Sites page still apply.
           </p>
         </div>
       </section>
 
+      {/* Settings lockdown */}
+      <LockdownSection settings={settings} patch={patch} />
+
       {/* Protected Settings Gate */}
       <section className="panel-section">
         <p className="section-heading">Protected Settings Gate</p>
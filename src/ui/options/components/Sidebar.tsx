@@ -3,35 +3,41 @@
 export type Section =
   | "rules"
   | "locked-in"
+  | "emergency"
   | "settings"
   | "groups"
   | "sites"
   | "packs"
   | "reset-window"
   | "import-export"
+  | "test-url"
   | "about";
 
 const VALID_SECTIONS: Section[] = [
   "rules",
   "locked-in",
+  "emergency",
   "settings",
   "groups",
   "sites",
   "packs",
   "reset-window",
   "import-export",
+  "test-url",
   "about",
 ];
 
 const NAV_ITEMS: { id: Section; label: string }[] = [
   { id: "rules",         label: "Rules" },
   { id: "locked-in",    label: "Locked In" },
+  { id: "emergency",     label: "Emergency Unlock" },
   { id: "groups",        label: "Groups" },
   { id: "sites",         label: "Sites" },
   { id: "packs",         label: "Category Packs" },
   { id: "settings",      label: "Settings" },
   { id: "reset-window",  label: "Reset Window" },
   { id: "import-export", label: "Import / Export" },
+  { id: "test-url",      label: "Test a URL" },
   { id: "about",         label: "About" },
 ];
 
@@ -1,11 +1,15 @@
 // FILE: src/ui/options/components/SiteEditor.tsx
 
 import { useState } from "react";
-import type { SiteRule, RuleMode, ScheduleWindow } from "../../../core/types";
+import type { SiteRule, RuleMode, ScheduleWindow, BudgetWindow } from "../../../core/types";
 import { sanitizeDomain, isValidDomain } from "../../../core/validation";
+import { splitRuleInput, isValidPathPattern, ruleUsageKey } from "../../../core/urlPattern";
 import { Modal } from "./Modal";
 import { ScheduleEditor } from "./ScheduleEditor";
-import { useFriction } from "../context/FrictionContext";
+import { DayBudgetEditor } from "./DayBudgetEditor";
+import { BudgetWindowEditor } from "./BudgetWindowEditor";
+import { budgetsValid } from "../../../core/budget";
+import { parseWarningMinutes, formatWarningMinutes } from "../../../core/limitWarning";
 
 interface SiteEditorProps {
   rule: SiteRule | null; // null = create new
@@ -21,26 +25,42 @@ interface FormErrors {
   domain?: string;
   limitMinutes?: string;
   delaySeconds?: string;
+  warningMinutes?: string;
   schedule?: string;
+  budget?: string;
+  budgetWindows?: string;
 }
 
 export function SiteEditor({ rule, onSave, onClose, attemptCount, defaultDelaySeconds = 15 }: SiteEditorProps) {
   const isNew = rule === null;
-  const [domain, setDomain] = useState(rule?.domain ?? "");
+  // Domain field accepts an optional path pattern: "youtube.com/shorts".
+  const [domain, setDomain] = useState(rule ? ruleUsageKey(rule.domain, rule.path) : "");
   const [mode, setMode] = useState<RuleMode>(rule?.mode ?? "block");
   const [limitMinutes, setLimitMinutes] = useState(String(rule?.limitMinutes ?? 30));
   const [enabled, setEnabled] = useState(rule?.enabled ?? true);
   const [delayEnabled, setDelayEnabled] = useState(rule?.delayEnabled ?? false);
   const [delaySeconds, setDelaySeconds] = useState(String(rule?.delaySeconds ?? defaultDelaySeconds));
+  // Blank = the global warnings; "0" = none for this site.
+  const [warningMinutes, setWarningMinutes] = useState(
+    rule?.warningMinutes === undefined
+      ? ""
+      : rule.warningMinutes.length === 0
+        ? "0"
+        : formatWarningMinutes(rule.warningMinutes),
+  );
   const [schedules, setSchedules] = useState<ScheduleWindow[]>(rule?.schedule ?? []);
+  const [dayLimits, setDayLimits] = useState<(number | null)[] | undefined>(rule?.dayLimits);
+  const [budgets, setBudgets] = useState<BudgetWindow[]>(rule?.budgets ?? []);
   const [errors, setErrors] = useState<FormErrors>({});
-  const { askFriction } = useFriction();
 
   const validate = (): FormErrors => {
     const errs: FormErrors = {};
-    const cleaned = sanitizeDomain(domain);
+    const { host, path } = splitRuleInput(domain);
+    const cleaned = sanitizeDomain(host);
     if (!cleaned || !isValidDomain(cleaned)) {
       errs.domain = "Enter a valid hostname (e.g. twitter.com)";
+    } else if (path !== undefined && !isValidPathPattern(path)) {
+      errs.domain = "Enter a valid path (e.g. youtube.com/shorts or reddit.com/r/*)";
     }
     if (mode === "limit") {
       const mins = parseInt(limitMinutes, 10);
@@ -52,64 +72,64 @@ export function SiteEditor({ rule, onSave, onClose, attemptCount, defaultDelaySe
       if (isNaN(secs) || secs < 5 || secs > 60)
         errs.delaySeconds = "Enter a value between 5 and 60";
     }
+    if (mode === "limit" && parseWarningMinutes(warningMinutes) === null) {
+      errs.warningMinutes = "Enter up to 5 whole minutes, e.g. 5, 1";
+    }
     if (schedules.length > 0) {
       const invalid = schedules.some((s) => s.days.length === 0);
       if (invalid) errs.schedule = "Each schedule window must have at least one day selected";
     }
+    if (mode === "limit" && !budgetsValid({ dayLimits })) {
+      errs.budget = "Budgets must be between 1 and 1440 minutes";
+    }
+    if (mode === "limit") {
+      const shapeInvalid = budgets.some((w) => w.days.length === 0 || w.startMinutes === w.endMinutes);
+      if (shapeInvalid) {
+        errs.budgetWindows = "Each budget window needs a day and different start and end times";
+      } else if (!budgetsValid({ budgets })) {
+        errs.budgetWindows = "Budgets must be between 1 and 1440 minutes";
+      }
+    }
     return errs;
   };
 
-  const handleSave = async () => {
+  const handleSave = () => {
     const errs = validate();
     if (Object.keys(errs).length > 0) {
       setErrors(errs);
       return;
     }
 
+    const { host, path } = splitRuleInput(domain);
     const saved: SiteRule = {
-      domain: sanitizeDomain(domain),
+      domain: sanitizeDomain(host),
+      path,
       mode,
       limitMinutes: mode === "limit" ? parseInt(limitMinutes, 10) : undefined,
+      dayLimits: mode === "limit" ? dayLimits : undefined,
+      budgets: mode === "limit" && budgets.length > 0 ? budgets : undefined,
       enabled,
       delayEnabled: mode === "limit" && delayEnabled ? true : undefined,
       delaySeconds: mode === "limit" && delayEnabled ? parseInt(delaySeconds, 10) : undefined,
+      warningMinutes:
+        mode === "limit" && warningMinutes.trim() !== ""
+          ? (parseWarningMinutes(warningMinutes) ?? undefined)
+          : undefined,
       schedule: schedules.length > 0 ? schedules : undefined,
     };
 
-    // Friction checks only apply when editing an existing rule, not creating.
-    if (!isNew && rule !== null) {
-      const wasBlock = rule.mode === "block";
-      const newLimitMins = parseInt(limitMinutes, 10);
-      const oldLimitMins = rule.limitMinutes ?? 0;
-
-      if (wasBlock && mode === "limit") {
-        const ok = await askFriction({
-          actionType: "rule-block-to-limit",
-          label: `${saved.domain} — block → time limit`,
-          domain: saved.domain,
-        });
-        if (!ok) return;
-      } else if (rule.mode === "limit" && mode === "limit" && newLimitMins > oldLimitMins) {
-        const ok = await askFriction({
-          actionType: "rule-limit-increase",
-          label: `${saved.domain} — limit ${oldLimitMins}min → ${newLimitMins}min`,
-          domain: saved.domain,
-        });
-        if (!ok) return;
-      }
-    }
-
+    // Relaxing an existing rule is gated by the parent's guarded patch.
     onSave(saved);
   };
 
   return (
     <Modal
-      title={isNew ? "New Site Rule" : `Edit "${rule!.domain}"`}
+      title={isNew ? "New Site Rule" : `Edit "${ruleUsageKey(rule!.domain, rule!.path)}"`}
       onClose={onClose}
       footer={
         <>
           <button className="btn btn-secondary" onClick={onClose}>Cancel</button>
-          <button className="btn btn-primary" onClick={() => void handleSave()}>
+          <button className="btn btn-primary" onClick={handleSave}>
             {isNew ? "Add rule" : "Save"}
           </button>
         </>
@@ -122,13 +142,18 @@ export function SiteEditor({ rule, onSave, onClose, attemptCount, defaultDelaySe
           className="input"
           type="text"
           value={domain}
-          placeholder="twitter.com"
+          placeholder="twitter.com or youtube.com/shorts"
           disabled={!isNew}
           onChange={(e) => {
             setDomain(e.target.value);
             setErrors((p) => ({ ...p, domain: undefined }));
           }}
         />
+        {isNew && (
+          <p className="field__hint">
+            Add a path to target part of a site. Use * to match one path segment, ** for any depth.
+          </p>
+        )}
         {errors.domain && <p className="field__error">{errors.domain}</p>}
       </div>
 
@@ -171,6 +196,29 @@ export function SiteEditor({ rule, onSave, onClose, attemptCount, defaultDelaySe
         </div>
       )}
 
+      {mode === "limit" && (
+        <DayBudgetEditor
+          dayLimits={dayLimits}
+          baseLimit={limitMinutes}
+          onChange={(d) => {
+            setDayLimits(d);
+            setErrors((p) => ({ ...p, budget: undefined }));
+          }}
+          error={errors.budget}
+        />
+      )}
+
+      {mode === "limit" && (
+        <BudgetWindowEditor
+          budgets={budgets}
+          onChange={(b) => {
+            setBudgets(b);
+            setErrors((p) => ({ ...p, budgetWindows: undefined }));
+          }}
+          error={errors.budgetWindows}
+        />
+      )}
+
       {/* Enabled toggle */}
       <div
         className="field"
@@ -236,6 +284,26 @@ export function SiteEditor({ rule, onSave, onClose, attemptCount, defaultDelaySe
         </div>
       )}
 
+      {mode === "limit" && (
+        <div className="field" style={{ maxWidth: 200 }}>
+          <span className="field__label">Warn at (minutes left)</span>
+          <input
+            className="input"
+            type="text"
+            value={warningMinutes}
+            placeholder="Default"
+            onChange={(e) => {
+              setWarningMinutes(e.target.value);
+              setErrors((p) => ({ ...p, warningMinutes: undefined }));
+            }}
+          />
+          <p className="field__hint">Blank uses the default warnings. 0 turns them off for this site.</p>
+          {errors.warningMinutes && (
+            <p className="field__error">{errors.warningMinutes}</p>
+          )}
+        </div>
+      )}
+
       {/* Schedule */}
       <ScheduleEditor
         schedules={schedules}
@@ -4,8 +4,9 @@ import { useEffect, useState } from "react";
 import type { Settings, SiteRule, TemptationMap } from "../../../core/types";
 import { getTemptations } from "../../../core/storage";
 import { formatScheduleSummary } from "../../../core/schedule";
+import { ruleUsageKey } from "../../../core/urlPattern";
 import { SiteEditor } from "./SiteEditor";
-import { useFriction } from "../context/FrictionContext";
+import { DomainPillInput } from "./DomainPillInput";
 
 interface SitesPanelProps {
   settings: Settings;
@@ -16,51 +17,45 @@ export function SitesPanel({ settings, patch }: SitesPanelProps) {
   const [editing, setEditing] = useState<SiteRule | null | "new">(null);
   const [search, setSearch] = useState("");
   const [temptations, setTemptationMap] = useState<TemptationMap>({});
-  const { askFriction } = useFriction();
 
   useEffect(() => {
     getTemptations().then(setTemptationMap).catch(() => {});
   }, []);
 
+  // Rules are identified by domain + path — path rules may share a domain.
+  const keyOf = (r: SiteRule) => ruleUsageKey(r.domain, r.path);
+
   const saveRule = (saved: SiteRule) => {
-    const exists = settings.siteRules.some((r) => r.domain === saved.domain);
+    const key = keyOf(saved);
+    const exists = settings.siteRules.some((r) => keyOf(r) === key);
     const next = exists
-      ? settings.siteRules.map((r) => (r.domain === saved.domain ? saved : r))
+      ? settings.siteRules.map((r) => (keyOf(r) === key ? saved : r))
       : [...settings.siteRules, saved];
     patch({ siteRules: next });
     setEditing(null);
   };
 
-  const deleteRule = async (domain: string) => {
-    const ok = await askFriction({
-      actionType: "delete-site-rule",
-      label: `${domain} — site rule`,
-      domain,
-    });
-    if (!ok) return;
-    patch({ siteRules: settings.siteRules.filter((r) => r.domain !== domain) });
+  // Removing, disabling and new exceptions are gated by the guarded patch.
+  const deleteRule = (rule: SiteRule) => {
+    const key = keyOf(rule);
+    patch({ siteRules: settings.siteRules.filter((r) => keyOf(r) !== key) });
   };
 
-  const toggleEnabled = async (domain: string) => {
-    const rule = settings.siteRules.find((r) => r.domain === domain);
-    // Only gate when the rule is currently ENABLED (user is disabling it).
-    if (rule?.enabled) {
-      const ok = await askFriction({
-        actionType: "disable-site-rule",
-        label: `${domain} — ${rule.mode === "block" ? "block" : `${rule.limitMinutes ?? 0}min limit`}`,
-        domain,
-      });
-      if (!ok) return;
-    }
+  const toggleEnabled = (rule: SiteRule) => {
+    const key = keyOf(rule);
     patch({
       siteRules: settings.siteRules.map((r) =>
-        r.domain === domain ? { ...r, enabled: !r.enabled } : r,
+        keyOf(r) === key ? { ...r, enabled: !r.enabled } : r,
       ),
     });
   };
 
+  const updateExceptions = (list: string[]) => {
+    patch({ allowExceptions: list });
+  };
+
   const filtered = settings.siteRules.filter((r) =>
-    r.domain.includes(search.toLowerCase()),
+    keyOf(r).includes(search.toLowerCase()),
   );
 
   return (
@@ -104,13 +99,14 @@ export function SitesPanel({ settings, patch }: SitesPanelProps) {
             <div className="rule-card-list">
               {filtered.map((r) => (
                 <div
-                  key={r.domain}
+                  key={keyOf(r)}
                   className={`list-row list-row--interactive${r.enabled ? "" : " list-row--disabled"}`}
                 >
                   <div className="list-row__main">
-                    <span className="list-row__title">{r.domain}</span>
+                    <span className="list-row__title">{keyOf(r)}</span>
                     <span className="list-row__sub">
                       {r.mode === "block" ? "Block" : `${r.limitMinutes ?? 0} min/window`}
+                      {r.mode === "limit" && r.dayLimits && " · per-day budgets"}
                       {r.schedule && r.schedule.length > 0 && (
                         <>
                           {" · "}
@@ -129,7 +125,7 @@ export function SitesPanel({ settings, patch }: SitesPanelProps) {
                         className="toggle__input"
                         type="checkbox"
                         checked={r.enabled}
-                        onChange={() => void toggleEnabled(r.domain)}
+                        onChange={() => toggleEnabled(r)}
                       />
                       <span className="toggle__track"><span className="toggle__thumb" /></span>
                     </label>
@@ -141,7 +137,7 @@ export function SitesPanel({ settings, patch }: SitesPanelProps) {
                     </button>
                     <button
                       className="btn btn-danger btn--sm"
-                      onClick={() => void deleteRule(r.domain)}
+                      onClick={() => deleteRule(r)}
                     >
                       Delete
                     </button>
@@ -153,6 +149,21 @@ export function SitesPanel({ settings, patch }: SitesPanelProps) {
         </>
       )}
 
+      <section className="panel-section" style={{ marginTop: "var(--sp-8)" }}>
+        <p className="section-heading">Allow exceptions</p>
+        <div className="field">
+          <DomainPillInput
+            domains={settings.allowExceptions}
+            onChange={updateExceptions}
+            placeholder="music.youtube.com, docs.google.com…"
+          />
+          <p className="field__hint">
+            Always allowed, including subdomains — overrides any site rule, group or
+            always-blocked entry that would otherwise match.
+          </p>
+        </div>
+      </section>
+
       {editing !== null && (
         <SiteEditor
           rule={editing === "new" ? null : editing}
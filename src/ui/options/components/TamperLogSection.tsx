@@ -0,0 +1,68 @@
+/**
+ * TamperLogSection — "Tamper log" panel for the Dashboard.
+ *
+ * Lists the gaps in protection the service worker detected: the extension
+ * turned off in chrome://extensions, reinstalled, or its data wiped (see
+ * core/tamper.ts). Each gap this window is charged to the Dopamine Score.
+ */
+
+import { useTamperLog } from "../hooks/useTamperLog";
+import { describeTamperEvent, recentTamperEvents } from "../../../core/tamper";
+import { formatTime } from "../../popup/utils/formatTime";
+
+/** Most recent events listed. */
+const LIST_LIMIT = 10;
+
+interface TamperLogSectionProps {
+  /** Gaps detected this window — the Dopamine Score's own count. */
+  thisWindow: number;
+}
+
+function formatWhen(ts: number): string {
+  const date = new Date(ts);
+  const day = date.toLocaleDateString([], { weekday: "short", month: "short", day: "numeric" });
+  const time = date.toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" });
+  return `${day}, ${time}`;
+}
+
+export function TamperLogSection({ thisWindow }: TamperLogSectionProps) {
+  const { log, loading } = useTamperLog();
+  if (loading) return null;
+
+  const recent = recentTamperEvents(log, LIST_LIMIT);
+
+  return (
+    <section className="panel-section">
+      <p className="section-heading">Tamper log</p>
+      <p style={{ color: "var(--text-3)", fontSize: "var(--text-sm)", marginBottom: "var(--sp-3)" }}>
+        Times JustDetox was turned off, reinstalled or wiped.{" "}
+        {thisWindow > 0
+          ? `${thisWindow} this window, each costing Dopamine Score points.`
+          : "None this window."}
+      </p>
+      {recent.length === 0 ? (
+        <div className="empty-state">
+          <p className="empty-state__heading">No gaps recorded.</p>
+          <p className="empty-state__body">Protection has run without interruption.</p>
+        </div>
+      ) : (
+        <div className="rule-card-list">
+          {recent.map((e) => (
+            <div key={e.ts} className="list-row">
+              <div className="list-row__main">
+                <span className="list-row__title">{describeTamperEvent(e)}</span>
+                <span className="list-row__sub">
+                  {formatWhen(e.ts)}
+                  {e.installType === "development" ? " · unpacked install" : ""}
+                </span>
+              </div>
+              <span style={{ color: "var(--text-2)", fontSize: "var(--text-sm)", fontVariantNumeric: "tabular-nums" }}>
+                off for {formatTime(e.gapMs / 1000)}
+              </span>
+            </div>
+          ))}
+        </div>
+      )}
+    </section>
+  );
+}
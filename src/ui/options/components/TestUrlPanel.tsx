@@ -0,0 +1,22 @@
+// FILE: src/ui/options/components/TestUrlPanel.tsx
+
+import { PolicyTester } from "../../components/PolicyTester";
+
+export function TestUrlPanel() {
+  return (
+    <div className="panel-content">
+      <div className="panel-header">
+        <div>
+          <h1 className="panel-title">Test a URL</h1>
+          <p className="panel-subtitle">
+            See which rule applies to a site and why — every tier, schedule and usage total.
+          </p>
+        </div>
+      </div>
+
+      <section className="panel-section" style={{ maxWidth: 560 }}>
+        <PolicyTester />
+      </section>
+    </div>
+  );
+}
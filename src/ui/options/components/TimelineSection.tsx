@@ -0,0 +1,96 @@
+/**
+ * TimelineSection — "Timeline" panel for the Dashboard.
+ *
+ * Shows:
+ *  - Day selector (today / yesterday).
+ *  - SVG bar chart of tracked minutes per hour, in the same style as the
+ *    Self-Control Graph so the two can be read side by side.
+ *  - Top 3 busiest hours with the site that took most of each.
+ */
+
+import { useTimeline } from "../hooks/useTimeline";
+import type { TimelineDay } from "../hooks/useTimeline";
+import { SelfControlChart } from "../../components/SelfControlChart";
+import { topDomainOf } from "../../../core/timeline";
+import { formatTime } from "../../popup/utils/formatTime";
+
+const DAY_OPTIONS: { day: TimelineDay; label: string }[] = [
+  { day: "today", label: "Today" },
+  { day: "yesterday", label: "Yesterday" },
+];
+
+function formatHHMM(ts: number): string {
+  const d = new Date(ts);
+  return (
+    String(d.getHours()).padStart(2, "0") +
+    ":" +
+    String(d.getMinutes()).padStart(2, "0")
+  );
+}
+
+export function TimelineSection() {
+  const { day, setDay, hours, busiestHours, totalSeconds, loading, refresh } = useTimeline();
+
+  return (
+    <section className="panel-section">
+      {/* Section header */}
+      <div className="scg-header">
+        <div>
+          <p className="section-heading">Timeline</p>
+          <p className="scg-subtitle">When your browsing time was spent</p>
+        </div>
+        <div className="scg-controls">
+          {DAY_OPTIONS.map((opt) => (
+            <button
+              key={opt.day}
+              className={`scg-bucket-btn${day === opt.day ? " active" : ""}`}
+              onClick={() => setDay(opt.day)}
+            >
+              {opt.label}
+            </button>
+          ))}
+          <button
+            className="btn btn-secondary btn--sm"
+            onClick={() => void refresh()}
+            disabled={loading}
+            style={{ marginLeft: "var(--sp-2)" }}
+          >
+            {loading ? "…" : "Refresh"}
+          </button>
+        </div>
+      </div>
+
+      {/* Chart */}
+      <div className="scg-chart-container">
+        {loading ? (
+          <div className="scg-chart-empty">Loading…</div>
+        ) : totalSeconds === 0 ? (
+          <div className="scg-chart-empty">No browsing time recorded {day === "today" ? "today" : "yesterday"}.</div>
+        ) : (
+          <SelfControlChart
+            buckets={hours.map((h) => ({ bucketStart: h.hourStart, count: Math.round(h.seconds / 60) }))}
+            formatValue={(m) => `${m}m`}
+          />
+        )}
+      </div>
+
+      {/* Busiest hours */}
+      {!loading && busiestHours.length > 0 && (
+        <div className="scg-spikes">
+          <p className="scg-meta-label">Busiest hours</p>
+          <div className="scg-spike-list">
+            {busiestHours.map((h, i) => (
+              <div key={h.hourStart} className="scg-spike-row">
+                <span className="scg-spike-rank">{i + 1}</span>
+                <span className="scg-spike-time">{formatHHMM(h.hourStart)}</span>
+                <span className="scg-spike-count">
+                  {formatTime(h.seconds)} · mostly {topDomainOf(h)}
+                </span>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,77 @@
+/**
+ * UsageHistorySection — "History" panel for the Dashboard.
+ *
+ * Shows:
+ *  - Range selector (7 / 30 / 90 days).
+ *  - SVG column chart of daily browsing time, today included.
+ *  - Total and daily average for the range.
+ *  - Top 5 domains across the range.
+ */
+
+import { useUsageHistory } from "../hooks/useUsageHistory";
+import type { HistoryRange } from "../hooks/useUsageHistory";
+import { UsageHistoryChart } from "../../components/UsageHistoryChart";
+import { BarChart } from "./BarChart";
+import { formatTime } from "../../popup/utils/formatTime";
+
+const RANGE_OPTIONS: { range: HistoryRange; label: string }[] = [
+  { range: 7, label: "7d" },
+  { range: 30, label: "30d" },
+  { range: 90, label: "90d" },
+];
+
+export function UsageHistorySection() {
+  const { series, topDomains, totalSeconds, averageSeconds, range, setRange, loading, refresh } =
+    useUsageHistory();
+
+  return (
+    <section className="panel-section">
+      {/* Section header */}
+      <div className="scg-header">
+        <div>
+          <p className="section-heading">History</p>
+          <p className="scg-subtitle">
+            {loading
+              ? "Browsing time per day"
+              : `${formatTime(totalSeconds)} in the last ${range} days · ${formatTime(averageSeconds)} per active day`}
+          </p>
+        </div>
+        <div className="scg-controls">
+          {RANGE_OPTIONS.map((opt) => (
+            <button
+              key={opt.range}
+              className={`scg-bucket-btn${range === opt.range ? " active" : ""}`}
+              onClick={() => setRange(opt.range)}
+            >
+              {opt.label}
+            </button>
+          ))}
+          <button
+            className="btn btn-secondary btn--sm"
+            onClick={() => void refresh()}
+            disabled={loading}
+            style={{ marginLeft: "var(--sp-2)" }}
+          >
+            {loading ? "…" : "Refresh"}
+          </button>
+        </div>
+      </div>
+
+      {/* Chart */}
+      <div className="scg-chart-container">
+        {loading ? <div className="scg-chart-empty">Loading…</div> : <UsageHistoryChart series={series} />}
+      </div>
+
+      {/* Top domains across the range */}
+      {!loading && topDomains.length > 0 && (
+        <>
+          <p className="scg-meta-label">Top sites, last {range} days</p>
+          <BarChart
+            items={topDomains.map((d) => ({ label: d.hostname, value: d.seconds }))}
+            emptyMessage=""
+          />
+        </>
+      )}
+    </section>
+  );
+}
@@ -1,6 +1,7 @@
 import { useCallback, useEffect, useMemo, useState } from "react";
 import { getUsage, getTemptations, getDopamineScore } from "../../../core/storage";
 import { sumUsageUnder } from "../../../core/match";
+import { isPathUsageKey } from "../../../core/urlPattern";
 import type { Settings, UsageMap, TemptationMap, DopamineScoreData } from "../../../core/types";
 import { DEFAULT_DOPAMINE_SCORE } from "../../../core/types";
 
@@ -55,10 +56,13 @@ export function useDashboard(settings: Settings) {
     void load();
   }, [load]);
 
-  /** Top 10 domains by active seconds, descending. Only non-zero entries. */
+  /**
+   * Top 10 domains by active seconds, descending. Only non-zero entries.
+   * Path-rule keys are excluded — their time is already in the hostname record.
+   */
   const domainStats = useMemo((): DomainStat[] => {
     return Object.entries(usage)
-      .filter(([, u]) => u.activeSeconds > 0)
+      .filter(([key, u]) => u.activeSeconds > 0 && !isPathUsageKey(key))
       .map(([hostname, u]) => ({ hostname, activeSeconds: u.activeSeconds }))
       .sort((a, b) => b.activeSeconds - a.activeSeconds)
       .slice(0, 10);
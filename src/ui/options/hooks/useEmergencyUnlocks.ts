@@ -0,0 +1,69 @@
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { getEmergencyUnlocks } from "../../../core/storage";
+import { rollEmergencyWindow, unlocksRemaining } from "../../../core/emergencyUnlock";
+import type { EmergencyUnlock, EmergencyUnlockData, Settings } from "../../../core/types";
+import { DEFAULT_EMERGENCY_UNLOCK_DATA } from "../../../core/types";
+import type { EmergencyUnlockMessage, EmergencyUnlockResponse } from "../../../shared/messages";
+
+export interface UseEmergencyUnlocksResult {
+  /** Unlocks still available this window. */
+  remaining: number;
+  /** Unlocks that have not lapsed yet, soonest-ending first. */
+  active: EmergencyUnlock[];
+  loading: boolean;
+  /**
+   * Ask the background to grant an unlock for `domain`. Resolves to an error
+   * message, or null on success. Run the friction gate before calling.
+   */
+  unlock: (domain: string) => Promise<string | null>;
+}
+
+export function useEmergencyUnlocks(settings: Settings): UseEmergencyUnlocksResult {
+  const [data, setData] = useState<EmergencyUnlockData>({ ...DEFAULT_EMERGENCY_UNLOCK_DATA });
+  const [loading, setLoading] = useState(true);
+  const [now, setNow] = useState(Date.now);
+
+  useEffect(() => {
+    getEmergencyUnlocks()
+      .then(setData)
+      .catch(() => {})
+      .finally(() => setLoading(false));
+  }, []);
+
+  // Re-render every 15 s so lapsed unlocks drop off the list.
+  useEffect(() => {
+    const id = setInterval(() => setNow(Date.now()), 15_000);
+    return () => clearInterval(id);
+  }, []);
+
+  const current = useMemo(
+    () => rollEmergencyWindow(data, settings.resetWindow, now),
+    [data, settings.resetWindow, now],
+  );
+
+  const remaining = unlocksRemaining(current, settings.emergencyUnlock);
+  const active = useMemo(
+    () => current.unlocks.filter((u) => u.endTs > now).sort((a, b) => a.endTs - b.endTs),
+    [current, now],
+  );
+
+  const unlock = useCallback(
+    async (domain: string): Promise<string | null> => {
+      const msg: EmergencyUnlockMessage = { type: "EMERGENCY_UNLOCK", domain };
+      const response = (await chrome.runtime.sendMessage(msg)) as EmergencyUnlockResponse | undefined;
+      if (!response) return "The extension did not respond. Try again.";
+      if (!response.ok) return response.error;
+
+      // The background persists through its write queue; apply the grant locally.
+      setNow(Date.now());
+      setData((d) => {
+        const rolled = rollEmergencyWindow(d, settings.resetWindow, response.unlock.startTs);
+        return { ...rolled, unlocks: [...rolled.unlocks, response.unlock] };
+      });
+      return null;
+    },
+    [settings.resetWindow],
+  );
+
+  return { remaining, active, loading, unlock };
+}
@@ -2,9 +2,13 @@
  * useFrictionGate — manages the gate modal lifecycle.
  *
  * Routes to the correct gate based on settings:
+ *   - lockdown running       → rejected outright (resolves false, logged,
+ *                              and the reason exposed as `rejection`)
  *   - protectedGate.enabled → Protected Gate (60 s countdown + phrase)
  *   - friction.enabled       → Friction Gate  (10 s countdown + reflection)
- *   - neither enabled        → pass-through (resolves true immediately)
+ *   - neither enabled        → pass-through (resolves true immediately),
+ *                              unless the payload is `required`, which
+ *                              falls back to the Friction Gate
  *
  * Exposes `askFriction(payload)` → Promise<boolean>.
  * Returns `gateState` (null when closed) for the Options root to render.
@@ -13,7 +17,8 @@
 import { useCallback, useRef, useState } from "react";
 import type { FrictionPayload, FrictionLogEntry } from "../../../core/friction";
 import { appendFrictionLog } from "../../../core/friction";
-import type { FrictionSettings, ProtectedGateSettings } from "../../../core/types";
+import type { FrictionSettings, ProtectedGateSettings, SettingsLockdown } from "../../../core/types";
+import { formatLockdownUntil } from "../../../core/lockdown";
 import type { FrictionGateProps } from "../../components/FrictionGate";
 
 // ─── Gate kind discriminator ──────────────────────────────────────────────────
@@ -43,6 +48,9 @@ export interface UseFrictionGateResult {
   askFriction: (payload: FrictionPayload) => Promise<boolean>;
   /** Current gate state — null when gate is closed. */
   gateState: ActiveGateState | null;
+  /** Why the last `askFriction` call was rejected by a lockdown, until dismissed. */
+  rejection: string | null;
+  dismissRejection: () => void;
   /** Handlers for both gate components. */
   gateHandlers: Pick<FrictionGateProps, "onApply" | "onKeep"> & {
     /** Used by ProtectedGate which has no reflection text. */
@@ -53,14 +61,30 @@ export interface UseFrictionGateResult {
 export function useFrictionGate(
   frictionSettings: FrictionSettings,
   protectedGateSettings: ProtectedGateSettings,
+  lockdown: SettingsLockdown,
 ): UseFrictionGateResult {
   const [gateState, setGateState] = useState<ActiveGateState | null>(null);
+  const [rejection, setRejection] = useState<string | null>(null);
 
   const resolveRef = useRef<((value: boolean) => void) | null>(null);
   const payloadRef = useRef<FrictionPayload | null>(null);
 
   const askFriction = useCallback(
     (payload: FrictionPayload): Promise<boolean> => {
+      // A lockdown rejects every protective change outright — always logged.
+      if (Date.now() < lockdown.untilTs) {
+        const entry: FrictionLogEntry = {
+          ts: Date.now(),
+          actionType: payload.actionType,
+          label: payload.label,
+          reflection: "",
+          outcome: "rejected",
+        };
+        appendFrictionLog(entry).catch(() => {});
+        setRejection(`Settings are locked down until ${formatLockdownUntil(lockdown.untilTs)} — ${payload.label} is not allowed.`);
+        return Promise.resolve(false);
+      }
+
       // Protected Gate takes precedence over Friction Layer.
       if (protectedGateSettings.enabled) {
         const countdownStartTs = Date.now();
@@ -77,7 +101,7 @@ export function useFrictionGate(
         });
       }
 
-      if (frictionSettings.enabled) {
+      if (frictionSettings.enabled || payload.required) {
         const countdownStartTs = Date.now();
         payloadRef.current = payload;
         return new Promise<boolean>((resolve) => {
@@ -96,12 +120,20 @@ export function useFrictionGate(
       return Promise.resolve(true);
     },
     [
+      lockdown.untilTs,
       protectedGateSettings.enabled,
       frictionSettings.enabled,
       frictionSettings.requireReflection,
     ],
   );
 
+  /** Required payloads are logged even when reflection logging is off. */
+  const shouldLog = useCallback(
+    (payload: FrictionPayload | null): payload is FrictionPayload =>
+      payload !== null && (frictionSettings.logReflections || payload.required === true),
+    [frictionSettings.logReflections],
+  );
+
   const closeGate = useCallback(() => {
     setGateState(null);
     payloadRef.current = null;
@@ -114,7 +146,7 @@ export function useFrictionGate(
       const resolve = resolveRef.current;
       const payload = payloadRef.current;
 
-      if (payload && frictionSettings.logReflections) {
+      if (shouldLog(payload)) {
         const entry: FrictionLogEntry = {
           ts: Date.now(),
           actionType: payload.actionType,
@@ -128,7 +160,7 @@ export function useFrictionGate(
       closeGate();
       resolve?.(true);
     },
-    [frictionSettings.logReflections, closeGate],
+    [shouldLog, closeGate],
   );
 
   /** Friction Gate: user kept protections. */
@@ -136,7 +168,7 @@ export function useFrictionGate(
     const resolve = resolveRef.current;
     const payload = payloadRef.current;
 
-    if (payload && frictionSettings.logReflections) {
+    if (shouldLog(payload)) {
       const entry: FrictionLogEntry = {
         ts: Date.now(),
         actionType: payload.actionType,
@@ -149,18 +181,36 @@ export function useFrictionGate(
 
     closeGate();
     resolve?.(false);
-  }, [frictionSettings.logReflections, closeGate]);
+  }, [shouldLog, closeGate]);
 
   /** Protected Gate: user confirmed "Apply change" (no reflection text). */
   const onApplyProtected = useCallback(() => {
     const resolve = resolveRef.current;
+    const payload = payloadRef.current;
+
+    // The Protected Gate has no reflection field; only required payloads are logged.
+    if (payload?.required) {
+      const entry: FrictionLogEntry = {
+        ts: Date.now(),
+        actionType: payload.actionType,
+        label: payload.label,
+        reflection: "",
+        outcome: "applied",
+      };
+      appendFrictionLog(entry).catch(() => {});
+    }
+
     closeGate();
     resolve?.(true);
   }, [closeGate]);
 
+  const dismissRejection = useCallback(() => setRejection(null), []);
+
   return {
     askFriction,
     gateState,
+    rejection,
+    dismissRejection,
     gateHandlers: { onApply, onKeep, onApplyProtected },
   };
 }
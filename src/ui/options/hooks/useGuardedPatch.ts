@@ -0,0 +1,69 @@
+/**
+ * useGuardedPatch — wraps `useSettings().patch` so every options-page edit
+ * goes through `diffProtection` (core/protectedGate.ts).
+ *
+ * A patch that reduces protection opens the gate via `askFriction` and is
+ * applied only once confirmed; one reduction is shown with its own action
+ * type and label, several as a single "reduce-protection" gate listing each.
+ * Patches that only tighten or are neutral apply immediately.
+ *
+ * Panels therefore never call `askFriction` for a settings edit themselves —
+ * only for actions that are not settings writes (e.g. emergency unlocks).
+ */
+
+import { useCallback, useRef } from "react";
+import type { Settings } from "../../../core/types";
+import type { FrictionPayload } from "../../../core/friction";
+import { diffProtection, type ProtectionReduction } from "../../../core/protectedGate";
+import { lockdownActive, settingsWriteRefusal } from "../../../core/lockdown";
+
+type SettingsUpdate = Partial<Settings> | ((prev: Settings) => Settings);
+
+function payloadFor(reductions: ProtectionReduction[]): FrictionPayload {
+  if (reductions.length === 1) {
+    const [only] = reductions as [ProtectionReduction];
+    return { actionType: only.actionType, label: only.label, domain: only.domain };
+  }
+  return {
+    actionType: "reduce-protection",
+    label: `${reductions.length} protection reductions`,
+    domain: reductions.find((r) => r.domain)?.domain,
+    context: reductions.map((r) => r.label),
+  };
+}
+
+export function useGuardedPatch(
+  settings: Settings,
+  patch: (update: SettingsUpdate) => void,
+  askFriction: (payload: FrictionPayload) => Promise<boolean>,
+): (update: SettingsUpdate) => void {
+  const latestRef = useRef(settings);
+  latestRef.current = settings;
+
+  return useCallback(
+    (update: SettingsUpdate) => {
+      const prev = latestRef.current;
+      const next = typeof update === "function" ? update(prev) : { ...prev, ...update };
+
+      const reductions = diffProtection(prev, next);
+      if (reductions.length === 0) {
+        patch(update);
+        return;
+      }
+
+      // A hard lock refuses the write anyway — let `patch` report it without
+      // making the user sit through a gate first. A lockdown is left to
+      // `askFriction`, which rejects and logs it.
+      const now = Date.now();
+      if (!lockdownActive(prev, now) && settingsWriteRefusal(prev, next, now)) {
+        patch(update);
+        return;
+      }
+
+      void askFriction(payloadFor(reductions)).then((ok) => {
+        if (ok) patch(update);
+      });
+    },
+    [patch, askFriction],
+  );
+}
@@ -2,6 +2,10 @@ import { useCallback, useEffect, useRef, useState } from "react";
 import { getSettings, setSettings as persistSettings } from "../../../core/storage";
 import { DEFAULT_SETTINGS } from "../../../core/types";
 import type { Settings } from "../../../core/types";
+import { settingsWriteRefusal } from "../../../core/lockdown";
+import { rebaseSettings } from "../utils/rebaseSettings";
+
+const KEY_SETTINGS = "jd_settings";
 
 /**
  * Load settings from storage on mount, keep them in React state, and
@@ -9,50 +13,104 @@ import type { Settings } from "../../../core/types";
  *
  * State updates are synchronous (responsive UI); the chrome.storage.local
  * write is deferred 400 ms after the last change so we don't hammer storage.
+ *
+ * A patch that a running hard lock or lockdown forbids is dropped before it reaches state;
+ * `refusal` then holds the reason until `dismissRefusal` is called.
+ *
+ * The background writes settings too (recurring Locked In sessions, credited
+ * Pomodoro cycles). The page follows `jd_settings` changes, and each save
+ * re-applies only the page's own edits on top of what storage holds then
+ * (`rebaseSettings`) — never a stale copy of the rest.
  */
 export function useSettings() {
   const [settings, setSettingsState] = useState<Settings>(DEFAULT_SETTINGS);
   const [loading, setLoading] = useState(true);
+  const [refusal, setRefusal] = useState<string | null>(null);
 
   // Mutable ref to always hold the latest settings value for the debounced save.
   const latestRef = useRef<Settings>(DEFAULT_SETTINGS);
+  // The settings as last read from or written to storage — edits are relative to it.
+  const baseRef = useRef<Settings>(DEFAULT_SETTINGS);
   const timerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
 
   // Initial load
   useEffect(() => {
     getSettings().then((s) => {
+      baseRef.current = s;
       latestRef.current = s;
       setSettingsState(s);
       setLoading(false);
     });
   }, []);
 
+  // Follow writes from other contexts, keeping unsaved edits on top.
+  useEffect(() => {
+    const onChanged = (changes: Record<string, chrome.storage.StorageChange>, areaName: string) => {
+      if (areaName !== "local" || !(KEY_SETTINGS in changes)) return;
+      getSettings().then((stored) => {
+        const next = rebaseSettings(baseRef.current, latestRef.current, stored);
+        baseRef.current = stored;
+        latestRef.current = next;
+        setSettingsState(next);
+      });
+    };
+    chrome.storage.onChanged.addListener(onChanged);
+    return () => chrome.storage.onChanged.removeListener(onChanged);
+  }, []);
+
   /**
    * Apply a shallow patch and schedule a debounced save.
    * Accepts either a partial object or an updater function.
    */
   const patch = useCallback(
     (update: Partial<Settings> | ((prev: Settings) => Settings)) => {
-      setSettingsState((prev) => {
-        const next =
-          typeof update === "function"
-            ? update(prev)
-            : { ...prev, ...update };
+      const prev = latestRef.current;
+      const next =
+        typeof update === "function"
+          ? update(prev)
+          : { ...prev, ...update };
 
-        latestRef.current = next;
+      const reason = settingsWriteRefusal(prev, next, Date.now());
+      if (reason) {
+        setRefusal(reason);
+        return;
+      }
+
+      latestRef.current = next;
+      setSettingsState(next);
 
-        if (timerRef.current) clearTimeout(timerRef.current);
-        timerRef.current = setTimeout(() => {
-          persistSettings(latestRef.current).catch(() => {
+      if (timerRef.current) clearTimeout(timerRef.current);
+      timerRef.current = setTimeout(() => {
+        const local = latestRef.current;
+        // Storage may have moved on since the page last read it.
+        getSettings()
+          .then(async (stored) => {
+            const rebased = rebaseSettings(baseRef.current, local, stored);
+            const result = await persistSettings(rebased);
+            if (result.ok) {
+              baseRef.current = rebased;
+              // Show what was saved, plus any edits made while saving.
+              const current = rebaseSettings(local, latestRef.current, rebased);
+              latestRef.current = current;
+              setSettingsState(current);
+              return;
+            }
+            // Storage moved on under a hard lock or lockdown — show the reason and resync.
+            setRefusal(result.error);
+            const fresh = await getSettings();
+            baseRef.current = fresh;
+            latestRef.current = fresh;
+            setSettingsState(fresh);
+          })
+          .catch(() => {
             // Storage errors are non-fatal for UI; ignore silently.
           });
-        }, 400);
-
-        return next;
-      });
+      }, 400);
     },
     [],
   );
 
-  return { settings, loading, patch };
+  const dismissRefusal = useCallback(() => setRefusal(null), []);
+
+  return { settings, loading, patch, refusal, dismissRefusal };
 }
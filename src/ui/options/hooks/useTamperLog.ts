@@ -0,0 +1,27 @@
+import { useCallback, useEffect, useState } from "react";
+import { getTamperLog } from "../../../core/storage";
+import type { TamperLog } from "../../../core/types";
+import { DEFAULT_TAMPER_LOG } from "../../../core/types";
+
+export interface UseTamperLogResult {
+  log: TamperLog;
+  loading: boolean;
+  refresh: () => void;
+}
+
+export function useTamperLog(): UseTamperLogResult {
+  const [log, setLog] = useState<TamperLog>({ ...DEFAULT_TAMPER_LOG });
+  const [loading, setLoading] = useState(true);
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    setLog(await getTamperLog());
+    setLoading(false);
+  }, []);
+
+  useEffect(() => {
+    void load();
+  }, [load]);
+
+  return { log, loading, refresh: load };
+}
@@ -0,0 +1,54 @@
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { getTimeline } from "../../../core/storage";
+import { getHourlyBuckets, localDayStart } from "../../../core/timeline";
+import type { HourBucket } from "../../../core/timeline";
+import type { TimelineData } from "../../../core/types";
+import { DEFAULT_TIMELINE } from "../../../core/types";
+
+export type TimelineDay = "today" | "yesterday";
+
+export interface UseTimelineResult {
+  day: TimelineDay;
+  setDay: (day: TimelineDay) => void;
+  hours: HourBucket[];
+  /** Up to three hours with the most tracked time, busiest first. */
+  busiestHours: HourBucket[];
+  totalSeconds: number;
+  loading: boolean;
+  refresh: () => void;
+}
+
+export function useTimeline(): UseTimelineResult {
+  const [data, setData] = useState<TimelineData>({ ...DEFAULT_TIMELINE });
+  const [day, setDay] = useState<TimelineDay>("today");
+  const [loading, setLoading] = useState(true);
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    const d = await getTimeline();
+    setData(d);
+    setLoading(false);
+  }, []);
+
+  useEffect(() => {
+    void load();
+  }, [load]);
+
+  const hours = useMemo(
+    () => getHourlyBuckets(data, localDayStart(Date.now(), day === "today" ? 0 : -1)),
+    [data, day],
+  );
+
+  const busiestHours = useMemo(
+    () =>
+      hours
+        .filter((h) => h.seconds > 0)
+        .sort((a, b) => b.seconds - a.seconds)
+        .slice(0, 3),
+    [hours],
+  );
+
+  const totalSeconds = useMemo(() => hours.reduce((s, h) => s + h.seconds, 0), [hours]);
+
+  return { day, setDay, hours, busiestHours, totalSeconds, loading, refresh: load };
+}
@@ -0,0 +1,45 @@
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { getUsage, getUsageHistory } from "../../../core/storage";
+import { queryHistory } from "../../../core/history";
+import type { HistoryQuery } from "../../../core/history";
+import type { UsageHistory, UsageMap } from "../../../core/types";
+import { DEFAULT_USAGE_HISTORY } from "../../../core/types";
+
+export type HistoryRange = 7 | 30 | 90;
+
+export interface UseUsageHistoryResult extends HistoryQuery {
+  range: HistoryRange;
+  setRange: (range: HistoryRange) => void;
+  loading: boolean;
+  refresh: () => void;
+}
+
+/**
+ * Loads the archived usage history plus the live window and derives the
+ * daily series and top domains for the selected 7/30/90-day range.
+ */
+export function useUsageHistory(): UseUsageHistoryResult {
+  const [history, setHistory] = useState<UsageHistory>({ ...DEFAULT_USAGE_HISTORY });
+  const [usage, setUsage] = useState<UsageMap>({});
+  const [range, setRange] = useState<HistoryRange>(7);
+  const [loading, setLoading] = useState(true);
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    const [h, u] = await Promise.all([getUsageHistory(), getUsage()]);
+    setHistory(h);
+    setUsage(u);
+    setLoading(false);
+  }, []);
+
+  useEffect(() => {
+    void load();
+  }, [load]);
+
+  const query = useMemo(
+    () => queryHistory(history, usage, range, Date.now()),
+    [history, usage, range],
+  );
+
+  return { ...query, range, setRange, loading, refresh: load };
+}
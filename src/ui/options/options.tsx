@@ -7,6 +7,7 @@ import "../components/components.css";
 import "./options.css";
 import { useSettings } from "./hooks/useSettings";
 import { useFrictionGate } from "./hooks/useFrictionGate";
+import { useGuardedPatch } from "./hooks/useGuardedPatch";
 import { FrictionContext } from "./context/FrictionContext";
 import { FrictionGate } from "../components/FrictionGate";
 import { ProtectedGate } from "../components/ProtectedGate";
@@ -18,16 +19,22 @@ import { SitesPanel } from "./components/SitesPanel";
 import { ImportExportPanel } from "./components/ImportExportPanel";
 import { AboutPanel } from "./components/AboutPanel";
 import { LockedInPanel } from "./components/LockedInPanel";
+import { EmergencyUnlockPanel } from "./components/EmergencyUnlockPanel";
 import { CategoryPacksPanel } from "./components/CategoryPacksPanel";
+import { TestUrlPanel } from "./components/TestUrlPanel";
 
 function Options() {
   // Initialise from location.hash so popup deep-links work (#rules, #settings, …)
   const [section, setSection] = useState<Section>(resolveInitialSection);
-  const { settings, loading, patch } = useSettings();
-  const { askFriction, gateState, gateHandlers } = useFrictionGate(
+  const { settings, loading, patch, refusal, dismissRefusal } = useSettings();
+  const { askFriction, gateState, gateHandlers, rejection, dismissRejection } = useFrictionGate(
     settings.friction,
     settings.protectedGate,
+    settings.lockdown,
   );
+  const notice = refusal ?? rejection;
+  // Every panel edit goes through the protection diff; see useGuardedPatch.
+  const guardedPatch = useGuardedPatch(settings, patch, askFriction);
 
   const lockedInActive = Boolean(
     settings.lockedInSession?.active && Date.now() < (settings.lockedInSession?.endTs ?? 0),
@@ -48,30 +55,49 @@ function Options() {
         />
 
         <main className="options-panel">
+          {notice && (
+            <div className="options-notice" role="alert">
+              <span>{notice}</span>
+              <button
+                className="btn btn-ghost btn--sm"
+                onClick={() => {
+                  dismissRefusal();
+                  dismissRejection();
+                }}
+              >
+                Dismiss
+              </button>
+            </div>
+          )}
           {section === "rules" && (
-            <DashboardPanel settings={settings} patch={patch} lockedInActive={lockedInActive} />
+            <DashboardPanel settings={settings} patch={guardedPatch} lockedInActive={lockedInActive} />
           )}
           {section === "locked-in" && (
-            <LockedInPanel settings={settings} patch={patch} />
+            <LockedInPanel settings={settings} patch={guardedPatch} />
+          )}
+          {section === "emergency" && (
+            <EmergencyUnlockPanel settings={settings} patch={guardedPatch} />
           )}
           {section === "settings" && (
-            <SettingsPanel settings={settings} patch={patch} />
+            <SettingsPanel settings={settings} patch={guardedPatch} />
           )}
           {section === "groups" && (
-            <GroupsPanel settings={settings} patch={patch} />
+            <GroupsPanel settings={settings} patch={guardedPatch} />
           )}
           {section === "sites" && (
-            <SitesPanel settings={settings} patch={patch} />
+            <SitesPanel settings={settings} patch={guardedPatch} />
           )}
           {section === "reset-window" && (
-            <SettingsPanel settings={settings} patch={patch} />
+            <SettingsPanel settings={settings} patch={guardedPatch} />
           )}
           {section === "packs" && (
-            <CategoryPacksPanel settings={settings} patch={patch} />
+            <CategoryPacksPanel settings={settings} patch={guardedPatch} />
           )}
           {section === "import-export" && (
+            // Imports run their own diff gate before calling importAll.
             <ImportExportPanel settings={settings} patch={patch} />
           )}
+          {section === "test-url" && <TestUrlPanel />}
           {section === "about" && <AboutPanel />}
         </main>
       </div>
@@ -0,0 +1,38 @@
+/**
+ * Pure helper that keeps the options page from writing back a stale copy of
+ * settings.
+ *
+ * The background writes settings on its own — recurring Locked In sessions
+ * starting and ending, credited Pomodoro cycles. The options page holds the
+ * whole object in state, so saving it as-is would undo those writes.
+ */
+
+import type { Settings } from "../../../core/types";
+
+/**
+ * Re-apply the page's edits on top of what storage holds now.
+ *
+ * An edit is a top-level key whose value in `local` differs from `base`, the
+ * settings the page last read from or wrote to storage. Every other key is
+ * taken from `stored`. A key changed on both sides keeps the page's value.
+ *
+ * @example
+ *   // The page edited siteRules while a recurring session started.
+ *   rebaseSettings(loaded, { ...loaded, siteRules }, { ...loaded, lockedInSession })
+ *     → { ...loaded, siteRules, lockedInSession }
+ */
+export function rebaseSettings(base: Settings, local: Settings, stored: Settings): Settings {
+  const next: Settings = { ...stored };
+  const keys = new Set([...Object.keys(base), ...Object.keys(local)]) as Set<keyof Settings>;
+  keys.forEach((key) => {
+    if (JSON.stringify(local[key]) !== JSON.stringify(base[key])) takeField(next, local, key);
+  });
+  return next;
+}
+
+/** Copy `key` from `source` into `target`; a field `source` lacks is removed. */
+function takeField<K extends keyof Settings>(target: Settings, source: Settings, key: K): void {
+  // A field the page cleared (e.g. an ended session) is removed.
+  if (source[key] === undefined) delete target[key];
+  else target[key] = source[key];
+}
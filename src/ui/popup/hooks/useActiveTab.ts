@@ -2,6 +2,8 @@ import { useEffect, useState } from "react";
 
 interface ActiveTabState {
   hostname: string | null;
+  /** Page path of the active tab — used to evaluate path rules. */
+  path: string | null;
   loading: boolean;
   error: string | null;
 }
@@ -17,6 +19,7 @@ interface ActiveTabState {
 export function useActiveTab(): ActiveTabState {
   const [state, setState] = useState<ActiveTabState>({
     hostname: null,
+    path: null,
     loading: true,
     error: null,
   });
@@ -24,28 +27,30 @@ export function useActiveTab(): ActiveTabState {
   useEffect(() => {
     chrome.tabs.query({ active: true, currentWindow: true }, (tabs) => {
       if (chrome.runtime.lastError) {
-        setState({ hostname: null, loading: false, error: chrome.runtime.lastError.message ?? "Unknown error" });
+        setState({ hostname: null, path: null, loading: false, error: chrome.runtime.lastError.message ?? "Unknown error" });
         return;
       }
 
       const tab = tabs[0];
       if (!tab?.url) {
-        setState({ hostname: null, loading: false, error: null });
+        setState({ hostname: null, path: null, loading: false, error: null });
         return;
       }
 
       let hostname: string | null = null;
+      let path: string | null = null;
       try {
         const url = new URL(tab.url);
         // Only track http/https pages — no extension/chrome/about pages
         if (url.protocol === "http:" || url.protocol === "https:") {
           hostname = url.hostname;
+          path = url.pathname;
         }
       } catch {
         // Malformed URL — treat as no hostname
       }
 
-      setState({ hostname, loading: false, error: null });
+      setState({ hostname, path, loading: false, error: null });
     });
   }, []);
 
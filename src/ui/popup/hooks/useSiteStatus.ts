@@ -26,9 +26,9 @@ const IDLE_STATUS: SiteStatus = {
 
 /**
  * Loads settings + usage from storage and computes the block/limit status for
- * the given hostname. Re-runs whenever the hostname changes.
+ * the given hostname (and path, for path rules). Re-runs whenever either changes.
  */
-export function useSiteStatus(hostname: string | null): SiteStatus {
+export function useSiteStatus(hostname: string | null, path?: string | null): SiteStatus {
   const [status, setStatus] = useState<SiteStatus>({ ...IDLE_STATUS, loading: hostname !== null });
 
   useEffect(() => {
@@ -48,8 +48,8 @@ export function useSiteStatus(hostname: string | null): SiteStatus {
           return;
         }
 
-        const state = computeBlockedState(hostname, usage, settings);
-        const policy = resolveEffectivePolicy(hostname, settings);
+        const state = computeBlockedState(hostname, usage, settings, path ?? undefined);
+        const policy = resolveEffectivePolicy(hostname, settings, path ?? undefined);
         const derived = deriveStatus(hostname, state, policy, usage, settings);
 
         setStatus({ loading: false, error: null, ...derived });
@@ -61,7 +61,7 @@ export function useSiteStatus(hostname: string | null): SiteStatus {
           error: err instanceof Error ? err.message : "Failed to load status",
         });
       });
-  }, [hostname]);
+  }, [hostname, path]);
 
   return status;
 }
@@ -9,7 +9,9 @@ import { useDopamineScore } from "./hooks/useDopamineScore";
 import { useSelfControlCount } from "./hooks/useSelfControlCount";
 import { useAllowlistMode } from "./hooks/useAllowlistMode";
 import { getScoreStatus } from "../../core/dopamine";
+import { describePhase, lockedInAllowlistAt, pomodoroPhaseAt } from "../../core/pomodoro";
 import { formatTime } from "./utils/formatTime";
+import { PolicyTester } from "../components/PolicyTester";
 
 function openAt(hash: string) {
   void chrome.tabs.create({
@@ -23,7 +25,7 @@ const MODE_BADGE: Record<string, { label: string; cls: string }> = {
   unrestricted:   { label: "Unrestricted", cls: "popup-mode-badge--free" },
 };
 
-/** Live countdown of seconds remaining in a Locked In session. */
+/** Live countdown of seconds remaining in a Locked In session (or its Pomodoro phase). */
 function useSessionCountdown(endTs: number | null): number {
   const [remaining, setRemaining] = useState<number>(() =>
     endTs ? Math.max(0, Math.floor((endTs - Date.now()) / 1000)) : 0,
@@ -41,15 +43,19 @@ function useSessionCountdown(endTs: number | null): number {
 }
 
 function Popup() {
-  const { hostname, loading: tabLoading, error: tabError } = useActiveTab();
-  const status = useSiteStatus(tabLoading ? null : hostname);
+  const { hostname, path, loading: tabLoading, error: tabError } = useActiveTab();
+  const status = useSiteStatus(tabLoading ? null : hostname, path);
   const { session, loading: sessionLoading } = useLockedInSession();
   const { data: dopamineData, loading: scoreLoading } = useDopamineScore();
   const { count: spikeCount, loading: spikeLoading } = useSelfControlCount();
   const { allowlistMode, loading: allowlistLoading } = useAllowlistMode();
   const loading = tabLoading || status.loading || sessionLoading;
 
-  const sessionRemaining = useSessionCountdown(session?.endTs ?? null);
+  // Re-derived on every countdown tick, so the phase advances on its own.
+  const phase = session ? pomodoroPhaseAt(session, Date.now()) : null;
+  const sessionRemaining = useSessionCountdown(phase?.endTs ?? session?.endTs ?? null);
+  const sessionAllowlist = session ? lockedInAllowlistAt(session, Date.now()) : null;
+  const [testerOpen, setTesterOpen] = useState(false);
 
   const badge = MODE_BADGE[status.mode] ?? MODE_BADGE.unrestricted;
 
@@ -78,7 +84,10 @@ function Popup() {
           <div className="popup-session-info">
             <span className="popup-session-time">{formatTime(sessionRemaining)}</span>
             <span className="popup-session-sub">
-              {session.allowedDomains.length} site{session.allowedDomains.length !== 1 ? "s" : ""} allowed
+              {phase && session.pomodoro ? `${describePhase(phase, session.pomodoro)} · ` : ""}
+              {sessionAllowlist
+                ? `${sessionAllowlist.length} site${sessionAllowlist.length !== 1 ? "s" : ""} allowed`
+                : "normal rules"}
             </span>
           </div>
           <button
@@ -192,6 +201,25 @@ function Popup() {
         </div>
       )}
 
+      {/* Test a URL — explains which rule applies and why */}
+      {!loading && (
+        <div className="popup-tester">
+          <div className="popup-tester-row">
+            <span className="popup-tester-label">Why this status?</span>
+            <button
+              className="btn btn-ghost btn--sm"
+              onClick={() => setTesterOpen((open) => !open)}
+              style={{ fontSize: "var(--text-xs)", padding: "2px var(--sp-2)" }}
+            >
+              {testerOpen ? "Hide" : "Test a URL"}
+            </button>
+          </div>
+          {testerOpen && (
+            <PolicyTester initialUrl={hostname ? `${hostname}${path ?? ""}` : ""} />
+          )}
+        </div>
+      )}
+
       <footer className="popup-footer">
         <button
           className="btn btn-secondary"
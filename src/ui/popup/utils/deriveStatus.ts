@@ -8,6 +8,7 @@
 import type { BlockedState, EffectivePolicy } from "../../../core/policy";
 import type { Settings, UsageMap } from "../../../core/types";
 import { sumUsageUnder, normalizeHostname } from "../../../core/match";
+import { ruleUsageKey } from "../../../core/urlPattern";
 import type { SiteMode, SiteStatus } from "../hooks/useSiteStatus";
 
 export function deriveStatus(
@@ -27,7 +28,10 @@ export function deriveStatus(
 
   // Aggregate usage for the relevant rule domain / group / hostname
   let activeSeconds = 0;
-  if (policy?.reason === "site-rule" && policy.configuredDomain) {
+  if (policy?.reason === "site-rule" && policy.configuredDomain && policy.configuredPath) {
+    const key = ruleUsageKey(policy.configuredDomain, policy.configuredPath);
+    activeSeconds = usage[key]?.activeSeconds ?? 0;
+  } else if (policy?.reason === "site-rule" && policy.configuredDomain) {
     activeSeconds = sumUsageUnder(policy.configuredDomain, usage);
   } else if (policy?.reason === "group" && policy.groupId) {
     const group = settings.groups.find((g) => g.id === policy.groupId);
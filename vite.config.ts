@@ -10,6 +10,8 @@ export default defineConfig({
       additionalInputs: [
         "src/content/overlay.ts",
         "src/content/iframeBlocker.ts",
+        "src/content/linkGuard.ts",
+        "src/content/linkAnnotator.ts",
         "src/ui/onboarding/onboarding.html",
       ],
     }),